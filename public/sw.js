@@ -3,8 +3,8 @@
  *
  * Provides:
  * - Offline app shell caching
- * - Background sync for messages (future)
- * - Push notifications (future)
+ * - Background sync for messages queued offline (the outbox)
+ * - Push notifications for new messages, opening the chat when tapped
  */
 
 const CACHE_NAME = "bridge-chat-v1";
@@ -101,7 +101,7 @@ self.addEventListener("fetch", (event) => {
   );
 });
 
-// Handle push notifications (future)
+// Handle push notifications for new messages (see PushNotificationPayload)
 self.addEventListener("push", (event) => {
   if (!event.data) return;
 
@@ -109,34 +109,153 @@ self.addEventListener("push", (event) => {
 
   const options = {
     body: data.body,
-    icon: "/icons/icon-192.png",
-    badge: "/icons/badge-72.png",
+    icon: "/icons/icon.svg",
     tag: data.tag || "default",
+    // Alert again when a newer message replaces the chat's notification
+    renotify: Boolean(data.tag),
     data: data.data,
   };
 
   event.waitUntil(self.registration.showNotification(data.title, options));
 });
 
-// Handle notification clicks
+// Handle notification clicks - open the chat the notification is about
 self.addEventListener("notificationclick", (event) => {
   event.notification.close();
 
-  const urlToOpen = event.notification.data?.url || "/chats";
+  const urlToOpen = new URL(
+    event.notification.data?.url || "/chats",
+    self.location.origin
+  ).href;
 
   event.waitUntil(
-    clients.matchAll({ type: "window" }).then((clientList) => {
-      // Check if already open
-      for (const client of clientList) {
-        if (client.url.includes(urlToOpen) && "focus" in client) {
-          return client.focus();
+    clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clientList) => {
+        // Focus the chat if it's already open
+        for (const client of clientList) {
+          if (client.url === urlToOpen && "focus" in client) {
+            return client.focus();
+          }
+        }
+
+        // Otherwise reuse an open app window
+        for (const client of clientList) {
+          if ("navigate" in client) {
+            return client.navigate(urlToOpen).then((c) => c && c.focus());
+          }
         }
+
+        // Open new window
+        if (clients.openWindow) {
+          return clients.openWindow(urlToOpen);
+        }
+      })
+  );
+});
+
+// ============================================================================
+// Outbox background sync
+// Must match the database in src/data/outbox
+// ============================================================================
+
+const OUTBOX_DB_NAME = "bridge-chat-outbox";
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = "messages";
+const OUTBOX_SYNC_TAG = "message-outbox";
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, {
+        keyPath: "clientId",
+      });
+      store.createIndex("groupId", "groupId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function outboxRequest(db, mode, operation) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = operation(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Let open chats refresh their pending messages
+function notifyOutboxChanged() {
+  return clients.matchAll({ type: "window" }).then((clientList) => {
+    for (const client of clientList) {
+      client.postMessage({ type: "outbox-changed" });
+    }
+  });
+}
+
+// Send queued messages oldest first. Sent messages are removed and refused
+// ones marked failed; anything else throws so the browser retries later.
+// Client IDs make a resend of an already-sent message harmless. Each
+// message names its sender, and the server won't post it as anyone else
+// (409): it stays queued for its sender's next session.
+async function flushOutbox() {
+  const db = await openOutbox();
+
+  try {
+    const records = await outboxRequest(db, "readonly", (store) =>
+      store.getAll()
+    );
+    const queued = records
+      .filter((record) => record.status === "queued")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const record of queued) {
+      const response = await fetch("/api/messages", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "same-origin",
+        body: JSON.stringify({
+          groupId: record.groupId,
+          content: record.content,
+          attachments: record.attachments,
+          clientId: record.clientId,
+          senderUserId: record.senderUserId,
+        }),
+      });
+
+      if (response.status === 409) {
+        continue;
       }
 
-      // Open new window
-      if (clients.openWindow) {
-        return clients.openWindow(urlToOpen);
+      if (response.ok) {
+        await outboxRequest(db, "readwrite", (store) =>
+          store.delete(record.clientId)
+        );
+      } else if (response.status >= 400 && response.status < 500 && response.status !== 401) {
+        const body = await response.json().catch(() => ({}));
+        await outboxRequest(db, "readwrite", (store) =>
+          store.put({
+            ...record,
+            status: "failed",
+            error: body.error || "Failed to send message",
+          })
+        );
+      } else {
+        throw new Error(`Outbox sync failed: ${response.status}`);
       }
-    })
-  );
+
+      await notifyOutboxChanged();
+    }
+  } finally {
+    db.close();
+  }
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
 });
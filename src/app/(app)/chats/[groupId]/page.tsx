@@ -10,6 +10,7 @@ import { GroupRepository, MessageRepository } from "@/data/repositories";
 import { requireAuth } from "@/application/actions";
 import { ChatView } from "@/presentation/components/chat/chat-view";
 import { asGroupId, asUserId } from "@/domain/types";
+import { MESSAGES_PAGE_SIZE } from "@/lib/constants";
 
 interface ChatPageProps {
   params: Promise<{ groupId: string }>;
@@ -30,15 +31,16 @@ export default async function ChatPage({ params }: ChatPageProps) {
     notFound();
   }
 
-  // Fetch initial messages
-  const messages = await messageRepo.getByGroupId(asGroupId(groupId), {
-    limit: 50,
+  // Fetch the latest page; older ones load as the user scrolls up
+  const page = await messageRepo.getPageByGroupId(asGroupId(groupId), {
+    limit: MESSAGES_PAGE_SIZE,
   });
 
   return (
     <ChatView
       group={group}
-      initialMessages={messages}
+      initialMessages={page.messages}
+      initialOlderCursor={page.olderCursor}
       currentUserId={asUserId(user.id)}
     />
   );
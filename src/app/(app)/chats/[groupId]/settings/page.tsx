@@ -5,21 +5,62 @@
 import { notFound } from "next/navigation";
 import Link from "next/link";
 import { createServerSupabaseClient } from "@/data/supabase/server";
-import { GroupRepository } from "@/data/repositories";
+import {
+  GroupRepository,
+  PendingInboundRepository,
+  BlockedNumberRepository,
+  SmsRouteRepository,
+  TwilioNumberRepository,
+  GroupInvitationRepository,
+} from "@/data/repositories";
 import { requireAuth } from "@/application/actions";
 import { PageHeader } from "@/presentation/components/layout/page-header";
 import { AddParticipantForm } from "@/presentation/components/groups/add-participant-form";
+import { NotificationSettingsSelect } from "@/presentation/components/groups/notification-settings-select";
 import {
   RemoveMemberButton,
   AddAppUserForm,
-  EditTwilioNumberForm,
   DeleteGroupButton,
+  PendingRequestCard,
+  BlockMemberButton,
+  BlockNumberForm,
+  UnblockNumberButton,
+  InviteForm,
+  CopyInviteLinkButton,
+  RevokeInvitationButton,
+  InviteToAppButton,
+  MemberRoleSelect,
 } from "@/presentation/components/groups/group-settings-client";
 import { Button } from "@/presentation/components/ui/button";
 import { Avatar } from "@/presentation/components/ui/avatar";
 import { Badge } from "@/presentation/components/ui/badge";
-import { asGroupId, asUserId } from "@/domain/types";
+import {
+  asGroupId,
+  asUserId,
+  groupPendingBySender,
+  getBlockScope,
+  isOptedOut,
+  isSmsMuted,
+  getInvitationStatus,
+  canChangeMemberRole,
+  canTransferOwnership,
+  INVITATION_TTL_DAYS,
+  type GroupMemberRole,
+  type InvitationStatus,
+} from "@/domain/types";
 import { formatPhoneForDisplay } from "@/domain/validators";
+import { getInviteUrl } from "@/lib/invite-token";
+import { formatChatListTime } from "@/lib/date";
+
+const INVITATION_STATUS_BADGES: Record<
+  InvitationStatus,
+  "secondary" | "success" | "outline" | "warning"
+> = {
+  pending: "secondary",
+  accepted: "success",
+  revoked: "outline",
+  expired: "warning",
+};
 
 interface GroupSettingsPageProps {
   params: Promise<{ groupId: string }>;
@@ -47,6 +88,43 @@ export default async function GroupSettingsPage({
   const isOwner = currentUserRole === "owner";
   const isAdmin = currentUserRole === "admin";
   const canManageMembers = isOwner || isAdmin;
+  const currentMember = group.members.find(
+    (m) => m.participant.kind === "app_user" && m.participant.id === user.id
+  );
+
+  // Numbers bought for this group (shared pool numbers aren't listed)
+  const groupNumbers = await new TwilioNumberRepository(supabase).getByGroup(
+    asGroupId(groupId)
+  );
+
+  // The pool number each SMS participant texts this group through
+  const routeRepo = new SmsRouteRepository(supabase);
+  const twilioNumberByPhone = new Map(
+    (await routeRepo.getByGroup(asGroupId(groupId))).map((route) => [
+      route.phoneNumber,
+      route.twilioNumber,
+    ])
+  );
+
+  // Texts from unknown senders awaiting review (Owner/Admin only)
+  const pendingRepo = new PendingInboundRepository(supabase);
+  const requests = canManageMembers
+    ? groupPendingBySender(await pendingRepo.getPendingByGroup(asGroupId(groupId)))
+    : [];
+
+  // Blocked numbers: the group's, plus the owner's own blocks (Owner/Admin only)
+  const blockedRepo = new BlockedNumberRepository(supabase);
+  const blockedNumbers = canManageMembers
+    ? [
+        ...(await blockedRepo.getByGroup(asGroupId(groupId))),
+        ...(isOwner ? await blockedRepo.getByUser(asUserId(user.id)) : []),
+      ]
+    : [];
+
+  // Invitations by link (Owner/Admin only)
+  const invitations = canManageMembers
+    ? await new GroupInvitationRepository(supabase).getByGroup(asGroupId(groupId))
+    : [];
 
   return (
     <div className="flex flex-col h-full">
@@ -68,19 +146,55 @@ export default async function GroupSettingsPage({
             <Avatar fallback={group.name} size="lg" />
             <div className="flex-1">
               <h2 className="text-lg font-semibold">{group.name}</h2>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <span>Twilio: {formatPhoneForDisplay(group.twilioPhoneNumber)}</span>
-                {isOwner && (
-                  <EditTwilioNumberForm
-                    groupId={groupId}
-                    currentNumber={group.twilioPhoneNumber}
-                  />
-                )}
-              </div>
+              {groupNumbers.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Number:{" "}
+                  {groupNumbers
+                    .map((number) => formatPhoneForDisplay(number.phoneNumber))
+                    .join(", ")}
+                </p>
+              )}
             </div>
           </div>
         </section>
 
+        {/* Notifications */}
+        {currentMember && (
+          <section className="space-y-4">
+            <h3 className="font-medium">Notifications</h3>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Choose which messages in this group notify you, or mute it
+                for a while.
+              </p>
+              <NotificationSettingsSelect
+                groupId={groupId}
+                preferences={currentMember.notifications}
+              />
+            </div>
+          </section>
+        )}
+
+        {/* Requests from unknown senders (Owner/Admin only) */}
+        {canManageMembers && requests.length > 0 && (
+          <section className="space-y-4">
+            <h3 className="font-medium">Requests ({requests.length})</h3>
+            <p className="text-sm text-muted-foreground">
+              Texts to this group from numbers that aren&apos;t members.
+              Approve to add the sender and show their messages in the chat.
+            </p>
+            <div className="space-y-2">
+              {requests.map((request) => (
+                <PendingRequestCard
+                  key={request.phoneNumber}
+                  groupId={groupId}
+                  request={request}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Members */}
         <section className="space-y-4">
           <h3 className="font-medium">Members ({group.members.length})</h3>
@@ -94,6 +208,27 @@ export default async function GroupSettingsPage({
               const isMemberOwner = member.role === "owner";
               const canRemove =
                 canManageMembers && !isCurrentUser && !isMemberOwner;
+              const twilioNumber =
+                member.participant.kind === "sms_participant"
+                  ? twilioNumberByPhone.get(member.participant.phoneNumber)
+                  : undefined;
+              // Roles the current user can give this app member
+              const roleOptions: GroupMemberRole[] =
+                currentUserRole &&
+                memberType === "app_user" &&
+                !isCurrentUser &&
+                !isMemberOwner
+                  ? [
+                      ...(["member", "admin"] as const).filter(
+                        (role) =>
+                          role === member.role ||
+                          canChangeMemberRole(currentUserRole, member.role, role)
+                      ),
+                      ...(canTransferOwnership(currentUserRole)
+                        ? (["owner"] as const)
+                        : []),
+                    ]
+                  : [];
 
               return (
                 <div
@@ -119,16 +254,50 @@ export default async function GroupSettingsPage({
                     {member.participant.kind === "sms_participant" && (
                       <p className="text-sm text-muted-foreground">
                         {formatPhoneForDisplay(member.participant.phoneNumber)}
+                        {twilioNumber &&
+                          ` · texts ${formatPhoneForDisplay(twilioNumber)}`}
                       </p>
                     )}
                   </div>
                   <div className="flex items-center gap-2">
-                    {member.role !== "member" && (
-                      <Badge variant="secondary">{member.role}</Badge>
+                    {roleOptions.length > 1 ? (
+                      <MemberRoleSelect
+                        groupId={groupId}
+                        memberId={memberId}
+                        memberName={member.participant.displayName}
+                        role={member.role}
+                        roles={roleOptions}
+                      />
+                    ) : (
+                      member.role !== "member" && (
+                        <Badge variant="secondary">{member.role}</Badge>
+                      )
                     )}
                     {member.participant.kind === "sms_participant" && (
                       <Badge variant="outline">SMS</Badge>
                     )}
+                    {isOptedOut(member) && (
+                      <Badge variant="warning">opted out</Badge>
+                    )}
+                    {isSmsMuted(member) && (
+                      <Badge variant="secondary">muted</Badge>
+                    )}
+                    {canManageMembers &&
+                      member.participant.kind === "sms_participant" &&
+                      !isOptedOut(member) && (
+                        <InviteToAppButton
+                          groupId={groupId}
+                          smsParticipantId={memberId}
+                        />
+                      )}
+                    {canRemove &&
+                      member.participant.kind === "sms_participant" && (
+                        <BlockMemberButton
+                          groupId={groupId}
+                          phoneNumber={member.participant.phoneNumber}
+                          memberName={member.participant.displayName}
+                        />
+                      )}
                     {canRemove && (
                       <RemoveMemberButton
                         groupId={groupId}
@@ -152,6 +321,60 @@ export default async function GroupSettingsPage({
           </section>
         )}
 
+        {/* Invitations (Owner/Admin only) */}
+        {canManageMembers && (
+          <section className="space-y-4">
+            <h3 className="font-medium">Invite by Email</h3>
+            <p className="text-sm text-muted-foreground">
+              Create a link for someone without an account. It works once,
+              for an account with that email, for {INVITATION_TTL_DAYS} days.
+              Use &quot;Invite to App&quot; on an SMS member to text them a
+              link that moves them onto the app.
+            </p>
+            <InviteForm groupId={groupId} canInviteAdmins={isOwner} />
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                {invitations.map((invitation) => {
+                  const status = getInvitationStatus(invitation);
+                  return (
+                    <div
+                      key={invitation.id}
+                      className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">
+                          {invitation.phoneNumber
+                            ? formatPhoneForDisplay(invitation.phoneNumber)
+                            : invitation.email}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {invitation.phoneNumber ? "Texted" : "Invited"}{" "}
+                          {formatChatListTime(invitation.createdAt)}
+                          {invitation.role === "admin" && " as admin"}
+                        </p>
+                      </div>
+                      <Badge variant={INVITATION_STATUS_BADGES[status]}>
+                        {status}
+                      </Badge>
+                      {status === "pending" && (
+                        <>
+                          <CopyInviteLinkButton
+                            inviteUrl={getInviteUrl(invitation.id)}
+                          />
+                          <RevokeInvitationButton
+                            groupId={groupId}
+                            invitationId={invitation.id}
+                          />
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </section>
+        )}
+
         {/* Add SMS Participant (Owner/Admin only) */}
         {canManageMembers && (
           <section className="space-y-4">
@@ -160,6 +383,39 @@ export default async function GroupSettingsPage({
           </section>
         )}
 
+        {/* Blocked Numbers (Owner/Admin only) */}
+        {canManageMembers && (
+          <section className="space-y-4">
+            <h3 className="font-medium">Blocked Numbers</h3>
+            <p className="text-sm text-muted-foreground">
+              Blocked numbers are removed from the group, their texts are
+              dropped, and they&apos;re never texted from this group.
+            </p>
+            {blockedNumbers.length > 0 && (
+              <div className="space-y-2">
+                {blockedNumbers.map((blocked) => (
+                  <div
+                    key={blocked.id}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50"
+                  >
+                    <p className="flex-1 font-medium">
+                      {formatPhoneForDisplay(blocked.phoneNumber)}
+                    </p>
+                    {getBlockScope(blocked) === "user" && (
+                      <Badge variant="outline">All my groups</Badge>
+                    )}
+                    <UnblockNumberButton
+                      groupId={groupId}
+                      blockedNumberId={blocked.id}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <BlockNumberForm groupId={groupId} canBlockForAllGroups={isOwner} />
+          </section>
+        )}
+
         {/* Danger Zone (Owner only) */}
         {isOwner && (
           <section className="space-y-4 pt-6 border-t border-destructive/20">
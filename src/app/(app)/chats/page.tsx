@@ -11,7 +11,7 @@ import { PageHeader } from "@/presentation/components/layout/page-header";
 import { ChatList } from "@/presentation/components/groups/chat-list";
 import { Button } from "@/presentation/components/ui/button";
 import { Spinner } from "@/presentation/components/ui/spinner";
-import type { GroupId } from "@/domain/types";
+import { asUserId, type GroupId } from "@/domain/types";
 
 export default async function ChatsPage() {
   return (
@@ -39,7 +39,7 @@ export default async function ChatsPage() {
 }
 
 async function ChatsListContent() {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
 
   const groupRepo = new GroupRepository(supabase);
@@ -49,11 +49,15 @@ async function ChatsListContent() {
   const lastMessages = await messageRepo.getLatestByGroups(
     groups.map((g) => g.id as GroupId)
   );
+  const notificationPreferences = await groupRepo.getNotificationPreferences(
+    asUserId(user.id)
+  );
 
   return (
     <ChatList
       groups={groups}
       lastMessages={lastMessages}
+      notificationPreferences={notificationPreferences}
       className="flex-1 overflow-y-auto"
     />
   );
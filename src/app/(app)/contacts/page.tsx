@@ -41,7 +41,7 @@ async function ContactsListContent() {
   const supabase = await createServerSupabaseClient();
 
   const smsRepo = new SmsParticipantRepository(supabase);
-  const participants = await smsRepo.getByCreator(asUserId(user.id));
+  const participants = await smsRepo.getContacts(asUserId(user.id));
 
   if (participants.length === 0) {
     return (
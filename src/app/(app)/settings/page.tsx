@@ -4,12 +4,17 @@
 
 import { Suspense } from "react";
 import { createServerSupabaseClient } from "@/data/supabase/server";
-import { ProfileRepository } from "@/data/repositories";
-import { requireAuth, signOut } from "@/application/actions";
+import {
+  ProfileRepository,
+  SmsParticipantRepository,
+} from "@/data/repositories";
+import { requireAuth } from "@/application/actions";
 import { PageHeader } from "@/presentation/components/layout/page-header";
 import { ProfileForm } from "@/presentation/components/settings/profile-form";
+import { LinkSmsIdentity } from "@/presentation/components/settings/link-sms-identity";
+import { PushNotificationToggle } from "@/presentation/components/settings/push-notification-toggle";
+import { SignOutButton } from "@/presentation/components/settings/sign-out-button";
 import { Avatar } from "@/presentation/components/ui/avatar";
-import { Button } from "@/presentation/components/ui/button";
 import { Spinner } from "@/presentation/components/ui/spinner";
 import { asUserId } from "@/domain/types";
 import { APP_NAME } from "@/lib/constants";
@@ -39,6 +44,12 @@ async function SettingsContent() {
   const profileRepo = new ProfileRepository(supabase);
   const profile = await profileRepo.getById(asUserId(user.id));
 
+  // Groups the user's verified phone is in by text
+  const smsRepo = new SmsParticipantRepository(supabase);
+  const linkableGroups = profile?.phoneVerifiedAt
+    ? await smsRepo.getLinkableGroups()
+    : [];
+
   if (!profile) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -61,25 +72,32 @@ async function SettingsContent() {
           />
           <div>
             <p className="font-medium">{profile.displayName}</p>
-            <p className="text-sm text-muted-foreground">{profile.email}</p>
+            <p className="text-sm text-muted-foreground">
+              {profile.email ?? profile.phoneNumber}
+            </p>
           </div>
         </div>
 
         <ProfileForm
           defaultDisplayName={profile.displayName}
           defaultPhoneNumber={profile.phoneNumber}
+          phoneVerified={profile.phoneVerifiedAt !== null}
         />
+
+        {linkableGroups.length > 0 && <LinkSmsIdentity groups={linkableGroups} />}
+      </section>
+
+      {/* Notifications Section */}
+      <section className="space-y-4">
+        <h2 className="font-medium">Notifications</h2>
+        <PushNotificationToggle />
       </section>
 
       {/* Account Section */}
       <section className="space-y-4">
         <h2 className="font-medium">Account</h2>
 
-        <form action={signOut}>
-          <Button type="submit" variant="outline">
-            Sign Out
-          </Button>
-        </form>
+        <SignOutButton />
       </section>
 
       {/* About Section */}
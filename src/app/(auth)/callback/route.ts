@@ -6,16 +6,18 @@
 
 import { NextResponse } from "next/server";
 import { createServerSupabaseClient } from "@/data/supabase/server";
+import { getSafeRedirectPath } from "@/lib/redirect";
 
 export async function GET(request: Request) {
   const requestUrl = new URL(request.url);
   const code = requestUrl.searchParams.get("code");
+  const next = getSafeRedirectPath(requestUrl.searchParams.get("next"));
 
   if (code) {
     const supabase = await createServerSupabaseClient();
     await supabase.auth.exchangeCodeForSession(code);
   }
 
-  // Redirect to chats after successful auth
-  return NextResponse.redirect(new URL("/chats", requestUrl.origin));
+  // Redirect to "next" (e.g. an invitation) or chats after successful auth
+  return NextResponse.redirect(new URL(next ?? "/chats", requestUrl.origin));
 }
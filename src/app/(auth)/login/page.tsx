@@ -4,7 +4,7 @@
  * Login Page
  */
 
-import { useState } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/presentation/components/ui/button";
@@ -12,7 +12,13 @@ import { Input } from "@/presentation/components/ui/input";
 import { signIn } from "@/application/actions";
 import { APP_NAME } from "@/lib/constants";
 
-export default function LoginPage() {
+interface LoginPageProps {
+  /** "next": path to open after signing in, e.g. an invitation */
+  searchParams: Promise<{ next?: string }>;
+}
+
+export default function LoginPage({ searchParams }: LoginPageProps) {
+  const { next } = use(searchParams);
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -43,6 +49,8 @@ export default function LoginPage() {
         </div>
 
         <form action={handleSubmit} className="space-y-4">
+          {next && <input type="hidden" name="next" value={next} />}
+
           <div>
             <label htmlFor="email" className="block text-sm font-medium mb-1">
               Email
@@ -83,9 +91,18 @@ export default function LoginPage() {
           </Button>
         </form>
 
+        <Link href="/login/phone" className="block">
+          <Button variant="outline" className="w-full">
+            Sign in with phone number
+          </Button>
+        </Link>
+
         <p className="text-center text-sm text-muted-foreground">
           Don&apos;t have an account?{" "}
-          <Link href="/signup" className="text-primary hover:underline">
+          <Link
+            href={next ? `/signup?next=${encodeURIComponent(next)}` : "/signup"}
+            className="text-primary hover:underline"
+          >
             Sign up
           </Link>
         </p>
@@ -0,0 +1,178 @@
+"use client";
+
+/**
+ * Phone Login Page
+ *
+ * Passwordless sign-in with a code texted to the user's phone.
+ * New numbers get an account on first sign-in. SMS invitation links open
+ * this page with the invitee's number ("phone") and the invitation ("next").
+ */
+
+import { use, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/presentation/components/ui/button";
+import { Input } from "@/presentation/components/ui/input";
+import { sendPhoneSignInCode, verifyPhoneSignInCode } from "@/application/actions";
+import { VERIFICATION_CODE_LENGTH } from "@/domain/types";
+import { APP_NAME } from "@/lib/constants";
+
+interface PhoneLoginPageProps {
+  searchParams: Promise<{
+    /** Number to prefill */
+    phone?: string;
+    /** Path to open after signing in, e.g. an invitation */
+    next?: string;
+  }>;
+}
+
+export default function PhoneLoginPage({ searchParams }: PhoneLoginPageProps) {
+  const { phone, next } = use(searchParams);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set once a code has been sent to this number
+  const [phoneNumber, setPhoneNumber] = useState<string | null>(null);
+
+  async function handleSendCode(formData: FormData) {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await sendPhoneSignInCode(formData);
+
+    setIsLoading(false);
+
+    if (result.success) {
+      setPhoneNumber(formData.get("phoneNumber") as string);
+    } else {
+      setError(result.error || "Failed to send code");
+    }
+  }
+
+  async function handleVerify(formData: FormData) {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await verifyPhoneSignInCode(formData);
+      if (!result.success) {
+        setError(result.error || "Failed to sign in");
+        setIsLoading(false);
+      }
+      // On success, verifyPhoneSignInCode redirects to "next" or /chats
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+      setIsLoading(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-6">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold">{APP_NAME}</h1>
+          <p className="text-muted-foreground mt-2">
+            {phoneNumber
+              ? `Enter the code we texted to ${phoneNumber}`
+              : phone
+                ? "Sign up with your phone number"
+                : "Sign in with your phone number"}
+          </p>
+        </div>
+
+        {phoneNumber ? (
+          <form action={handleVerify} className="space-y-4">
+            <input type="hidden" name="phoneNumber" value={phoneNumber} />
+            {next && <input type="hidden" name="next" value={next} />}
+
+            <div>
+              <label htmlFor="code" className="block text-sm font-medium mb-1">
+                Code
+              </label>
+              <Input
+                id="code"
+                name="code"
+                inputMode="numeric"
+                placeholder="123456"
+                maxLength={VERIFICATION_CODE_LENGTH}
+                required
+                disabled={isLoading}
+                autoComplete="one-time-code"
+              />
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Signing in..." : "Sign In"}
+            </Button>
+
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={() => {
+                setPhoneNumber(null);
+                setError(null);
+              }}
+              disabled={isLoading}
+            >
+              Use a different number
+            </Button>
+          </form>
+        ) : (
+          <form action={handleSendCode} className="space-y-4">
+            <div>
+              <label
+                htmlFor="phoneNumber"
+                className="block text-sm font-medium mb-1"
+              >
+                Phone Number
+              </label>
+              <Input
+                id="phoneNumber"
+                name="phoneNumber"
+                type="tel"
+                placeholder="+14155551234"
+                defaultValue={phone}
+                required
+                disabled={isLoading}
+                autoComplete="tel"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor="displayName"
+                className="block text-sm font-medium mb-1"
+              >
+                Display Name
+              </label>
+              <Input
+                id="displayName"
+                name="displayName"
+                placeholder="Your Name"
+                disabled={isLoading}
+                autoComplete="name"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Only needed the first time you sign in
+              </p>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isLoading}>
+              {isLoading ? "Sending code..." : "Text Me a Code"}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-muted-foreground">
+          Have a password?{" "}
+          <Link href="/login" className="text-primary hover:underline">
+            Sign in with email
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
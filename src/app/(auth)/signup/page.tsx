@@ -4,7 +4,7 @@
  * Signup Page
  */
 
-import { useState } from "react";
+import { use, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { Button } from "@/presentation/components/ui/button";
@@ -12,7 +12,13 @@ import { Input } from "@/presentation/components/ui/input";
 import { signUp } from "@/application/actions";
 import { APP_NAME } from "@/lib/constants";
 
-export default function SignupPage() {
+interface SignupPageProps {
+  /** "next": path to open after signing in, e.g. an invitation */
+  searchParams: Promise<{ next?: string }>;
+}
+
+export default function SignupPage({ searchParams }: SignupPageProps) {
+  const { next } = use(searchParams);
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -42,7 +48,7 @@ export default function SignupPage() {
             We&apos;ve sent you a confirmation link. Please check your email to
             complete signup.
           </p>
-          <Link href="/login">
+          <Link href={next ? `/login?next=${encodeURIComponent(next)}` : "/login"}>
             <Button variant="outline">Back to Login</Button>
           </Link>
         </div>
@@ -59,6 +65,8 @@ export default function SignupPage() {
         </div>
 
         <form action={handleSubmit} className="space-y-4">
+          {next && <input type="hidden" name="next" value={next} />}
+
           <div>
             <label
               htmlFor="displayName"
@@ -119,9 +127,18 @@ export default function SignupPage() {
           </Button>
         </form>
 
+        <Link href="/login/phone" className="block">
+          <Button variant="outline" className="w-full">
+            Sign up with phone number
+          </Button>
+        </Link>
+
         <p className="text-center text-sm text-muted-foreground">
           Already have an account?{" "}
-          <Link href="/login" className="text-primary hover:underline">
+          <Link
+            href={next ? `/login?next=${encodeURIComponent(next)}` : "/login"}
+            className="text-primary hover:underline"
+          >
             Sign in
           </Link>
         </p>
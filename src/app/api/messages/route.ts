@@ -0,0 +1,65 @@
+/**
+ * Messages API Route
+ *
+ * Sends a message for the signed-in user. The service worker uses this to
+ * flush the offline outbox during Background Sync, where server actions
+ * can't be called. Each message carries its client ID, so a retry of a
+ * send that already went through returns the existing message.
+ *
+ * Responses: 200 sent, 401 signed out (retry later), 409 signed in as
+ * someone other than the message's sender (leave it queued), 503 failed
+ * temporarily (retry later), 403/422 refused (don't retry).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser, sendMessage } from "@/application/actions";
+import type { NewMessageAttachment } from "@/domain/types";
+
+interface SendMessageRequest {
+  groupId: string;
+  content: string;
+  attachments?: NewMessageAttachment[];
+  clientId: string;
+  /** The account that queued the message; it's never sent as anyone else */
+  senderUserId?: string;
+}
+
+export async function POST(request: NextRequest) {
+  const user = await getCurrentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const {
+    groupId,
+    content,
+    attachments = [],
+    clientId,
+    senderUserId,
+  }: SendMessageRequest = await request.json();
+
+  if (!groupId || typeof content !== "string" || !clientId) {
+    return NextResponse.json(
+      { error: "Missing groupId, content or clientId" },
+      { status: 422 }
+    );
+  }
+
+  if (senderUserId && senderUserId !== user.id) {
+    return NextResponse.json(
+      { error: "Queued by a different account" },
+      { status: 409 }
+    );
+  }
+
+  const result = await sendMessage(groupId, content, attachments, clientId);
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error || "Failed to send message" },
+      { status: result.forbidden ? 403 : result.retryable ? 503 : 422 }
+    );
+  }
+
+  return NextResponse.json({ message: result.message });
+}
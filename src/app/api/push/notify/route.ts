@@ -0,0 +1,79 @@
+/**
+ * Push Notify API Route
+ *
+ * Sends push notifications for a new message. Called by the database's
+ * on_message_created_push trigger (pg_net) with PUSH_NOTIFY_SECRET as a
+ * bearer token.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabaseClient } from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import {
+  GroupRepository,
+  MessageRepository,
+  PushSubscriptionRepository,
+} from "@/data/repositories";
+import { isWebPushConfigured } from "@/data/web-push";
+import { PushNotifier } from "@/application/services";
+import { serverEnv } from "@/lib/env";
+import { asMessageId } from "@/domain/types";
+
+interface PushNotifyRequest {
+  messageId: string;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorized(request.headers.get("Authorization"))) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isWebPushConfigured()) {
+    return NextResponse.json({ skipped: true });
+  }
+
+  try {
+    const { messageId }: PushNotifyRequest = await request.json();
+
+    if (!messageId) {
+      return NextResponse.json({ error: "Missing messageId" }, { status: 400 });
+    }
+
+    // Use service client: recipients' subscriptions aren't visible to anyone else.
+    // Repositories are typed for the RLS client; the API is the same.
+    const supabase = createServiceSupabaseClient() as unknown as SupabaseClient;
+    const notifier = new PushNotifier(
+      new GroupRepository(supabase),
+      new MessageRepository(supabase),
+      new PushSubscriptionRepository(supabase)
+    );
+
+    const result = await notifier.notifyNewMessage(asMessageId(messageId));
+    if (!result) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+
+    console.log(
+      `Push for message ${messageId}: ${result.sent} sent, ${result.removed} expired`
+    );
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Push notify error:", error);
+    return NextResponse.json(
+      { error: "Failed to send notifications" },
+      { status: 500 }
+    );
+  }
+}
+
+function isAuthorized(header: string | null): boolean {
+  if (!serverEnv.pushNotifySecret || !header) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${serverEnv.pushNotifySecret}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
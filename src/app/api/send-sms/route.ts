@@ -7,10 +7,27 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createServiceSupabaseClient } from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import { MessageDeliveryRepository } from "@/data/repositories";
+import { env, serverEnv } from "@/lib/env";
+import { isRetryableTwilioError } from "@/lib/twilio-errors";
+import {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  MEDIA_URL_EXPIRY_SECONDS,
+  buildOutboundSms,
+  asMessageId,
+  asSmsParticipantId,
+  asTwilioMessageSid,
+  isDeliveryFailed,
+  type DeliveryStatus,
+  type OutboundMedia,
+} from "@/domain/types";
 
 interface SendSmsRequest {
   messageId: string;
   groupId: string;
+  /** Re-send only to recipients whose delivery failed */
+  retry?: boolean;
 }
 
 export async function POST(request: NextRequest) {
@@ -28,7 +45,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse request
-    const { messageId, groupId }: SendSmsRequest = await request.json();
+    const { messageId, groupId, retry = false }: SendSmsRequest =
+      await request.json();
 
     if (!messageId || !groupId) {
       return NextResponse.json(
@@ -41,6 +59,10 @@ export async function POST(request: NextRequest) {
 
     // Use service client to bypass RLS
     const supabase = createServiceSupabaseClient();
+    // Repositories are typed for the RLS client; the API is the same.
+    const deliveryRepo = new MessageDeliveryRepository(
+      supabase as unknown as SupabaseClient
+    );
 
     // Fetch the message
     const { data: message, error: messageError } = await supabase
@@ -60,10 +82,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ skipped: true });
     }
 
-    // Fetch the group's Twilio number
+    // Check the group still exists
     const { data: group, error: groupError } = await supabase
       .from("groups")
-      .select("twilio_phone_number")
+      .select("id")
       .eq("id", groupId)
       .single();
 
@@ -81,7 +103,7 @@ export async function POST(request: NextRequest) {
 
     const senderName = sender?.display_name || "Someone";
 
-    // Fetch SMS participant members
+    // Fetch SMS participant members who haven't opted out or muted the group
     const { data: members, error: membersError } = await supabase
       .from("group_members")
       .select(`
@@ -91,18 +113,24 @@ export async function POST(request: NextRequest) {
         )
       `)
       .eq("group_id", groupId)
-      .not("sms_participant_id", "is", null);
+      .not("sms_participant_id", "is", null)
+      .is("sms_opted_out_at", null) // Texted STOP to this group
+      .or(`sms_muted_until.is.null,sms_muted_until.lt.${new Date().toISOString()}`); // Texted #mute
 
     if (membersError) {
       console.error("Error fetching members:", membersError);
       throw membersError;
     }
 
+    // Never text a blocked number, even if it's still a member
+    const blockedNumbers = await getBlockedPhoneNumbers(supabase, groupId);
+
     const smsParticipants = (members || [])
       .map((m: { sms_participants: { id: string; phone_number: string } | null }) => m.sms_participants)
-      .filter((p): p is { id: string; phone_number: string } => p !== null);
+      .filter((p): p is { id: string; phone_number: string } => p !== null)
+      .filter((p) => !blockedNumbers.has(p.phone_number));
 
-    if (smsParticipants.length === 0) {
+    if (smsParticipants.length === 0 && !retry) {
       console.log("No SMS participants in group");
       // Update status to delivered (nothing to send)
       await supabase
@@ -113,25 +141,80 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ sent: 0, message: "No SMS participants" });
     }
 
-    // Format message with sender name
-    const smsBody = `${senderName}: ${message.content}`;
+    // Attachments go out as MMS media or short links, per recipient
+    const media = await getOutboundMedia(supabase, messageId);
+
+    const memberParticipantIds = smsParticipants.map((p) =>
+      asSmsParticipantId(p.id)
+    );
+
+    if (retry) {
+      await resetFailedDeliveries(
+        supabase,
+        deliveryRepo,
+        messageId,
+        memberParticipantIds
+      );
+    }
+
+    // Otherwise create a pending delivery per recipient (no-op for existing ones)
+    const deliveries = retry
+      ? await deliveryRepo.getByMessageId(asMessageId(messageId))
+      : await deliveryRepo.createPending(asMessageId(messageId), memberParticipantIds);
+
+    // Deliveries already in the retry queue are owned by the sms-worker function
+    const { data: queuedJobs, error: queuedJobsError } = await supabase
+      .from("sms_jobs")
+      .select("delivery_id")
+      .in("delivery_id", deliveries.map((d) => d.id));
+
+    if (queuedJobsError) {
+      console.error("Error fetching retry jobs:", queuedJobsError);
+      throw queuedJobsError;
+    }
+
+    const queuedDeliveryIds = new Set(queuedJobs.map((j) => j.delivery_id));
+
+    const phoneByParticipantId = new Map(
+      smsParticipants.map((p) => [p.id, p.phone_number])
+    );
 
     // Send SMS to each participant using Twilio REST API
-    let firstSid: string | null = null;
-    let worstStatus = "delivered";
     let sentCount = 0;
 
-    for (const participant of smsParticipants) {
+    for (const delivery of deliveries) {
+      // Already handed to Twilio or queued for retry (e.g. duplicate request)
+      if (delivery.twilioMessageSid || queuedDeliveryIds.has(delivery.id)) {
+        continue;
+      }
+
+      const phoneNumber = phoneByParticipantId.get(delivery.smsParticipantId);
+      if (!phoneNumber) continue;
+
       try {
-        console.log(`Sending SMS to ${participant.phone_number}...`);
+        console.log(`Sending SMS to ${phoneNumber}...`);
+
+        // Each recipient texts the group through their own pool number
+        const fromNumber = await assignSmsRoute(supabase, groupId, phoneNumber);
 
         // Call Twilio API directly
         const twilioUrl = `https://api.twilio.com/2010-04-01/Accounts/${twilioAccountSid}/Messages.json`;
 
         const formData = new URLSearchParams();
-        formData.append("To", participant.phone_number);
-        formData.append("From", group.twilio_phone_number);
-        formData.append("Body", smsBody);
+        formData.append("To", phoneNumber);
+        formData.append("From", fromNumber);
+
+        // Format message with sender name
+        const { body, mediaUrls } = buildOutboundSms(
+          senderName,
+          message.content,
+          phoneNumber,
+          media
+        );
+        formData.append("Body", body);
+        for (const mediaUrl of mediaUrls) {
+          formData.append("MediaUrl", mediaUrl);
+        }
 
         // Add status callback URL if configured (for delivery status updates)
         const statusCallbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL;
@@ -152,47 +235,64 @@ export async function POST(request: NextRequest) {
 
         if (!twilioResponse.ok) {
           console.error("Twilio error:", twilioResult);
-          worstStatus = "failed";
+          const errorCode = twilioResult.code ? String(twilioResult.code) : null;
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: errorCode,
+            message: twilioResult.message ?? null,
+            retryable: isRetryableTwilioError(errorCode, twilioResponse.status),
+          });
           continue;
         }
 
-        console.log(`SMS sent to ${participant.phone_number}: ${twilioResult.sid}`);
-
-        // Track first SID for the message record
-        if (!firstSid) {
-          firstSid = twilioResult.sid;
-        }
-
-        // Map Twilio status
         const status = mapTwilioStatus(twilioResult.status);
+
+        // Twilio accepted the request but rejected the message outright
         if (status === "failed" || status === "undelivered") {
-          worstStatus = status;
-        } else if (worstStatus === "delivered" && status !== "delivered") {
-          worstStatus = status;
+          const errorCode = twilioResult.error_code
+            ? String(twilioResult.error_code)
+            : null;
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: errorCode,
+            message: twilioResult.error_message ?? null,
+            retryable: isRetryableTwilioError(errorCode),
+          });
+          continue;
         }
 
+        console.log(`SMS sent to ${phoneNumber}: ${twilioResult.sid}`);
+
+        await deliveryRepo.markSubmitted(
+          delivery.id,
+          asTwilioMessageSid(twilioResult.sid),
+          status
+        );
+
         sentCount++;
       } catch (error) {
-        console.error(`Failed to send SMS to ${participant.phone_number}:`, error);
-        worstStatus = "failed";
+        console.error(`Failed to send SMS to ${phoneNumber}:`, error);
+        // Network errors, timeouts: the request may never have reached Twilio
+        await recordDeliveryFailure(supabase, delivery.id, {
+          code: null,
+          message: error instanceof Error ? error.message : String(error),
+          retryable: true,
+        });
       }
     }
 
-    // Update message with Twilio SID and status
-    await supabase
+    // Read back the aggregate recomputed from the delivery rows by a trigger
+    const { data: updated } = await supabase
       .from("messages")
-      .update({
-        twilio_message_sid: firstSid,
-        delivery_status: worstStatus,
-      })
-      .eq("id", messageId);
+      .select("delivery_status")
+      .eq("id", messageId)
+      .single();
+    const status = updated?.delivery_status ?? null;
 
-    console.log(`SMS delivery complete: ${sentCount}/${smsParticipants.length} sent, status: ${worstStatus}`);
+    console.log(`SMS delivery complete: ${sentCount}/${smsParticipants.length} sent, status: ${status}`);
 
     return NextResponse.json({
       sent: sentCount,
       total: smsParticipants.length,
-      status: worstStatus,
+      status,
     });
   } catch (error) {
     console.error("Send SMS error:", error);
@@ -203,8 +303,136 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function mapTwilioStatus(twilioStatus: string): string {
-  const statusMap: Record<string, string> = {
+async function getOutboundMedia(
+  supabase: ReturnType<typeof createServiceSupabaseClient>,
+  messageId: string
+): Promise<OutboundMedia> {
+  const { data: attachments, error } = await supabase
+    .from("message_attachments")
+    .select("id, storage_path")
+    .eq("message_id", messageId)
+    .order("created_at");
+
+  if (error) throw error;
+
+  if (attachments.length === 0) {
+    return { mediaUrls: [], links: [] };
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(MESSAGE_ATTACHMENTS_BUCKET)
+    .createSignedUrls(
+      attachments.map((a) => a.storage_path),
+      MEDIA_URL_EXPIRY_SECONDS
+    );
+
+  if (signError) throw signError;
+
+  return {
+    mediaUrls: signed
+      .map((s) => s.signedUrl)
+      .filter((url): url is string => !!url),
+    links: attachments.map((a) => `${env.appUrl}/m/${a.id}`),
+  };
+}
+
+/**
+ * The pool number to text a recipient from for the group.
+ * Assigned when they joined; assigns one now if missing.
+ */
+async function assignSmsRoute(
+  supabase: ReturnType<typeof createServiceSupabaseClient>,
+  groupId: string,
+  phoneNumber: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("assign_sms_route", {
+    p_group_id: groupId,
+    p_phone_number: phoneNumber,
+  });
+
+  if (error) throw error;
+
+  return data;
+}
+
+/**
+ * Phone numbers blocked for the group (group blocks plus its owners'
+ * personal blocks). These never receive texts from the group.
+ */
+async function getBlockedPhoneNumbers(
+  supabase: ReturnType<typeof createServiceSupabaseClient>,
+  groupId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase.rpc("get_blocked_phone_numbers", {
+    p_group_id: groupId,
+  });
+
+  if (error) throw error;
+
+  return new Set(data.map((b) => b.phone_number));
+}
+
+/**
+ * Reset failed deliveries of a message back to pending so the send loop
+ * picks them up again. Recipients who have since left the group stay failed.
+ */
+async function resetFailedDeliveries(
+  supabase: ReturnType<typeof createServiceSupabaseClient>,
+  deliveryRepo: MessageDeliveryRepository,
+  messageId: string,
+  memberParticipantIds: string[]
+): Promise<void> {
+  const members = new Set(memberParticipantIds);
+  const deliveries = await deliveryRepo.getByMessageId(asMessageId(messageId));
+  const failedIds = deliveries
+    .filter((d) => isDeliveryFailed(d.status) && members.has(d.smsParticipantId))
+    .map((d) => d.id);
+
+  if (failedIds.length === 0) return;
+
+  // Start a fresh retry budget for the manual attempt
+  const { error: jobsError } = await supabase
+    .from("sms_jobs")
+    .delete()
+    .in("delivery_id", failedIds);
+
+  if (jobsError) throw jobsError;
+
+  await deliveryRepo.resetToPending(failedIds);
+
+  console.log(`Retrying ${failedIds.length} failed deliveries for message ${messageId}`);
+}
+
+/**
+ * Record a failed send attempt. The database schedules a retry with
+ * backoff (picked up by the sms-worker function) or marks the delivery failed.
+ */
+async function recordDeliveryFailure(
+  supabase: ReturnType<typeof createServiceSupabaseClient>,
+  deliveryId: string,
+  failure: { code: string | null; message: string | null; retryable: boolean }
+): Promise<void> {
+  const { data: retrying, error } = await supabase.rpc("record_delivery_failure", {
+    p_delivery_id: deliveryId,
+    p_error_code: failure.code,
+    p_error_message: failure.message,
+    p_retryable: failure.retryable,
+    p_max_attempts: serverEnv.smsMaxAttempts,
+    p_base_delay_seconds: serverEnv.smsRetryBaseDelaySeconds,
+  });
+
+  // An unrecorded failure would never be retried, so don't carry on as if
+  // it had been
+  if (error) {
+    console.error("Error recording delivery failure:", error);
+    throw error;
+  }
+
+  console.log(`Delivery ${deliveryId} ${retrying ? "scheduled for retry" : "failed"}`);
+}
+
+function mapTwilioStatus(twilioStatus: string): DeliveryStatus {
+  const statusMap: Record<string, DeliveryStatus> = {
     queued: "queued",
     sending: "queued",
     sent: "sent",
@@ -0,0 +1,132 @@
+/**
+ * Invitation Page
+ *
+ * Landing page for a group invitation link. Signed-out visitors sign up
+ * or sign in first and come back here; signed-in users join the group.
+ * SMS invitees go straight to phone signup with their number filled in,
+ * and join as soon as they're back.
+ */
+
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { createServiceSupabaseClient } from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import {
+  GroupRepository,
+  GroupInvitationRepository,
+} from "@/data/repositories";
+import { getCurrentUser } from "@/application/actions";
+import { AcceptInvitationButton } from "@/presentation/components/groups/accept-invitation-button";
+import { Button } from "@/presentation/components/ui/button";
+import {
+  asGroupInvitationId,
+  getInvitationStatus,
+  getInvitationError,
+  isSmsInvitation,
+} from "@/domain/types";
+import { readInviteToken } from "@/lib/invite-token";
+import { APP_NAME, ROUTES } from "@/lib/constants";
+
+interface InvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params;
+  const invitationId = readInviteToken(token);
+
+  // Use service client: invitees aren't members of the group yet.
+  // Repositories are typed for the RLS client; the API is the same.
+  const serviceClient = createServiceSupabaseClient() as unknown as SupabaseClient;
+  const invitation = invitationId
+    ? await new GroupInvitationRepository(serviceClient).getById(
+        asGroupInvitationId(invitationId)
+      )
+    : null;
+  const group = invitation
+    ? await new GroupRepository(serviceClient).getById(invitation.groupId)
+    : null;
+
+  if (!invitation || !group) {
+    return (
+      <InviteLayout title="Invitation not found">
+        <p className="text-muted-foreground">
+          This invitation link is invalid. Check that you copied all of it.
+        </p>
+      </InviteLayout>
+    );
+  }
+
+  const status = getInvitationStatus(invitation);
+  if (status !== "pending") {
+    return (
+      <InviteLayout title={group.name}>
+        <p className="text-muted-foreground">{getInvitationError(status)}</p>
+      </InviteLayout>
+    );
+  }
+
+  const user = await getCurrentUser();
+  const next = encodeURIComponent(ROUTES.invite(token));
+
+  if (isSmsInvitation(invitation)) {
+    if (!user) {
+      redirect(
+        `${ROUTES.phoneLogin}?phone=${encodeURIComponent(invitation.phoneNumber)}&next=${next}`
+      );
+    }
+
+    return (
+      <InviteLayout title={group.name}>
+        <p className="text-muted-foreground">
+          Moving your texts with this group into {APP_NAME}...
+        </p>
+        <AcceptInvitationButton token={token} autoAccept />
+      </InviteLayout>
+    );
+  }
+
+  return (
+    <InviteLayout title={group.name}>
+      <p className="text-muted-foreground">
+        You&apos;ve been invited to join this group on {APP_NAME}
+        {invitation.role === "admin" && " as an admin"}.
+      </p>
+
+      {user ? (
+        <AcceptInvitationButton token={token} />
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Create an account or sign in with {invitation.email} to join.
+          </p>
+          <Link href={`${ROUTES.signup}?next=${next}`} className="block">
+            <Button className="w-full">Create Account</Button>
+          </Link>
+          <Link href={`${ROUTES.login}?next=${next}`} className="block">
+            <Button variant="outline" className="w-full">
+              Sign In
+            </Button>
+          </Link>
+        </div>
+      )}
+    </InviteLayout>
+  );
+}
+
+function InviteLayout({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-6 text-center">
+        <h1 className="text-2xl font-bold">{title}</h1>
+        {children}
+      </div>
+    </div>
+  );
+}
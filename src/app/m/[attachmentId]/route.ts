@@ -0,0 +1,60 @@
+/**
+ * Attachment Short Link Route
+ *
+ * Public link to a message attachment, sent in SMS bodies to recipients
+ * that can't receive MMS (e.g. non-US numbers). The unguessable
+ * attachment ID is the credential; each visit redirects to a fresh
+ * short-lived signed URL.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceSupabaseClient } from "@/data/supabase/server";
+import { MESSAGE_ATTACHMENTS_BUCKET } from "@/domain/types";
+
+/** Signed URL lifetime in seconds */
+const SIGNED_URL_EXPIRY = 5 * 60;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ attachmentId: string }> }
+) {
+  const { attachmentId } = await params;
+
+  if (!UUID_PATTERN.test(attachmentId)) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  try {
+    // Use service client: recipients of the link aren't signed in
+    const supabase = createServiceSupabaseClient();
+
+    const { data: attachment } = await supabase
+      .from("message_attachments")
+      .select("storage_path")
+      .eq("id", attachmentId)
+      .maybeSingle();
+
+    if (!attachment) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const { data: signed, error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .createSignedUrl(attachment.storage_path, SIGNED_URL_EXPIRY);
+
+    if (error || !signed) {
+      throw error || new Error("Failed to sign attachment URL");
+    }
+
+    return NextResponse.redirect(signed.signedUrl);
+  } catch (error) {
+    console.error("Attachment link error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
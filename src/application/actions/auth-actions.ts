@@ -3,11 +3,15 @@
 /**
  * Auth Server Actions
  *
- * Handles authentication flows: signup, login, logout.
+ * Handles authentication flows: signup, login (email/password or a code
+ * texted to a phone), logout.
  */
 
 import { redirect } from "next/navigation";
 import { createServerSupabaseClient } from "@/data/supabase/server";
+import { normalizeToE164, validateVerificationCode } from "@/domain/validators";
+import { env } from "@/lib/env";
+import { getSafeRedirectPath } from "@/lib/redirect";
 
 export interface AuthResult {
   success: boolean;
@@ -16,11 +20,13 @@ export interface AuthResult {
 
 /**
  * Sign up with email and password.
+ * An optional "next" path is opened once the user is signed in.
  */
 export async function signUp(formData: FormData): Promise<AuthResult> {
   const email = formData.get("email") as string;
   const password = formData.get("password") as string;
   const displayName = formData.get("displayName") as string;
+  const next = getSafeRedirectPath(formData.get("next") as string | null);
 
   if (!email || !password) {
     return { success: false, error: "Email and password are required" };
@@ -28,13 +34,17 @@ export async function signUp(formData: FormData): Promise<AuthResult> {
 
   const supabase = await createServerSupabaseClient();
 
-  const { error } = await supabase.auth.signUp({
+  const { data, error } = await supabase.auth.signUp({
     email,
     password,
     options: {
       data: {
         display_name: displayName || email.split("@")[0],
       },
+      // The confirmation link returns to "next" through the auth callback
+      emailRedirectTo: next
+        ? `${env.appUrl}/callback?next=${encodeURIComponent(next)}`
+        : undefined,
     },
   });
 
@@ -42,11 +52,17 @@ export async function signUp(formData: FormData): Promise<AuthResult> {
     return { success: false, error: error.message };
   }
 
+  // Signed in right away when email confirmation is off
+  if (next && data.session) {
+    redirect(next);
+  }
+
   return { success: true };
 }
 
 /**
  * Sign in with email and password.
+ * Redirects to the optional "next" path, or to /chats.
  */
 export async function signIn(formData: FormData): Promise<AuthResult> {
   const email = formData.get("email") as string;
@@ -67,7 +83,69 @@ export async function signIn(formData: FormData): Promise<AuthResult> {
     return { success: false, error: error.message };
   }
 
-  redirect("/chats");
+  redirect(getSafeRedirectPath(formData.get("next") as string | null) ?? "/chats");
+}
+
+/**
+ * Text a sign-in code to a phone number.
+ * Creates the account on first use; the display name is only used then.
+ */
+export async function sendPhoneSignInCode(formData: FormData): Promise<AuthResult> {
+  const phoneNumber = (formData.get("phoneNumber") as string) || "";
+  const displayName = formData.get("displayName") as string;
+
+  const phoneResult = normalizeToE164(phoneNumber);
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  const supabase = await createServerSupabaseClient();
+
+  const { error } = await supabase.auth.signInWithOtp({
+    phone: phoneResult.value,
+    options: {
+      data: displayName ? { display_name: displayName } : undefined,
+    },
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Sign in with the code texted by sendPhoneSignInCode.
+ * Redirects to the optional "next" path, or to /chats.
+ */
+export async function verifyPhoneSignInCode(formData: FormData): Promise<AuthResult> {
+  const phoneNumber = (formData.get("phoneNumber") as string) || "";
+  const code = (formData.get("code") as string) || "";
+
+  const phoneResult = normalizeToE164(phoneNumber);
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  const codeResult = validateVerificationCode(code);
+  if (!codeResult.success) {
+    return { success: false, error: codeResult.error };
+  }
+
+  const supabase = await createServerSupabaseClient();
+
+  const { error } = await supabase.auth.verifyOtp({
+    phone: phoneResult.value,
+    token: codeResult.value,
+    type: "sms",
+  });
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  redirect(getSafeRedirectPath(formData.get("next") as string | null) ?? "/chats");
 }
 
 /**
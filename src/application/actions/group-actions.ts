@@ -7,33 +7,62 @@
  */
 
 import { revalidatePath } from "next/cache";
-import { createServerSupabaseClient } from "@/data/supabase/server";
-import { GroupRepository, SmsParticipantRepository } from "@/data/repositories";
+import {
+  createServerSupabaseClient,
+  createServiceSupabaseClient,
+} from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import {
+  GroupRepository,
+  SmsParticipantRepository,
+  PendingInboundRepository,
+  BlockedNumberRepository,
+  TwilioNumberRepository,
+} from "@/data/repositories";
+import { getTwilioClient } from "@/data/twilio";
+import { serverEnv } from "@/lib/env";
 import {
   asUserId,
   asGroupId,
   asSmsParticipantId,
   asE164PhoneNumber,
+  asBlockedNumberId,
+  type BlockScope,
+  type GroupMemberRole,
+  type NotificationLevel,
+  type NumberSearchInput,
   type Group,
   type GroupWithMembers,
   type GroupId,
 } from "@/domain/types";
-import { normalizeToE164 } from "@/domain/validators";
+import {
+  normalizeToE164,
+  validateE164PhoneNumber,
+  validateNumberSearch,
+} from "@/domain/validators";
+import { GroupPolicy, toForbiddenResult } from "@/application/services";
 import { requireAuth } from "./auth-actions";
 
 export interface GroupResult {
   success: boolean;
   error?: string;
+  /** Set when the caller isn't allowed to do this */
+  forbidden?: boolean;
   group?: Group;
 }
 
 export interface GroupMemberResult {
   success: boolean;
   error?: string;
+  /** Set when the caller isn't allowed to do this */
+  forbidden?: boolean;
 }
 
 /**
  * Create a new group.
+ * With "dedicatedNumber" set, buys a Twilio number for the group (searched
+ * by "country" and optional "areaCode"); otherwise its SMS participants
+ * use shared pool numbers.
  */
 export async function createGroup(formData: FormData): Promise<GroupResult> {
   const user = await requireAuth();
@@ -41,25 +70,40 @@ export async function createGroup(formData: FormData): Promise<GroupResult> {
   const groupRepo = new GroupRepository(supabase);
 
   const name = formData.get("name") as string;
-  const twilioNumber = formData.get("twilioPhoneNumber") as string;
+  const dedicatedNumber = formData.get("dedicatedNumber") === "on";
 
-  if (!name || !twilioNumber) {
-    return { success: false, error: "Name and Twilio number are required" };
+  if (!name) {
+    return { success: false, error: "Name is required" };
   }
 
-  // Validate Twilio number
-  const phoneResult = normalizeToE164(twilioNumber);
-  if (!phoneResult.success) {
-    return { success: false, error: phoneResult.error };
+  let numberSearch: NumberSearchInput | null = null;
+  if (dedicatedNumber) {
+    const searchResult = validateNumberSearch({
+      country: (formData.get("country") as string | null) || "US",
+      areaCode: (formData.get("areaCode") as string | null) || undefined,
+    });
+    if (!searchResult.success) {
+      return { success: false, error: searchResult.error };
+    }
+    numberSearch = searchResult.value;
   }
 
   try {
     const group = await groupRepo.create({
       name,
-      twilioPhoneNumber: phoneResult.value,
       createdByUserId: asUserId(user.id),
     });
 
+    if (numberSearch) {
+      try {
+        await provisionGroupNumber(group.id, numberSearch);
+      } catch (error) {
+        // Don't leave a group behind without the number that was asked for
+        await groupRepo.delete(group.id);
+        throw error;
+      }
+    }
+
     revalidatePath("/chats");
 
     return { success: true, group };
@@ -73,7 +117,7 @@ export async function createGroup(formData: FormData): Promise<GroupResult> {
 }
 
 /**
- * Update a group's details (including Twilio number).
+ * Update a group's details.
  */
 export async function updateGroup(
   groupId: string,
@@ -83,27 +127,18 @@ export async function updateGroup(
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
-  // Check ownership for Twilio number changes
-  const role = await groupRepo.getUserRole(asGroupId(groupId), asUserId(user.id));
-  if (role !== "owner" && role !== "admin") {
-    return { success: false, error: "Only group owners can update group settings" };
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canUpdateGroup(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
   }
 
   const name = formData.get("name") as string;
-  const twilioNumber = formData.get("twilioPhoneNumber") as string | null;
 
-  const updates: { name?: string; twilioPhoneNumber?: string } = {};
+  const updates: { name?: string } = {};
   if (name) updates.name = name;
 
-  // Validate and add Twilio number if provided
-  if (twilioNumber) {
-    const phoneResult = normalizeToE164(twilioNumber);
-    if (!phoneResult.success) {
-      return { success: false, error: phoneResult.error };
-    }
-    updates.twilioPhoneNumber = phoneResult.value;
-  }
-
   try {
     const group = await groupRepo.update(asGroupId(groupId), updates);
 
@@ -113,10 +148,6 @@ export async function updateGroup(
     return { success: true, group };
   } catch (error) {
     console.error("Update group error:", error);
-    // Handle unique constraint violation for Twilio number
-    if (error instanceof Error && error.message.includes("unique")) {
-      return { success: false, error: "This Twilio number is already in use by another group" };
-    }
     return {
       success: false,
       error: error instanceof Error ? error.message : "Failed to update group",
@@ -128,11 +159,19 @@ export async function updateGroup(
  * Delete a group.
  */
 export async function deleteGroup(groupId: string): Promise<GroupMemberResult> {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
+  // Check caller has permission (before releasing any numbers)
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canDeleteGroup(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
   try {
+    await releaseGroupNumbers(asGroupId(groupId));
     await groupRepo.delete(asGroupId(groupId));
 
     revalidatePath("/chats");
@@ -159,6 +198,13 @@ export async function addSmsParticipantToGroup(
   const groupRepo = new GroupRepository(supabase);
   const smsRepo = new SmsParticipantRepository(supabase);
 
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canAddMembers(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
   const phoneNumber = formData.get("phoneNumber") as string;
   const displayName = formData.get("displayName") as string;
 
@@ -173,18 +219,39 @@ export async function addSmsParticipantToGroup(
   }
 
   try {
-    // Find or create the SMS participant
-    const { participant } = await smsRepo.findOrCreate({
+    // Blocked numbers can't be re-added.
+    // Use service client: the check includes the owners' personal blocks,
+    // which only the service role can read.
+    // Repositories are typed for the RLS client; the API is the same.
+    const serviceClient = createServiceSupabaseClient() as unknown as SupabaseClient;
+    const blockedRepo = new BlockedNumberRepository(serviceClient);
+    if (await blockedRepo.isBlocked(asGroupId(groupId), phoneResult.value)) {
+      return { success: false, error: "This phone number is blocked in this group" };
+    }
+
+    // Resolve the phone's canonical participant; the name is saved as
+    // this user's nickname for them
+    const participantId = await smsRepo.findOrCreate({
       phoneNumber: phoneResult.value,
       displayName: displayName || phoneResult.value,
-      createdByUserId: asUserId(user.id),
     });
+    const participant = await smsRepo.getById(participantId);
+    if (!participant) {
+      return { success: false, error: "Failed to add participant" };
+    }
 
-    // Add to group
-    await groupRepo.addSmsParticipant(
-      asGroupId(groupId),
-      participant.id
-    );
+    // A phone linked to an app account joins as that account
+    if (participant.linkedUserId) {
+      if (await groupRepo.isMember(asGroupId(groupId), participant.linkedUserId)) {
+        return { success: false, error: "This person is already in the group" };
+      }
+      await groupRepo.addUser(asGroupId(groupId), participant.linkedUserId);
+    } else {
+      await groupRepo.addSmsParticipant(
+        asGroupId(groupId),
+        participant.id
+      );
+    }
 
     revalidatePath(`/chats/${groupId}`);
 
@@ -206,10 +273,19 @@ export async function removeSmsParticipantFromGroup(
   groupId: string,
   smsParticipantId: string
 ): Promise<GroupMemberResult> {
-  await requireAuth();
+  const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canRemoveMember(asGroupId(groupId), {
+    kind: "sms_participant",
+  });
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
   try {
     await groupRepo.removeSmsParticipant(
       asGroupId(groupId),
@@ -231,12 +307,19 @@ export async function removeSmsParticipantFromGroup(
 
 /**
  * Leave a group.
+ * The owner must transfer ownership first.
  */
 export async function leaveGroup(groupId: string): Promise<GroupMemberResult> {
   const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canLeave(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
   try {
     await groupRepo.removeUser(asGroupId(groupId), asUserId(user.id));
 
@@ -285,17 +368,19 @@ export async function searchUsersToAdd(
   searchTerm: string
 ): Promise<{
   success: boolean;
-  users?: Array<{ id: string; email: string; displayName: string }>;
+  users?: Array<{ id: string; email: string | null; displayName: string }>;
   error?: string;
+  forbidden?: boolean;
 }> {
   const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
   // Check caller has permission to add members
-  const role = await groupRepo.getUserRole(asGroupId(groupId), asUserId(user.id));
-  if (role !== "owner" && role !== "admin") {
-    return { success: false, error: "Only owners and admins can add members" };
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canAddMembers(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
   }
 
   try {
@@ -328,7 +413,7 @@ export async function searchUsersToAdd(
     // Type assertion needed due to Supabase RLS type inference
     const rows = (data || []) as Array<{
       id: string;
-      email: string;
+      email: string | null;
       display_name: string;
     }>;
 
@@ -360,9 +445,10 @@ export async function addAppUserToGroup(
   const groupRepo = new GroupRepository(supabase);
 
   // Check caller has permission
-  const role = await groupRepo.getUserRole(asGroupId(groupId), asUserId(user.id));
-  if (role !== "owner" && role !== "admin") {
-    return { success: false, error: "Only owners and admins can add members" };
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canAddMembers(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
   }
 
   try {
@@ -396,23 +482,16 @@ export async function removeMemberFromGroup(
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
 
-  // Check caller has permission
-  const role = await groupRepo.getUserRole(asGroupId(groupId), asUserId(user.id));
-  if (role !== "owner" && role !== "admin") {
-    return { success: false, error: "Only owners and admins can remove members" };
-  }
-
-  // Prevent owner from removing themselves
-  if (memberType === "app_user" && memberId === user.id) {
-    return { success: false, error: "You cannot remove yourself from the group" };
-  }
-
-  // Prevent removing other owners (only owners can remove, but can't remove each other)
-  if (memberType === "app_user") {
-    const memberRole = await groupRepo.getUserRole(asGroupId(groupId), asUserId(memberId));
-    if (memberRole === "owner") {
-      return { success: false, error: "Cannot remove the group owner" };
-    }
+  // Check caller has permission (no removing themselves or the owner)
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canRemoveMember(
+    asGroupId(groupId),
+    memberType === "app_user"
+      ? { kind: "app_user", userId: asUserId(memberId) }
+      : { kind: "sms_participant" }
+  );
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
   }
 
   try {
@@ -433,3 +512,387 @@ export async function removeMemberFromGroup(
     };
   }
 }
+
+/**
+ * Change an app member's role between admin and member.
+ * Only the owner can promote and demote, as only they can invite admins.
+ * Ownership moves with transferOwnership.
+ */
+export async function changeMemberRole(
+  groupId: string,
+  memberUserId: string,
+  newRole: GroupMemberRole
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+
+  if (newRole === "owner") {
+    return { success: false, error: "Use Transfer Ownership to change the owner" };
+  }
+
+  // Check caller has permission for this change
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canChangeMemberRole(
+    asGroupId(groupId),
+    asUserId(memberUserId),
+    newRole
+  );
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    await groupRepo.updateUserRole(asGroupId(groupId), asUserId(memberUserId), newRole);
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Change member role error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to change role",
+    };
+  }
+}
+
+/**
+ * Set how a group notifies the current user: every message or only
+ * @mentions, optionally muted until a given time.
+ */
+export async function updateNotificationPreferences(
+  groupId: string,
+  level: NotificationLevel,
+  mutedUntil: Date | null
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+
+  if (level !== "all" && level !== "mentions") {
+    return { success: false, error: "Invalid notification setting" };
+  }
+  if (mutedUntil !== null && !(mutedUntil > new Date())) {
+    return { success: false, error: "Mute must end in the future" };
+  }
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canChangeNotifications(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    await groupRepo.setNotificationPreferences(asGroupId(groupId), {
+      level,
+      mutedUntil,
+    });
+
+    revalidatePath("/chats");
+    revalidatePath(`/chats/${groupId}`);
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Update notification preferences error:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update notifications",
+    };
+  }
+}
+
+/**
+ * Make another app member the group's owner.
+ * A group has exactly one owner, so the caller becomes an admin.
+ */
+export async function transferOwnership(
+  groupId: string,
+  newOwnerUserId: string
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canTransferOwnership(
+    asGroupId(groupId),
+    asUserId(newOwnerUserId)
+  );
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    await groupRepo.transferOwnership(asGroupId(groupId), asUserId(newOwnerUserId));
+
+    revalidatePath(`/chats/${groupId}`);
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Transfer ownership error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to transfer ownership",
+    };
+  }
+}
+
+/**
+ * Approve an unknown sender from the group's Requests.
+ * Adds them to the group as an SMS participant and releases their held messages.
+ */
+export async function approvePendingSender(
+  groupId: string,
+  phoneNumber: string,
+  displayName: string
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const pendingRepo = new PendingInboundRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canReviewRequests(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  const phoneResult = validateE164PhoneNumber(phoneNumber);
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  try {
+    await pendingRepo.approveSender(
+      asGroupId(groupId),
+      phoneResult.value,
+      displayName.trim()
+    );
+
+    revalidatePath(`/chats/${groupId}`);
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Approve pending sender error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to approve request",
+    };
+  }
+}
+
+/**
+ * Block an unknown sender from the group's Requests.
+ * Adds the number to the group's blocklist and discards their held messages.
+ */
+export async function blockPendingSender(
+  groupId: string,
+  phoneNumber: string
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const pendingRepo = new PendingInboundRepository(supabase);
+  const blockedRepo = new BlockedNumberRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canReviewRequests(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  const phoneResult = validateE164PhoneNumber(phoneNumber);
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  try {
+    await blockedRepo.block({
+      phoneNumber: phoneResult.value,
+      scope: "group",
+      groupId: asGroupId(groupId),
+      userId: asUserId(user.id),
+    });
+    await pendingRepo.blockSender(asGroupId(groupId), phoneResult.value);
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Block pending sender error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to block sender",
+    };
+  }
+}
+
+/**
+ * Block a phone number.
+ * A "group" block applies to this group (owners/admins only); a "user"
+ * block applies to every group the caller owns. Blocked numbers are
+ * removed from those groups and their texts are dropped.
+ */
+export async function blockNumber(
+  groupId: string,
+  phoneNumber: string,
+  scope: BlockScope = "group"
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const blockedRepo = new BlockedNumberRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canBlockNumber(asGroupId(groupId), scope);
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  const phoneResult = normalizeToE164(phoneNumber);
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  try {
+    await blockedRepo.block({
+      phoneNumber: phoneResult.value,
+      scope,
+      groupId: asGroupId(groupId),
+      userId: asUserId(user.id),
+    });
+
+    revalidatePath(`/chats/${groupId}`);
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Block number error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to block number",
+    };
+  }
+}
+
+/**
+ * Unblock a phone number.
+ * Owners/admins can remove the group's blocks; anyone can remove their
+ * own user blocks.
+ */
+export async function unblockNumber(
+  groupId: string,
+  blockedNumberId: string
+): Promise<GroupMemberResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const blockedRepo = new BlockedNumberRepository(supabase);
+
+  const block = await blockedRepo.getById(asBlockedNumberId(blockedNumberId));
+  if (!block) {
+    return { success: false, error: "Block not found" };
+  }
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canUnblockNumber(asGroupId(groupId), block);
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    await blockedRepo.unblock(block.id);
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unblock number error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to unblock number",
+    };
+  }
+}
+
+/**
+ * Use service client: only the server writes pool numbers, since their
+ * Twilio SIDs are what gets released.
+ * Repositories are typed for the RLS client; the API is the same.
+ */
+function createNumberPoolClient(): SupabaseClient {
+  return createServiceSupabaseClient() as unknown as SupabaseClient;
+}
+
+/**
+ * Buy a Twilio number for a group and add it to the pool reserved for
+ * the group. The number's SMS webhook and status callback point at the app.
+ */
+async function provisionGroupNumber(
+  groupId: GroupId,
+  search: NumberSearchInput
+): Promise<void> {
+  if (!serverEnv.twilioWebhookUrl) {
+    throw new Error("TWILIO_WEBHOOK_URL is not configured");
+  }
+
+  const twilio = getTwilioClient();
+  const numberRepo = new TwilioNumberRepository(createNumberPoolClient());
+
+  const [available] = await twilio.searchAvailableNumbers(search, 1);
+  if (!available) {
+    throw new Error(
+      search.areaCode
+        ? `No numbers available in area code ${search.areaCode}`
+        : `No numbers available in ${search.country}`
+    );
+  }
+
+  const purchased = await twilio.purchaseNumber({
+    phoneNumber: available.phoneNumber,
+    smsUrl: serverEnv.twilioWebhookUrl,
+    statusCallbackUrl: serverEnv.twilioStatusCallbackUrl,
+  });
+
+  try {
+    await numberRepo.addGroupNumber({
+      groupId,
+      phoneNumber: asE164PhoneNumber(purchased.phoneNumber),
+      twilioSid: purchased.sid,
+    });
+  } catch (error) {
+    // Don't keep paying for a number the app doesn't know about
+    await twilio.releaseNumber(purchased.sid);
+    throw error;
+  }
+}
+
+/**
+ * Release the Twilio numbers bought for a group and remove them from
+ * the pool.
+ */
+async function releaseGroupNumbers(groupId: GroupId): Promise<void> {
+  const numberRepo = new TwilioNumberRepository(createNumberPoolClient());
+  const numbers = await numberRepo.getByGroup(groupId);
+  if (numbers.length === 0) return;
+
+  const twilio = getTwilioClient();
+
+  for (const number of numbers) {
+    if (number.twilioSid) {
+      await twilio.releaseNumber(number.twilioSid);
+    }
+    await numberRepo.delete(number.id);
+  }
+}
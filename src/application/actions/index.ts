@@ -5,14 +5,26 @@
 export {
   signUp,
   signIn,
+  sendPhoneSignInCode,
+  verifyPhoneSignInCode,
   signOut,
   getCurrentUser,
   requireAuth,
 } from "./auth-actions";
 export type { AuthResult } from "./auth-actions";
 
-export { updateProfile, getMyProfile } from "./profile-actions";
-export type { ProfileUpdateResult } from "./profile-actions";
+export {
+  updateProfile,
+  sendPhoneVerificationCode,
+  verifyPhoneNumber,
+  linkSmsIdentity,
+  getMyProfile,
+} from "./profile-actions";
+export type {
+  ProfileUpdateResult,
+  PhoneVerificationResult,
+  LinkSmsIdentityResult,
+} from "./profile-actions";
 
 export {
   createGroup,
@@ -26,8 +38,35 @@ export {
   searchUsersToAdd,
   addAppUserToGroup,
   removeMemberFromGroup,
+  changeMemberRole,
+  transferOwnership,
+  updateNotificationPreferences,
+  approvePendingSender,
+  blockPendingSender,
+  blockNumber,
+  unblockNumber,
 } from "./group-actions";
 export type { GroupResult, GroupMemberResult } from "./group-actions";
 
-export { sendMessage, getGroupMessages } from "./message-actions";
-export type { SendMessageResult } from "./message-actions";
+export {
+  inviteToGroup,
+  revokeInvitation,
+  sendSmsInvitation,
+  acceptInvitation,
+} from "./invitation-actions";
+export type { InvitationResult } from "./invitation-actions";
+
+export {
+  sendMessage,
+  getGroupMessages,
+  getMessageDeliveries,
+  retryMessageDelivery,
+} from "./message-actions";
+export type {
+  SendMessageResult,
+  MessageDeliveriesResult,
+  RetryMessageDeliveryResult,
+} from "./message-actions";
+
+export { subscribeToPush, unsubscribeFromPush } from "./push-actions";
+export type { PushSubscriptionResult } from "./push-actions";
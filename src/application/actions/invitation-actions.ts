@@ -0,0 +1,250 @@
+"use server";
+
+/**
+ * Invitation Server Actions
+ *
+ * Handles inviting people to a group by link and accepting invitations.
+ */
+
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import {
+  createServerSupabaseClient,
+  createServiceSupabaseClient,
+} from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import {
+  GroupRepository,
+  GroupInvitationRepository,
+} from "@/data/repositories";
+import { getInviteUrl, readInviteToken } from "@/lib/invite-token";
+import { ROUTES } from "@/lib/constants";
+import {
+  asUserId,
+  asGroupId,
+  asGroupInvitationId,
+  getInvitationStatus,
+  getInvitationError,
+  isSmsInvitation,
+  asSmsParticipantId,
+  type GroupMemberRole,
+} from "@/domain/types";
+import { validateEmail } from "@/domain/validators";
+import { GroupPolicy, toForbiddenResult } from "@/application/services";
+import { requireAuth } from "./auth-actions";
+
+export interface InvitationResult {
+  success: boolean;
+  error?: string;
+  /** Set when the caller isn't allowed to do this */
+  forbidden?: boolean;
+  /** Link for the invitee to open */
+  inviteUrl?: string;
+}
+
+/**
+ * Invite someone to a group by email.
+ * Returns the signed invitation link; it works once, for an account
+ * with that email, until the invitation expires or is revoked.
+ * Only owners can invite admins.
+ */
+export async function inviteToGroup(
+  groupId: string,
+  email: string,
+  role: GroupMemberRole = "member"
+): Promise<InvitationResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const invitationRepo = new GroupInvitationRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canInvite(asGroupId(groupId), role);
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  const emailResult = validateEmail(email);
+  if (!emailResult.success) {
+    return { success: false, error: emailResult.error };
+  }
+
+  try {
+    const invitation = await invitationRepo.create({
+      groupId: asGroupId(groupId),
+      email: emailResult.value,
+      role,
+      invitedByUserId: asUserId(user.id),
+    });
+
+    if (!invitation) {
+      return {
+        success: false,
+        error: "This email already has a pending invitation",
+      };
+    }
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true, inviteUrl: getInviteUrl(invitation.id) };
+  } catch (error) {
+    console.error("Invite to group error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create invitation",
+    };
+  }
+}
+
+/**
+ * Withdraw a pending invitation.
+ */
+export async function revokeInvitation(
+  groupId: string,
+  invitationId: string
+): Promise<InvitationResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const invitationRepo = new GroupInvitationRepository(supabase);
+
+  // Check caller has permission
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canManageInvitations(asGroupId(groupId));
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    const revoked = await invitationRepo.revoke(asGroupInvitationId(invitationId));
+    if (!revoked) {
+      return { success: false, error: "This invitation is no longer pending" };
+    }
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Revoke invitation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to revoke invitation",
+    };
+  }
+}
+
+/**
+ * Text an SMS member of the group a one-time link to join in the app.
+ * Signing up with the link moves their membership onto the new account,
+ * keeping their message history.
+ */
+export async function sendSmsInvitation(
+  groupId: string,
+  smsParticipantId: string
+): Promise<InvitationResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const groupRepo = new GroupRepository(supabase);
+  const invitationRepo = new GroupInvitationRepository(supabase);
+
+  // Check caller has permission (the edge function checks again)
+  const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+  const decision = await policy.canInvite(asGroupId(groupId), "member");
+  if (!decision.allowed) {
+    return toForbiddenResult(decision);
+  }
+
+  try {
+    await invitationRepo.sendSmsInvitation(
+      asGroupId(groupId),
+      asSmsParticipantId(smsParticipantId)
+    );
+
+    revalidatePath(`/chats/${groupId}/settings`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Send SMS invitation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send invitation",
+    };
+  }
+}
+
+/**
+ * Accept an invitation from its link.
+ * Adds the signed-in user to the group with the invited role (SMS
+ * invitations: converts the participant's membership) and redirects to
+ * the chat.
+ */
+export async function acceptInvitation(token: string): Promise<InvitationResult> {
+  const user = await requireAuth();
+
+  const invitationId = readInviteToken(token);
+  if (!invitationId) {
+    return { success: false, error: "This invitation link is invalid" };
+  }
+
+  // Use service client: the invitee isn't a member of the group yet.
+  // Repositories are typed for the RLS client; the API is the same.
+  const serviceClient = createServiceSupabaseClient() as unknown as SupabaseClient;
+  const invitationRepo = new GroupInvitationRepository(serviceClient);
+
+  let groupId: string;
+
+  try {
+    const invitation = await invitationRepo.getById(
+      asGroupInvitationId(invitationId)
+    );
+    if (!invitation) {
+      return { success: false, error: "This invitation link is invalid" };
+    }
+
+    const status = getInvitationStatus(invitation);
+    if (status !== "pending") {
+      if (status === "expired" && invitation.status === "pending") {
+        await invitationRepo.markExpired(invitation.id);
+      }
+      return { success: false, error: getInvitationError(status) };
+    }
+
+    // Accepted as the caller: the database checks their verified phone
+    // (SMS invitations) or confirmed email is the invited one
+    const userInvitationRepo = new GroupInvitationRepository(
+      await createServerSupabaseClient()
+    );
+
+    if (isSmsInvitation(invitation)) {
+      groupId = await userInvitationRepo.acceptSmsInvitation(invitation.id);
+    } else {
+      if (user.email?.toLowerCase() !== invitation.email) {
+        return {
+          success: false,
+          error: `This invitation was sent to ${invitation.email}. Sign in with that email to accept it.`,
+        };
+      }
+
+      if (!user.email_confirmed_at) {
+        return {
+          success: false,
+          error: "Confirm your email address, then open this invitation again.",
+        };
+      }
+
+      // Joins and uses up the invitation in one step, so a link only adds
+      // one member and a failed join leaves it usable
+      groupId = await userInvitationRepo.acceptEmailInvitation(invitation.id);
+    }
+  } catch (error) {
+    console.error("Accept invitation error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to accept invitation",
+    };
+  }
+
+  revalidatePath("/chats");
+  redirect(ROUTES.chat(groupId));
+}
@@ -11,56 +11,157 @@ import {
   createServerSupabaseClient,
   createServiceSupabaseClient,
 } from "@/data/supabase/server";
-import { MessageRepository, GroupRepository } from "@/data/repositories";
-import { asUserId, asGroupId, type Message } from "@/domain/types";
-import { validateMessageContent, sanitizeForSms } from "@/domain/validators";
+import {
+  MessageRepository,
+  MessageDeliveryRepository,
+  MessageAttachmentRepository,
+  GroupRepository,
+} from "@/data/repositories";
+import {
+  asUserId,
+  asGroupId,
+  asMessageId,
+  isAppOriginMessage,
+  isDeliveryFailed,
+  type Message,
+  type MessageCursor,
+  type MessagePage,
+  type MessageDeliveryWithEvents,
+  type NewMessageAttachment,
+} from "@/domain/types";
+import {
+  validateMessageContent,
+  validateMessageAttachments,
+  sanitizeForSms,
+  validateClientMessageId,
+  validateMessageCursor,
+} from "@/domain/validators";
+import { GroupPolicy, toForbiddenResult } from "@/application/services";
+import { MESSAGES_PAGE_SIZE } from "@/lib/constants";
 import { requireAuth } from "./auth-actions";
 
 export interface SendMessageResult {
   success: boolean;
   error?: string;
+  /** Set when the caller isn't allowed to do this */
+  forbidden?: boolean;
+  /** Set when the send failed for a temporary reason; try again later */
+  retryable?: boolean;
   message?: Message;
 }
 
+export interface RetryMessageDeliveryResult {
+  success: boolean;
+  error?: string;
+  /** Set when the caller isn't allowed to do this */
+  forbidden?: boolean;
+  /** Number of recipients the message is being re-sent to */
+  retriedCount?: number;
+}
+
+export interface MessageDeliveriesResult {
+  success: boolean;
+  error?: string;
+  deliveries?: MessageDeliveryWithEvents[];
+}
+
 /**
  * Send a message to a group.
+ * Attachments must already be uploaded to the sender's upload folder.
  * Triggers SMS delivery to SMS participants.
+ * With a clientId, sending again with the same ID (e.g. retrying from the
+ * offline outbox) returns the message already sent instead of a new one.
  */
 export async function sendMessage(
   groupId: string,
-  content: string
+  content: string,
+  attachments: NewMessageAttachment[] = [],
+  clientId?: string
 ): Promise<SendMessageResult> {
   const user = await requireAuth();
   const supabase = await createServerSupabaseClient();
   const messageRepo = new MessageRepository(supabase);
+  const attachmentRepo = new MessageAttachmentRepository(supabase);
   const groupRepo = new GroupRepository(supabase);
 
-  // Validate content
-  const validationResult = validateMessageContent(content);
-  if (!validationResult.success) {
-    return { success: false, error: validationResult.error };
+  // Validate the idempotency key
+  let validatedClientId: string | undefined;
+  if (clientId !== undefined) {
+    const clientIdResult = validateClientMessageId(clientId);
+    if (!clientIdResult.success) {
+      return { success: false, error: clientIdResult.error };
+    }
+    validatedClientId = clientIdResult.value;
+  }
+
+  // Validate attachments
+  const attachmentsResult = validateMessageAttachments(
+    attachments,
+    groupId,
+    user.id
+  );
+  if (!attachmentsResult.success) {
+    return { success: false, error: attachmentsResult.error };
   }
 
-  // Sanitize for SMS compatibility
-  const sanitizedContent = sanitizeForSms(validationResult.value);
+  // Validate content (may be empty when sending attachments only)
+  let sanitizedContent = "";
+  if (content.trim() || attachments.length === 0) {
+    const validationResult = validateMessageContent(content);
+    if (!validationResult.success) {
+      return { success: false, error: validationResult.error };
+    }
+
+    // Sanitize for SMS compatibility
+    sanitizedContent = sanitizeForSms(validationResult.value);
+  }
 
   try {
     // Check user is a member
-    const isMember = await groupRepo.isMember(
-      asGroupId(groupId),
-      asUserId(user.id)
-    );
-    if (!isMember) {
-      return { success: false, error: "You are not a member of this group" };
+    const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+    const decision = await policy.canSendMessages(asGroupId(groupId));
+    if (!decision.allowed) {
+      return toForbiddenResult(decision);
     }
 
     // Create the message
-    const message = await messageRepo.createAppMessage({
+    const created = await messageRepo.createAppMessage({
       groupId: asGroupId(groupId),
       senderUserId: asUserId(user.id),
       content: sanitizedContent,
+      clientId: validatedClientId,
     });
 
+    if (!created) {
+      // Already sent by an earlier attempt, which may have stopped partway
+      const existing = await messageRepo.getByClientId(
+        asUserId(user.id),
+        validatedClientId!
+      );
+      if (!existing) {
+        return { success: false, retryable: true, error: "Failed to send message" };
+      }
+
+      const message = await completeSentMessage(
+        existing,
+        attachmentsResult.value,
+        attachmentRepo,
+        new MessageDeliveryRepository(supabase)
+      );
+
+      revalidatePath(`/chats/${groupId}`);
+
+      return { success: true, message };
+    }
+
+    // Attach uploads before SMS delivery so they go out as MMS
+    const savedAttachments = await attachmentRepo.createMany(
+      created.id,
+      created.groupId,
+      attachmentsResult.value
+    );
+    const message: Message = { ...created, attachments: savedAttachments };
+
     // Trigger SMS delivery via edge function
     // In production, this would be done via pg_net trigger
     // For now, we'll call the edge function directly
@@ -70,22 +171,122 @@ export async function sendMessage(
 
     return { success: true, message };
   } catch (error) {
+    // Validation and permissions are checked above, so this is a database
+    // or network failure: sending again with the same client ID is safe
     console.error("Send message error:", error);
     return {
       success: false,
+      retryable: true,
       error: error instanceof Error ? error.message : "Failed to send message",
     };
   }
 }
 
+/**
+ * Finish a message an earlier attempt with the same client ID created but
+ * may not have completed: save the attachments it didn't, and start SMS
+ * delivery if the earlier attempt never got as far as creating deliveries.
+ * Once it has, that attempt may still be texting recipients, so starting
+ * delivery again could text them twice.
+ */
+async function completeSentMessage(
+  existing: Message,
+  attachments: NewMessageAttachment[],
+  attachmentRepo: MessageAttachmentRepository,
+  deliveryRepo: MessageDeliveryRepository
+): Promise<Message> {
+  const savedPaths = new Set(existing.attachments.map((a) => a.storagePath));
+  const added = await attachmentRepo.createMany(
+    existing.id,
+    existing.groupId,
+    attachments.filter((a) => !savedPaths.has(a.storagePath))
+  );
+  const message: Message = {
+    ...existing,
+    attachments: [...existing.attachments, ...added],
+  };
+
+  if (isAppOriginMessage(message) && message.deliveryStatus === "pending") {
+    const deliveries = await deliveryRepo.getByMessageId(message.id);
+    if (deliveries.length === 0) {
+      await triggerSmsDelivery(message.id, message.groupId);
+    }
+  }
+
+  return message;
+}
+
+/**
+ * Retry SMS delivery for a message with failed recipients.
+ * Only re-sends to recipients whose delivery failed, not the whole group.
+ * Allowed for the sender and for group owners/admins.
+ */
+export async function retryMessageDelivery(
+  messageId: string
+): Promise<RetryMessageDeliveryResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const messageRepo = new MessageRepository(supabase);
+  const groupRepo = new GroupRepository(supabase);
+  const deliveryRepo = new MessageDeliveryRepository(supabase);
+
+  try {
+    const message = await messageRepo.getById(asMessageId(messageId));
+    if (!message || !isAppOriginMessage(message)) {
+      return { success: false, error: "Message not found" };
+    }
+
+    // Check permissions
+    const policy = new GroupPolicy(groupRepo, asUserId(user.id));
+    const decision = await policy.canRetryDelivery(
+      message.groupId,
+      message.senderUserId
+    );
+    if (!decision.allowed) {
+      return toForbiddenResult(decision);
+    }
+
+    const deliveries = await deliveryRepo.getByMessageId(message.id);
+
+    if (deliveries.length === 0) {
+      // The send never got as far as creating deliveries - send from scratch
+      if (!message.deliveryStatus || !isDeliveryFailed(message.deliveryStatus)) {
+        return { success: false, error: "This message has not failed" };
+      }
+      await triggerSmsDelivery(message.id, message.groupId);
+      revalidatePath(`/chats/${message.groupId}`);
+      return { success: true, retriedCount: 0 };
+    }
+
+    const failedCount = deliveries.filter((d) => isDeliveryFailed(d.status)).length;
+    if (failedCount === 0) {
+      return { success: false, error: "No failed deliveries to retry" };
+    }
+
+    await triggerSmsDelivery(message.id, message.groupId, { retry: true });
+
+    revalidatePath(`/chats/${message.groupId}`);
+
+    return { success: true, retriedCount: failedCount };
+  } catch (error) {
+    console.error("Retry message delivery error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to retry message",
+    };
+  }
+}
+
 /**
  * Trigger SMS delivery for a message.
  * Checks for SMS participants first - if none, marks as delivered directly.
  * Otherwise calls the send-sms edge function.
+ * With `retry`, only recipients whose delivery failed are sent to again.
  */
 async function triggerSmsDelivery(
   messageId: string,
-  groupId: string
+  groupId: string,
+  options: { retry?: boolean } = {}
 ): Promise<void> {
   const supabase = await createServerSupabaseClient();
   const groupRepo = new GroupRepository(supabase);
@@ -128,7 +329,7 @@ async function triggerSmsDelivery(
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ messageId, groupId }),
+      body: JSON.stringify({ messageId, groupId, retry: options.retry }),
     });
 
     if (!response.ok) {
@@ -152,18 +353,63 @@ async function triggerSmsDelivery(
 }
 
 /**
- * Get messages for a group with pagination.
+ * Get a page of a group's messages: the latest ones, or with a cursor,
+ * the ones just older than it.
  */
 export async function getGroupMessages(
   groupId: string,
-  options?: { limit?: number; before?: string }
-): Promise<Message[]> {
+  options?: { limit?: number; before?: MessageCursor }
+): Promise<MessagePage> {
   await requireAuth();
   const supabase = await createServerSupabaseClient();
   const messageRepo = new MessageRepository(supabase);
 
-  return messageRepo.getByGroupId(asGroupId(groupId), {
-    limit: options?.limit,
-    before: options?.before ? new Date(options.before) : undefined,
+  const limit = options?.limit ?? MESSAGES_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error("Page size must be a positive whole number");
+  }
+
+  let before: MessageCursor | undefined;
+  if (options?.before) {
+    const cursorResult = validateMessageCursor(options.before);
+    if (!cursorResult.success) {
+      throw new Error(cursorResult.error);
+    }
+    before = {
+      createdAt: cursorResult.value.createdAt,
+      id: asMessageId(cursorResult.value.id),
+    };
+  }
+
+  return messageRepo.getPageByGroupId(asGroupId(groupId), {
+    limit: Math.min(limit, MESSAGES_PAGE_SIZE),
+    before,
   });
 }
+
+/**
+ * Get per-recipient SMS deliveries for a message, with status history.
+ * RLS limits results to messages in the caller's groups.
+ */
+export async function getMessageDeliveries(
+  messageId: string
+): Promise<MessageDeliveriesResult> {
+  await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const deliveryRepo = new MessageDeliveryRepository(supabase);
+
+  try {
+    const deliveries = await deliveryRepo.getByMessageIdWithEvents(
+      asMessageId(messageId)
+    );
+
+    return { success: true, deliveries };
+  } catch (error) {
+    console.error("Get message deliveries error:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to load delivery details",
+    };
+  }
+}
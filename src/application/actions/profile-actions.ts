@@ -3,14 +3,22 @@
 /**
  * Profile Server Actions
  *
- * Handles profile updates.
+ * Handles profile updates, phone verification, and linking a verified
+ * phone's SMS history.
  */
 
 import { revalidatePath } from "next/cache";
 import { createServerSupabaseClient } from "@/data/supabase/server";
-import { ProfileRepository } from "@/data/repositories";
-import { asUserId, type AppUser } from "@/domain/types";
-import { normalizeToE164 } from "@/domain/validators";
+import {
+  ProfileRepository,
+  SmsParticipantRepository,
+} from "@/data/repositories";
+import {
+  asUserId,
+  getPhoneVerificationError,
+  type AppUser,
+} from "@/domain/types";
+import { normalizeToE164, validateVerificationCode } from "@/domain/validators";
 import { requireAuth } from "./auth-actions";
 
 export interface ProfileUpdateResult {
@@ -60,6 +68,111 @@ export async function updateProfile(
   }
 }
 
+export interface PhoneVerificationResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Text a verification code to a phone number.
+ * The number only becomes the profile's verified phone once the code is
+ * confirmed with verifyPhoneNumber.
+ */
+export async function sendPhoneVerificationCode(
+  formData: FormData
+): Promise<PhoneVerificationResult> {
+  await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const profileRepo = new ProfileRepository(supabase);
+
+  const phoneResult = normalizeToE164((formData.get("phoneNumber") as string) || "");
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  try {
+    await profileRepo.sendPhoneVerificationCode(phoneResult.value);
+    return { success: true };
+  } catch (error) {
+    console.error("Send verification code error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to send code",
+    };
+  }
+}
+
+/**
+ * Confirm a texted code, making the phone the profile's verified number.
+ */
+export async function verifyPhoneNumber(
+  formData: FormData
+): Promise<PhoneVerificationResult> {
+  await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const profileRepo = new ProfileRepository(supabase);
+
+  const phoneResult = normalizeToE164((formData.get("phoneNumber") as string) || "");
+  if (!phoneResult.success) {
+    return { success: false, error: phoneResult.error };
+  }
+
+  const codeResult = validateVerificationCode((formData.get("code") as string) || "");
+  if (!codeResult.success) {
+    return { success: false, error: codeResult.error };
+  }
+
+  try {
+    const status = await profileRepo.verifyPhone(phoneResult.value, codeResult.value);
+    if (status !== "verified") {
+      return { success: false, error: getPhoneVerificationError(status) };
+    }
+
+    revalidatePath("/settings");
+
+    return { success: true };
+  } catch (error) {
+    console.error("Verify phone error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to verify phone number",
+    };
+  }
+}
+
+export interface LinkSmsIdentityResult {
+  success: boolean;
+  error?: string;
+  /** Groups the user joined with their account */
+  joinedCount?: number;
+}
+
+/**
+ * Convert the SMS participant matching the current user's verified phone
+ * into their account. They join its groups, its texts are attributed to
+ * them, and SMS delivery to the phone stops.
+ */
+export async function linkSmsIdentity(): Promise<LinkSmsIdentityResult> {
+  await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const smsRepo = new SmsParticipantRepository(supabase);
+
+  try {
+    const joinedCount = await smsRepo.linkToCurrentUser();
+
+    revalidatePath("/settings");
+    revalidatePath("/chats");
+
+    return { success: true, joinedCount };
+  } catch (error) {
+    console.error("Link SMS identity error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to link phone number",
+    };
+  }
+}
+
 /**
  * Get the current user's profile.
  */
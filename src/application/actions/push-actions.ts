@@ -0,0 +1,80 @@
+"use server";
+
+/**
+ * Push Notification Server Actions
+ *
+ * Handles subscribing browsers to new-message push notifications.
+ */
+
+import { headers } from "next/headers";
+import {
+  createServerSupabaseClient,
+  createServiceSupabaseClient,
+} from "@/data/supabase/server";
+import type { SupabaseClient } from "@/data/supabase/client";
+import { PushSubscriptionRepository } from "@/data/repositories";
+import { asUserId } from "@/domain/types";
+import { validatePushSubscription } from "@/domain/validators";
+import { requireAuth } from "./auth-actions";
+
+export interface PushSubscriptionResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Save this browser's push subscription for the current user.
+ * Takes the browser's PushSubscription.toJSON().
+ */
+export async function subscribeToPush(
+  subscription: unknown
+): Promise<PushSubscriptionResult> {
+  const user = await requireAuth();
+
+  const validation = validatePushSubscription(subscription);
+  if (!validation.success) {
+    return { success: false, error: validation.error };
+  }
+
+  // Use service client: the browser may still be subscribed under an
+  // account that was signed in on it before.
+  // Repositories are typed for the RLS client; the API is the same.
+  const serviceClient = createServiceSupabaseClient() as unknown as SupabaseClient;
+  const subscriptionRepo = new PushSubscriptionRepository(serviceClient);
+
+  try {
+    const userAgent = (await headers()).get("user-agent");
+    await subscriptionRepo.save(asUserId(user.id), validation.value, userAgent);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Subscribe to push error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to turn on notifications",
+    };
+  }
+}
+
+/**
+ * Stop push notifications to this browser for the current user.
+ */
+export async function unsubscribeFromPush(
+  endpoint: string
+): Promise<PushSubscriptionResult> {
+  const user = await requireAuth();
+  const supabase = await createServerSupabaseClient();
+  const subscriptionRepo = new PushSubscriptionRepository(supabase);
+
+  try {
+    await subscriptionRepo.deleteByEndpoint(asUserId(user.id), endpoint);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Unsubscribe from push error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to turn off notifications",
+    };
+  }
+}
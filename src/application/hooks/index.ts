@@ -3,6 +3,13 @@
  */
 
 export { useSupabase } from "./use-supabase";
+export { useChatMessageStore, useChatMessages } from "./use-chat-messages";
 export { useRealtimeMessages } from "./use-realtime-messages";
+export { useMessageHistory } from "./use-message-history";
 export { useSendMessage } from "./use-send-message";
 export { useCurrentUser } from "./use-current-user";
+export { useAttachmentUrl } from "./use-attachment-url";
+export { useAttachmentUpload } from "./use-attachment-upload";
+export { usePushNotifications } from "./use-push-notifications";
+export { useOutbox } from "./use-outbox";
+export { useSignOut } from "./use-sign-out";
@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * Attachment Upload Hook
+ *
+ * Uploads files to the sender's upload folder in the attachments bucket,
+ * ready to be passed to sendMessage.
+ */
+
+import { useCallback } from "react";
+import { useSupabase } from "./use-supabase";
+import {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  getAttachmentUploadPrefix,
+  type NewMessageAttachment,
+} from "@/domain/types";
+import { validateAttachmentFile } from "@/domain/validators";
+
+interface UseAttachmentUploadOptions {
+  groupId: string;
+  userId: string;
+}
+
+interface UseAttachmentUploadResult {
+  /** Uploads a file; throws with a user-facing message on failure */
+  upload: (file: File) => Promise<NewMessageAttachment>;
+}
+
+export function useAttachmentUpload({
+  groupId,
+  userId,
+}: UseAttachmentUploadOptions): UseAttachmentUploadResult {
+  const supabase = useSupabase();
+
+  const upload = useCallback(
+    async (file: File) => {
+      const validation = validateAttachmentFile(file);
+      if (!validation.success) {
+        throw new Error(validation.error);
+      }
+
+      // Unique name; keep the extension so downloads open correctly
+      const extension = file.name.includes(".")
+        ? file.name.split(".").pop()!.toLowerCase()
+        : "bin";
+      const storagePath = `${getAttachmentUploadPrefix(groupId, userId)}${crypto.randomUUID()}.${extension}`;
+
+      const { error } = await supabase.storage
+        .from(MESSAGE_ATTACHMENTS_BUCKET)
+        .upload(storagePath, file, { contentType: file.type });
+
+      if (error) {
+        console.error("Attachment upload error:", error);
+        throw new Error("Failed to upload attachment");
+      }
+
+      return {
+        storagePath,
+        contentType: file.type,
+        fileName: file.name || null,
+        sizeBytes: file.size,
+      };
+    },
+    [supabase, groupId, userId]
+  );
+
+  return { upload };
+}
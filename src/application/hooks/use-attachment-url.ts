@@ -0,0 +1,49 @@
+"use client";
+
+/**
+ * Attachment URL Hook
+ *
+ * Resolves a short-lived signed URL for a file in the private
+ * attachments bucket. Storage RLS limits access to group members.
+ */
+
+import { useEffect, useState } from "react";
+import { useSupabase } from "./use-supabase";
+import { MESSAGE_ATTACHMENTS_BUCKET } from "@/domain/types";
+
+/** Signed URL lifetime in seconds */
+const SIGNED_URL_EXPIRY = 60 * 60;
+
+interface UseAttachmentUrlResult {
+  url: string | null;
+  error: Error | null;
+}
+
+export function useAttachmentUrl(storagePath: string): UseAttachmentUrlResult {
+  const supabase = useSupabase();
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .createSignedUrl(storagePath, SIGNED_URL_EXPIRY)
+      .then(({ data, error: signError }) => {
+        if (cancelled) return;
+        if (signError || !data) {
+          setError(signError ?? new Error("Failed to load attachment"));
+        } else {
+          setUrl(data.signedUrl);
+          setError(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [supabase, storagePath]);
+
+  return { url, error };
+}
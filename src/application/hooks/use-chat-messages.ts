@@ -0,0 +1,34 @@
+"use client";
+
+/**
+ * Chat Messages Hooks
+ *
+ * Access to the open chat's message store, provided by the chat view
+ * through ChatMessageStoreContext.
+ */
+
+import { useContext, useSyncExternalStore } from "react";
+import {
+  ChatMessageStoreContext,
+  type ChatMessageStore,
+  type ChatMessagesSnapshot,
+} from "../stores";
+
+/**
+ * The open chat's message store.
+ */
+export function useChatMessageStore(): ChatMessageStore {
+  const store = useContext(ChatMessageStoreContext);
+  if (!store) {
+    throw new Error("useChatMessageStore must be used inside a chat view");
+  }
+  return store;
+}
+
+/**
+ * The open chat's messages, re-rendering when they change.
+ */
+export function useChatMessages(): ChatMessagesSnapshot {
+  const store = useChatMessageStore();
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
@@ -0,0 +1,63 @@
+"use client";
+
+/**
+ * Message History Hook
+ *
+ * Loads older pages of the chat's history into its message store, from
+ * the cursor the store holds. Must be used inside a chat view.
+ */
+
+import { useCallback, useRef, useState } from "react";
+import { getGroupMessages } from "../actions";
+import { useChatMessageStore, useChatMessages } from "./use-chat-messages";
+
+interface UseMessageHistoryOptions {
+  groupId: string;
+}
+
+interface UseMessageHistoryResult {
+  /** False once the start of the history is loaded */
+  hasOlder: boolean;
+  isLoadingOlder: boolean;
+  error: string | null;
+  /** Load the next older page; does nothing while one is loading */
+  loadOlder: () => Promise<void>;
+}
+
+export function useMessageHistory({
+  groupId,
+}: UseMessageHistoryOptions): UseMessageHistoryResult {
+  const store = useChatMessageStore();
+  const { olderCursor } = useChatMessages();
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // State updates too late to stop a second scroll event
+  const loadingRef = useRef(false);
+
+  const loadOlder = useCallback(async () => {
+    const before = store.getSnapshot().olderCursor;
+    if (!before || loadingRef.current) return;
+
+    loadingRef.current = true;
+    setIsLoadingOlder(true);
+    setError(null);
+
+    try {
+      const page = await getGroupMessages(groupId, { before });
+      store.prependOlder(page);
+    } catch (err) {
+      console.error("Failed to load older messages:", err);
+      setError("Couldn't load earlier messages");
+    } finally {
+      loadingRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [store, groupId]);
+
+  return {
+    hasOlder: olderCursor !== null,
+    isLoadingOlder,
+    error,
+    loadOlder,
+  };
+}
@@ -0,0 +1,137 @@
+"use client";
+
+/**
+ * Outbox Hook
+ *
+ * Lists a group's messages waiting in the offline outbox, and flushes the
+ * outbox when the chat opens and whenever the device comes back online.
+ * This covers browsers without Background Sync; with it, the service
+ * worker may get there first, and client IDs keep the two from sending a
+ * message twice.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { sendMessage } from "../actions";
+import {
+  getOutboxEntries,
+  getQueuedOutboxEntries,
+  isOutboxSupported,
+  markOutboxEntryFailed,
+  onOutboxChanged,
+  removeFromOutbox,
+  requeueOutboxEntry,
+  requestOutboxSync,
+} from "@/data/outbox";
+import type { PendingMessage } from "@/domain/types";
+
+interface UseOutboxOptions {
+  groupId: string;
+  /** Only this user's queued messages are listed and sent */
+  currentUserId: string;
+}
+
+interface UseOutboxResult {
+  /** Oldest first */
+  pendingMessages: PendingMessage[];
+  /** Drop a message that won't be sent */
+  discard: (clientId: string) => Promise<void>;
+  /** Queue a failed message to be sent again */
+  resend: (clientId: string) => Promise<void>;
+}
+
+// One flush at a time across every open chat in this tab
+let isFlushing = false;
+
+/**
+ * Send every message the current user queued, oldest first. Stops at the
+ * first network or temporary server failure; the rest wait for the next
+ * reconnect.
+ */
+async function flushOutbox(currentUserId: string): Promise<void> {
+  if (isFlushing || !navigator.onLine) return;
+  isFlushing = true;
+
+  try {
+    const entries = await getQueuedOutboxEntries(currentUserId);
+
+    for (const entry of entries) {
+      let result;
+      try {
+        result = await sendMessage(
+          entry.groupId,
+          entry.content,
+          [...entry.attachments],
+          entry.clientId
+        );
+      } catch {
+        return;
+      }
+
+      if (result.success) {
+        await removeFromOutbox(entry.clientId);
+      } else if (result.retryable) {
+        return;
+      } else {
+        await markOutboxEntryFailed(
+          entry.clientId,
+          result.error || "Failed to send message"
+        );
+      }
+    }
+  } finally {
+    isFlushing = false;
+  }
+}
+
+export function useOutbox({
+  groupId,
+  currentUserId,
+}: UseOutboxOptions): UseOutboxResult {
+  const [pendingMessages, setPendingMessages] = useState<PendingMessage[]>([]);
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+
+    let cancelled = false;
+    const refresh = () => {
+      getOutboxEntries(groupId, currentUserId)
+        .then((entries) => {
+          if (!cancelled) setPendingMessages(entries);
+        })
+        .catch((e) => console.error("Failed to read outbox:", e));
+    };
+    const flush = () => {
+      flushOutbox(currentUserId).catch((e) =>
+        console.error("Failed to flush outbox:", e)
+      );
+    };
+
+    refresh();
+    flush();
+
+    const unsubscribe = onOutboxChanged(refresh);
+    window.addEventListener("online", flush);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      window.removeEventListener("online", flush);
+    };
+  }, [groupId, currentUserId]);
+
+  const discard = useCallback(async (clientId: string) => {
+    await removeFromOutbox(clientId);
+  }, []);
+
+  const resend = useCallback(
+    async (clientId: string) => {
+      await requeueOutboxEntry(clientId);
+      if (!(await requestOutboxSync())) {
+        await flushOutbox(currentUserId);
+      }
+    },
+    [currentUserId]
+  );
+
+  return { pendingMessages, discard, resend };
+}
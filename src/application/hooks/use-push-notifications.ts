@@ -0,0 +1,99 @@
+"use client";
+
+/**
+ * Push Notifications Hook
+ *
+ * Turns new-message push notifications on and off for this browser,
+ * through the service worker's push subscription.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import { subscribeToPush, unsubscribeFromPush } from "@/application/actions";
+import { env } from "@/lib/env";
+
+interface UsePushNotificationsResult {
+  /** False if the browser can't do push or VAPID keys aren't configured */
+  isSupported: boolean;
+  permission: NotificationPermission;
+  isSubscribed: boolean;
+  isLoading: boolean;
+  /** Asks for permission and subscribes; throws with a user-facing message */
+  subscribe: () => Promise<void>;
+  /** Throws with a user-facing message */
+  unsubscribe: () => Promise<void>;
+}
+
+export function usePushNotifications(): UsePushNotificationsResult {
+  const [isSupported, setIsSupported] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>("default");
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const supported =
+      Boolean(env.vapidPublicKey) &&
+      "serviceWorker" in navigator &&
+      "PushManager" in window &&
+      "Notification" in window;
+
+    setIsSupported(supported);
+    if (!supported) {
+      setIsLoading(false);
+      return;
+    }
+
+    setPermission(Notification.permission);
+    navigator.serviceWorker.ready
+      .then((registration) => registration.pushManager.getSubscription())
+      .then((subscription) => setIsSubscribed(subscription !== null))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const subscribe = useCallback(async () => {
+    const result = await Notification.requestPermission();
+    setPermission(result);
+    if (result !== "granted") {
+      throw new Error("Notifications are blocked. Allow them in your browser settings.");
+    }
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToUint8Array(env.vapidPublicKey!),
+    });
+
+    const saved = await subscribeToPush(subscription.toJSON());
+    if (!saved.success) {
+      await subscription.unsubscribe();
+      throw new Error(saved.error || "Failed to turn on notifications");
+    }
+
+    setIsSubscribed(true);
+  }, []);
+
+  const unsubscribe = useCallback(async () => {
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) {
+      const removed = await unsubscribeFromPush(subscription.endpoint);
+      if (!removed.success) {
+        throw new Error(removed.error || "Failed to turn off notifications");
+      }
+      await subscription.unsubscribe();
+    }
+
+    setIsSubscribed(false);
+  }, []);
+
+  return { isSupported, permission, isSubscribed, isLoading, subscribe, unsubscribe };
+}
+
+/**
+ * Decodes the VAPID public key for pushManager.subscribe.
+ */
+function base64UrlToUint8Array(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -3,17 +3,20 @@
 /**
  * Realtime Messages Hook
  *
- * Subscribes to new messages and updates for a group.
+ * Subscribes to new messages, updates and attachments for a group and
+ * applies them to the chat's message store.
  * Handles connection state and cleanup.
  */
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import type { RealtimeChannel } from "@supabase/supabase-js";
 import { useSupabase } from "./use-supabase";
-import type { Message } from "@/domain/types";
+import { useChatMessageStore, useChatMessages } from "./use-chat-messages";
+import type { Message, MessageAttachment } from "@/domain/types";
 import {
   asGroupId,
   asMessageId,
+  asMessageAttachmentId,
   asUserId,
   asSmsParticipantId,
   asTwilioMessageSid,
@@ -31,6 +34,8 @@ function mapPayloadToMessage(row: any): Message | null {
     id: asMessageId(row.id),
     groupId: asGroupId(row.group_id),
     content: row.content,
+    // Attachment rows are inserted after the message and arrive separately
+    attachments: [],
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -45,6 +50,7 @@ function mapPayloadToMessage(row: any): Message | null {
       twilioMessageSid: row.twilio_message_sid
         ? asTwilioMessageSid(row.twilio_message_sid)
         : null,
+      clientId: row.client_id ?? null,
     };
   } else if (row.origin === "sms") {
     if (!row.sender_sms_participant_id || !row.twilio_message_sid) return null;
@@ -52,6 +58,7 @@ function mapPayloadToMessage(row: any): Message | null {
       ...base,
       origin: "sms" as const,
       senderSmsParticipantId: asSmsParticipantId(row.sender_sms_participant_id),
+      senderUserId: row.sender_user_id ? asUserId(row.sender_user_id) : null,
       twilioMessageSid: asTwilioMessageSid(row.twilio_message_sid),
     };
   }
@@ -59,52 +66,71 @@ function mapPayloadToMessage(row: any): Message | null {
   return null;
 }
 
+/**
+ * Maps a realtime payload to a MessageAttachment object.
+ */
+function mapPayloadToAttachment(row: any): MessageAttachment | null {
+  if (!row || !row.id || !row.message_id) return null;
+
+  return {
+    id: asMessageAttachmentId(row.id),
+    messageId: asMessageId(row.message_id),
+    groupId: asGroupId(row.group_id),
+    storagePath: row.storage_path,
+    contentType: row.content_type,
+    fileName: row.file_name ?? null,
+    sizeBytes: row.size_bytes ?? null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
 interface UseRealtimeMessagesOptions {
   groupId: string;
-  initialMessages: Message[];
   onNewMessage?: (message: Message) => void;
 }
 
 interface UseRealtimeMessagesResult {
-  messages: Message[];
+  messages: readonly Message[];
   isConnected: boolean;
   error: Error | null;
 }
 
+/**
+ * Keeps the chat's message store up to date. Must be used inside a chat
+ * view, which provides the store.
+ */
 export function useRealtimeMessages({
   groupId,
-  initialMessages,
   onNewMessage,
 }: UseRealtimeMessagesOptions): UseRealtimeMessagesResult {
   const supabase = useSupabase();
-  const [messages, setMessages] = useState<Message[]>(initialMessages);
+  const store = useChatMessageStore();
+  const { messages } = useChatMessages();
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<Error | null>(null);
 
   const channelRef = useRef<RealtimeChannel | null>(null);
 
-  // Handle new message
+  // Handle new message (replaces the optimistic one with its client ID)
   const handleNewMessage = useCallback(
     (message: Message) => {
-      setMessages((prev) => {
-        // Check for duplicate (might already be in list from optimistic update)
-        if (prev.some((m) => m.id === message.id)) {
-          return prev;
-        }
-        return [...prev, message];
-      });
-
+      store.receiveMessage(message);
       onNewMessage?.(message);
     },
-    [onNewMessage]
+    [store, onNewMessage]
   );
 
   // Handle message update (delivery status change)
-  const handleMessageUpdate = useCallback((updatedMessage: Message) => {
-    setMessages((prev) =>
-      prev.map((m) => (m.id === updatedMessage.id ? updatedMessage : m))
-    );
-  }, []);
+  const handleMessageUpdate = useCallback(
+    (updatedMessage: Message) => store.updateMessage(updatedMessage),
+    [store]
+  );
+
+  // Handle new attachment
+  const handleNewAttachment = useCallback(
+    (attachment: MessageAttachment) => store.receiveAttachment(attachment),
+    [store]
+  );
 
   // Subscribe to messages
   useEffect(() => {
@@ -151,6 +177,25 @@ export function useRealtimeMessages({
           }
         }
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "message_attachments",
+          filter: `group_id=eq.${groupId}`,
+        },
+        (payload) => {
+          try {
+            const attachment = mapPayloadToAttachment(payload.new);
+            if (attachment) {
+              handleNewAttachment(attachment);
+            }
+          } catch (e) {
+            console.error("Failed to process new attachment:", e);
+          }
+        }
+      )
       .subscribe((status, err) => {
         if (status === "SUBSCRIBED") {
           setIsConnected(true);
@@ -171,12 +216,7 @@ export function useRealtimeMessages({
         channelRef.current = null;
       }
     };
-  }, [supabase, groupId, handleNewMessage, handleMessageUpdate]);
-
-  // Update messages when initial messages change
-  useEffect(() => {
-    setMessages(initialMessages);
-  }, [initialMessages]);
+  }, [supabase, groupId, handleNewMessage, handleMessageUpdate, handleNewAttachment]);
 
   return {
     messages,
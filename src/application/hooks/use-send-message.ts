@@ -4,66 +4,202 @@
  * Send Message Hook
  *
  * Handles message sending with optimistic updates.
+ * Each send gets a client ID and shows up in the chat's message store at
+ * once under a temporary ID; the real row replaces it when it arrives.
+ * Sends the server refuses stay in the list to be resent or discarded.
+ * If the device is offline or the request never reaches the server, the
+ * message goes to the outbox and is sent with the same ID later, so it
+ * can't be created twice.
  */
 
 import { useState, useCallback } from "react";
 import { sendMessage } from "../actions";
-import type { Message } from "@/domain/types";
+import { getOptimisticMessageId } from "../stores";
+import {
+  addToOutbox,
+  isOutboxSupported,
+  requestOutboxSync,
+} from "@/data/outbox";
+import type {
+  AppOriginMessage,
+  Message,
+  NewMessageAttachment,
+  UserId,
+} from "@/domain/types";
+import { asGroupId, asMessageId } from "@/domain/types";
+import { useChatMessageStore } from "./use-chat-messages";
 
 interface UseSendMessageOptions {
   groupId: string;
+  /** Current user, shown as the optimistic messages' sender */
+  senderUserId: UserId;
   onOptimisticAdd?: (message: Message) => void;
   onSuccess?: (message: Message) => void;
   onError?: (error: string) => void;
 }
 
 interface UseSendMessageResult {
-  send: (content: string) => Promise<void>;
+  send: (content: string, attachments?: NewMessageAttachment[]) => Promise<void>;
+  /** Send a failed optimistic message again, with the same client ID */
+  resend: (clientId: string) => Promise<void>;
+  /** Drop a failed optimistic message */
+  discard: (clientId: string) => void;
   isSending: boolean;
+  /** Errors not shown on a message, e.g. failing to queue while offline */
   error: string | null;
 }
 
+/**
+ * Must be used inside a chat view, which provides the message store.
+ */
 export function useSendMessage({
   groupId,
+  senderUserId,
   onOptimisticAdd,
   onSuccess,
   onError,
 }: UseSendMessageOptions): UseSendMessageResult {
-  const [isSending, setIsSending] = useState(false);
+  const store = useChatMessageStore();
+  const [sendingCount, setSendingCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
-  const send = useCallback(
-    async (content: string) => {
-      if (!content.trim() || isSending) return;
+  const reportError = useCallback(
+    (errorMessage: string) => {
+      setError(errorMessage);
+      onError?.(errorMessage);
+    },
+    [onError]
+  );
 
-      setIsSending(true);
-      setError(null);
+  // Queue for later instead of failing while offline
+  const queue = useCallback(
+    async (
+      clientId: string,
+      content: string,
+      attachments: readonly NewMessageAttachment[]
+    ) => {
+      await addToOutbox({
+        clientId,
+        groupId: asGroupId(groupId),
+        senderUserId,
+        content,
+        attachments,
+      });
+      await requestOutboxSync();
+    },
+    [groupId, senderUserId]
+  );
+
+  // Send an optimistic message that's already in the store
+  const deliver = useCallback(
+    async (
+      clientId: string,
+      content: string,
+      attachments: readonly NewMessageAttachment[]
+    ) => {
+      store.markSending(clientId);
+      setSendingCount((count) => count + 1);
 
       try {
-        const result = await sendMessage(groupId, content);
+        const result = await sendMessage(
+          groupId,
+          content,
+          [...attachments],
+          clientId
+        );
 
         if (result.success && result.message) {
+          store.receiveMessage(result.message);
           onSuccess?.(result.message);
         } else {
           const errorMessage = result.error || "Failed to send message";
-          setError(errorMessage);
+          store.markFailed(clientId, errorMessage);
           onError?.(errorMessage);
         }
       } catch (err) {
+        // The request didn't get through - move it to the outbox to retry
+        // with the same ID
+        if (isOutboxSupported()) {
+          try {
+            await queue(clientId, content, attachments);
+            store.removeOptimistic(clientId);
+            return;
+          } catch {
+            // Leave it in the list as failed
+          }
+        }
+
         const errorMessage =
           err instanceof Error ? err.message : "Failed to send message";
-        setError(errorMessage);
+        store.markFailed(clientId, errorMessage);
         onError?.(errorMessage);
       } finally {
-        setIsSending(false);
+        setSendingCount((count) => count - 1);
       }
     },
-    [groupId, isSending, onOptimisticAdd, onSuccess, onError]
+    [store, groupId, queue, onSuccess, onError]
+  );
+
+  const send = useCallback(
+    async (content: string, attachments: NewMessageAttachment[] = []) => {
+      if (!content.trim() && attachments.length === 0) return;
+
+      setError(null);
+      const clientId = crypto.randomUUID();
+
+      if (!navigator.onLine && isOutboxSupported()) {
+        try {
+          await queue(clientId, content, attachments);
+        } catch {
+          reportError("You're offline. Try again when you reconnect.");
+        }
+        return;
+      }
+
+      const now = new Date();
+      const optimistic: AppOriginMessage = {
+        id: asMessageId(getOptimisticMessageId(clientId)),
+        groupId: asGroupId(groupId),
+        content,
+        // Uploads become attachments once the message is saved
+        attachments: [],
+        createdAt: now,
+        updatedAt: now,
+        origin: "app",
+        senderUserId,
+        deliveryStatus: null,
+        twilioMessageSid: null,
+        clientId,
+      };
+
+      store.addOptimistic(optimistic, attachments);
+      onOptimisticAdd?.(optimistic);
+
+      await deliver(clientId, content, attachments);
+    },
+    [store, groupId, senderUserId, queue, deliver, reportError, onOptimisticAdd]
+  );
+
+  const resend = useCallback(
+    async (clientId: string) => {
+      const pending = store.getSnapshot().sends.get(clientId);
+      if (!pending || pending.status !== "failed") return;
+
+      await deliver(clientId, pending.content, pending.attachments);
+    },
+    [store, deliver]
+  );
+
+  const discard = useCallback(
+    (clientId: string) => store.removeOptimistic(clientId),
+    [store]
   );
 
   return {
     send,
-    isSending,
+    resend,
+    discard,
+    isSending: sendingCount > 0,
     error,
   };
 }
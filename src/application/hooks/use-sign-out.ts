@@ -0,0 +1,34 @@
+"use client";
+
+/**
+ * Sign Out Hook
+ *
+ * Signs the user out of this browser. Messages they queued offline are
+ * dropped first, so nothing they wrote is sent after they've left.
+ */
+
+import { useCallback, useTransition } from "react";
+import { signOut as signOutAction } from "../actions";
+import { clearOutbox, isOutboxSupported } from "@/data/outbox";
+
+interface UseSignOutResult {
+  signOut: () => void;
+  isSigningOut: boolean;
+}
+
+export function useSignOut(): UseSignOutResult {
+  const [isSigningOut, startTransition] = useTransition();
+
+  const signOut = useCallback(() => {
+    startTransition(async () => {
+      if (isOutboxSupported()) {
+        await clearOutbox().catch((e) =>
+          console.error("Failed to clear outbox:", e)
+        );
+      }
+      await signOutAction();
+    });
+  }, []);
+
+  return { signOut, isSigningOut };
+}
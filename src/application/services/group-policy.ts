@@ -0,0 +1,290 @@
+/**
+ * Group Policy
+ *
+ * Decides what the current user may do in a group, built on the role
+ * rules in the domain (canManageGroup, canRemoveMembers, canDeleteGroup...).
+ * Every mutating action asks the policy first and returns an explicit
+ * forbidden result when denied, rather than relying on RLS to make the
+ * write silently affect no rows. RLS still applies underneath.
+ *
+ * Server-only: roles are loaded through the caller's Supabase client.
+ */
+
+import type { GroupRepository } from "@/data/repositories";
+import {
+  canManageGroup,
+  canRemoveMembers,
+  canDeleteGroup,
+  canChangeMemberRole,
+  canTransferOwnership,
+  type BlockScope,
+  type BlockedNumber,
+  type GroupId,
+  type GroupMemberRole,
+  type UserId,
+} from "@/domain/types";
+
+/**
+ * Outcome of a policy check. Allowed checks carry the caller's role.
+ */
+export type PolicyDecision =
+  | { allowed: true; role: GroupMemberRole }
+  | { allowed: false; error: string };
+
+/**
+ * Action result for a denied check
+ */
+export interface ForbiddenResult {
+  success: false;
+  forbidden: true;
+  error: string;
+}
+
+/**
+ * Converts a denied decision into an action result.
+ */
+export function toForbiddenResult(
+  decision: Extract<PolicyDecision, { allowed: false }>
+): ForbiddenResult {
+  return { success: false, forbidden: true, error: decision.error };
+}
+
+const NOT_A_MEMBER = "You are not a member of this group";
+
+export class GroupPolicy {
+  /** Roles loaded so far, by group; null for non-members */
+  private roles = new Map<GroupId, GroupMemberRole | null>();
+
+  constructor(
+    private groupRepo: GroupRepository,
+    private userId: UserId
+  ) {}
+
+  /**
+   * The current user's role in a group, or null if they aren't a member.
+   */
+  async getRole(groupId: GroupId): Promise<GroupMemberRole | null> {
+    if (!this.roles.has(groupId)) {
+      this.roles.set(groupId, await this.groupRepo.getUserRole(groupId, this.userId));
+    }
+    return this.roles.get(groupId) ?? null;
+  }
+
+  /**
+   * Post messages to the group.
+   */
+  async canSendMessages(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(groupId, () => true, NOT_A_MEMBER);
+  }
+
+  /**
+   * Change how the group notifies the caller.
+   */
+  async canChangeNotifications(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(groupId, () => true, NOT_A_MEMBER);
+  }
+
+  /**
+   * Retry SMS delivery of a message: its sender or an owner/admin.
+   */
+  async canRetryDelivery(
+    groupId: GroupId,
+    senderUserId: UserId | null
+  ): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      (role) => senderUserId === this.userId || canManageGroup(role),
+      "Only the sender or a group admin can retry this message"
+    );
+  }
+
+  /**
+   * Rename the group.
+   */
+  async canUpdateGroup(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      canManageGroup,
+      "Only owners and admins can update group settings"
+    );
+  }
+
+  /**
+   * Delete the group and everything in it.
+   */
+  async canDeleteGroup(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      canDeleteGroup,
+      "Only the group owner can delete the group"
+    );
+  }
+
+  /**
+   * Add app users or SMS participants.
+   */
+  async canAddMembers(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(groupId, canManageGroup, "Only owners and admins can add members");
+  }
+
+  /**
+   * Remove another member. No one removes themselves (they leave) or the owner.
+   */
+  async canRemoveMember(
+    groupId: GroupId,
+    member: { kind: "app_user"; userId: UserId } | { kind: "sms_participant" }
+  ): Promise<PolicyDecision> {
+    const decision = await this.check(
+      groupId,
+      canRemoveMembers,
+      "Only owners and admins can remove members"
+    );
+    if (!decision.allowed || member.kind === "sms_participant") {
+      return decision;
+    }
+
+    if (member.userId === this.userId) {
+      return { allowed: false, error: "You cannot remove yourself from the group" };
+    }
+    if ((await this.groupRepo.getUserRole(groupId, member.userId)) === "owner") {
+      return { allowed: false, error: "Cannot remove the group owner" };
+    }
+    return decision;
+  }
+
+  /**
+   * Leave the group. The owner must transfer ownership first.
+   */
+  async canLeave(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      (role) => role !== "owner",
+      "Transfer ownership to another member before leaving"
+    );
+  }
+
+  /**
+   * Change another app member's role between admin and member.
+   */
+  async canChangeMemberRole(
+    groupId: GroupId,
+    memberUserId: UserId,
+    newRole: GroupMemberRole
+  ): Promise<PolicyDecision> {
+    if (memberUserId === this.userId) {
+      return { allowed: false, error: "You cannot change your own role" };
+    }
+    const memberRole = await this.groupRepo.getUserRole(groupId, memberUserId);
+    if (!memberRole) {
+      return { allowed: false, error: "Not a member of this group" };
+    }
+
+    return this.check(
+      groupId,
+      (role) => canChangeMemberRole(role, memberRole, newRole),
+      "Only the group owner can change roles"
+    );
+  }
+
+  /**
+   * Make another app member the owner.
+   */
+  async canTransferOwnership(
+    groupId: GroupId,
+    newOwnerUserId: UserId
+  ): Promise<PolicyDecision> {
+    const decision = await this.check(
+      groupId,
+      canTransferOwnership,
+      "Only the group owner can transfer ownership"
+    );
+    if (!decision.allowed) {
+      return decision;
+    }
+
+    if (newOwnerUserId === this.userId) {
+      return { allowed: false, error: "You already own this group" };
+    }
+    if (!(await this.groupRepo.isMember(groupId, newOwnerUserId))) {
+      return { allowed: false, error: "The new owner must be a member of the group" };
+    }
+    return decision;
+  }
+
+  /**
+   * Approve or block texts from unknown senders.
+   */
+  async canReviewRequests(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(groupId, canManageGroup, "Only owners and admins can review requests");
+  }
+
+  /**
+   * Block a number for the group (owners/admins), or for every group the
+   * caller owns (any member; it only affects their own groups).
+   */
+  async canBlockNumber(groupId: GroupId, scope: BlockScope): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      (role) => scope === "user" || canManageGroup(role),
+      "Only owners and admins can block numbers"
+    );
+  }
+
+  /**
+   * Remove a block: the group's blocks (owners/admins) or the caller's own.
+   */
+  async canUnblockNumber(
+    groupId: GroupId,
+    block: BlockedNumber
+  ): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      (role) =>
+        block.groupId === null
+          ? block.userId === this.userId
+          : block.groupId === groupId && canManageGroup(role),
+      "You can't remove this block"
+    );
+  }
+
+  /**
+   * Invite people to the group. Only the owner invites admins, and
+   * ownership is never given by invitation.
+   */
+  async canInvite(groupId: GroupId, role: GroupMemberRole): Promise<PolicyDecision> {
+    if (role === "owner") {
+      return { allowed: false, error: "Ownership can't be given by invitation" };
+    }
+    return this.check(
+      groupId,
+      (callerRole) =>
+        canManageGroup(callerRole) && (role !== "admin" || callerRole === "owner"),
+      role === "admin"
+        ? "Only the group owner can invite admins"
+        : "Only owners and admins can invite people"
+    );
+  }
+
+  /**
+   * Withdraw invitations.
+   */
+  async canManageInvitations(groupId: GroupId): Promise<PolicyDecision> {
+    return this.check(
+      groupId,
+      canManageGroup,
+      "Only owners and admins can manage invitations"
+    );
+  }
+
+  private async check(
+    groupId: GroupId,
+    rule: (role: GroupMemberRole) => boolean,
+    error: string
+  ): Promise<PolicyDecision> {
+    const role = await this.getRole(groupId);
+    if (!role) {
+      return { allowed: false, error: NOT_A_MEMBER };
+    }
+    return rule(role) ? { allowed: true, role } : { allowed: false, error };
+  }
+}
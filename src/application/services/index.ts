@@ -0,0 +1,11 @@
+/**
+ * Application Services - Public API
+ *
+ * Server-only.
+ */
+
+export { GroupPolicy, toForbiddenResult } from "./group-policy";
+export type { PolicyDecision, ForbiddenResult } from "./group-policy";
+
+export { PushNotifier } from "./push-notifier";
+export type { PushNotifyResult } from "./push-notifier";
@@ -0,0 +1,129 @@
+/**
+ * Push Notifier
+ *
+ * Sends a push notification for a new message to every browser of the
+ * group's app members, except the sender's and those whose notification
+ * preferences exclude it (muted, or mentions only and not mentioned).
+ * Tapping it opens the chat.
+ * Subscriptions the push service reports as gone are deleted.
+ *
+ * Server-only: needs a service-role client, since it reads other users'
+ * subscriptions.
+ */
+
+import type {
+  GroupRepository,
+  MessageRepository,
+  PushSubscriptionRepository,
+} from "@/data/repositories";
+import { sendWebPush } from "@/data/web-push";
+import {
+  asUserId,
+  isAppUser,
+  shouldNotify,
+  type GroupMember,
+  type Message,
+  type MessageId,
+  type PushNotificationPayload,
+  type PushSubscriptionId,
+} from "@/domain/types";
+import { getMessagePreview, mentionsName } from "@/domain/validators";
+import { ROUTES } from "@/lib/constants";
+
+export interface PushNotifyResult {
+  /** Notifications accepted by push services */
+  sent: number;
+  /** Expired subscriptions removed */
+  removed: number;
+}
+
+export class PushNotifier {
+  constructor(
+    private groupRepo: GroupRepository,
+    private messageRepo: MessageRepository,
+    private subscriptionRepo: PushSubscriptionRepository
+  ) {}
+
+  /**
+   * Notify a message's group about it.
+   * Returns null if the message or its group no longer exists.
+   */
+  async notifyNewMessage(messageId: MessageId): Promise<PushNotifyResult | null> {
+    const message = await this.messageRepo.getById(messageId);
+    if (!message) return null;
+
+    const group = await this.groupRepo.getWithMembers(message.groupId);
+    if (!group) return null;
+
+    const now = new Date();
+    const recipientIds = group.members
+      .filter(
+        (member) =>
+          isAppUser(member.participant) &&
+          member.participant.id !== message.senderUserId &&
+          shouldNotify(
+            member.notifications,
+            mentionsName(message.content, member.participant.displayName),
+            now
+          )
+      )
+      .map((member) => asUserId(member.participant.id));
+
+    const subscriptions = await this.subscriptionRepo.getByUserIds(recipientIds);
+    if (subscriptions.length === 0) {
+      return { sent: 0, removed: 0 };
+    }
+
+    const payload: PushNotificationPayload = {
+      title: group.name,
+      body: `${getSenderName(message, group.members)}: ${getNotificationBody(message)}`,
+      // One notification per chat; newer messages replace it
+      tag: `group-${group.id}`,
+      data: { url: ROUTES.chat(group.id) },
+    };
+
+    let sent = 0;
+    const expired: PushSubscriptionId[] = [];
+
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        try {
+          if (await sendWebPush(subscription, payload)) {
+            sent++;
+          } else {
+            expired.push(subscription.id);
+          }
+        } catch (error) {
+          // One browser failing shouldn't stop the others
+          console.error("Push notification error:", subscription.id, error);
+        }
+      })
+    );
+
+    await this.subscriptionRepo.deleteMany(expired);
+
+    return { sent, removed: expired.length };
+  }
+}
+
+/**
+ * Who the message is from, as the group shows them.
+ */
+function getSenderName(message: Message, members: GroupMember[]): string {
+  // SMS senders who linked their phone show as their account
+  const senderId =
+    message.senderUserId ??
+    (message.origin === "sms" ? message.senderSmsParticipantId : null);
+
+  const sender = members.find((member) => member.participant.id === senderId);
+  return sender?.participant.displayName ?? "Someone";
+}
+
+/**
+ * Message preview, or a placeholder for attachment-only messages.
+ */
+function getNotificationBody(message: Message): string {
+  return message.content || message.attachments.length === 0
+    ? getMessagePreview(message.content, 100)
+    : "📎 Attachment";
+}
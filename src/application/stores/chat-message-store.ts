@@ -0,0 +1,296 @@
+/**
+ * Chat Message Store
+ *
+ * Client-side message state for one open chat, shared by the chat view,
+ * the message list and the realtime and send hooks. Holds the loaded
+ * messages plus the current user's optimistic ones, which sit in the list
+ * under a temporary ID until the real row arrives with the same client ID,
+ * and the cursor for loading older history.
+ */
+
+import { createContext } from "react";
+import type {
+  Message,
+  MessageAttachment,
+  MessageCursor,
+  MessagePage,
+  NewMessageAttachment,
+} from "@/domain/types";
+import { isAppOriginMessage } from "@/domain/types";
+
+/**
+ * State of a message the current user sent from this tab
+ * - sending: waiting for the server
+ * - failed: the server refused it; it can be resent or discarded
+ */
+export type OptimisticSendStatus = "sending" | "failed";
+
+export interface OptimisticSend {
+  readonly status: OptimisticSendStatus;
+  readonly error: string | null;
+  /** Kept to resend with the same client ID */
+  readonly content: string;
+  readonly attachments: readonly NewMessageAttachment[];
+}
+
+export interface ChatMessagesSnapshot {
+  /** Oldest first, optimistic messages included */
+  readonly messages: readonly Message[];
+  /** Optimistic messages by client ID */
+  readonly sends: ReadonlyMap<string, OptimisticSend>;
+  /** Where older history starts; null once it's all loaded */
+  readonly olderCursor: MessageCursor | null;
+}
+
+/**
+ * Temporary message ID for an optimistic message.
+ */
+export function getOptimisticMessageId(clientId: string): string {
+  return `optimistic:${clientId}`;
+}
+
+export class ChatMessageStore {
+  private snapshot: ChatMessagesSnapshot;
+  private listeners = new Set<() => void>();
+  // Attachments that arrived before their message, keyed by message ID
+  private pendingAttachments = new Map<string, MessageAttachment[]>();
+
+  constructor(
+    initialMessages: readonly Message[],
+    olderCursor: MessageCursor | null = null
+  ) {
+    this.snapshot = { messages: initialMessages, sends: new Map(), olderCursor };
+  }
+
+  /** For useSyncExternalStore */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /** For useSyncExternalStore */
+  getSnapshot = (): ChatMessagesSnapshot => this.snapshot;
+
+  /**
+   * Replace the latest page (e.g. after a server refresh). Keeps older
+   * history already loaded above it, and optimistic messages the new page
+   * doesn't include yet.
+   */
+  reset(messages: readonly Message[], olderCursor: MessageCursor | null): void {
+    const ids = new Set(messages.map((m) => m.id));
+    const clientIds = new Set(messages.map(getClientId));
+    const first = messages[0];
+
+    const older = first
+      ? this.snapshot.messages.filter(
+          (m) =>
+            !ids.has(m.id) &&
+            this.getOptimisticClientId(m) === null &&
+            compareMessages(m, first) < 0
+        )
+      : [];
+    const unconfirmed = this.snapshot.messages.filter((m) => {
+      const clientId = this.getOptimisticClientId(m);
+      return clientId !== null && !clientIds.has(clientId);
+    });
+
+    this.setSnapshot({
+      messages: [...older, ...messages, ...unconfirmed],
+      sends: withoutKeys(
+        this.snapshot.sends,
+        [...this.snapshot.sends.keys()].filter((id) => clientIds.has(id))
+      ),
+      // Loaded history already reaches further back than the new page
+      olderCursor: older.length > 0 ? this.snapshot.olderCursor : olderCursor,
+    });
+  }
+
+  /**
+   * Add a page of older history above the loaded messages.
+   */
+  prependOlder(page: MessagePage): void {
+    const ids = new Set(this.snapshot.messages.map((m) => m.id));
+
+    this.setSnapshot({
+      ...this.snapshot,
+      messages: [
+        ...page.messages.filter((m) => !ids.has(m.id)),
+        ...this.snapshot.messages,
+      ],
+      olderCursor: page.olderCursor,
+    });
+  }
+
+  /**
+   * Show a message the current user is sending before the server has it.
+   * The message's clientId links it to the real row.
+   */
+  addOptimistic(
+    message: Message,
+    attachments: readonly NewMessageAttachment[]
+  ): void {
+    const clientId = getClientId(message);
+    if (!clientId) return;
+
+    const sends = new Map(this.snapshot.sends);
+    sends.set(clientId, {
+      status: "sending",
+      error: null,
+      content: message.content,
+      attachments,
+    });
+
+    this.setSnapshot({
+      ...this.snapshot,
+      messages: [...this.snapshot.messages, message],
+      sends,
+    });
+  }
+
+  /** Mark an optimistic message as being sent (again) */
+  markSending(clientId: string): void {
+    this.updateSend(clientId, { status: "sending", error: null });
+  }
+
+  /** Mark an optimistic message the server refused */
+  markFailed(clientId: string, error: string): void {
+    this.updateSend(clientId, { status: "failed", error });
+  }
+
+  /** Drop an optimistic message (discarded, or moved to the outbox) */
+  removeOptimistic(clientId: string): void {
+    if (!this.snapshot.sends.has(clientId)) return;
+
+    this.setSnapshot({
+      ...this.snapshot,
+      messages: this.snapshot.messages.filter(
+        (m) => this.getOptimisticClientId(m) !== clientId
+      ),
+      sends: withoutKeys(this.snapshot.sends, [clientId]),
+    });
+  }
+
+  /**
+   * Add a message from the server (realtime INSERT or a send result).
+   * Replaces the optimistic message with the same client ID, and ignores
+   * messages already in the list.
+   */
+  receiveMessage(message: Message): void {
+    const pending = this.pendingAttachments.get(message.id);
+    if (pending) {
+      this.pendingAttachments.delete(message.id);
+      message = { ...message, attachments: pending };
+    }
+
+    const { messages, sends } = this.snapshot;
+    const existing = messages.find((m) => m.id === message.id);
+    if (existing) {
+      // Realtime got here before the send result, which may carry the
+      // attachments realtime hasn't delivered yet
+      message.attachments.forEach((a) => this.receiveAttachment(a));
+      return;
+    }
+
+    const clientId = getClientId(message);
+    if (clientId && sends.has(clientId)) {
+      this.setSnapshot({
+        ...this.snapshot,
+        messages: messages.map((m) =>
+          this.getOptimisticClientId(m) === clientId ? message : m
+        ),
+        sends: withoutKeys(sends, [clientId]),
+      });
+      return;
+    }
+
+    this.setSnapshot({ ...this.snapshot, messages: [...messages, message] });
+  }
+
+  /**
+   * Apply a message update (delivery status change).
+   * Update payloads carry no attachments, so keep the ones already loaded.
+   */
+  updateMessage(message: Message): void {
+    this.setSnapshot({
+      ...this.snapshot,
+      messages: this.snapshot.messages.map((m) =>
+        m.id === message.id ? { ...message, attachments: m.attachments } : m
+      ),
+    });
+  }
+
+  /** Add an attachment to its message, or hold it until the message arrives */
+  receiveAttachment(attachment: MessageAttachment): void {
+    const { messages } = this.snapshot;
+
+    if (!messages.some((m) => m.id === attachment.messageId)) {
+      const pending = this.pendingAttachments.get(attachment.messageId) ?? [];
+      if (!pending.some((a) => a.id === attachment.id)) {
+        this.pendingAttachments.set(attachment.messageId, [...pending, attachment]);
+      }
+      return;
+    }
+
+    this.setSnapshot({
+      ...this.snapshot,
+      messages: messages.map((m) =>
+        m.id === attachment.messageId &&
+        !m.attachments.some((a) => a.id === attachment.id)
+          ? { ...m, attachments: [...m.attachments, attachment] }
+          : m
+      ),
+    });
+  }
+
+  private getOptimisticClientId(message: Message): string | null {
+    const clientId = getClientId(message);
+    return clientId && message.id === getOptimisticMessageId(clientId)
+      ? clientId
+      : null;
+  }
+
+  private updateSend(
+    clientId: string,
+    changes: Pick<OptimisticSend, "status" | "error">
+  ): void {
+    const send = this.snapshot.sends.get(clientId);
+    if (!send) return;
+
+    const sends = new Map(this.snapshot.sends);
+    sends.set(clientId, { ...send, ...changes });
+    this.setSnapshot({ ...this.snapshot, sends });
+  }
+
+  private setSnapshot(snapshot: ChatMessagesSnapshot): void {
+    this.snapshot = snapshot;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * The open chat's store. Provided by the chat view.
+ */
+export const ChatMessageStoreContext = createContext<ChatMessageStore | null>(
+  null
+);
+
+function getClientId(message: Message): string | null {
+  return isAppOriginMessage(message) ? message.clientId : null;
+}
+
+/** Orders messages by (createdAt, id), like the history cursor */
+function compareMessages(a: Message, b: Message): number {
+  const byTime = a.createdAt.getTime() - b.createdAt.getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function withoutKeys<V>(
+  map: ReadonlyMap<string, V>,
+  keys: readonly string[]
+): ReadonlyMap<string, V> {
+  if (keys.length === 0) return map;
+  const next = new Map(map);
+  keys.forEach((key) => next.delete(key));
+  return next;
+}
@@ -0,0 +1,16 @@
+/**
+ * Application Stores - Public API
+ *
+ * Client-side state shared between components and hooks.
+ */
+
+export {
+  ChatMessageStore,
+  ChatMessageStoreContext,
+  getOptimisticMessageId,
+} from "./chat-message-store";
+export type {
+  ChatMessagesSnapshot,
+  OptimisticSend,
+  OptimisticSendStatus,
+} from "./chat-message-store";
@@ -0,0 +1,41 @@
+/**
+ * Blocked Number Mapper
+ *
+ * Transforms database blocked_numbers rows to domain BlockedNumber objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { BlockedNumber } from "@/domain/types";
+import {
+  asBlockedNumberId,
+  asGroupId,
+  asUserId,
+  asE164PhoneNumber,
+} from "@/domain/types";
+
+type BlockedNumberRow = Tables<"blocked_numbers">;
+
+/**
+ * Maps a database blocked_numbers row to a domain BlockedNumber.
+ */
+export function mapRowToBlockedNumber(row: BlockedNumberRow): BlockedNumber {
+  return {
+    id: asBlockedNumberId(row.id),
+    phoneNumber: asE164PhoneNumber(row.phone_number),
+    groupId: row.group_id ? asGroupId(row.group_id) : null,
+    userId: row.user_id ? asUserId(row.user_id) : null,
+    blockedByUserId: row.blocked_by_user_id
+      ? asUserId(row.blocked_by_user_id)
+      : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Maps multiple blocked_numbers rows.
+ */
+export function mapRowsToBlockedNumbers(
+  rows: BlockedNumberRow[]
+): BlockedNumber[] {
+  return rows.map(mapRowToBlockedNumber);
+}
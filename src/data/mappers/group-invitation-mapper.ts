@@ -0,0 +1,54 @@
+/**
+ * Group Invitation Mapper
+ *
+ * Transforms database group_invitations rows to domain GroupInvitation objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { GroupInvitation } from "@/domain/types";
+import {
+  asGroupInvitationId,
+  asGroupId,
+  asUserId,
+  asSmsParticipantId,
+  asE164PhoneNumber,
+} from "@/domain/types";
+
+type GroupInvitationRow = Tables<"group_invitations">;
+
+/**
+ * Maps a database group_invitations row to a domain GroupInvitation.
+ */
+export function mapRowToGroupInvitation(
+  row: GroupInvitationRow
+): GroupInvitation {
+  return {
+    id: asGroupInvitationId(row.id),
+    groupId: asGroupId(row.group_id),
+    email: row.email,
+    smsParticipantId: row.sms_participant_id
+      ? asSmsParticipantId(row.sms_participant_id)
+      : null,
+    phoneNumber: row.phone_number ? asE164PhoneNumber(row.phone_number) : null,
+    role: row.role,
+    status: row.status,
+    invitedByUserId: row.invited_by_user_id
+      ? asUserId(row.invited_by_user_id)
+      : null,
+    acceptedByUserId: row.accepted_by_user_id
+      ? asUserId(row.accepted_by_user_id)
+      : null,
+    expiresAt: new Date(row.expires_at),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Maps multiple group_invitations rows.
+ */
+export function mapRowsToGroupInvitations(
+  rows: GroupInvitationRow[]
+): GroupInvitation[] {
+  return rows.map(mapRowToGroupInvitation);
+}
@@ -5,15 +5,23 @@
  */
 
 import type { Tables } from "../supabase/database.types";
-import type { Group, GroupMember, GroupMemberRole, Participant } from "@/domain/types";
-import { asGroupId, asUserId, asE164PhoneNumber } from "@/domain/types";
+import type {
+  Group,
+  GroupMember,
+  GroupMemberRole,
+  NotificationPreferences,
+  Participant,
+} from "@/domain/types";
+import { asGroupId, asUserId } from "@/domain/types";
 import { mapProfileToAppUser } from "./profile-mapper";
-import { mapRowToSmsParticipant } from "./sms-participant-mapper";
+import {
+  mapRowToSmsParticipant,
+  type SmsParticipantRowWithNickname,
+} from "./sms-participant-mapper";
 
 type GroupRow = Tables<"groups">;
 type GroupMemberRow = Tables<"group_members">;
 type ProfileRow = Tables<"profiles">;
-type SmsParticipantRow = Tables<"sms_participants">;
 
 /**
  * Maps a database group row to a domain Group.
@@ -22,7 +30,6 @@ export function mapRowToGroup(row: GroupRow): Group {
   return {
     id: asGroupId(row.id),
     name: row.name,
-    twilioPhoneNumber: asE164PhoneNumber(row.twilio_phone_number),
     createdByUserId: asUserId(row.created_by_user_id),
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
@@ -41,7 +48,7 @@ export function mapRowsToGroups(rows: GroupRow[]): Group[] {
  */
 export type GroupMemberRowWithRelations = GroupMemberRow & {
   profiles?: ProfileRow | null;
-  sms_participants?: SmsParticipantRow | null;
+  sms_participants?: SmsParticipantRowWithNickname | null;
 };
 
 /**
@@ -67,6 +74,23 @@ export function mapRowToGroupMember(
     participant,
     role: row.role as GroupMemberRole,
     joinedAt: new Date(row.joined_at),
+    smsOptedOutAt: row.sms_opted_out_at ? new Date(row.sms_opted_out_at) : null,
+    smsMutedUntil: row.sms_muted_until ? new Date(row.sms_muted_until) : null,
+    notifications: mapRowToNotificationPreferences(row),
+  };
+}
+
+/**
+ * Maps a group member row's notification columns to NotificationPreferences.
+ */
+export function mapRowToNotificationPreferences(
+  row: Pick<GroupMemberRow, "notification_level" | "notifications_muted_until">
+): NotificationPreferences {
+  return {
+    level: row.notification_level,
+    mutedUntil: row.notifications_muted_until
+      ? new Date(row.notifications_muted_until)
+      : null,
   };
 }
 
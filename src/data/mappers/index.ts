@@ -10,12 +10,14 @@ export {
   mapRowToSmsParticipant,
   mapRowsToSmsParticipants,
 } from "./sms-participant-mapper";
+export type { SmsParticipantRowWithNickname } from "./sms-participant-mapper";
 
 export {
   mapRowToGroup,
   mapRowsToGroups,
   mapRowToGroupMember,
   mapRowsToGroupMembers,
+  mapRowToNotificationPreferences,
 } from "./group-mapper";
 export type { GroupMemberRowWithRelations } from "./group-mapper";
 
@@ -24,3 +26,45 @@ export {
   mapRowsToMessages,
   safeMapRowToMessage,
 } from "./message-mapper";
+export type { MessageRowWithAttachments } from "./message-mapper";
+
+export {
+  mapRowToMessageAttachment,
+  mapRowsToMessageAttachments,
+} from "./message-attachment-mapper";
+
+export {
+  mapRowToMessageDelivery,
+  mapRowsToMessageDeliveries,
+  mapRowToMessageDeliveryEvent,
+  mapRowToMessageDeliveryWithEvents,
+} from "./message-delivery-mapper";
+export type { MessageDeliveryRowWithEvents } from "./message-delivery-mapper";
+
+export {
+  mapRowToPendingInbound,
+  mapRowsToPendingInbound,
+} from "./pending-inbound-mapper";
+
+export {
+  mapRowToBlockedNumber,
+  mapRowsToBlockedNumbers,
+} from "./blocked-number-mapper";
+
+export {
+  mapRowToGroupInvitation,
+  mapRowsToGroupInvitations,
+} from "./group-invitation-mapper";
+
+export {
+  mapRowToPushSubscription,
+  mapRowsToPushSubscriptions,
+} from "./push-subscription-mapper";
+
+export { mapRowToSmsRoute, mapRowsToSmsRoutes } from "./sms-route-mapper";
+export type { SmsRouteRowWithNumber } from "./sms-route-mapper";
+
+export {
+  mapRowToTwilioNumber,
+  mapRowsToTwilioNumbers,
+} from "./twilio-number-mapper";
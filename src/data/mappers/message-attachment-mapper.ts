@@ -0,0 +1,40 @@
+/**
+ * Message Attachment Mapper
+ *
+ * Transforms database attachment rows to domain MessageAttachment objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { MessageAttachment } from "@/domain/types";
+import { asMessageAttachmentId, asMessageId, asGroupId } from "@/domain/types";
+
+type MessageAttachmentRow = Tables<"message_attachments">;
+
+/**
+ * Maps a database attachment row to a domain MessageAttachment.
+ */
+export function mapRowToMessageAttachment(
+  row: MessageAttachmentRow
+): MessageAttachment {
+  return {
+    id: asMessageAttachmentId(row.id),
+    messageId: asMessageId(row.message_id),
+    groupId: asGroupId(row.group_id),
+    storagePath: row.storage_path,
+    contentType: row.content_type,
+    fileName: row.file_name,
+    sizeBytes: row.size_bytes,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Maps multiple attachment rows, oldest first (the order they were sent in).
+ */
+export function mapRowsToMessageAttachments(
+  rows: MessageAttachmentRow[]
+): MessageAttachment[] {
+  return rows
+    .map(mapRowToMessageAttachment)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
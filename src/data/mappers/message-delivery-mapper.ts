@@ -0,0 +1,93 @@
+/**
+ * Message Delivery Mapper
+ *
+ * Transforms database delivery rows to domain MessageDelivery objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type {
+  MessageDelivery,
+  MessageDeliveryEvent,
+  MessageDeliveryWithEvents,
+  DeliveryStatus,
+} from "@/domain/types";
+import {
+  asMessageDeliveryId,
+  asMessageDeliveryEventId,
+  asMessageId,
+  asSmsParticipantId,
+  asTwilioMessageSid,
+} from "@/domain/types";
+
+type MessageDeliveryRow = Tables<"message_deliveries">;
+type MessageDeliveryEventRow = Tables<"message_delivery_events">;
+
+/**
+ * Maps a database delivery row to a domain MessageDelivery.
+ */
+export function mapRowToMessageDelivery(
+  row: MessageDeliveryRow
+): MessageDelivery {
+  return {
+    id: asMessageDeliveryId(row.id),
+    messageId: asMessageId(row.message_id),
+    smsParticipantId: asSmsParticipantId(row.sms_participant_id),
+    twilioMessageSid: row.twilio_message_sid
+      ? asTwilioMessageSid(row.twilio_message_sid)
+      : null,
+    status: row.status as DeliveryStatus,
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+/**
+ * Maps multiple delivery rows to MessageDelivery array.
+ */
+export function mapRowsToMessageDeliveries(
+  rows: MessageDeliveryRow[]
+): MessageDelivery[] {
+  return rows.map(mapRowToMessageDelivery);
+}
+
+/**
+ * Maps a database delivery event row to a domain MessageDeliveryEvent.
+ */
+export function mapRowToMessageDeliveryEvent(
+  row: MessageDeliveryEventRow
+): MessageDeliveryEvent {
+  return {
+    id: asMessageDeliveryEventId(row.id),
+    deliveryId: asMessageDeliveryId(row.delivery_id),
+    status: row.status as DeliveryStatus,
+    errorCode: row.error_code,
+    errorMessage: row.error_message,
+    occurredAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Extended row type with joined delivery events.
+ */
+export type MessageDeliveryRowWithEvents = MessageDeliveryRow & {
+  message_delivery_events?: MessageDeliveryEventRow[] | null;
+};
+
+/**
+ * Maps a delivery row with joined events to a MessageDeliveryWithEvents.
+ * Events are ordered oldest first.
+ */
+export function mapRowToMessageDeliveryWithEvents(
+  row: MessageDeliveryRowWithEvents
+): MessageDeliveryWithEvents {
+  const events = (row.message_delivery_events ?? [])
+    .map(mapRowToMessageDeliveryEvent)
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  return {
+    ...mapRowToMessageDelivery(row),
+    events,
+  };
+}
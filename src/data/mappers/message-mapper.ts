@@ -19,18 +19,28 @@ import {
   asSmsParticipantId,
   asTwilioMessageSid,
 } from "@/domain/types";
+import { mapRowsToMessageAttachments } from "./message-attachment-mapper";
 
 type MessageRow = Tables<"messages">;
 
+/**
+ * Message row with its attachments embedded.
+ * Attachments are optional so plain rows (e.g. realtime payloads) map too.
+ */
+export type MessageRowWithAttachments = MessageRow & {
+  message_attachments?: Tables<"message_attachments">[];
+};
+
 /**
  * Maps a database message row to a domain Message.
  * Returns the appropriate discriminated union variant based on origin.
  */
-export function mapRowToMessage(row: MessageRow): Message {
+export function mapRowToMessage(row: MessageRowWithAttachments): Message {
   const base = {
     id: asMessageId(row.id),
     groupId: asGroupId(row.group_id),
     content: row.content,
+    attachments: mapRowsToMessageAttachments(row.message_attachments ?? []),
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -49,6 +59,7 @@ export function mapRowToMessage(row: MessageRow): Message {
       twilioMessageSid: row.twilio_message_sid
         ? asTwilioMessageSid(row.twilio_message_sid)
         : null,
+      clientId: row.client_id,
     };
 
     return appMessage;
@@ -67,6 +78,7 @@ export function mapRowToMessage(row: MessageRow): Message {
       ...base,
       origin: "sms",
       senderSmsParticipantId: asSmsParticipantId(row.sender_sms_participant_id),
+      senderUserId: row.sender_user_id ? asUserId(row.sender_user_id) : null,
       twilioMessageSid: asTwilioMessageSid(row.twilio_message_sid),
     };
 
@@ -77,7 +89,7 @@ export function mapRowToMessage(row: MessageRow): Message {
 /**
  * Maps multiple message rows to Message array.
  */
-export function mapRowsToMessages(rows: MessageRow[]): Message[] {
+export function mapRowsToMessages(rows: MessageRowWithAttachments[]): Message[] {
   return rows.map(mapRowToMessage);
 }
 
@@ -85,7 +97,9 @@ export function mapRowsToMessages(rows: MessageRow[]): Message[] {
  * Safely maps a row to message, returning null on error.
  * Useful for realtime updates where data might be incomplete.
  */
-export function safeMapRowToMessage(row: MessageRow): Message | null {
+export function safeMapRowToMessage(
+  row: MessageRowWithAttachments
+): Message | null {
   try {
     return mapRowToMessage(row);
   } catch {
@@ -0,0 +1,60 @@
+/**
+ * Pending Inbound Mapper
+ *
+ * Transforms database pending_inbound rows to domain PendingInbound objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type {
+  PendingInbound,
+  PendingInboundMedia,
+  PendingInboundStatus,
+} from "@/domain/types";
+import {
+  asPendingInboundId,
+  asGroupId,
+  asMessageId,
+  asE164PhoneNumber,
+} from "@/domain/types";
+
+type PendingInboundRow = Tables<"pending_inbound">;
+
+/**
+ * Shape of each entry in the `media` jsonb column
+ */
+interface PendingInboundMediaJson {
+  storage_path: string;
+  content_type: string;
+}
+
+/**
+ * Maps a database pending_inbound row to a domain PendingInbound.
+ */
+export function mapRowToPendingInbound(row: PendingInboundRow): PendingInbound {
+  const media = (row.media as unknown as PendingInboundMediaJson[]) ?? [];
+
+  return {
+    id: asPendingInboundId(row.id),
+    groupId: asGroupId(row.group_id),
+    phoneNumber: asE164PhoneNumber(row.phone_number),
+    body: row.body,
+    media: media.map(
+      (m): PendingInboundMedia => ({
+        storagePath: m.storage_path,
+        contentType: m.content_type,
+      })
+    ),
+    status: row.status as PendingInboundStatus,
+    receivedAt: new Date(row.received_at),
+    messageId: row.message_id ? asMessageId(row.message_id) : null,
+  };
+}
+
+/**
+ * Maps multiple pending_inbound rows.
+ */
+export function mapRowsToPendingInbound(
+  rows: PendingInboundRow[]
+): PendingInbound[] {
+  return rows.map(mapRowToPendingInbound);
+}
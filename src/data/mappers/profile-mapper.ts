@@ -20,6 +20,7 @@ export function mapProfileToAppUser(row: ProfileRow): AppUser {
     email: row.email,
     displayName: row.display_name,
     phoneNumber: row.phone_number ? asE164PhoneNumber(row.phone_number) : null,
+    phoneVerifiedAt: row.phone_verified_at ? new Date(row.phone_verified_at) : null,
     avatarUrl: row.avatar_url,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
@@ -0,0 +1,37 @@
+/**
+ * Push Subscription Mapper
+ *
+ * Transforms database push_subscriptions rows to domain WebPushSubscription objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { WebPushSubscription } from "@/domain/types";
+import { asPushSubscriptionId, asUserId } from "@/domain/types";
+
+type PushSubscriptionRow = Tables<"push_subscriptions">;
+
+/**
+ * Maps a database push_subscriptions row to a domain WebPushSubscription.
+ */
+export function mapRowToPushSubscription(
+  row: PushSubscriptionRow
+): WebPushSubscription {
+  return {
+    id: asPushSubscriptionId(row.id),
+    userId: asUserId(row.user_id),
+    endpoint: row.endpoint,
+    p256dh: row.p256dh,
+    auth: row.auth,
+    userAgent: row.user_agent,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+/**
+ * Maps multiple push_subscriptions rows.
+ */
+export function mapRowsToPushSubscriptions(
+  rows: PushSubscriptionRow[]
+): WebPushSubscription[] {
+  return rows.map(mapRowToPushSubscription);
+}
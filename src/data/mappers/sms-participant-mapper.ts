@@ -10,16 +10,28 @@ import { asSmsParticipantId, asUserId, asE164PhoneNumber } from "@/domain/types"
 
 type SmsParticipantRow = Tables<"sms_participants">;
 
+/**
+ * SMS participant row with the current user's nickname joined.
+ * RLS only returns the caller's own nickname, so there is at most one.
+ */
+export type SmsParticipantRowWithNickname = SmsParticipantRow & {
+  sms_participant_nicknames?: Array<{ nickname: string }> | null;
+};
+
 /**
  * Maps a database SMS participant row to a domain SmsParticipant.
+ * The current user's nickname, when joined, replaces the shared display name.
  */
-export function mapRowToSmsParticipant(row: SmsParticipantRow): SmsParticipant {
+export function mapRowToSmsParticipant(
+  row: SmsParticipantRowWithNickname
+): SmsParticipant {
   return {
     kind: "sms_participant",
     id: asSmsParticipantId(row.id),
     phoneNumber: asE164PhoneNumber(row.phone_number),
-    displayName: row.display_name,
+    displayName: row.sms_participant_nicknames?.[0]?.nickname ?? row.display_name,
     createdByUserId: asUserId(row.created_by_user_id),
+    linkedUserId: row.linked_user_id ? asUserId(row.linked_user_id) : null,
     createdAt: new Date(row.created_at),
     updatedAt: new Date(row.updated_at),
   };
@@ -29,7 +41,7 @@ export function mapRowToSmsParticipant(row: SmsParticipantRow): SmsParticipant {
  * Maps multiple rows to SmsParticipant array.
  */
 export function mapRowsToSmsParticipants(
-  rows: SmsParticipantRow[]
+  rows: SmsParticipantRowWithNickname[]
 ): SmsParticipant[] {
   return rows.map(mapRowToSmsParticipant);
 }
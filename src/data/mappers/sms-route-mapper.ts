@@ -0,0 +1,34 @@
+/**
+ * SMS Route Mapper
+ *
+ * Transforms database sms_routes rows to domain SmsRoute objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { SmsRoute } from "@/domain/types";
+import { asGroupId, asE164PhoneNumber } from "@/domain/types";
+
+/**
+ * Route row with its joined pool number.
+ */
+export type SmsRouteRowWithNumber = Tables<"sms_routes"> & {
+  twilio_numbers: Pick<Tables<"twilio_numbers">, "phone_number">;
+};
+
+/**
+ * Maps a database sms_routes row to a domain SmsRoute.
+ */
+export function mapRowToSmsRoute(row: SmsRouteRowWithNumber): SmsRoute {
+  return {
+    groupId: asGroupId(row.group_id),
+    phoneNumber: asE164PhoneNumber(row.phone_number),
+    twilioNumber: asE164PhoneNumber(row.twilio_numbers.phone_number),
+  };
+}
+
+/**
+ * Maps multiple sms_routes rows.
+ */
+export function mapRowsToSmsRoutes(rows: SmsRouteRowWithNumber[]): SmsRoute[] {
+  return rows.map(mapRowToSmsRoute);
+}
@@ -0,0 +1,31 @@
+/**
+ * Twilio Number Mapper
+ *
+ * Transforms database twilio_numbers rows to domain TwilioNumber objects.
+ */
+
+import type { Tables } from "../supabase/database.types";
+import type { TwilioNumber } from "@/domain/types";
+import { asTwilioNumberId, asGroupId, asE164PhoneNumber } from "@/domain/types";
+
+type TwilioNumberRow = Tables<"twilio_numbers">;
+
+/**
+ * Maps a database twilio_numbers row to a domain TwilioNumber.
+ */
+export function mapRowToTwilioNumber(row: TwilioNumberRow): TwilioNumber {
+  return {
+    id: asTwilioNumberId(row.id),
+    phoneNumber: asE164PhoneNumber(row.phone_number),
+    groupId: row.group_id ? asGroupId(row.group_id) : null,
+    twilioSid: row.twilio_sid,
+    isActive: row.is_active,
+  };
+}
+
+/**
+ * Maps multiple twilio_numbers rows.
+ */
+export function mapRowsToTwilioNumbers(rows: TwilioNumberRow[]): TwilioNumber[] {
+  return rows.map(mapRowToTwilioNumber);
+}
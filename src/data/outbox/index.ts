@@ -0,0 +1,264 @@
+/**
+ * Message Outbox - Public API
+ *
+ * Browser-side queue (IndexedDB) of messages that couldn't be sent because
+ * the device was offline. Entries are flushed by the service worker's
+ * Background Sync handler, or by the open chat when the device reconnects.
+ *
+ * public/sw.js opens the same database to flush it, so keep the database
+ * name, store and record shape in step with it.
+ */
+
+import type {
+  PendingMessage,
+  NewMessageAttachment,
+  GroupId,
+  UserId,
+} from "@/domain/types";
+import { asGroupId, asUserId } from "@/domain/types";
+
+const DB_NAME = "bridge-chat-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "messages";
+const GROUP_INDEX = "groupId";
+
+/** Background Sync tag the service worker flushes the outbox on */
+export const OUTBOX_SYNC_TAG = "message-outbox";
+
+/** Window event fired whenever the outbox changes */
+export const OUTBOX_CHANGED_EVENT = "outbox-changed";
+
+/**
+ * Stored record. Dates are ISO strings so the service worker can read and
+ * write records without the app's types.
+ */
+interface OutboxRecord {
+  clientId: string;
+  groupId: string;
+  senderUserId: string;
+  content: string;
+  attachments: NewMessageAttachment[];
+  createdAt: string;
+  status: PendingMessage["status"];
+  error: string | null;
+}
+
+export interface NewOutboxEntry {
+  clientId: string;
+  groupId: GroupId;
+  senderUserId: UserId;
+  content: string;
+  attachments: readonly NewMessageAttachment[];
+}
+
+/**
+ * Whether this browser can keep an outbox.
+ */
+export function isOutboxSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Queue a message to be sent when the device is back online.
+ */
+export async function addToOutbox(entry: NewOutboxEntry): Promise<void> {
+  const record: OutboxRecord = {
+    clientId: entry.clientId,
+    groupId: entry.groupId,
+    senderUserId: entry.senderUserId,
+    content: entry.content,
+    attachments: [...entry.attachments],
+    createdAt: new Date().toISOString(),
+    status: "queued",
+    error: null,
+  };
+
+  await runInStore("readwrite", (store) => store.put(record));
+  notifyOutboxChanged();
+}
+
+/**
+ * Get a group's pending messages from a sender, oldest first.
+ */
+export async function getOutboxEntries(
+  groupId: string,
+  senderUserId: string
+): Promise<PendingMessage[]> {
+  const records = await runInStore<OutboxRecord[]>("readonly", (store) =>
+    store.index(GROUP_INDEX).getAll(groupId)
+  );
+
+  return records
+    .filter((record) => record.senderUserId === senderUserId)
+    .map(mapRecordToPendingMessage)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Get every queued (not failed) message from a sender, oldest first.
+ * Messages queued by another account on this browser are never sent as
+ * this one.
+ */
+export async function getQueuedOutboxEntries(
+  senderUserId: string
+): Promise<PendingMessage[]> {
+  const records = await runInStore<OutboxRecord[]>("readonly", (store) =>
+    store.getAll()
+  );
+
+  return records
+    .filter(
+      (record) =>
+        record.status === "queued" && record.senderUserId === senderUserId
+    )
+    .map(mapRecordToPendingMessage)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Remove a message from the outbox (sent or discarded).
+ */
+export async function removeFromOutbox(clientId: string): Promise<void> {
+  await runInStore("readwrite", (store) => store.delete(clientId));
+  notifyOutboxChanged();
+}
+
+/**
+ * Remove every message, e.g. when the user signs out of this browser.
+ */
+export async function clearOutbox(): Promise<void> {
+  await runInStore("readwrite", (store) => store.clear());
+  notifyOutboxChanged();
+}
+
+/**
+ * Mark a message the server refused, so it stops being retried.
+ */
+export async function markOutboxEntryFailed(
+  clientId: string,
+  error: string
+): Promise<void> {
+  const record = await runInStore<OutboxRecord | undefined>("readonly", (store) =>
+    store.get(clientId)
+  );
+  if (!record) return;
+
+  await runInStore("readwrite", (store) =>
+    store.put({ ...record, status: "failed", error })
+  );
+  notifyOutboxChanged();
+}
+
+/**
+ * Queue a failed message to be sent again.
+ */
+export async function requeueOutboxEntry(clientId: string): Promise<void> {
+  const record = await runInStore<OutboxRecord | undefined>("readonly", (store) =>
+    store.get(clientId)
+  );
+  if (!record) return;
+
+  await runInStore("readwrite", (store) =>
+    store.put({ ...record, status: "queued", error: null })
+  );
+  notifyOutboxChanged();
+}
+
+/**
+ * Ask the service worker to flush the outbox once the device is online.
+ * Returns false if Background Sync isn't available; the open chat flushes
+ * on reconnect instead.
+ */
+export async function requestOutboxSync(): Promise<boolean> {
+  if (!("serviceWorker" in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const sync = (registration as BackgroundSyncRegistration).sync;
+    if (!sync) return false;
+
+    await sync.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Listen for outbox changes, including ones made by the service worker.
+ * Returns an unsubscribe function.
+ */
+export function onOutboxChanged(listener: () => void): () => void {
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_CHANGED_EVENT) listener();
+  };
+
+  window.addEventListener(OUTBOX_CHANGED_EVENT, listener);
+  navigator.serviceWorker?.addEventListener("message", handleMessage);
+
+  return () => {
+    window.removeEventListener(OUTBOX_CHANGED_EVENT, listener);
+    navigator.serviceWorker?.removeEventListener("message", handleMessage);
+  };
+}
+
+// Background Sync isn't in TypeScript's DOM lib yet
+interface BackgroundSyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+function notifyOutboxChanged(): void {
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+}
+
+function mapRecordToPendingMessage(record: OutboxRecord): PendingMessage {
+  return {
+    clientId: record.clientId,
+    groupId: asGroupId(record.groupId),
+    senderUserId: asUserId(record.senderUserId),
+    content: record.content,
+    attachments: record.attachments,
+    createdAt: new Date(record.createdAt),
+    status: record.status,
+    error: record.error,
+  };
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "clientId",
+      });
+      store.createIndex(GROUP_INDEX, "groupId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the store and resolve with its result once the
+ * transaction completes.
+ */
+async function runInStore<T = unknown>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Blocked Number Repository
+ *
+ * Data access for the phone number blocklist.
+ * Group blocks are managed by owners/admins; user blocks by the user.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { Tables, TablesInsert } from "../supabase/database.types";
+import type {
+  BlockedNumber,
+  BlockedNumberId,
+  BlockScope,
+  GroupId,
+  UserId,
+  E164PhoneNumber,
+} from "@/domain/types";
+import { mapRowToBlockedNumber, mapRowsToBlockedNumbers } from "../mappers";
+
+type BlockedNumberRow = Tables<"blocked_numbers">;
+
+export class BlockedNumberRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get numbers blocked for a group, newest first.
+   */
+  async getByGroup(groupId: GroupId): Promise<BlockedNumber[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("blocked_numbers")
+      .select("*")
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToBlockedNumbers(rawData as unknown as BlockedNumberRow[]);
+  }
+
+  /**
+   * Get a user's personal blocks, newest first.
+   */
+  async getByUser(userId: UserId): Promise<BlockedNumber[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("blocked_numbers")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToBlockedNumbers(rawData as unknown as BlockedNumberRow[]);
+  }
+
+  /**
+   * Get a block by ID.
+   */
+  async getById(id: BlockedNumberId): Promise<BlockedNumber | null> {
+    const { data: rawData, error } = await this.supabase
+      .from("blocked_numbers")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw error;
+    }
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowToBlockedNumber(rawData as unknown as BlockedNumberRow);
+  }
+
+  /**
+   * Check whether a number is blocked for a group, by the group itself
+   * or by one of its owners.
+   */
+  async isBlocked(groupId: GroupId, phoneNumber: E164PhoneNumber): Promise<boolean> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("is_number_blocked", {
+      p_group_id: groupId,
+      p_phone_number: phoneNumber,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return data === true;
+  }
+
+  /**
+   * Block a number for a group or for a user.
+   * The database removes the number from the groups the block applies to.
+   * Blocking an already blocked number is a no-op.
+   */
+  async block(input: {
+    phoneNumber: E164PhoneNumber;
+    scope: BlockScope;
+    groupId: GroupId;
+    userId: UserId;
+  }): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"blocked_numbers"> = {
+      phone_number: input.phoneNumber,
+      group_id: input.scope === "group" ? input.groupId : null,
+      user_id: input.scope === "user" ? input.userId : null,
+      blocked_by_user_id: input.userId,
+    };
+
+    const { error } = await this.supabase
+      .from("blocked_numbers")
+      .insert(insertData as unknown as never);
+
+    // Unique violation: already blocked in this scope
+    if (error && error.code !== "23505") throw error;
+  }
+
+  /**
+   * Remove a block.
+   */
+  async unblock(id: BlockedNumberId): Promise<void> {
+    const { error } = await this.supabase
+      .from("blocked_numbers")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+}
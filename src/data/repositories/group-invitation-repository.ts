@@ -0,0 +1,207 @@
+/**
+ * Group Invitation Repository
+ *
+ * Data access for group invitations.
+ * Owners and admins create and revoke invitations; invitees read them
+ * through the service role, since they aren't members yet, and accept
+ * them through `accept_email_invitation`.
+ * SMS invitations are created and texted by the send-sms-invitation
+ * edge function and accepted by the invitee through `accept_sms_invitation`.
+ */
+
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import type { SupabaseClient } from "../supabase/client";
+import type {
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from "../supabase/database.types";
+import type {
+  GroupInvitation,
+  GroupInvitationId,
+  GroupId,
+  GroupMemberRole,
+  SmsParticipantId,
+  UserId,
+} from "@/domain/types";
+import { INVITATION_TTL_DAYS } from "@/domain/types";
+import {
+  mapRowToGroupInvitation,
+  mapRowsToGroupInvitations,
+} from "../mappers";
+
+type GroupInvitationRow = Tables<"group_invitations">;
+
+export class GroupInvitationRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get a group's invitations, newest first.
+   */
+  async getByGroup(groupId: GroupId): Promise<GroupInvitation[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("group_invitations")
+      .select("*")
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToGroupInvitations(rawData as unknown as GroupInvitationRow[]);
+  }
+
+  /**
+   * Get an invitation by ID.
+   */
+  async getById(id: GroupInvitationId): Promise<GroupInvitation | null> {
+    const { data: rawData, error } = await this.supabase
+      .from("group_invitations")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw error;
+    }
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowToGroupInvitation(rawData as unknown as GroupInvitationRow);
+  }
+
+  /**
+   * Create a pending invitation.
+   * Returns null if the email already has a pending invitation to the group.
+   */
+  async create(input: {
+    groupId: GroupId;
+    email: string;
+    role: GroupMemberRole;
+    invitedByUserId: UserId;
+  }): Promise<GroupInvitation | null> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"group_invitations"> = {
+      group_id: input.groupId,
+      email: input.email.toLowerCase(),
+      role: input.role,
+      invited_by_user_id: input.invitedByUserId,
+      expires_at: new Date(
+        Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+      ).toISOString(),
+    };
+
+    const { data: rawData, error } = await this.supabase
+      .from("group_invitations")
+      .insert(insertData as unknown as never)
+      .select()
+      .single();
+
+    if (error) {
+      // Unique violation: already invited
+      if (error.code === "23505") {
+        return null;
+      }
+      throw error;
+    }
+
+    return mapRowToGroupInvitation(rawData as unknown as GroupInvitationRow);
+  }
+
+  /**
+   * Text an SMS member of a group a link to join the group in the app,
+   * via the send-sms-invitation edge function. Replaces any earlier
+   * pending invitation for them. Throws with the function's message.
+   */
+  async sendSmsInvitation(
+    groupId: GroupId,
+    smsParticipantId: SmsParticipantId
+  ): Promise<void> {
+    const { error } = await this.supabase.functions.invoke(
+      "send-sms-invitation",
+      { body: { groupId, smsParticipantId } }
+    );
+
+    if (error) {
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        throw new Error(body?.error || "Failed to send invitation");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Accept an email invitation as the current user, whose confirmed email
+   * must be the invited one. Adds them to the group with the invited role.
+   * Returns the group ID.
+   */
+  async acceptEmailInvitation(id: GroupInvitationId): Promise<GroupId> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("accept_email_invitation", {
+      p_invitation_id: id,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return data as unknown as GroupId;
+  }
+
+  /**
+   * Accept an SMS invitation as the current user, whose verified phone
+   * must be the invited one. Moves the SMS membership onto their account.
+   * Returns the group ID.
+   */
+  async acceptSmsInvitation(id: GroupInvitationId): Promise<GroupId> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("accept_sms_invitation", {
+      p_invitation_id: id,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return data as unknown as GroupId;
+  }
+
+  /**
+   * Withdraw a pending invitation.
+   */
+  async revoke(id: GroupInvitationId): Promise<boolean> {
+    return this.resolve(id, { status: "revoked" });
+  }
+
+  /**
+   * Record that a pending invitation ran past its expiry.
+   */
+  async markExpired(id: GroupInvitationId): Promise<boolean> {
+    return this.resolve(id, { status: "expired" });
+  }
+
+  /**
+   * Move a pending invitation to a final status.
+   * Returns whether the invitation was still pending.
+   */
+  private async resolve(
+    id: GroupInvitationId,
+    updates: TablesUpdate<"group_invitations">
+  ): Promise<boolean> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const updateData: TablesUpdate<"group_invitations"> = {
+      ...updates,
+      resolved_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabase
+      .from("group_invitations")
+      .update(updateData as unknown as never)
+      .eq("id", id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (error) throw error;
+
+    return (data ?? []).length > 0;
+  }
+}
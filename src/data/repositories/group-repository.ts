@@ -14,13 +14,14 @@ import type {
   GroupId,
   UserId,
   SmsParticipantId,
-  E164PhoneNumber,
+  NotificationPreferences,
 } from "@/domain/types";
 import { asGroupId } from "@/domain/types";
 import {
   mapRowToGroup,
   mapRowsToGroups,
   mapRowsToGroupMembers,
+  mapRowToNotificationPreferences,
 } from "../mappers";
 
 export class GroupRepository {
@@ -46,29 +47,6 @@ export class GroupRepository {
     return mapRowToGroup(data);
   }
 
-  /**
-   * Get a group by its Twilio phone number.
-   * Used for routing incoming SMS.
-   */
-  async getByTwilioNumber(
-    twilioNumber: E164PhoneNumber
-  ): Promise<Group | null> {
-    const { data, error } = await this.supabase
-      .from("groups")
-      .select("*")
-      .eq("twilio_phone_number", twilioNumber)
-      .single();
-
-    if (error) {
-      if (error.code === "PGRST116") {
-        return null;
-      }
-      throw error;
-    }
-
-    return mapRowToGroup(data);
-  }
-
   /**
    * Get all groups the current user is a member of.
    */
@@ -108,7 +86,7 @@ export class GroupRepository {
         `
         *,
         profiles (*),
-        sms_participants (*)
+        sms_participants (*, sms_participant_nicknames (nickname))
       `
       )
       .eq("group_id", groupId);
@@ -145,14 +123,12 @@ export class GroupRepository {
    */
   async create(input: {
     name: string;
-    twilioPhoneNumber: E164PhoneNumber;
     createdByUserId: UserId;
   }): Promise<Group> {
     // Create the group
     // Type assertion needed because Supabase types infer 'never' due to RLS policies
     const insertData: Inserts<"groups"> = {
       name: input.name,
-      twilio_phone_number: input.twilioPhoneNumber,
       created_by_user_id: input.createdByUserId,
     };
     const { data: rawGroupData, error: groupError } = await this.supabase
@@ -185,14 +161,11 @@ export class GroupRepository {
    */
   async update(
     id: GroupId,
-    updates: { name?: string; twilioPhoneNumber?: string }
+    updates: { name?: string }
   ): Promise<Group> {
     // Type assertion needed because Supabase types infer 'never' due to RLS policies
     const updateData: Updates<"groups"> = {};
     if (updates.name !== undefined) updateData.name = updates.name;
-    if (updates.twilioPhoneNumber !== undefined) {
-      updateData.twilio_phone_number = updates.twilioPhoneNumber;
-    }
 
     const { data: rawData, error } = await this.supabase
       .from("groups")
@@ -268,6 +241,81 @@ export class GroupRepository {
     if (error) throw error;
   }
 
+  /**
+   * Change an app user's role in a group.
+   * Can't make or unmake the owner; see transferOwnership.
+   * The database checks the caller may make the change.
+   */
+  async updateUserRole(
+    groupId: GroupId,
+    userId: UserId,
+    role: Exclude<GroupMemberRole, "owner">
+  ): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { error } = await this.supabase.rpc("set_group_member_role", {
+      p_group_id: groupId,
+      p_user_id: userId,
+      p_role: role,
+    } as unknown as never);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Make another member the group's owner.
+   * The current owner (the caller) becomes an admin.
+   */
+  async transferOwnership(groupId: GroupId, newOwnerId: UserId): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { error } = await this.supabase.rpc("transfer_group_ownership", {
+      p_group_id: groupId,
+      p_new_owner_id: newOwnerId,
+    } as unknown as never);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Set the current user's notification preferences for a group.
+   */
+  async setNotificationPreferences(
+    groupId: GroupId,
+    preferences: NotificationPreferences
+  ): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { error } = await this.supabase.rpc("set_group_notification_preferences", {
+      p_group_id: groupId,
+      p_level: preferences.level,
+      p_muted_until: preferences.mutedUntil?.toISOString() ?? null,
+    } as unknown as never);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Get a user's notification preferences for each of their groups.
+   */
+  async getNotificationPreferences(
+    userId: UserId
+  ): Promise<Map<GroupId, NotificationPreferences>> {
+    const { data: rawData, error } = await this.supabase
+      .from("group_members")
+      .select("group_id, notification_level, notifications_muted_until")
+      .eq("user_id", userId);
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    const rows = rawData as unknown as Pick<
+      Tables<"group_members">,
+      "group_id" | "notification_level" | "notifications_muted_until"
+    >[];
+
+    return new Map(
+      rows.map((row) => [asGroupId(row.group_id), mapRowToNotificationPreferences(row)])
+    );
+  }
+
   /**
    * Remove an SMS participant from a group.
    */
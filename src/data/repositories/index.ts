@@ -8,3 +8,11 @@ export { ProfileRepository } from "./profile-repository";
 export { SmsParticipantRepository } from "./sms-participant-repository";
 export { GroupRepository } from "./group-repository";
 export { MessageRepository } from "./message-repository";
+export { MessageDeliveryRepository } from "./message-delivery-repository";
+export { MessageAttachmentRepository } from "./message-attachment-repository";
+export { PendingInboundRepository } from "./pending-inbound-repository";
+export { BlockedNumberRepository } from "./blocked-number-repository";
+export { GroupInvitationRepository } from "./group-invitation-repository";
+export { PushSubscriptionRepository } from "./push-subscription-repository";
+export { SmsRouteRepository } from "./sms-route-repository";
+export { TwilioNumberRepository } from "./twilio-number-repository";
@@ -0,0 +1,55 @@
+/**
+ * Message Attachment Repository
+ *
+ * Data access for files attached to messages.
+ * Inbound MMS media is written by the Twilio webhook (service role);
+ * app users can attach their own uploads to messages they send.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { Tables, TablesInsert } from "../supabase/database.types";
+import type {
+  GroupId,
+  MessageAttachment,
+  MessageId,
+  NewMessageAttachment,
+} from "@/domain/types";
+import { mapRowsToMessageAttachments } from "../mappers";
+
+type MessageAttachmentRow = Tables<"message_attachments">;
+
+export class MessageAttachmentRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Attach uploaded files to a message.
+   */
+  async createMany(
+    messageId: MessageId,
+    groupId: GroupId,
+    attachments: NewMessageAttachment[]
+  ): Promise<MessageAttachment[]> {
+    if (attachments.length === 0) return [];
+
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"message_attachments">[] = attachments.map(
+      (attachment) => ({
+        message_id: messageId,
+        group_id: groupId,
+        storage_path: attachment.storagePath,
+        content_type: attachment.contentType,
+        file_name: attachment.fileName,
+        size_bytes: attachment.sizeBytes,
+      })
+    );
+
+    const { data: rawData, error } = await this.supabase
+      .from("message_attachments")
+      .insert(insertData as unknown as never)
+      .select();
+
+    if (error) throw error;
+
+    return mapRowsToMessageAttachments(rawData as unknown as MessageAttachmentRow[]);
+  }
+}
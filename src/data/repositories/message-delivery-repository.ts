@@ -0,0 +1,150 @@
+/**
+ * Message Delivery Repository
+ *
+ * Data access for per-recipient SMS deliveries.
+ * Writes require the service role; app users can only read.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type {
+  Tables,
+  TablesInsert,
+  TablesUpdate,
+} from "../supabase/database.types";
+import type {
+  MessageDelivery,
+  MessageDeliveryWithEvents,
+  MessageDeliveryId,
+  MessageId,
+  SmsParticipantId,
+  TwilioMessageSid,
+  DeliveryStatus,
+} from "@/domain/types";
+import {
+  mapRowsToMessageDeliveries,
+  mapRowToMessageDeliveryWithEvents,
+  type MessageDeliveryRowWithEvents,
+} from "../mappers";
+
+type MessageDeliveryRow = Tables<"message_deliveries">;
+
+export class MessageDeliveryRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get all deliveries for a message.
+   */
+  async getByMessageId(messageId: MessageId): Promise<MessageDelivery[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("message_deliveries")
+      .select("*")
+      .eq("message_id", messageId)
+      .order("created_at");
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToMessageDeliveries(rawData as unknown as MessageDeliveryRow[]);
+  }
+
+  /**
+   * Get all deliveries for a message with their status history.
+   * Used by the message info sheet.
+   */
+  async getByMessageIdWithEvents(
+    messageId: MessageId
+  ): Promise<MessageDeliveryWithEvents[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("message_deliveries")
+      .select(
+        `
+        *,
+        message_delivery_events (*)
+      `
+      )
+      .eq("message_id", messageId)
+      .order("created_at");
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    const rows = rawData as unknown as MessageDeliveryRowWithEvents[];
+    return rows.map(mapRowToMessageDeliveryWithEvents);
+  }
+
+  /**
+   * Create a pending delivery for each recipient of a message.
+   * Existing deliveries for the same recipient are left untouched.
+   */
+  async createPending(
+    messageId: MessageId,
+    smsParticipantIds: SmsParticipantId[]
+  ): Promise<MessageDelivery[]> {
+    if (smsParticipantIds.length === 0) return [];
+
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"message_deliveries">[] =
+      smsParticipantIds.map((smsParticipantId) => ({
+        message_id: messageId,
+        sms_participant_id: smsParticipantId,
+        status: "pending",
+      }));
+
+    const { error } = await this.supabase
+      .from("message_deliveries")
+      .upsert(insertData as unknown as never, {
+        onConflict: "message_id,sms_participant_id",
+        ignoreDuplicates: true,
+      });
+
+    if (error) throw error;
+
+    return this.getByMessageId(messageId);
+  }
+
+  /**
+   * Record a successful hand-off to Twilio.
+   */
+  async markSubmitted(
+    id: MessageDeliveryId,
+    twilioMessageSid: TwilioMessageSid,
+    status: DeliveryStatus
+  ): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const updateData: TablesUpdate<"message_deliveries"> = {
+      twilio_message_sid: twilioMessageSid,
+      status,
+      error_code: null,
+      error_message: null,
+    };
+
+    const { error } = await this.supabase
+      .from("message_deliveries")
+      .update(updateData as unknown as never)
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Put failed deliveries back to pending so they're sent again.
+   */
+  async resetToPending(ids: MessageDeliveryId[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const updateData: TablesUpdate<"message_deliveries"> = {
+      status: "pending",
+      twilio_message_sid: null,
+      error_code: null,
+      error_message: null,
+    };
+
+    const { error } = await this.supabase
+      .from("message_deliveries")
+      .update(updateData as unknown as never)
+      .in("id", ids);
+
+    if (error) throw error;
+  }
+}
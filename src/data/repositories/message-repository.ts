@@ -9,18 +9,29 @@ import type { SupabaseClient } from "../supabase/client";
 import type { Tables, Inserts, Updates } from "../supabase/database.types";
 import type {
   Message,
+  CreateAppMessageInput,
   GroupId,
   MessageId,
+  MessageCursor,
+  MessagePage,
   UserId,
   SmsParticipantId,
   TwilioMessageSid,
   DeliveryStatus,
 } from "@/domain/types";
 import { asMessageId } from "@/domain/types";
-import { mapRowToMessage, mapRowsToMessages, safeMapRowToMessage } from "../mappers";
+import {
+  mapRowToMessage,
+  mapRowsToMessages,
+  safeMapRowToMessage,
+  type MessageRowWithAttachments,
+} from "../mappers";
 
 type MessageRow = Tables<"messages">;
 
+/** Message columns with attachments embedded */
+const MESSAGE_WITH_ATTACHMENTS = "*, message_attachments (*)";
+
 export class MessageRepository {
   constructor(private supabase: SupabaseClient) {}
 
@@ -30,7 +41,7 @@ export class MessageRepository {
   async getById(id: MessageId): Promise<Message | null> {
     const { data, error } = await this.supabase
       .from("messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .eq("id", id)
       .single();
 
@@ -45,39 +56,53 @@ export class MessageRepository {
   }
 
   /**
-   * Get messages for a group with pagination.
+   * Get a page of a group's latest messages, or of the ones just older
+   * than a cursor. Pages on (created_at, id), so messages with the same
+   * timestamp are neither skipped nor repeated. The cursor must be
+   * validated (validateMessageCursor) since it goes into the filter.
    */
-  async getByGroupId(
+  async getPageByGroupId(
     groupId: GroupId,
     options: {
-      limit?: number;
-      before?: Date;
-      after?: Date;
-    } = {}
-  ): Promise<Message[]> {
-    const { limit = 50, before, after } = options;
+      limit: number;
+      before?: MessageCursor;
+    }
+  ): Promise<MessagePage> {
+    const { limit, before } = options;
 
+    // One extra row tells us whether there's an older page
     let query = this.supabase
       .from("messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .eq("group_id", groupId)
       .order("created_at", { ascending: false })
-      .limit(limit);
+      .order("id", { ascending: false })
+      .limit(limit + 1);
 
     if (before) {
-      query = query.lt("created_at", before.toISOString());
-    }
-
-    if (after) {
-      query = query.gt("created_at", after.toISOString());
+      const createdAt = `"${before.createdAt}"`;
+      query = query.or(
+        `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${before.id})`
+      );
     }
 
-    const { data, error } = await query;
+    const { data: rawData, error } = await query;
 
     if (error) throw error;
 
-    // Reverse to get chronological order
-    return mapRowsToMessages(data).reverse();
+    // Cast from 'never' to proper type due to RLS type inference
+    const data = rawData as unknown as MessageRowWithAttachments[];
+    const rows = data.slice(0, limit);
+    const oldest = rows[rows.length - 1];
+
+    return {
+      // Reverse to get chronological order
+      messages: mapRowsToMessages(rows).reverse(),
+      olderCursor:
+        data.length > limit && oldest
+          ? { createdAt: oldest.created_at, id: asMessageId(oldest.id) }
+          : null,
+    };
   }
 
   /**
@@ -90,7 +115,7 @@ export class MessageRepository {
     // Get latest message per group using distinct on
     const { data: rawData, error } = await this.supabase
       .from("messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .in("group_id", groupIds)
       .order("group_id")
       .order("created_at", { ascending: false });
@@ -98,7 +123,7 @@ export class MessageRepository {
     if (error) throw error;
 
     // Cast from 'never' to proper type due to RLS type inference
-    const data = rawData as unknown as MessageRow[];
+    const data = rawData as unknown as MessageRowWithAttachments[];
 
     // Group by group_id and take first (latest) for each
     const latestMap = new Map<GroupId, Message>();
@@ -115,14 +140,32 @@ export class MessageRepository {
     return latestMap;
   }
 
+  /**
+   * Get a sender's message by the client ID their device gave it.
+   */
+  async getByClientId(senderUserId: UserId, clientId: string): Promise<Message | null> {
+    const { data, error } = await this.supabase
+      .from("messages")
+      .select(MESSAGE_WITH_ATTACHMENTS)
+      .eq("sender_user_id", senderUserId)
+      .eq("client_id", clientId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw error;
+    }
+
+    return mapRowToMessage(data);
+  }
+
   /**
    * Create an app-origin message.
+   * Returns null if the sender already has a message with this client ID.
    */
-  async createAppMessage(input: {
-    groupId: GroupId;
-    senderUserId: UserId;
-    content: string;
-  }): Promise<Message> {
+  async createAppMessage(input: CreateAppMessageInput): Promise<Message | null> {
     // Type assertion needed because Supabase types infer 'never' due to RLS policies
     const insertData: Inserts<"messages"> = {
       group_id: input.groupId,
@@ -130,6 +173,7 @@ export class MessageRepository {
       content: input.content,
       sender_user_id: input.senderUserId,
       delivery_status: "pending",
+      client_id: input.clientId ?? null,
     };
     const { data: rawData, error } = await this.supabase
       .from("messages")
@@ -137,7 +181,13 @@ export class MessageRepository {
       .select()
       .single();
 
-    if (error) throw error;
+    if (error) {
+      // Unique violation: a retry of a message that was already sent
+      if (error.code === "23505") {
+        return null;
+      }
+      throw error;
+    }
 
     return mapRowToMessage(rawData as unknown as MessageRow);
   }
@@ -203,7 +253,7 @@ export class MessageRepository {
   async getByTwilioSid(sid: TwilioMessageSid): Promise<Message | null> {
     const { data, error } = await this.supabase
       .from("messages")
-      .select("*")
+      .select(MESSAGE_WITH_ATTACHMENTS)
       .eq("twilio_message_sid", sid)
       .single();
 
@@ -0,0 +1,76 @@
+/**
+ * Pending Inbound Repository
+ *
+ * Data access for texts held from unknown senders.
+ * Rows are created by the Twilio webhook; owners/admins resolve them.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { Tables } from "../supabase/database.types";
+import type {
+  PendingInbound,
+  GroupId,
+  SmsParticipantId,
+  E164PhoneNumber,
+} from "@/domain/types";
+import { asSmsParticipantId } from "@/domain/types";
+import { mapRowsToPendingInbound } from "../mappers";
+
+type PendingInboundRow = Tables<"pending_inbound">;
+
+export class PendingInboundRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get messages awaiting review for a group, oldest first.
+   */
+  async getPendingByGroup(groupId: GroupId): Promise<PendingInbound[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("pending_inbound")
+      .select("*")
+      .eq("group_id", groupId)
+      .eq("status", "pending")
+      .order("received_at");
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToPendingInbound(rawData as unknown as PendingInboundRow[]);
+  }
+
+  /**
+   * Approve a sender: adds them to the group and releases their held
+   * messages. Runs as a single database function.
+   */
+  async approveSender(
+    groupId: GroupId,
+    phoneNumber: E164PhoneNumber,
+    displayName: string
+  ): Promise<SmsParticipantId> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("approve_pending_sender", {
+      p_group_id: groupId,
+      p_phone_number: phoneNumber,
+      p_display_name: displayName,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return asSmsParticipantId(data as unknown as string);
+  }
+
+  /**
+   * Block a sender: discards their held messages. Later texts from the
+   * number to this group are dropped by the webhook. Runs as a single
+   * database function.
+   */
+  async blockSender(groupId: GroupId, phoneNumber: E164PhoneNumber): Promise<void> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { error } = await this.supabase.rpc("block_pending_sender", {
+      p_group_id: groupId,
+      p_phone_number: phoneNumber,
+    } as unknown as never);
+
+    if (error) throw error;
+  }
+}
@@ -4,9 +4,15 @@
  * Data access for user profiles.
  */
 
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import type { SupabaseClient } from "../supabase/client";
 import type { Tables, Updates } from "../supabase/database.types";
-import type { AppUser, UserId } from "@/domain/types";
+import type {
+  AppUser,
+  UserId,
+  E164PhoneNumber,
+  PhoneVerificationStatus,
+} from "@/domain/types";
 import { mapProfileToAppUser, mapProfilesToAppUsers } from "../mappers";
 
 type ProfileRow = Tables<"profiles">;
@@ -109,6 +115,45 @@ export class ProfileRepository {
     return mapProfileToAppUser(rawData as unknown as ProfileRow);
   }
 
+  /**
+   * Text a verification code to a phone for the current user, via the
+   * send-verification-code edge function. Replaces any earlier code.
+   * Throws with the function's message (e.g. when asked again too soon).
+   */
+  async sendPhoneVerificationCode(phoneNumber: E164PhoneNumber): Promise<void> {
+    const { error } = await this.supabase.functions.invoke(
+      "send-verification-code",
+      { body: { phoneNumber } }
+    );
+
+    if (error) {
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        throw new Error(body?.error || "Failed to send verification code");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check a verification code for the current user. On success the phone
+   * becomes the profile's verified number.
+   */
+  async verifyPhone(
+    phoneNumber: E164PhoneNumber,
+    code: string
+  ): Promise<PhoneVerificationStatus> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("verify_phone_code", {
+      p_phone_number: phoneNumber,
+      p_code: code,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return data as unknown as PhoneVerificationStatus;
+  }
+
   /**
    * Search profiles by display name or email.
    */
@@ -0,0 +1,100 @@
+/**
+ * Push Subscription Repository
+ *
+ * Data access for users' Web Push subscriptions.
+ * Users manage their own; the push notifier reads other members'
+ * subscriptions and removes expired ones through the service role.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { Tables, TablesInsert } from "../supabase/database.types";
+import type {
+  WebPushSubscription,
+  NewWebPushSubscription,
+  PushSubscriptionId,
+  UserId,
+} from "@/domain/types";
+import {
+  mapRowToPushSubscription,
+  mapRowsToPushSubscriptions,
+} from "../mappers";
+
+type PushSubscriptionRow = Tables<"push_subscriptions">;
+
+export class PushSubscriptionRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get the subscriptions of some users.
+   */
+  async getByUserIds(userIds: UserId[]): Promise<WebPushSubscription[]> {
+    if (userIds.length === 0) return [];
+
+    const { data: rawData, error } = await this.supabase
+      .from("push_subscriptions")
+      .select("*")
+      .in("user_id", userIds);
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToPushSubscriptions(rawData as unknown as PushSubscriptionRow[]);
+  }
+
+  /**
+   * Save a browser's subscription for a user.
+   * A browser has one subscription, so an existing one for the same
+   * endpoint is replaced (and moves to this user).
+   */
+  async save(
+    userId: UserId,
+    subscription: NewWebPushSubscription,
+    userAgent: string | null
+  ): Promise<WebPushSubscription> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"push_subscriptions"> = {
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: subscription.keys.p256dh,
+      auth: subscription.keys.auth,
+      user_agent: userAgent,
+    };
+
+    const { data: rawData, error } = await this.supabase
+      .from("push_subscriptions")
+      .upsert(insertData as unknown as never, { onConflict: "endpoint" })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapRowToPushSubscription(rawData as unknown as PushSubscriptionRow);
+  }
+
+  /**
+   * Remove a user's subscription for a browser.
+   */
+  async deleteByEndpoint(userId: UserId, endpoint: string): Promise<void> {
+    const { error } = await this.supabase
+      .from("push_subscriptions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("endpoint", endpoint);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Remove subscriptions the push service no longer accepts.
+   */
+  async deleteMany(ids: PushSubscriptionId[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const { error } = await this.supabase
+      .from("push_subscriptions")
+      .delete()
+      .in("id", ids);
+
+    if (error) throw error;
+  }
+}
@@ -1,25 +1,29 @@
 /**
  * SMS Participant Repository
  *
- * Data access for SMS-only participants.
+ * Data access for SMS-only participants. A phone number has one canonical
+ * participant shared by every user who added it; each user's name for it
+ * is stored as a nickname and replaces the shared display name on reads.
  */
 
 import type { SupabaseClient } from "../supabase/client";
-import type { Inserts, Tables, Updates } from "../supabase/database.types";
-
-type SmsParticipantRow = Tables<"sms_participants">;
 import type {
   SmsParticipant,
   SmsParticipantId,
   UserId,
   E164PhoneNumber,
+  LinkableSmsGroup,
 } from "@/domain/types";
-import { asSmsParticipantId } from "@/domain/types";
+import { asGroupId, asSmsParticipantId } from "@/domain/types";
 import {
   mapRowToSmsParticipant,
   mapRowsToSmsParticipants,
+  type SmsParticipantRowWithNickname,
 } from "../mappers";
 
+/** Participant columns plus the caller's nickname (RLS returns only theirs) */
+const PARTICIPANT_SELECT = "*, sms_participant_nicknames (nickname)";
+
 export class SmsParticipantRepository {
   constructor(private supabase: SupabaseClient) {}
 
@@ -29,7 +33,7 @@ export class SmsParticipantRepository {
   async getById(id: SmsParticipantId): Promise<SmsParticipant | null> {
     const { data: rawData, error } = await this.supabase
       .from("sms_participants")
-      .select("*")
+      .select(PARTICIPANT_SELECT)
       .eq("id", id)
       .single();
 
@@ -41,7 +45,7 @@ export class SmsParticipantRepository {
     }
 
     // Cast from 'never' to proper type due to RLS type inference
-    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRow);
+    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRowWithNickname);
   }
 
   /**
@@ -52,7 +56,7 @@ export class SmsParticipantRepository {
   ): Promise<SmsParticipant | null> {
     const { data: rawData, error } = await this.supabase
       .from("sms_participants")
-      .select("*")
+      .select(PARTICIPANT_SELECT)
       .eq("phone_number", phoneNumber)
       .single();
 
@@ -64,124 +68,96 @@ export class SmsParticipantRepository {
     }
 
     // Cast from 'never' to proper type due to RLS type inference
-    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRow);
+    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRowWithNickname);
   }
 
   /**
-   * Get all SMS participants created by a user.
+   * Get the SMS participants a user has added (named), including ones
+   * another user added first. Sorted by the user's names for them.
    */
-  async getByCreator(creatorId: UserId): Promise<SmsParticipant[]> {
+  async getContacts(userId: UserId): Promise<SmsParticipant[]> {
     const { data: rawData, error } = await this.supabase
       .from("sms_participants")
-      .select("*")
-      .eq("created_by_user_id", creatorId)
-      .order("display_name");
+      .select("*, sms_participant_nicknames!inner (nickname)")
+      .eq("sms_participant_nicknames.user_id", userId);
 
     if (error) throw error;
 
     // Cast from 'never' to proper type due to RLS type inference
-    return mapRowsToSmsParticipants(rawData as unknown as SmsParticipantRow[]);
+    return mapRowsToSmsParticipants(
+      rawData as unknown as SmsParticipantRowWithNickname[]
+    ).sort((a, b) => a.displayName.localeCompare(b.displayName));
   }
 
   /**
-   * Create a new SMS participant.
+   * Find or create the canonical SMS participant for a phone number.
+   * The display name is saved as the calling user's nickname; the shared
+   * name of an existing participant is left alone. Returns the participant ID.
    */
-  async create(input: {
+  async findOrCreate(input: {
     phoneNumber: E164PhoneNumber;
     displayName: string;
-    createdByUserId: UserId;
-  }): Promise<SmsParticipant> {
+  }): Promise<SmsParticipantId> {
     // Type assertion needed because Supabase types infer 'never' due to RLS policies
-    const insertData: Inserts<"sms_participants"> = {
-      phone_number: input.phoneNumber,
-      display_name: input.displayName,
-      created_by_user_id: input.createdByUserId,
-    };
-    const { data: rawData, error } = await this.supabase
-      .from("sms_participants")
-      .insert(insertData as unknown as never)
-      .select()
-      .single();
+    const { data, error } = await this.supabase.rpc("find_or_create_sms_participant", {
+      p_phone_number: input.phoneNumber,
+      p_display_name: input.displayName,
+    } as unknown as never);
 
     if (error) throw error;
 
-    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRow);
+    return asSmsParticipantId(data as unknown as string);
   }
 
   /**
-   * Find or create an SMS participant by phone number.
-   * If the participant exists, updates the display name if different and returns it.
-   * Otherwise creates a new one.
+   * Get multiple SMS participants by IDs.
    */
-  async findOrCreate(input: {
-    phoneNumber: E164PhoneNumber;
-    displayName: string;
-    createdByUserId: UserId;
-  }): Promise<{ participant: SmsParticipant; created: boolean }> {
-    // First try to find existing
-    const existing = await this.getByPhoneNumber(input.phoneNumber);
-    if (existing) {
-      // Update display name if different
-      if (existing.displayName !== input.displayName) {
-        const updated = await this.update(existing.id, { displayName: input.displayName });
-        return { participant: updated, created: false };
-      }
-      return { participant: existing, created: false };
-    }
-
-    // Create new
-    const created = await this.create(input);
-    return { participant: created, created: true };
-  }
+  async getByIds(ids: SmsParticipantId[]): Promise<SmsParticipant[]> {
+    if (ids.length === 0) return [];
 
-  /**
-   * Update an SMS participant.
-   */
-  async update(
-    id: SmsParticipantId,
-    updates: { displayName?: string }
-  ): Promise<SmsParticipant> {
-    // Type assertion needed because Supabase types infer 'never' due to RLS policies
-    const updateData: Updates<"sms_participants"> = { display_name: updates.displayName };
     const { data: rawData, error } = await this.supabase
       .from("sms_participants")
-      .update(updateData as unknown as never)
-      .eq("id", id)
-      .select()
-      .single();
+      .select(PARTICIPANT_SELECT)
+      .in("id", ids);
 
     if (error) throw error;
 
     // Cast from 'never' to proper type due to RLS type inference
-    return mapRowToSmsParticipant(rawData as unknown as SmsParticipantRow);
+    return mapRowsToSmsParticipants(rawData as unknown as SmsParticipantRowWithNickname[]);
   }
 
   /**
-   * Delete an SMS participant.
+   * Get the groups the current user's verified phone is an SMS member of.
+   * Empty if the phone isn't verified or was never added to a group.
    */
-  async delete(id: SmsParticipantId): Promise<void> {
-    const { error } = await this.supabase
-      .from("sms_participants")
-      .delete()
-      .eq("id", id);
+  async getLinkableGroups(): Promise<LinkableSmsGroup[]> {
+    const { data, error } = await this.supabase.rpc("get_linkable_sms_groups");
 
     if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    const rows = data as unknown as Array<{
+      group_id: string;
+      group_name: string;
+      already_member: boolean;
+    }>;
+    return rows.map((row) => ({
+      groupId: asGroupId(row.group_id),
+      groupName: row.group_name,
+      alreadyMember: row.already_member,
+    }));
   }
 
   /**
-   * Get multiple SMS participants by IDs.
+   * Convert the SMS participant with the current user's verified phone into
+   * their account: join its groups, take over its messages, and stop SMS
+   * delivery to the phone. Returns the number of groups joined.
    */
-  async getByIds(ids: SmsParticipantId[]): Promise<SmsParticipant[]> {
-    if (ids.length === 0) return [];
-
-    const { data: rawData, error } = await this.supabase
-      .from("sms_participants")
-      .select("*")
-      .in("id", ids);
+  async linkToCurrentUser(): Promise<number> {
+    const { data, error } = await this.supabase.rpc("link_sms_participant");
 
     if (error) throw error;
 
-    // Cast from 'never' to proper type due to RLS type inference
-    return mapRowsToSmsParticipants(rawData as unknown as SmsParticipantRow[]);
+    return data as unknown as number;
   }
 }
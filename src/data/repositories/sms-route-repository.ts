@@ -0,0 +1,72 @@
+/**
+ * SMS Route Repository
+ *
+ * Data access for the shared Twilio number pool: which pool number each
+ * SMS participant uses for each group. Numbers are assigned by the
+ * `assign_sms_route` database function when a participant joins a group.
+ * Resolving and assigning routes require the service role.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { GroupId, E164PhoneNumber, SmsRoute } from "@/domain/types";
+import { asGroupId, asE164PhoneNumber } from "@/domain/types";
+import { mapRowsToSmsRoutes, type SmsRouteRowWithNumber } from "../mappers";
+
+export class SmsRouteRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get the routes of a group's SMS participants.
+   */
+  async getByGroup(groupId: GroupId): Promise<SmsRoute[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("sms_routes")
+      .select("*, twilio_numbers ( phone_number )")
+      .eq("group_id", groupId);
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToSmsRoutes(rawData as unknown as SmsRouteRowWithNumber[]);
+  }
+
+  /**
+   * Resolve the group an inbound text belongs to.
+   * Replaces lookup by a group's own number: a pool number identifies a
+   * group only together with the sender's phone.
+   */
+  async resolveGroup(
+    twilioNumber: E164PhoneNumber,
+    senderPhone: E164PhoneNumber
+  ): Promise<GroupId | null> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("resolve_sms_route", {
+      p_twilio_number: twilioNumber,
+      p_phone_number: senderPhone,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    const groupId = data as unknown as string | null;
+    return groupId ? asGroupId(groupId) : null;
+  }
+
+  /**
+   * Get the pool number to text a phone from for a group, assigning one
+   * if needed. Throws if the pool has no number free for the phone.
+   */
+  async assign(
+    groupId: GroupId,
+    phoneNumber: E164PhoneNumber
+  ): Promise<E164PhoneNumber> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const { data, error } = await this.supabase.rpc("assign_sms_route", {
+      p_group_id: groupId,
+      p_phone_number: phoneNumber,
+    } as unknown as never);
+
+    if (error) throw error;
+
+    return asE164PhoneNumber(data as unknown as string);
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Twilio Number Repository
+ *
+ * Data access for numbers in the Twilio pool.
+ * Numbers are written only with the service role: shared numbers by
+ * operators, a group's own numbers when it's created or deleted.
+ */
+
+import type { SupabaseClient } from "../supabase/client";
+import type { Tables, TablesInsert } from "../supabase/database.types";
+import type {
+  TwilioNumber,
+  TwilioNumberId,
+  GroupId,
+  E164PhoneNumber,
+} from "@/domain/types";
+import { mapRowToTwilioNumber, mapRowsToTwilioNumbers } from "../mappers";
+
+type TwilioNumberRow = Tables<"twilio_numbers">;
+
+export class TwilioNumberRepository {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Get the numbers bought for a group.
+   */
+  async getByGroup(groupId: GroupId): Promise<TwilioNumber[]> {
+    const { data: rawData, error } = await this.supabase
+      .from("twilio_numbers")
+      .select("*")
+      .eq("group_id", groupId);
+
+    if (error) throw error;
+
+    // Cast from 'never' to proper type due to RLS type inference
+    return mapRowsToTwilioNumbers(rawData as unknown as TwilioNumberRow[]);
+  }
+
+  /**
+   * Add a number bought for a group to the pool.
+   */
+  async addGroupNumber(input: {
+    groupId: GroupId;
+    phoneNumber: E164PhoneNumber;
+    twilioSid: string;
+  }): Promise<TwilioNumber> {
+    // Type assertion needed because Supabase types infer 'never' due to RLS policies
+    const insertData: TablesInsert<"twilio_numbers"> = {
+      group_id: input.groupId,
+      phone_number: input.phoneNumber,
+      twilio_sid: input.twilioSid,
+    };
+
+    const { data: rawData, error } = await this.supabase
+      .from("twilio_numbers")
+      .insert(insertData as unknown as never)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return mapRowToTwilioNumber(rawData as unknown as TwilioNumberRow);
+  }
+
+  /**
+   * Remove a number from the pool (its routes go with it).
+   */
+  async delete(id: TwilioNumberId): Promise<void> {
+    const { error } = await this.supabase
+      .from("twilio_numbers")
+      .delete()
+      .eq("id", id);
+
+    if (error) throw error;
+  }
+}
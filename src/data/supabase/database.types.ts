@@ -34,12 +34,139 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocked_numbers: {
+        Row: {
+          blocked_by_user_id: string | null
+          created_at: string
+          group_id: string | null
+          id: string
+          phone_number: string
+          user_id: string | null
+        }
+        Insert: {
+          blocked_by_user_id?: string | null
+          created_at?: string
+          group_id?: string | null
+          id?: string
+          phone_number: string
+          user_id?: string | null
+        }
+        Update: {
+          blocked_by_user_id?: string | null
+          created_at?: string
+          group_id?: string | null
+          id?: string
+          phone_number?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocked_numbers_blocked_by_user_id_fkey"
+            columns: ["blocked_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocked_numbers_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocked_numbers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      group_invitations: {
+        Row: {
+          accepted_by_user_id: string | null
+          created_at: string
+          email: string | null
+          expires_at: string
+          group_id: string
+          id: string
+          invited_by_user_id: string | null
+          phone_number: string | null
+          resolved_at: string | null
+          role: Database["public"]["Enums"]["group_member_role"]
+          sms_participant_id: string | null
+          status: Database["public"]["Enums"]["invitation_status"]
+        }
+        Insert: {
+          accepted_by_user_id?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          group_id: string
+          id?: string
+          invited_by_user_id?: string | null
+          phone_number?: string | null
+          resolved_at?: string | null
+          role?: Database["public"]["Enums"]["group_member_role"]
+          sms_participant_id?: string | null
+          status?: Database["public"]["Enums"]["invitation_status"]
+        }
+        Update: {
+          accepted_by_user_id?: string | null
+          created_at?: string
+          email?: string | null
+          expires_at?: string
+          group_id?: string
+          id?: string
+          invited_by_user_id?: string | null
+          phone_number?: string | null
+          resolved_at?: string | null
+          role?: Database["public"]["Enums"]["group_member_role"]
+          sms_participant_id?: string | null
+          status?: Database["public"]["Enums"]["invitation_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "group_invitations_accepted_by_user_id_fkey"
+            columns: ["accepted_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invitations_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invitations_invited_by_user_id_fkey"
+            columns: ["invited_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_invitations_sms_participant_id_fkey"
+            columns: ["sms_participant_id"]
+            isOneToOne: false
+            referencedRelation: "sms_participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       group_members: {
         Row: {
           group_id: string
           id: string
           joined_at: string
+          notification_level: Database["public"]["Enums"]["notification_level"]
+          notifications_muted_until: string | null
           role: Database["public"]["Enums"]["group_member_role"]
+          sms_muted_until: string | null
+          sms_opted_out_at: string | null
           sms_participant_id: string | null
           user_id: string | null
         }
@@ -47,7 +174,11 @@ export type Database = {
           group_id: string
           id?: string
           joined_at?: string
+          notification_level?: Database["public"]["Enums"]["notification_level"]
+          notifications_muted_until?: string | null
           role?: Database["public"]["Enums"]["group_member_role"]
+          sms_muted_until?: string | null
+          sms_opted_out_at?: string | null
           sms_participant_id?: string | null
           user_id?: string | null
         }
@@ -55,7 +186,11 @@ export type Database = {
           group_id?: string
           id?: string
           joined_at?: string
+          notification_level?: Database["public"]["Enums"]["notification_level"]
+          notifications_muted_until?: string | null
           role?: Database["public"]["Enums"]["group_member_role"]
+          sms_muted_until?: string | null
+          sms_opted_out_at?: string | null
           sms_participant_id?: string | null
           user_id?: string | null
         }
@@ -89,7 +224,6 @@ export type Database = {
           created_by_user_id: string
           id: string
           name: string
-          twilio_phone_number: string
           updated_at: string
         }
         Insert: {
@@ -97,7 +231,6 @@ export type Database = {
           created_by_user_id: string
           id?: string
           name: string
-          twilio_phone_number: string
           updated_at?: string
         }
         Update: {
@@ -105,7 +238,6 @@ export type Database = {
           created_by_user_id?: string
           id?: string
           name?: string
-          twilio_phone_number?: string
           updated_at?: string
         }
         Relationships: [
@@ -118,8 +250,143 @@ export type Database = {
           },
         ]
       }
+      message_attachments: {
+        Row: {
+          content_type: string
+          created_at: string
+          file_name: string | null
+          group_id: string
+          id: string
+          message_id: string
+          size_bytes: number | null
+          storage_path: string
+        }
+        Insert: {
+          content_type: string
+          created_at?: string
+          file_name?: string | null
+          group_id: string
+          id?: string
+          message_id: string
+          size_bytes?: number | null
+          storage_path: string
+        }
+        Update: {
+          content_type?: string
+          created_at?: string
+          file_name?: string | null
+          group_id?: string
+          id?: string
+          message_id?: string
+          size_bytes?: number | null
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_deliveries: {
+        Row: {
+          created_at: string
+          error_code: string | null
+          error_message: string | null
+          id: string
+          message_id: string
+          sms_participant_id: string
+          status: Database["public"]["Enums"]["delivery_status"]
+          twilio_message_sid: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          message_id: string
+          sms_participant_id: string
+          status?: Database["public"]["Enums"]["delivery_status"]
+          twilio_message_sid?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          message_id?: string
+          sms_participant_id?: string
+          status?: Database["public"]["Enums"]["delivery_status"]
+          twilio_message_sid?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_deliveries_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_deliveries_sms_participant_id_fkey"
+            columns: ["sms_participant_id"]
+            isOneToOne: false
+            referencedRelation: "sms_participants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_delivery_events: {
+        Row: {
+          created_at: string
+          delivery_id: string
+          error_code: string | null
+          error_message: string | null
+          id: string
+          status: Database["public"]["Enums"]["delivery_status"]
+        }
+        Insert: {
+          created_at?: string
+          delivery_id: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          status: Database["public"]["Enums"]["delivery_status"]
+        }
+        Update: {
+          created_at?: string
+          delivery_id?: string
+          error_code?: string | null
+          error_message?: string | null
+          id?: string
+          status?: Database["public"]["Enums"]["delivery_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_delivery_events_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "message_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          client_id: string | null
           content: string
           created_at: string
           delivery_status: Database["public"]["Enums"]["delivery_status"] | null
@@ -132,6 +399,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          client_id?: string | null
           content: string
           created_at?: string
           delivery_status?:
@@ -146,6 +414,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          client_id?: string | null
           content?: string
           created_at?: string
           delivery_status?:
@@ -183,42 +452,333 @@ export type Database = {
           },
         ]
       }
+      pending_inbound: {
+        Row: {
+          body: string
+          group_id: string
+          id: string
+          media: Json
+          message_id: string | null
+          phone_number: string
+          received_at: string
+          resolved_at: string | null
+          resolved_by_user_id: string | null
+          status: Database["public"]["Enums"]["pending_inbound_status"]
+          twilio_message_sid: string
+        }
+        Insert: {
+          body: string
+          group_id: string
+          id?: string
+          media?: Json
+          message_id?: string | null
+          phone_number: string
+          received_at?: string
+          resolved_at?: string | null
+          resolved_by_user_id?: string | null
+          status?: Database["public"]["Enums"]["pending_inbound_status"]
+          twilio_message_sid: string
+        }
+        Update: {
+          body?: string
+          group_id?: string
+          id?: string
+          media?: Json
+          message_id?: string | null
+          phone_number?: string
+          received_at?: string
+          resolved_at?: string | null
+          resolved_by_user_id?: string | null
+          status?: Database["public"]["Enums"]["pending_inbound_status"]
+          twilio_message_sid?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_inbound_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_inbound_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_inbound_resolved_by_user_id_fkey"
+            columns: ["resolved_by_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_verification_events: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          phone_number: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          phone_number: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          phone_number?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_verification_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      phone_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          expires_at: string
+          phone_number: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          expires_at: string
+          phone_number: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          expires_at?: string
+          phone_number?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phone_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           display_name: string
-          email: string
+          email: string | null
           id: string
           phone_number: string | null
+          phone_verified_at: string | null
           updated_at: string
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
           display_name: string
-          email: string
+          email?: string | null
           id: string
           phone_number?: string | null
+          phone_verified_at?: string | null
           updated_at?: string
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
           display_name?: string
-          email?: string
+          email?: string | null
           id?: string
           phone_number?: string | null
+          phone_verified_at?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivery_id: string
+          id: string
+          last_error_code: string | null
+          last_error_message: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          status: Database["public"]["Enums"]["sms_job_status"]
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivery_id: string
+          id?: string
+          last_error_code?: string | null
+          last_error_message?: string | null
+          locked_at?: string | null
+          max_attempts: number
+          next_attempt_at?: string
+          status?: Database["public"]["Enums"]["sms_job_status"]
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivery_id?: string
+          id?: string
+          last_error_code?: string | null
+          last_error_message?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          status?: Database["public"]["Enums"]["sms_job_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_jobs_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: true
+            referencedRelation: "message_deliveries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_opt_outs: {
+        Row: {
+          created_at: string
+          group_id: string
+          phone_number: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          phone_number: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          phone_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_opt_outs_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_participant_nicknames: {
+        Row: {
+          created_at: string
+          id: string
+          nickname: string
+          sms_participant_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          nickname: string
+          sms_participant_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          nickname?: string
+          sms_participant_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_participant_nicknames_sms_participant_id_fkey"
+            columns: ["sms_participant_id"]
+            isOneToOne: false
+            referencedRelation: "sms_participants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_participant_nicknames_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sms_participants: {
         Row: {
           created_at: string
           created_by_user_id: string
           display_name: string
           id: string
+          linked_user_id: string | null
           phone_number: string
           updated_at: string
         }
@@ -227,6 +787,7 @@ export type Database = {
           created_by_user_id: string
           display_name: string
           id?: string
+          linked_user_id?: string | null
           phone_number: string
           updated_at?: string
         }
@@ -235,6 +796,7 @@ export type Database = {
           created_by_user_id?: string
           display_name?: string
           id?: string
+          linked_user_id?: string | null
           phone_number?: string
           updated_at?: string
         }
@@ -246,6 +808,87 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sms_participants_linked_user_id_fkey"
+            columns: ["linked_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sms_routes: {
+        Row: {
+          created_at: string
+          group_id: string
+          id: string
+          phone_number: string
+          twilio_number_id: string
+        }
+        Insert: {
+          created_at?: string
+          group_id: string
+          id?: string
+          phone_number: string
+          twilio_number_id: string
+        }
+        Update: {
+          created_at?: string
+          group_id?: string
+          id?: string
+          phone_number?: string
+          twilio_number_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sms_routes_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sms_routes_twilio_number_id_fkey"
+            columns: ["twilio_number_id"]
+            isOneToOne: false
+            referencedRelation: "twilio_numbers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      twilio_numbers: {
+        Row: {
+          created_at: string
+          group_id: string | null
+          id: string
+          is_active: boolean
+          phone_number: string
+          twilio_sid: string | null
+        }
+        Insert: {
+          created_at?: string
+          group_id?: string | null
+          id?: string
+          is_active?: boolean
+          phone_number: string
+          twilio_sid?: string | null
+        }
+        Update: {
+          created_at?: string
+          group_id?: string | null
+          id?: string
+          is_active?: boolean
+          phone_number?: string
+          twilio_sid?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "twilio_numbers_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "groups"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -253,6 +896,68 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_email_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      accept_sms_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: string
+      }
+      approve_pending_sender: {
+        Args: {
+          p_display_name: string
+          p_group_id: string
+          p_phone_number: string
+        }
+        Returns: string
+      }
+      assign_sms_route: {
+        Args: { p_group_id: string; p_phone_number: string }
+        Returns: string
+      }
+      block_pending_sender: {
+        Args: { p_group_id: string; p_phone_number: string }
+        Returns: undefined
+      }
+      claim_sms_jobs: {
+        Args: { p_limit: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivery_id: string
+          id: string
+          last_error_code: string | null
+          last_error_message: string | null
+          locked_at: string | null
+          max_attempts: number
+          next_attempt_at: string
+          status: Database["public"]["Enums"]["sms_job_status"]
+          updated_at: string
+        }[]
+      }
+      delivery_status_severity: {
+        Args: { p_status: Database["public"]["Enums"]["delivery_status"] }
+        Returns: number
+      }
+      find_or_create_sms_participant: {
+        Args: { p_display_name: string; p_phone_number: string }
+        Returns: string
+      }
+      get_blocked_phone_numbers: {
+        Args: { p_group_id: string }
+        Returns: {
+          phone_number: string
+        }[]
+      }
+      get_linkable_sms_groups: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          already_member: boolean
+          group_id: string
+          group_name: string
+        }[]
+      }
       get_group_role: {
         Args: { p_group_id: string; p_user_id: string }
         Returns: Database["public"]["Enums"]["group_member_role"]
@@ -261,6 +966,61 @@ export type Database = {
         Args: { p_group_id: string; p_user_id: string }
         Returns: boolean
       }
+      is_number_blocked: {
+        Args: { p_group_id: string; p_phone_number: string }
+        Returns: boolean
+      }
+      link_sms_participant: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_delivery_failure: {
+        Args: {
+          p_base_delay_seconds: number
+          p_delivery_id: string
+          p_error_code: string | null
+          p_error_message: string | null
+          p_max_attempts: number
+          p_retryable: boolean
+        }
+        Returns: boolean
+      }
+      refresh_message_delivery_status: {
+        Args: { p_message_id: string }
+        Returns: Database["public"]["Enums"]["delivery_status"]
+      }
+      resolve_sms_route: {
+        Args: { p_phone_number: string; p_twilio_number: string }
+        Returns: string
+      }
+      run_sms_worker: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      set_group_member_role: {
+        Args: {
+          p_group_id: string
+          p_role: Database["public"]["Enums"]["group_member_role"]
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      set_group_notification_preferences: {
+        Args: {
+          p_group_id: string
+          p_level: Database["public"]["Enums"]["notification_level"]
+          p_muted_until: string | null
+        }
+        Returns: undefined
+      }
+      transfer_group_ownership: {
+        Args: { p_group_id: string; p_new_owner_id: string }
+        Returns: undefined
+      }
+      verify_phone_code: {
+        Args: { p_code: string; p_phone_number: string }
+        Returns: string
+      }
     }
     Enums: {
       delivery_status:
@@ -271,7 +1031,11 @@ export type Database = {
         | "failed"
         | "undelivered"
       group_member_role: "owner" | "admin" | "member"
+      invitation_status: "pending" | "accepted" | "revoked" | "expired"
       message_origin: "app" | "sms"
+      notification_level: "all" | "mentions"
+      pending_inbound_status: "pending" | "approved" | "blocked"
+      sms_job_status: "scheduled" | "processing" | "succeeded" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -411,7 +1175,11 @@ export const Constants = {
         "undelivered",
       ],
       group_member_role: ["owner", "admin", "member"],
+      invitation_status: ["pending", "accepted", "revoked", "expired"],
       message_origin: ["app", "sms"],
+      notification_level: ["all", "mentions"],
+      pending_inbound_status: ["pending", "approved", "blocked"],
+      sms_job_status: ["scheduled", "processing", "succeeded", "failed"],
     },
   },
 } as const
@@ -0,0 +1,64 @@
+/**
+ * Twilio Client
+ *
+ * The phone number operations the app needs from Twilio. Implemented by
+ * the REST client for real accounts and an in-memory fake for local
+ * development and tests (set TWILIO_CLIENT=fake).
+ * Only import this from server-side code.
+ */
+
+/**
+ * Where to look for a number
+ */
+export interface NumberSearch {
+  /** ISO country code, e.g. "US" */
+  country: string;
+  /** Local area code, e.g. "415" */
+  areaCode?: string;
+}
+
+/**
+ * A number that can be bought
+ */
+export interface AvailableNumber {
+  phoneNumber: string;
+  locality: string | null;
+  region: string | null;
+}
+
+/**
+ * A number owned by the account
+ */
+export interface PurchasedNumber {
+  /** Incoming phone number SID (starts with PN) */
+  sid: string;
+  phoneNumber: string;
+}
+
+export interface TwilioClient {
+  /** Find SMS-capable numbers for sale */
+  searchAvailableNumbers(search: NumberSearch, limit?: number): Promise<AvailableNumber[]>;
+  /** Buy a number and point its SMS webhook and status callback at the app */
+  purchaseNumber(options: {
+    phoneNumber: string;
+    smsUrl: string;
+    statusCallbackUrl?: string;
+  }): Promise<PurchasedNumber>;
+  /** Release a number back to Twilio */
+  releaseNumber(sid: string): Promise<void>;
+}
+
+/**
+ * Error returned by the Twilio REST API.
+ * `code` is Twilio's error code (e.g. 21422), when the response included one.
+ */
+export class TwilioClientError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string | null,
+    public readonly httpStatus: number
+  ) {
+    super(message);
+    this.name = "TwilioClientError";
+  }
+}
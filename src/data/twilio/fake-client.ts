@@ -0,0 +1,72 @@
+/**
+ * Fake Twilio Client
+ *
+ * In-memory TwilioClient for local development and tests. Hands out
+ * numbers in the 555-01xx fictional range and never calls Twilio.
+ */
+
+import {
+  TwilioClientError,
+  type AvailableNumber,
+  type NumberSearch,
+  type PurchasedNumber,
+  type TwilioClient,
+} from "./client";
+
+export class FakeTwilioClient implements TwilioClient {
+  /** Owned numbers by SID */
+  readonly purchased = new Map<string, PurchasedNumber & { smsUrl: string }>();
+  private nextSid = 1;
+
+  async searchAvailableNumbers(
+    search: NumberSearch,
+    limit = 10
+  ): Promise<AvailableNumber[]> {
+    if (search.country !== "US" && search.country !== "CA") {
+      return [];
+    }
+
+    const areaCode = search.areaCode || "555";
+    const owned = new Set(
+      Array.from(this.purchased.values(), (n) => n.phoneNumber)
+    );
+    const available: AvailableNumber[] = [];
+
+    for (let i = 100; i < 200 && available.length < limit; i++) {
+      const phoneNumber = `+1${areaCode}5550${i}`;
+      if (!owned.has(phoneNumber)) {
+        available.push({ phoneNumber, locality: null, region: null });
+      }
+    }
+
+    return available;
+  }
+
+  async purchaseNumber(options: {
+    phoneNumber: string;
+    smsUrl: string;
+    statusCallbackUrl?: string;
+  }): Promise<PurchasedNumber> {
+    const alreadyOwned = Array.from(this.purchased.values()).some(
+      (n) => n.phoneNumber === options.phoneNumber
+    );
+    if (alreadyOwned) {
+      throw new TwilioClientError("Phone number is not available", "21422", 400);
+    }
+
+    const sid = `PNfake${String(this.nextSid++).padStart(26, "0")}`;
+    this.purchased.set(sid, {
+      sid,
+      phoneNumber: options.phoneNumber,
+      smsUrl: options.smsUrl,
+    });
+
+    return { sid, phoneNumber: options.phoneNumber };
+  }
+
+  async releaseNumber(sid: string): Promise<void> {
+    if (!this.purchased.delete(sid)) {
+      throw new TwilioClientError(`Number ${sid} not found`, "20404", 404);
+    }
+  }
+}
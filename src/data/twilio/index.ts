@@ -0,0 +1,41 @@
+/**
+ * Twilio - Public API
+ *
+ * Server-side access to Twilio account operations.
+ */
+
+import { serverEnv } from "@/lib/env";
+import type { TwilioClient } from "./client";
+import { RestTwilioClient } from "./rest-client";
+import { FakeTwilioClient } from "./fake-client";
+
+export type {
+  TwilioClient,
+  NumberSearch,
+  AvailableNumber,
+  PurchasedNumber,
+} from "./client";
+export { TwilioClientError } from "./client";
+export { RestTwilioClient } from "./rest-client";
+export { FakeTwilioClient } from "./fake-client";
+
+// Shared so fake numbers survive across requests in a dev server
+let fakeClient: FakeTwilioClient | null = null;
+
+/**
+ * Returns the configured Twilio client.
+ * TWILIO_CLIENT=fake selects the in-memory fake; otherwise the REST client
+ * is used and Twilio credentials are required.
+ */
+export function getTwilioClient(): TwilioClient {
+  if (serverEnv.twilioClient === "fake") {
+    fakeClient ??= new FakeTwilioClient();
+    return fakeClient;
+  }
+
+  if (!serverEnv.twilioAccountSid || !serverEnv.twilioAuthToken) {
+    throw new Error("Twilio credentials not configured");
+  }
+
+  return new RestTwilioClient(serverEnv.twilioAccountSid, serverEnv.twilioAuthToken);
+}
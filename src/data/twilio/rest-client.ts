@@ -0,0 +1,113 @@
+/**
+ * Twilio REST Client
+ *
+ * TwilioClient backed by the Twilio REST API.
+ */
+
+import {
+  TwilioClientError,
+  type AvailableNumber,
+  type NumberSearch,
+  type PurchasedNumber,
+  type TwilioClient,
+} from "./client";
+
+const TWILIO_API_URL = "https://api.twilio.com/2010-04-01";
+
+export class RestTwilioClient implements TwilioClient {
+  constructor(
+    private accountSid: string,
+    private authToken: string
+  ) {}
+
+  async searchAvailableNumbers(
+    search: NumberSearch,
+    limit = 10
+  ): Promise<AvailableNumber[]> {
+    const params = new URLSearchParams({
+      SmsEnabled: "true",
+      PageSize: String(limit),
+    });
+    if (search.areaCode) params.set("AreaCode", search.areaCode);
+
+    const result = await this.request<{
+      available_phone_numbers: Array<{
+        phone_number: string;
+        locality: string | null;
+        region: string | null;
+      }>;
+    }>(
+      "GET",
+      `/AvailablePhoneNumbers/${encodeURIComponent(search.country)}/Local.json?${params}`
+    );
+
+    return result.available_phone_numbers.map((n) => ({
+      phoneNumber: n.phone_number,
+      locality: n.locality,
+      region: n.region,
+    }));
+  }
+
+  async purchaseNumber(options: {
+    phoneNumber: string;
+    smsUrl: string;
+    statusCallbackUrl?: string;
+  }): Promise<PurchasedNumber> {
+    const body = new URLSearchParams({
+      PhoneNumber: options.phoneNumber,
+      SmsUrl: options.smsUrl,
+      SmsMethod: "POST",
+    });
+    if (options.statusCallbackUrl) {
+      body.set("StatusCallback", options.statusCallbackUrl);
+      body.set("StatusCallbackMethod", "POST");
+    }
+
+    const result = await this.request<{ sid: string; phone_number: string }>(
+      "POST",
+      "/IncomingPhoneNumbers.json",
+      body
+    );
+
+    return { sid: result.sid, phoneNumber: result.phone_number };
+  }
+
+  async releaseNumber(sid: string): Promise<void> {
+    await this.request("DELETE", `/IncomingPhoneNumbers/${encodeURIComponent(sid)}.json`);
+  }
+
+  private async request<T>(
+    method: "GET" | "POST" | "DELETE",
+    path: string,
+    body?: URLSearchParams
+  ): Promise<T> {
+    const response = await fetch(
+      `${TWILIO_API_URL}/Accounts/${this.accountSid}${path}`,
+      {
+        method,
+        headers: {
+          "Authorization": `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+          ...(body && { "Content-Type": "application/x-www-form-urlencoded" }),
+        },
+        body: body?.toString(),
+      }
+    );
+
+    // DELETE returns 204 No Content
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new TwilioClientError(
+        result.message || `Twilio request failed (${response.status})`,
+        result.code ? String(result.code) : null,
+        response.status
+      );
+    }
+
+    return result as T;
+  }
+}
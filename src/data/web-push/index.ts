@@ -0,0 +1,65 @@
+/**
+ * Web Push - Public API
+ *
+ * Server-side delivery of push notifications to browsers, signed with the
+ * app's VAPID keys.
+ */
+
+import webpush, { WebPushError } from "web-push";
+import { env, serverEnv } from "@/lib/env";
+import type {
+  WebPushSubscription,
+  PushNotificationPayload,
+} from "@/domain/types";
+
+/** How long a push service keeps an undelivered notification */
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Whether VAPID keys are configured. Push is disabled without them.
+ */
+export function isWebPushConfigured(): boolean {
+  return Boolean(env.vapidPublicKey && serverEnv.vapidPrivateKey);
+}
+
+/**
+ * Push a notification to one browser.
+ * Returns false if the subscription has expired or been revoked (it
+ * should be deleted); throws on other failures.
+ */
+export async function sendWebPush(
+  subscription: WebPushSubscription,
+  payload: PushNotificationPayload
+): Promise<boolean> {
+  if (!env.vapidPublicKey || !serverEnv.vapidPrivateKey) {
+    throw new Error("VAPID keys not configured");
+  }
+
+  try {
+    await webpush.sendNotification(
+      {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+      },
+      JSON.stringify(payload),
+      {
+        TTL: PUSH_TTL_SECONDS,
+        vapidDetails: {
+          subject: serverEnv.vapidSubject,
+          publicKey: env.vapidPublicKey,
+          privateKey: serverEnv.vapidPrivateKey,
+        },
+      }
+    );
+    return true;
+  } catch (error) {
+    // Not found / Gone: the browser unsubscribed or the subscription expired
+    if (
+      error instanceof WebPushError &&
+      (error.statusCode === 404 || error.statusCode === 410)
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
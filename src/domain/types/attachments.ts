@@ -0,0 +1,70 @@
+/**
+ * Attachment Types - Message Media
+ *
+ * Pictures, audio and other files sent with a message (MMS).
+ * Files live in Supabase Storage; rows only hold the object path.
+ * Inbound MMS media is stored under {groupId}/{messageId}/, app uploads
+ * under {groupId}/uploads/{userId}/.
+ */
+
+import type { MessageAttachmentId, MessageId, GroupId } from "./branded";
+
+// Media rules are shared with the edge functions, which can't import from src
+export {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENTS_TOTAL_BYTES,
+  MEDIA_URL_EXPIRY_SECONDS,
+  isAllowedMediaType,
+  supportsMms,
+  buildOutboundSms,
+  type OutboundMedia,
+} from "../../../supabase/functions/_shared/media-rules";
+
+/**
+ * A media file attached to a message
+ */
+export interface MessageAttachment {
+  readonly id: MessageAttachmentId;
+  readonly messageId: MessageId;
+  readonly groupId: GroupId;
+  /** Object path in the attachments bucket, scoped by group */
+  readonly storagePath: string;
+  /** MIME type, e.g. "image/jpeg" */
+  readonly contentType: string;
+  readonly fileName: string | null;
+  readonly sizeBytes: number | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * A file uploaded by an app user, to be attached to a message they send
+ */
+export interface NewMessageAttachment {
+  readonly storagePath: string;
+  readonly contentType: string;
+  readonly fileName: string | null;
+  readonly sizeBytes: number;
+}
+
+/**
+ * Storage folder for a user's uploads to a group (enforced by storage RLS)
+ */
+export function getAttachmentUploadPrefix(groupId: string, userId: string): string {
+  return `${groupId}/uploads/${userId}/`;
+}
+
+/**
+ * How an attachment is presented
+ */
+export type AttachmentKind = "image" | "audio" | "video" | "file";
+
+/**
+ * Get the presentation kind for a MIME type
+ */
+export function getAttachmentKind(contentType: string): AttachmentKind {
+  if (contentType.startsWith("image/")) return "image";
+  if (contentType.startsWith("audio/")) return "audio";
+  if (contentType.startsWith("video/")) return "video";
+  return "file";
+}
@@ -0,0 +1,36 @@
+/**
+ * Blocked Number Types - Phone Number Blocklist
+ *
+ * A blocked number can't text into a group and is never texted from it.
+ * Blocks are scoped to one group, or to a user and every group they own.
+ */
+
+import type { BlockedNumberId, GroupId, UserId, E164PhoneNumber } from "./branded";
+
+/**
+ * Where a block applies
+ * - group: the one group it was set on
+ * - user: every group the user owns
+ */
+export type BlockScope = "group" | "user";
+
+/**
+ * A blocked phone number
+ */
+export interface BlockedNumber {
+  readonly id: BlockedNumberId;
+  readonly phoneNumber: E164PhoneNumber;
+  /** Set for group-scoped blocks */
+  readonly groupId: GroupId | null;
+  /** Set for user-scoped blocks */
+  readonly userId: UserId | null;
+  readonly blockedByUserId: UserId | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Returns the scope of a block
+ */
+export function getBlockScope(block: BlockedNumber): BlockScope {
+  return block.groupId !== null ? "group" : "user";
+}
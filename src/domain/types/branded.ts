@@ -29,6 +29,30 @@ export type MessageId = Brand<string, "MessageId">;
 /** Unique identifier for SMS-only participants */
 export type SmsParticipantId = Brand<string, "SmsParticipantId">;
 
+/** Unique identifier for a per-recipient SMS delivery */
+export type MessageDeliveryId = Brand<string, "MessageDeliveryId">;
+
+/** Unique identifier for a delivery status transition */
+export type MessageDeliveryEventId = Brand<string, "MessageDeliveryEventId">;
+
+/** Unique identifier for a media file attached to a message */
+export type MessageAttachmentId = Brand<string, "MessageAttachmentId">;
+
+/** Unique identifier for a held message from an unknown sender */
+export type PendingInboundId = Brand<string, "PendingInboundId">;
+
+/** Unique identifier for a blocked phone number entry */
+export type BlockedNumberId = Brand<string, "BlockedNumberId">;
+
+/** Unique identifier for a Twilio number in the pool */
+export type TwilioNumberId = Brand<string, "TwilioNumberId">;
+
+/** Unique identifier for a group invitation */
+export type GroupInvitationId = Brand<string, "GroupInvitationId">;
+
+/** Unique identifier for a browser's push subscription */
+export type PushSubscriptionId = Brand<string, "PushSubscriptionId">;
+
 /** Twilio Message SID (starts with SM or MM) */
 export type TwilioMessageSid = Brand<string, "TwilioMessageSid">;
 
@@ -56,6 +80,38 @@ export function asSmsParticipantId(id: string): SmsParticipantId {
   return id as SmsParticipantId;
 }
 
+export function asMessageDeliveryId(id: string): MessageDeliveryId {
+  return id as MessageDeliveryId;
+}
+
+export function asMessageDeliveryEventId(id: string): MessageDeliveryEventId {
+  return id as MessageDeliveryEventId;
+}
+
+export function asMessageAttachmentId(id: string): MessageAttachmentId {
+  return id as MessageAttachmentId;
+}
+
+export function asPendingInboundId(id: string): PendingInboundId {
+  return id as PendingInboundId;
+}
+
+export function asBlockedNumberId(id: string): BlockedNumberId {
+  return id as BlockedNumberId;
+}
+
+export function asTwilioNumberId(id: string): TwilioNumberId {
+  return id as TwilioNumberId;
+}
+
+export function asGroupInvitationId(id: string): GroupInvitationId {
+  return id as GroupInvitationId;
+}
+
+export function asPushSubscriptionId(id: string): PushSubscriptionId {
+  return id as PushSubscriptionId;
+}
+
 export function asTwilioMessageSid(sid: string): TwilioMessageSid {
   return sid as TwilioMessageSid;
 }
@@ -0,0 +1,54 @@
+/**
+ * Delivery Types - Per-Recipient SMS Tracking
+ *
+ * An app-origin message fans out to every SMS participant in the group.
+ * Each recipient gets its own Twilio message (and SID), so delivery is
+ * tracked per recipient. The message's `deliveryStatus` is the aggregate
+ * (worst case) of its deliveries.
+ */
+
+import type {
+  MessageDeliveryId,
+  MessageDeliveryEventId,
+  MessageId,
+  SmsParticipantId,
+  TwilioMessageSid,
+} from "./branded";
+import type { DeliveryStatus } from "./messages";
+
+/**
+ * Outbound SMS delivery of one message to one SMS participant
+ */
+export interface MessageDelivery {
+  readonly id: MessageDeliveryId;
+  readonly messageId: MessageId;
+  readonly smsParticipantId: SmsParticipantId;
+  /** Set once Twilio accepts the message; null if the send never reached Twilio */
+  readonly twilioMessageSid: TwilioMessageSid | null;
+  readonly status: DeliveryStatus;
+  /** Twilio ErrorCode (e.g. "30003") when the delivery failed */
+  readonly errorCode: string | null;
+  /** Twilio's human-readable description of the error */
+  readonly errorMessage: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * A single status transition of a delivery, recorded as it happened
+ */
+export interface MessageDeliveryEvent {
+  readonly id: MessageDeliveryEventId;
+  readonly deliveryId: MessageDeliveryId;
+  readonly status: DeliveryStatus;
+  readonly errorCode: string | null;
+  readonly errorMessage: string | null;
+  readonly occurredAt: Date;
+}
+
+/**
+ * A delivery with its transition history loaded (oldest first)
+ */
+export interface MessageDeliveryWithEvents extends MessageDelivery {
+  readonly events: MessageDeliveryEvent[];
+}
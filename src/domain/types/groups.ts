@@ -3,35 +3,45 @@
  *
  * Groups are the central entity for conversations. Each group:
  * - Has one or more app user members
- * - May have SMS participant members
- * - Has a dedicated Twilio phone number for SMS routing
+ * - May have SMS participant members, who text the group through
+ *   numbers from a shared Twilio pool (see number-pool.ts)
  */
 
 import type {
   GroupId,
   UserId,
   SmsParticipantId,
-  E164PhoneNumber,
 } from "./branded";
 import type { Participant } from "./participants";
+import type { NumberSearchInput } from "./number-pool";
 
 /**
  * Role within a group - determines permissions
  */
 export type GroupMemberRole = "owner" | "admin" | "member";
 
+/**
+ * Which messages notify an app member
+ * - all: every message
+ * - mentions: only messages that @mention them
+ */
+export type NotificationLevel = "all" | "mentions";
+
+/**
+ * An app member's notification settings for a group
+ */
+export interface NotificationPreferences {
+  readonly level: NotificationLevel;
+  /** No notifications at all until this time */
+  readonly mutedUntil: Date | null;
+}
+
 /**
  * A conversation group that bridges app users and SMS participants
  */
 export interface Group {
   readonly id: GroupId;
   readonly name: string;
-  /**
-   * Dedicated Twilio phone number for this group.
-   * All outbound SMS to participants comes from this number.
-   * Inbound SMS to this number routes to this group.
-   */
-  readonly twilioPhoneNumber: E164PhoneNumber;
   readonly createdByUserId: UserId;
   readonly createdAt: Date;
   readonly updatedAt: Date;
@@ -52,6 +62,22 @@ export interface GroupMember {
   readonly participant: Participant;
   readonly role: GroupMemberRole;
   readonly joinedAt: Date;
+  /**
+   * When an SMS participant texted STOP to this group.
+   * Opted-out members receive no texts from the group until they text START.
+   * Always null for app users.
+   */
+  readonly smsOptedOutAt: Date | null;
+  /**
+   * An SMS participant who texted #mute gets no texts from the group until
+   * this time. Always null for app users.
+   */
+  readonly smsMutedUntil: Date | null;
+  /**
+   * How the group notifies an app user.
+   * Always the defaults (all, not muted) for SMS participants.
+   */
+  readonly notifications: NotificationPreferences;
 }
 
 /**
@@ -71,6 +97,8 @@ export interface SmsParticipantMembership {
   readonly groupId: GroupId;
   readonly smsParticipantId: SmsParticipantId;
   readonly joinedAt: Date;
+  readonly smsOptedOutAt: Date | null;
+  readonly smsMutedUntil: Date | null;
 }
 
 /**
@@ -79,8 +107,11 @@ export interface SmsParticipantMembership {
 export interface CreateGroupInput {
   readonly name: string;
   readonly createdByUserId: UserId;
-  /** If not provided, a Twilio number will be provisioned */
-  readonly twilioPhoneNumber?: E164PhoneNumber;
+  /**
+   * If provided, a Twilio number is bought for the group.
+   * Otherwise its SMS participants use shared pool numbers.
+   */
+  readonly provisionNumber?: NumberSearchInput;
 }
 
 /**
@@ -100,6 +131,43 @@ export interface AddSmsParticipantToGroupInput {
   readonly smsParticipantId: SmsParticipantId;
 }
 
+/**
+ * Check if a member has opted out of texts from the group
+ */
+export function isOptedOut(member: GroupMember): boolean {
+  return member.smsOptedOutAt !== null;
+}
+
+/**
+ * Check if an SMS member has muted the group by text
+ */
+export function isSmsMuted(member: GroupMember, now: Date = new Date()): boolean {
+  return member.smsMutedUntil !== null && member.smsMutedUntil > now;
+}
+
+/**
+ * Check if an app member has muted the group's notifications
+ */
+export function isNotificationsMuted(
+  preferences: NotificationPreferences,
+  now: Date = new Date()
+): boolean {
+  return preferences.mutedUntil !== null && preferences.mutedUntil > now;
+}
+
+/**
+ * Check if a message should notify an app member, given whether it
+ * mentions them
+ */
+export function shouldNotify(
+  preferences: NotificationPreferences,
+  mentioned: boolean,
+  now: Date = new Date()
+): boolean {
+  if (isNotificationsMuted(preferences, now)) return false;
+  return preferences.level === "all" || mentioned;
+}
+
 /**
  * Check if user has admin privileges in group
  */
@@ -120,3 +188,24 @@ export function canRemoveMembers(role: GroupMemberRole): boolean {
 export function canDeleteGroup(role: GroupMemberRole): boolean {
   return role === "owner";
 }
+
+/**
+ * Check if a member can change another member's role.
+ * Ownership only moves by transfer; only the owner grants or removes the
+ * admin role, as with inviting admins.
+ */
+export function canChangeMemberRole(
+  role: GroupMemberRole,
+  memberRole: GroupMemberRole,
+  newRole: GroupMemberRole
+): boolean {
+  if (role !== "owner") return false;
+  return memberRole !== "owner" && newRole !== "owner";
+}
+
+/**
+ * Check if user can hand ownership of the group to another member
+ */
+export function canTransferOwnership(role: GroupMemberRole): boolean {
+  return role === "owner";
+}
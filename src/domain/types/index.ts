@@ -12,6 +12,14 @@ export type {
   GroupId,
   MessageId,
   SmsParticipantId,
+  MessageDeliveryId,
+  MessageDeliveryEventId,
+  MessageAttachmentId,
+  PendingInboundId,
+  BlockedNumberId,
+  TwilioNumberId,
+  GroupInvitationId,
+  PushSubscriptionId,
   TwilioMessageSid,
 } from "./branded";
 
@@ -21,11 +29,24 @@ export {
   asGroupId,
   asMessageId,
   asSmsParticipantId,
+  asMessageDeliveryId,
+  asMessageDeliveryEventId,
+  asMessageAttachmentId,
+  asPendingInboundId,
+  asBlockedNumberId,
+  asTwilioNumberId,
+  asGroupInvitationId,
+  asPushSubscriptionId,
   asTwilioMessageSid,
 } from "./branded";
 
 // Participant types
-export type { AppUser, SmsParticipant, Participant } from "./participants";
+export type {
+  AppUser,
+  SmsParticipant,
+  Participant,
+  LinkableSmsGroup,
+} from "./participants";
 
 export {
   isAppUser,
@@ -43,19 +64,95 @@ export type {
   Message,
   CreateAppMessageInput,
   CreateSmsMessageInput,
+  PendingMessageStatus,
+  PendingMessage,
+  MessageCursor,
+  MessagePage,
 } from "./messages";
 
 export {
   isAppOriginMessage,
   isSmsOriginMessage,
+  getMessageSenderId,
   isDeliveryFailed,
   isDeliverySuccessful,
   isDeliveryPending,
 } from "./messages";
 
+// Delivery types
+export type {
+  MessageDelivery,
+  MessageDeliveryEvent,
+  MessageDeliveryWithEvents,
+} from "./deliveries";
+
+// Attachment types
+export type {
+  MessageAttachment,
+  NewMessageAttachment,
+  AttachmentKind,
+  OutboundMedia,
+} from "./attachments";
+
+export {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  MEDIA_URL_EXPIRY_SECONDS,
+  isAllowedMediaType,
+  supportsMms,
+  buildOutboundSms,
+  getAttachmentUploadPrefix,
+  getAttachmentKind,
+} from "./attachments";
+
+// Pending inbound types
+export type {
+  PendingInboundStatus,
+  PendingInboundMedia,
+  PendingInbound,
+  PendingSenderRequest,
+} from "./pending-inbound";
+
+export { groupPendingBySender } from "./pending-inbound";
+
+// Blocked number types
+export type { BlockScope, BlockedNumber } from "./blocked-numbers";
+
+export { getBlockScope } from "./blocked-numbers";
+
+// Number pool types
+export type { SmsRoute, TwilioNumber, NumberSearchInput } from "./number-pool";
+
+// Phone verification types
+export type { PhoneVerificationStatus } from "./phone-verification";
+
+export {
+  VERIFICATION_CODE_LENGTH,
+  getPhoneVerificationError,
+} from "./phone-verification";
+
+// Invitation types
+export type { InvitationStatus, GroupInvitation } from "./invitations";
+
+export {
+  INVITATION_TTL_DAYS,
+  getInvitationStatus,
+  isInvitationOpen,
+  isSmsInvitation,
+  getInvitationError,
+} from "./invitations";
+
+// Push notification types
+export type {
+  WebPushSubscription,
+  NewWebPushSubscription,
+  PushNotificationPayload,
+} from "./push-notifications";
+
 // Group types
 export type {
   GroupMemberRole,
+  NotificationLevel,
+  NotificationPreferences,
   Group,
   GroupWithMembers,
   GroupMember,
@@ -66,4 +163,14 @@ export type {
   AddSmsParticipantToGroupInput,
 } from "./groups";
 
-export { canManageGroup, canRemoveMembers, canDeleteGroup } from "./groups";
+export {
+  isOptedOut,
+  isSmsMuted,
+  isNotificationsMuted,
+  shouldNotify,
+  canManageGroup,
+  canRemoveMembers,
+  canDeleteGroup,
+  canChangeMemberRole,
+  canTransferOwnership,
+} from "./groups";
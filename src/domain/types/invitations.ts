@@ -0,0 +1,104 @@
+/**
+ * Invitation Types - Joining a Group by Link
+ *
+ * Owners and admins invite people by email, or text an SMS participant a
+ * link to move the group onto the app. The invitee opens a signed link,
+ * signs up or signs in, and joins the group with the invited role.
+ */
+
+import type {
+  GroupId,
+  GroupInvitationId,
+  SmsParticipantId,
+  UserId,
+  E164PhoneNumber,
+} from "./branded";
+import type { GroupMemberRole } from "./groups";
+
+/** Days an invitation link can be used */
+export const INVITATION_TTL_DAYS = 7;
+
+/**
+ * Lifecycle of an invitation
+ * - pending: link can be used
+ * - accepted: the invitee joined the group
+ * - revoked: withdrawn by an owner or admin
+ * - expired: not used within INVITATION_TTL_DAYS
+ */
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+/**
+ * An invitation to join a group
+ */
+export interface GroupInvitation {
+  readonly id: GroupInvitationId;
+  readonly groupId: GroupId;
+  /** Lowercase; set for email invitations */
+  readonly email: string | null;
+  /** Set for invitations texted to an SMS participant */
+  readonly smsParticipantId: SmsParticipantId | null;
+  /** The number an SMS invitation was texted to */
+  readonly phoneNumber: E164PhoneNumber | null;
+  /** Never "owner"; ownership is transferred, not invited */
+  readonly role: GroupMemberRole;
+  /** As stored; use getInvitationStatus for the effective status */
+  readonly status: InvitationStatus;
+  readonly invitedByUserId: UserId | null;
+  readonly acceptedByUserId: UserId | null;
+  readonly expiresAt: Date;
+  readonly resolvedAt: Date | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * Whether an invitation was texted to an SMS participant.
+ * Accepting one moves the participant's membership onto their account.
+ */
+export function isSmsInvitation(
+  invitation: GroupInvitation
+): invitation is GroupInvitation & {
+  smsParticipantId: SmsParticipantId;
+  phoneNumber: E164PhoneNumber;
+} {
+  return invitation.smsParticipantId !== null;
+}
+
+/**
+ * Effective status of an invitation. Pending invitations past their
+ * expiry are expired even before the stored status is updated.
+ */
+export function getInvitationStatus(
+  invitation: GroupInvitation,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.status === "pending" && invitation.expiresAt <= now) {
+    return "expired";
+  }
+  return invitation.status;
+}
+
+/**
+ * Whether an invitation can still be accepted
+ */
+export function isInvitationOpen(
+  invitation: GroupInvitation,
+  now: Date = new Date()
+): boolean {
+  return getInvitationStatus(invitation, now) === "pending";
+}
+
+/**
+ * User-facing message for an invitation that can't be accepted
+ */
+export function getInvitationError(
+  status: Exclude<InvitationStatus, "pending">
+): string {
+  switch (status) {
+    case "accepted":
+      return "This invitation has already been used";
+    case "revoked":
+      return "This invitation was withdrawn";
+    case "expired":
+      return "This invitation has expired. Ask for a new one.";
+  }
+}
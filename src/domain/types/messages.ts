@@ -16,6 +16,7 @@ import type {
   SmsParticipantId,
   TwilioMessageSid,
 } from "./branded";
+import type { MessageAttachment, NewMessageAttachment } from "./attachments";
 
 /**
  * Delivery status for outbound SMS messages.
@@ -41,6 +42,8 @@ interface BaseMessage {
   readonly id: MessageId;
   readonly groupId: GroupId;
   readonly content: string;
+  /** Media files (MMS) attached to the message; empty for text-only messages */
+  readonly attachments: readonly MessageAttachment[];
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
@@ -53,16 +56,21 @@ export interface AppOriginMessage extends BaseMessage {
   readonly origin: "app";
   readonly senderUserId: UserId;
   /**
-   * Delivery status for SMS recipients.
+   * Aggregate delivery status for SMS recipients (worst case of all recipients).
+   * Recomputed from the message's deliveries; see MessageDelivery.
    * null if the group has no SMS participants.
-   * For simplicity, tracks aggregate status (worst case of all recipients).
    */
   readonly deliveryStatus: DeliveryStatus | null;
   /**
-   * Twilio Message SID for tracking.
-   * Set after successful send to Twilio API.
+   * Legacy single Twilio Message SID.
+   * Per-recipient SIDs are tracked on MessageDelivery; new messages leave this null.
    */
   readonly twilioMessageSid: TwilioMessageSid | null;
+  /**
+   * ID the sending device gave the message before its first attempt.
+   * Retries reuse it, so they never create a second message.
+   */
+  readonly clientId: string | null;
 }
 
 /**
@@ -71,6 +79,8 @@ export interface AppOriginMessage extends BaseMessage {
 export interface SmsOriginMessage extends BaseMessage {
   readonly origin: "sms";
   readonly senderSmsParticipantId: SmsParticipantId;
+  /** The sender's app account, if they have since linked their phone */
+  readonly senderUserId: UserId | null;
   /**
    * Twilio's unique identifier for this inbound message.
    * Always present for SMS-origin messages.
@@ -102,6 +112,17 @@ export function isSmsOriginMessage(
   return message.origin === "sms";
 }
 
+/**
+ * Get the ID of the participant who sent a message.
+ * Texts from a phone linked to an app account belong to that account.
+ */
+export function getMessageSenderId(message: Message): UserId | SmsParticipantId {
+  if (message.origin === "app") {
+    return message.senderUserId;
+  }
+  return message.senderUserId ?? message.senderSmsParticipantId;
+}
+
 /**
  * Check if a delivery status indicates a terminal failure
  */
@@ -123,6 +144,26 @@ export function isDeliveryPending(status: DeliveryStatus): boolean {
   return status === "pending" || status === "queued" || status === "sent";
 }
 
+/**
+ * Position in a group's history, for loading older messages.
+ * Messages are ordered by (createdAt, id) so ones sent in the same
+ * instant are never skipped or repeated between pages.
+ */
+export interface MessageCursor {
+  /** Exact database timestamp; Date would drop the microseconds */
+  readonly createdAt: string;
+  readonly id: MessageId;
+}
+
+/**
+ * A page of a group's messages, oldest first
+ */
+export interface MessagePage {
+  readonly messages: Message[];
+  /** Where the next older page starts; null at the start of the history */
+  readonly olderCursor: MessageCursor | null;
+}
+
 /**
  * Input type for creating a new message from the app
  */
@@ -130,6 +171,32 @@ export interface CreateAppMessageInput {
   readonly groupId: GroupId;
   readonly senderUserId: UserId;
   readonly content: string;
+  /** Idempotency key from the sending device */
+  readonly clientId?: string;
+}
+
+/**
+ * Status of a message waiting in the device's outbox
+ * - queued: will be sent when the device is back online
+ * - failed: the server refused it; it won't be retried automatically
+ */
+export type PendingMessageStatus = "queued" | "failed";
+
+/**
+ * A message the app hasn't managed to send yet.
+ * Kept on the device (IndexedDB) until the server accepts it.
+ */
+export interface PendingMessage {
+  /** Becomes the sent message's clientId */
+  readonly clientId: string;
+  readonly groupId: GroupId;
+  readonly senderUserId: UserId;
+  readonly content: string;
+  /** Already uploaded, so they're sent as-is */
+  readonly attachments: readonly NewMessageAttachment[];
+  readonly createdAt: Date;
+  readonly status: PendingMessageStatus;
+  readonly error: string | null;
 }
 
 /**
@@ -0,0 +1,45 @@
+/**
+ * Number Pool Types - Shared Twilio Numbers
+ *
+ * Groups don't own Twilio numbers. Numbers come from a shared pool and
+ * each serves many groups: an SMS participant is assigned a pool number
+ * per group, distinct across their groups, so the (pool number, sender)
+ * pair identifies the group an inbound text belongs to.
+ */
+
+import type { GroupId, TwilioNumberId, E164PhoneNumber } from "./branded";
+
+/**
+ * A Twilio number in the pool
+ */
+export interface TwilioNumber {
+  readonly id: TwilioNumberId;
+  readonly phoneNumber: E164PhoneNumber;
+  /** Group the number was bought for; null for shared numbers */
+  readonly groupId: GroupId | null;
+  /** Twilio's incoming phone number SID, for numbers bought by the app */
+  readonly twilioSid: string | null;
+  /** Inactive numbers get no new assignments */
+  readonly isActive: boolean;
+}
+
+/**
+ * Where to buy a number for a group
+ */
+export interface NumberSearchInput {
+  /** ISO 3166 alpha-2 country code, e.g. "US" */
+  readonly country: string;
+  /** Local area code, e.g. "415" */
+  readonly areaCode?: string;
+}
+
+/**
+ * The pool number an SMS participant texts a group through
+ */
+export interface SmsRoute {
+  readonly groupId: GroupId;
+  /** The SMS participant's phone */
+  readonly phoneNumber: E164PhoneNumber;
+  /** The pool number texts to and from this participant use */
+  readonly twilioNumber: E164PhoneNumber;
+}
@@ -13,19 +13,23 @@ import type {
   UserId,
   E164PhoneNumber,
   SmsParticipantId,
+  GroupId,
 } from "./branded";
 
 /**
  * An authenticated app user with full access to the application.
- * Created via Supabase Auth (email/password, OAuth, etc.)
+ * Created via Supabase Auth (email/password, phone code, OAuth, etc.)
  */
 export interface AppUser {
   readonly kind: "app_user";
   readonly id: UserId;
-  readonly email: string;
+  /** null for accounts created with a phone number */
+  readonly email: string | null;
   readonly displayName: string;
   /** Optional phone for receiving SMS notifications or linking to SMS identity */
   readonly phoneNumber: E164PhoneNumber | null;
+  /** When the user proved they own phoneNumber; null if unverified */
+  readonly phoneVerifiedAt: Date | null;
   readonly avatarUrl: string | null;
   readonly createdAt: Date;
   readonly updatedAt: Date;
@@ -34,19 +38,33 @@ export interface AppUser {
 /**
  * An SMS-only participant who interacts with the group via text messages.
  * Created by an app user when adding a phone number to a conversation.
+ * There is one participant per phone number, shared by every user who adds it.
  */
 export interface SmsParticipant {
   readonly kind: "sms_participant";
   readonly id: SmsParticipantId;
   readonly phoneNumber: E164PhoneNumber;
-  /** Display name assigned by the creating user */
+  /** The viewing user's nickname for this participant, else the shared name */
   readonly displayName: string;
-  /** The app user who added this SMS participant */
+  /** The app user who first added this SMS participant */
   readonly createdByUserId: UserId;
+  /** The app account this phone was converted to, once its owner joined */
+  readonly linkedUserId: UserId | null;
   readonly createdAt: Date;
   readonly updatedAt: Date;
 }
 
+/**
+ * A group the user's verified phone belongs to as an SMS participant.
+ * Linking the phone moves these memberships to the user's account.
+ */
+export interface LinkableSmsGroup {
+  readonly groupId: GroupId;
+  readonly groupName: string;
+  /** The user is already a member with their account */
+  readonly alreadyMember: boolean;
+}
+
 /**
  * Union type for any participant in a conversation.
  * Use the `kind` discriminator for type narrowing:
@@ -0,0 +1,67 @@
+/**
+ * Pending Inbound Types - Texts From Unknown Senders
+ *
+ * A text to a group's number from a phone that isn't an SMS member of
+ * the group is held until an owner/admin approves or blocks the sender.
+ */
+
+import type { PendingInboundId, GroupId, MessageId, E164PhoneNumber } from "./branded";
+
+/**
+ * Review state of a held message
+ */
+export type PendingInboundStatus = "pending" | "approved" | "blocked";
+
+/**
+ * A media file held with the message (already copied to storage)
+ */
+export interface PendingInboundMedia {
+  readonly storagePath: string;
+  readonly contentType: string;
+}
+
+/**
+ * A held SMS from an unknown sender
+ */
+export interface PendingInbound {
+  readonly id: PendingInboundId;
+  readonly groupId: GroupId;
+  readonly phoneNumber: E164PhoneNumber;
+  readonly body: string;
+  readonly media: readonly PendingInboundMedia[];
+  readonly status: PendingInboundStatus;
+  readonly receivedAt: Date;
+  /** The group message created on approval */
+  readonly messageId: MessageId | null;
+}
+
+/**
+ * Held messages from one sender, oldest first.
+ * Requests are approved or blocked per sender, not per message.
+ */
+export interface PendingSenderRequest {
+  readonly phoneNumber: E164PhoneNumber;
+  readonly messages: readonly PendingInbound[];
+}
+
+/**
+ * Groups held messages by sender, ordered by each sender's first message
+ */
+export function groupPendingBySender(
+  pending: readonly PendingInbound[]
+): PendingSenderRequest[] {
+  const bySender = new Map<E164PhoneNumber, PendingInbound[]>();
+
+  for (const item of [...pending].sort(
+    (a, b) => a.receivedAt.getTime() - b.receivedAt.getTime()
+  )) {
+    const messages = bySender.get(item.phoneNumber) ?? [];
+    messages.push(item);
+    bySender.set(item.phoneNumber, messages);
+  }
+
+  return Array.from(bySender, ([phoneNumber, messages]) => ({
+    phoneNumber,
+    messages,
+  }));
+}
@@ -0,0 +1,40 @@
+/**
+ * Phone Verification Types
+ *
+ * Users verify a phone number by entering a code texted to it. Only a
+ * verified number can be linked to an SMS participant's history.
+ */
+
+/** Digits in a verification code */
+export const VERIFICATION_CODE_LENGTH = 6;
+
+/**
+ * Outcome of checking a verification code
+ */
+export type PhoneVerificationStatus =
+  | "verified"
+  | "incorrect"
+  | "expired"
+  | "too_many_attempts"
+  | "phone_locked"
+  | "not_found";
+
+/**
+ * User-facing message for a failed verification
+ */
+export function getPhoneVerificationError(
+  status: Exclude<PhoneVerificationStatus, "verified">
+): string {
+  switch (status) {
+    case "incorrect":
+      return "That code is incorrect";
+    case "expired":
+      return "That code has expired. Request a new one.";
+    case "too_many_attempts":
+      return "Too many incorrect codes. Request a new one.";
+    case "phone_locked":
+      return "Too many incorrect codes for this number. Try again tomorrow.";
+    case "not_found":
+      return "No code was sent to this number. Request a new one.";
+  }
+}
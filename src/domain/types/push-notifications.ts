@@ -0,0 +1,50 @@
+/**
+ * Push Notification Types - Web Push Subscriptions
+ *
+ * Each browser an app user turns notifications on in is a subscription.
+ * New messages are pushed to every subscription of the group's app
+ * members, except the sender's.
+ */
+
+import type { PushSubscriptionId, UserId } from "./branded";
+
+/**
+ * A browser subscribed to a user's notifications
+ */
+export interface WebPushSubscription {
+  readonly id: PushSubscriptionId;
+  readonly userId: UserId;
+  /** Push service URL; identifies the browser */
+  readonly endpoint: string;
+  /** Browser's public key (base64url) */
+  readonly p256dh: string;
+  /** Browser's auth secret (base64url) */
+  readonly auth: string;
+  readonly userAgent: string | null;
+  readonly createdAt: Date;
+}
+
+/**
+ * A subscription as the browser reports it (PushSubscription.toJSON())
+ */
+export interface NewWebPushSubscription {
+  endpoint: string;
+  keys: {
+    p256dh: string;
+    auth: string;
+  };
+}
+
+/**
+ * What the service worker receives in a push event
+ */
+export interface PushNotificationPayload {
+  title: string;
+  body: string;
+  /** Notifications with the same tag replace each other */
+  tag: string;
+  data: {
+    /** Page opened when the notification is tapped */
+    url: string;
+  };
+}
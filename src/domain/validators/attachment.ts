@@ -0,0 +1,77 @@
+/**
+ * Attachment Validation
+ *
+ * Validates files attached to outgoing messages. Limits follow Twilio MMS:
+ * at most 10 media items and 5 MB in total per message.
+ */
+
+import type { ValidationResult } from "./phone";
+import type { NewMessageAttachment } from "../types/attachments";
+import {
+  getAttachmentUploadPrefix,
+  isAllowedMediaType,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENTS_TOTAL_BYTES,
+} from "../types/attachments";
+
+export { MAX_ATTACHMENTS_PER_MESSAGE, MAX_ATTACHMENTS_TOTAL_BYTES };
+
+/**
+ * Validates a single file before upload.
+ */
+export function validateAttachmentFile(file: {
+  size: number;
+  type: string;
+}): ValidationResult<true> {
+  if (!isAllowedMediaType(file.type)) {
+    return { success: false, error: "This file type can't be sent" };
+  }
+
+  if (file.size > MAX_ATTACHMENTS_TOTAL_BYTES) {
+    return { success: false, error: "File is larger than 5 MB" };
+  }
+
+  return { success: true, value: true };
+}
+
+/**
+ * Validates the attachments of a message being sent.
+ * Each file must be the sender's own upload to this group.
+ */
+export function validateMessageAttachments(
+  attachments: NewMessageAttachment[],
+  groupId: string,
+  userId: string
+): ValidationResult<NewMessageAttachment[]> {
+  if (attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return {
+      success: false,
+      error: `A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`,
+    };
+  }
+
+  const totalBytes = attachments.reduce((sum, a) => sum + a.sizeBytes, 0);
+  if (totalBytes > MAX_ATTACHMENTS_TOTAL_BYTES) {
+    return { success: false, error: "Attachments exceed 5 MB in total" };
+  }
+
+  const prefix = getAttachmentUploadPrefix(groupId, userId);
+  for (const attachment of attachments) {
+    if (
+      !attachment.storagePath.startsWith(prefix) ||
+      attachment.storagePath.includes("..")
+    ) {
+      return { success: false, error: "Invalid attachment" };
+    }
+
+    const fileResult = validateAttachmentFile({
+      size: attachment.sizeBytes,
+      type: attachment.contentType,
+    });
+    if (!fileResult.success) {
+      return fileResult;
+    }
+  }
+
+  return { success: true, value: attachments };
+}
@@ -0,0 +1,30 @@
+/**
+ * Email Validation
+ *
+ * Validates email addresses entered for group invitations.
+ */
+
+import type { ValidationResult } from "./phone";
+
+/**
+ * Loose email shape check: something@domain.tld, no spaces.
+ * Deliverability is proven by the invitee signing in with it.
+ */
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Validates an email address and returns it trimmed and lowercased.
+ */
+export function validateEmail(input: string): ValidationResult<string> {
+  const email = input.trim().toLowerCase();
+
+  if (!email) {
+    return { success: false, error: "Email is required" };
+  }
+
+  if (email.length > 254 || !EMAIL_REGEX.test(email)) {
+    return { success: false, error: "Enter a valid email address" };
+  }
+
+  return { success: true, value: email };
+}
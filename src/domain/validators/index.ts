@@ -22,6 +22,24 @@ export {
   isGsm7Compatible,
   truncateMessage,
   getMessagePreview,
+  mentionsName,
+  validateClientMessageId,
+  validateMessageCursor,
   MAX_MESSAGE_LENGTH,
   MIN_MESSAGE_LENGTH,
 } from "./message";
+
+export {
+  validateAttachmentFile,
+  validateMessageAttachments,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_ATTACHMENTS_TOTAL_BYTES,
+} from "./attachment";
+
+export { validateNumberSearch } from "./number-search";
+
+export { validateVerificationCode } from "./verification-code";
+
+export { validateEmail } from "./email";
+
+export { validatePushSubscription } from "./push-subscription";
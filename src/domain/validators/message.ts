@@ -136,3 +136,53 @@ export function getMessagePreview(content: string, maxLength: number = 50): stri
   const singleLine = content.replace(/\n+/g, " ").trim();
   return truncateMessage(singleLine, maxLength);
 }
+
+/**
+ * Checks whether a message @mentions someone, by their display name or
+ * its first word ("@Sam" mentions "Sam Lee"). Case-insensitive.
+ */
+export function mentionsName(content: string, displayName: string): boolean {
+  const fullName = displayName.trim();
+  if (!fullName) return false;
+
+  const names = [fullName, fullName.split(/\s+/)[0]].map((name) =>
+    name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  );
+  const pattern = new RegExp(`(^|\\s)@(${names.join("|")})(?![\\p{L}\\p{N}])`, "iu");
+  return pattern.test(content);
+}
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates the ID a device gave a message (a UUID from crypto.randomUUID).
+ */
+export function validateClientMessageId(input: string): ValidationResult<string> {
+  if (!UUID_REGEX.test(input)) {
+    return { success: false, error: "Invalid message ID" };
+  }
+  return { success: true, value: input.toLowerCase() };
+}
+
+// Postgres timestamptz text, e.g. 2024-05-01T12:34:56.123456+00:00
+const CURSOR_TIMESTAMP_REGEX =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:\d{2})?)$/;
+
+/**
+ * Validates a history cursor sent back by the client.
+ */
+export function validateMessageCursor(input: {
+  createdAt: string;
+  id: string;
+}): ValidationResult<{ createdAt: string; id: string }> {
+  if (
+    typeof input?.createdAt !== "string" ||
+    typeof input?.id !== "string" ||
+    !CURSOR_TIMESTAMP_REGEX.test(input.createdAt) ||
+    !UUID_REGEX.test(input.id)
+  ) {
+    return { success: false, error: "Invalid message cursor" };
+  }
+  return { success: true, value: { createdAt: input.createdAt, id: input.id } };
+}
@@ -0,0 +1,38 @@
+/**
+ * Number Search Validation
+ *
+ * Validates where to buy a Twilio number for a group.
+ */
+
+import type { ValidationResult } from "./phone";
+import type { NumberSearchInput } from "../types/number-pool";
+
+/**
+ * Validates and normalizes a country code and optional area code.
+ * Area codes are only supported for North American (US/CA) numbers.
+ */
+export function validateNumberSearch(input: {
+  country: string;
+  areaCode?: string;
+}): ValidationResult<NumberSearchInput> {
+  const country = input.country.trim().toUpperCase();
+  const areaCode = input.areaCode?.trim();
+
+  if (!/^[A-Z]{2}$/.test(country)) {
+    return { success: false, error: "Country must be a 2-letter code, e.g. US" };
+  }
+
+  if (!areaCode) {
+    return { success: true, value: { country } };
+  }
+
+  if (country !== "US" && country !== "CA") {
+    return { success: false, error: "Area codes are only supported for US and Canada" };
+  }
+
+  if (!/^[2-9]\d{2}$/.test(areaCode)) {
+    return { success: false, error: "Area code must be 3 digits, e.g. 415" };
+  }
+
+  return { success: true, value: { country, areaCode } };
+}
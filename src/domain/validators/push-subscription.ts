@@ -0,0 +1,47 @@
+/**
+ * Push Subscription Validation
+ *
+ * Validates the subscription a browser hands back from pushManager.subscribe.
+ */
+
+import type { NewWebPushSubscription } from "../types/push-notifications";
+import type { ValidationResult } from "./phone";
+
+/** base64url without padding, as browsers encode subscription keys */
+const BASE64URL_REGEX = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Validates a browser push subscription.
+ * The endpoint must be an https URL; the keys must be base64url.
+ */
+export function validatePushSubscription(
+  input: unknown
+): ValidationResult<NewWebPushSubscription> {
+  const subscription = input as Partial<NewWebPushSubscription> | null;
+  const endpoint = subscription?.endpoint;
+  const p256dh = subscription?.keys?.p256dh;
+  const auth = subscription?.keys?.auth;
+
+  if (typeof endpoint !== "string" || !isHttpsUrl(endpoint)) {
+    return { success: false, error: "Invalid push subscription endpoint" };
+  }
+
+  if (
+    typeof p256dh !== "string" ||
+    typeof auth !== "string" ||
+    !BASE64URL_REGEX.test(p256dh) ||
+    !BASE64URL_REGEX.test(auth)
+  ) {
+    return { success: false, error: "Invalid push subscription keys" };
+  }
+
+  return { success: true, value: { endpoint, keys: { p256dh, auth } } };
+}
+
+function isHttpsUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
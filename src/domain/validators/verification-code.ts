@@ -0,0 +1,28 @@
+/**
+ * Verification Code Validation
+ *
+ * Validates the code a user types to verify their phone number.
+ */
+
+import type { ValidationResult } from "./phone";
+import { VERIFICATION_CODE_LENGTH } from "../types/phone-verification";
+
+/**
+ * Validates a verification code, ignoring spaces and dashes.
+ */
+export function validateVerificationCode(input: string): ValidationResult<string> {
+  const code = input.replace(/[\s-]/g, "");
+
+  if (!code) {
+    return { success: false, error: "Enter the code we texted you" };
+  }
+
+  if (!new RegExp(`^\\d{${VERIFICATION_CODE_LENGTH}}$`).test(code)) {
+    return {
+      success: false,
+      error: `The code is ${VERIFICATION_CODE_LENGTH} digits`,
+    };
+  }
+
+  return { success: true, value: code };
+}
@@ -18,11 +18,13 @@ export const PRESENCE_AWAY_MS = 5 * 60 * 1000; // 5 minutes
 export const ROUTES = {
   home: "/",
   login: "/login",
+  phoneLogin: "/login/phone",
   signup: "/signup",
   chats: "/chats",
   chat: (id: string) => `/chats/${id}`,
   contacts: "/contacts",
   settings: "/settings",
+  invite: (token: string) => `/invite/${token}`,
 } as const;
 
 /** App metadata */
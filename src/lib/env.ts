@@ -11,6 +11,8 @@ export const env = {
   supabaseUrl: process.env.NEXT_PUBLIC_SUPABASE_URL!,
   supabaseAnonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
   appUrl: process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000",
+  /** VAPID public key browsers subscribe to push with; unset disables push */
+  vapidPublicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
 } as const;
 
 /**
@@ -20,6 +22,25 @@ export const serverEnv = {
   supabaseServiceKey: process.env.SUPABASE_SERVICE_ROLE_KEY,
   twilioAccountSid: process.env.TWILIO_ACCOUNT_SID,
   twilioAuthToken: process.env.TWILIO_AUTH_TOKEN,
+  /** Signs group invitation links */
+  inviteTokenSecret: process.env.INVITE_TOKEN_SECRET,
+  /** Signs push notifications; pairs with NEXT_PUBLIC_VAPID_PUBLIC_KEY */
+  vapidPrivateKey: process.env.VAPID_PRIVATE_KEY,
+  /** Contact for push services, a mailto: or https: URL */
+  vapidSubject: process.env.VAPID_SUBJECT || "mailto:admin@example.com",
+  /** Authenticates the database's calls to /api/push/notify */
+  pushNotifySecret: process.env.PUSH_NOTIFY_SECRET,
+  /** "fake" uses an in-memory Twilio client instead of the REST API */
+  twilioClient: process.env.TWILIO_CLIENT === "fake" ? "fake" : "rest",
+  /** SMS webhook set on provisioned numbers (the twilio-webhook function) */
+  twilioWebhookUrl: process.env.TWILIO_WEBHOOK_URL,
+  /** Status callback set on provisioned numbers (the twilio-status function) */
+  twilioStatusCallbackUrl: process.env.TWILIO_STATUS_CALLBACK_URL,
+  /** Send attempts per SMS recipient, including the first */
+  smsMaxAttempts: parseInt(process.env.SMS_MAX_ATTEMPTS || "", 10) || 5,
+  /** Initial retry delay; doubles after each failed attempt */
+  smsRetryBaseDelaySeconds:
+    parseInt(process.env.SMS_RETRY_BASE_DELAY_SECONDS || "", 10) || 30,
 } as const;
 
 /**
@@ -4,6 +4,8 @@
 
 export { cn } from "./cn";
 export { env, serverEnv, validateEnv } from "./env";
+export { isRetryableTwilioError } from "./twilio-errors";
+export { getSafeRedirectPath } from "./redirect";
 export { formatMessageTime, formatChatListTime, getRelativeTime } from "./date";
 export {
   MAX_MESSAGE_LENGTH,
@@ -0,0 +1,53 @@
+/**
+ * Invitation Tokens
+ *
+ * Invitation links carry the invitation ID signed with INVITE_TOKEN_SECRET,
+ * so links can't be guessed or forged. Server-only. The
+ * send-sms-invitation edge function signs the links it texts the same way.
+ */
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { env, serverEnv } from "./env";
+import { ROUTES } from "./constants";
+
+function sign(invitationId: string): string {
+  if (!serverEnv.inviteTokenSecret) {
+    throw new Error("INVITE_TOKEN_SECRET is not configured");
+  }
+  return createHmac("sha256", serverEnv.inviteTokenSecret)
+    .update(invitationId)
+    .digest("base64url");
+}
+
+/**
+ * Create the token for an invitation link.
+ */
+export function createInviteToken(invitationId: string): string {
+  return `${invitationId}.${sign(invitationId)}`;
+}
+
+/**
+ * Absolute link for an invitation.
+ */
+export function getInviteUrl(invitationId: string): string {
+  return new URL(ROUTES.invite(createInviteToken(invitationId)), env.appUrl).toString();
+}
+
+/**
+ * Read the invitation ID from a token.
+ * Returns null if the token is malformed or its signature doesn't match.
+ */
+export function readInviteToken(token: string): string | null {
+  const [invitationId, signature, ...rest] = token.split(".");
+  if (!invitationId || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(invitationId));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  return invitationId;
+}
@@ -0,0 +1,31 @@
+/**
+ * Redirect Helpers
+ */
+
+/** Stand-in origin for resolving paths; only used to compare origins */
+const BASE_ORIGIN = "http://localhost";
+
+/**
+ * Returns a "next" redirect target if it's a path on this app, else null.
+ * Rejects backslashes and control characters (URL parsing strips tabs and
+ * newlines, so "/\t/evil.com" would become "//evil.com"), and anything
+ * that resolves to another origin, so links can't send users to other
+ * sites after signing in.
+ */
+export function getSafeRedirectPath(next: string | null | undefined): string | null {
+  if (!next || !next.startsWith("/") || /[\\\u0000-\u001f\u007f]/.test(next)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(next, BASE_ORIGIN);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== BASE_ORIGIN) {
+    return null;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
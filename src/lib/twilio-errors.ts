@@ -0,0 +1,41 @@
+/**
+ * Twilio Error Classification
+ *
+ * Decides whether a failed SMS send is worth retrying.
+ * Mirrors `isRetryableTwilioError` in supabase/functions/_shared/twilio.ts.
+ */
+
+/**
+ * Twilio error codes that are worth retrying: rate limits, queue overflow,
+ * carrier congestion and transient carrier/handset failures.
+ * https://www.twilio.com/docs/api/errors
+ */
+const RETRYABLE_TWILIO_ERROR_CODES = new Set([
+  "20429", // Too many requests
+  "20500", // Internal server error
+  "20503", // Service unavailable
+  "30001", // Queue overflow
+  "30003", // Unreachable destination handset
+  "30008", // Unknown error
+  "30009", // Missing segment
+  "30017", // Carrier network congestion
+  "30022", // US A2P 10DLC rate limit exceeded
+]);
+
+/**
+ * Classifies a send failure as retryable or permanent.
+ * Failures without a Twilio error code (network errors, timeouts) and
+ * 429/5xx responses are retryable; everything else is permanent.
+ */
+export function isRetryableTwilioError(
+  code: string | null,
+  httpStatus?: number
+): boolean {
+  if (code) {
+    return RETRYABLE_TWILIO_ERROR_CODES.has(code);
+  }
+  if (httpStatus !== undefined) {
+    return httpStatus === 429 || httpStatus >= 500;
+  }
+  return true;
+}
@@ -3,25 +3,35 @@
 /**
  * Chat Header Component
  *
- * Shows group name, member count, and actions.
+ * Shows group name, member count, SMS members who opted out, and actions,
+ * including the current user's notification settings for the group.
  */
 
 import Link from "next/link";
 import { cn } from "@/lib/cn";
 import { Button } from "../ui/button";
 import { Avatar } from "../ui/avatar";
-import type { GroupWithMembers } from "@/domain/types";
+import { Badge } from "../ui/badge";
+import { NotificationSettingsSelect } from "../groups/notification-settings-select";
+import type { GroupWithMembers, UserId } from "@/domain/types";
+import { isOptedOut } from "@/domain/types";
 
 interface ChatHeaderProps {
   group: GroupWithMembers;
+  currentUserId: UserId;
   className?: string;
 }
 
-export function ChatHeader({ group, className }: ChatHeaderProps) {
+export function ChatHeader({ group, currentUserId, className }: ChatHeaderProps) {
   const memberCount = group.members.length;
   const smsCount = group.members.filter(
     (m) => m.participant.kind === "sms_participant"
   ).length;
+  // Texted STOP: they see nothing sent to the group
+  const optedOut = group.members.filter(isOptedOut);
+  const currentMember = group.members.find(
+    (m) => m.participant.kind === "app_user" && m.participant.id === currentUserId
+  );
 
   return (
     <header
@@ -47,9 +57,25 @@ export function ChatHeader({ group, className }: ChatHeaderProps) {
           {memberCount} member{memberCount !== 1 ? "s" : ""}
           {smsCount > 0 && ` · ${smsCount} via SMS`}
         </p>
+        {optedOut.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {optedOut.map((member) => (
+              <Badge key={member.participant.id} variant="warning">
+                {member.participant.displayName} · opted out
+              </Badge>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Actions */}
+      {currentMember && (
+        <NotificationSettingsSelect
+          groupId={group.id}
+          preferences={currentMember.notifications}
+          className="max-w-32"
+        />
+      )}
       <Link href={`/chats/${group.id}/settings`}>
         <Button variant="ghost" size="icon">
           <SettingsIcon className="h-5 w-5" />
@@ -4,40 +4,110 @@
  * Chat View Component
  *
  * Main chat interface combining header, message list, and input.
+ * Owns the chat's message store, shared with the list and the hooks.
  */
 
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { cn } from "@/lib/cn";
 import { ChatHeader } from "./chat-header";
 import { MessageList } from "./message-list";
 import { MessageInput } from "./message-input";
-import { useRealtimeMessages, useSendMessage } from "@/application/hooks";
-import type { Message, GroupWithMembers, Participant, UserId } from "@/domain/types";
+import {
+  useRealtimeMessages,
+  useMessageHistory,
+  useSendMessage,
+  useOutbox,
+  useAttachmentUpload,
+} from "@/application/hooks";
+import { ChatMessageStore, ChatMessageStoreContext } from "@/application/stores";
+import type {
+  Message,
+  MessageCursor,
+  GroupWithMembers,
+  Participant,
+  UserId,
+} from "@/domain/types";
 
 interface ChatViewProps {
   group: GroupWithMembers;
+  /** Latest page of messages */
   initialMessages: Message[];
+  /** Where older history starts; null if the page holds all of it */
+  initialOlderCursor?: MessageCursor | null;
   currentUserId: UserId;
   className?: string;
 }
 
 export function ChatView({
-  group,
   initialMessages,
+  initialOlderCursor = null,
+  ...props
+}: ChatViewProps) {
+  const [store] = useState(
+    () => new ChatMessageStore(initialMessages, initialOlderCursor)
+  );
+
+  // Update messages when initial messages change
+  useEffect(() => {
+    store.reset(initialMessages, initialOlderCursor);
+  }, [store, initialMessages, initialOlderCursor]);
+
+  return (
+    <ChatMessageStoreContext.Provider value={store}>
+      <ChatViewContent {...props} />
+    </ChatMessageStoreContext.Provider>
+  );
+}
+
+function ChatViewContent({
+  group,
   currentUserId,
   className,
-}: ChatViewProps) {
+}: Omit<ChatViewProps, "initialMessages" | "initialOlderCursor">) {
   // Realtime messages
-  const { messages, isConnected, error } = useRealtimeMessages({
+  const { error } = useRealtimeMessages({ groupId: group.id });
+
+  // Older history, loaded on scroll
+  const {
+    hasOlder,
+    isLoadingOlder,
+    error: olderError,
+    loadOlder,
+  } = useMessageHistory({ groupId: group.id });
+
+  // Send message (optimistic)
+  const {
+    send,
+    resend,
+    discard: discardFailed,
+    error: sendError,
+  } = useSendMessage({
     groupId: group.id,
-    initialMessages,
+    senderUserId: currentUserId,
   });
 
-  // Send message
-  const { send, isSending, error: sendError } = useSendMessage({
+  // Messages queued while offline
+  const {
+    pendingMessages,
+    resend: resendPending,
+    discard: discardPending,
+  } = useOutbox({
     groupId: group.id,
+    currentUserId,
   });
 
+  // Upload attachments to the sender's folder
+  const { upload } = useAttachmentUpload({
+    groupId: group.id,
+    userId: currentUserId,
+  });
+
+  // Viewer's role decides who can retry other members' messages
+  const currentUserRole =
+    group.members.find(
+      (m) => m.participant.kind === "app_user" && m.participant.id === currentUserId
+    )?.role ?? null;
+
   // Build participants map
   const participants = useMemo(() => {
     const map = new Map<string, Participant>();
@@ -53,7 +123,7 @@ export function ChatView({
 
   return (
     <div className={cn("flex flex-col h-full", className)}>
-      <ChatHeader group={group} />
+      <ChatHeader group={group} currentUserId={currentUserId} />
 
       {/* Connection status */}
       {error && (
@@ -63,9 +133,18 @@ export function ChatView({
       )}
 
       <MessageList
-        messages={messages}
+        pendingMessages={pendingMessages}
+        onResendPending={resendPending}
+        onDiscardPending={discardPending}
+        onResend={resend}
+        onDiscardFailed={discardFailed}
+        hasOlder={hasOlder}
+        isLoadingOlder={isLoadingOlder}
+        olderError={olderError}
+        onLoadOlder={loadOlder}
         participants={participants}
         currentUserId={currentUserId}
+        currentUserRole={currentUserRole}
         className="flex-1"
       />
 
@@ -78,7 +157,7 @@ export function ChatView({
 
       <MessageInput
         onSend={send}
-        isSending={isSending}
+        onUploadFile={upload}
         placeholder={`Message ${group.name}`}
       />
     </div>
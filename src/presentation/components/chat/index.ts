@@ -3,7 +3,10 @@
  */
 
 export { MessageBubble } from "./message-bubble";
+export { PendingMessageBubble } from "./pending-message-bubble";
 export { MessageList } from "./message-list";
 export { MessageInput } from "./message-input";
+export { MessageAttachment } from "./message-attachment";
+export { MessageInfoSheet } from "./message-info-sheet";
 export { ChatHeader } from "./chat-header";
 export { ChatView } from "./chat-view";
@@ -0,0 +1,134 @@
+"use client";
+
+/**
+ * Message Attachment Component
+ *
+ * Renders a message attachment by kind: inline image preview,
+ * audio/video player, or a download link for anything else.
+ */
+
+import { cn } from "@/lib/cn";
+import { useAttachmentUrl } from "@/application/hooks";
+import { Spinner } from "../ui/spinner";
+import type { MessageAttachment as MessageAttachmentType } from "@/domain/types";
+import { getAttachmentKind } from "@/domain/types";
+
+interface MessageAttachmentProps {
+  attachment: MessageAttachmentType;
+  className?: string;
+}
+
+export function MessageAttachment({ attachment, className }: MessageAttachmentProps) {
+  const { url, error } = useAttachmentUrl(attachment.storagePath);
+  const kind = getAttachmentKind(attachment.contentType);
+  const label = attachment.fileName || "Attachment";
+
+  if (error) {
+    return (
+      <div
+        className={cn(
+          "rounded-lg bg-secondary px-3 py-2 text-xs text-muted-foreground",
+          className
+        )}
+      >
+        Attachment unavailable
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div
+        className={cn(
+          "flex h-24 w-40 items-center justify-center rounded-lg bg-secondary",
+          className
+        )}
+      >
+        <Spinner />
+      </div>
+    );
+  }
+
+  if (kind === "image") {
+    return (
+      <a href={url} target="_blank" rel="noopener noreferrer" className={className}>
+        <img
+          src={url}
+          alt={label}
+          loading="lazy"
+          className="max-h-64 max-w-full rounded-lg object-cover"
+        />
+      </a>
+    );
+  }
+
+  if (kind === "audio") {
+    return (
+      <audio controls preload="metadata" src={url} className={cn("max-w-full", className)}>
+        <a href={url} download={label}>
+          {label}
+        </a>
+      </audio>
+    );
+  }
+
+  if (kind === "video") {
+    return (
+      <video
+        controls
+        preload="metadata"
+        src={url}
+        className={cn("max-h-64 max-w-full rounded-lg", className)}
+      >
+        <a href={url} download={label}>
+          {label}
+        </a>
+      </video>
+    );
+  }
+
+  return (
+    <a
+      href={url}
+      download={label}
+      target="_blank"
+      rel="noopener noreferrer"
+      className={cn(
+        "flex items-center gap-2 rounded-lg bg-secondary px-3 py-2 text-sm text-secondary-foreground hover:underline",
+        className
+      )}
+    >
+      <FileIcon className="h-4 w-4 flex-shrink-0" />
+      <span className="truncate">{label}</span>
+      {attachment.sizeBytes !== null && (
+        <span className="flex-shrink-0 text-xs text-muted-foreground">
+          {formatFileSize(attachment.sizeBytes)}
+        </span>
+      )}
+    </a>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function FileIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+      <polyline points="14 2 14 8 20 8" />
+    </svg>
+  );
+}
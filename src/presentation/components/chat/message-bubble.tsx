@@ -11,24 +11,64 @@ import { cn } from "@/lib/cn";
 import { formatMessageTime } from "@/lib/date";
 import { Avatar } from "../ui/avatar";
 import { Badge } from "../ui/badge";
-import type { Message, AppUser, SmsParticipant, UserId, DeliveryStatus } from "@/domain/types";
-import { isAppOriginMessage, isDeliveryFailed, isDeliveryPending } from "@/domain/types";
+import { MessageAttachment } from "./message-attachment";
+import type { OptimisticSend } from "@/application/stores";
+import type {
+  Message,
+  AppUser,
+  SmsParticipant,
+  UserId,
+  DeliveryStatus,
+  GroupMemberRole,
+} from "@/domain/types";
+import {
+  canManageGroup,
+  getMessageSenderId,
+  isAppOriginMessage,
+  isDeliveryFailed,
+  isDeliveryPending,
+} from "@/domain/types";
 
 interface MessageBubbleProps {
   message: Message;
   sender: AppUser | SmsParticipant | null;
   currentUserId: UserId;
+  /** Viewer's role in the group; owners and admins can retry anyone's message */
+  currentUserRole?: GroupMemberRole | null;
   showSender?: boolean;
+  /** Opens the delivery details sheet for this message */
+  onShowInfo?: () => void;
+  /** Re-sends to recipients whose delivery failed */
+  onRetry?: () => void;
+  isRetrying?: boolean;
+  retryError?: string | null;
+  /** Set while the message is optimistic (not yet saved) */
+  send?: OptimisticSend | null;
+  /** Sends a failed optimistic message again */
+  onResend?: () => void;
+  /** Drops a failed optimistic message */
+  onDiscard?: () => void;
 }
 
 export function MessageBubble({
   message,
   sender,
   currentUserId,
+  currentUserRole = null,
   showSender = true,
+  onShowInfo,
+  onRetry,
+  isRetrying = false,
+  retryError,
+  send,
+  onResend,
+  onDiscard,
 }: MessageBubbleProps) {
-  const isOwn = isAppOriginMessage(message) && message.senderUserId === currentUserId;
+  // Includes texts sent from the user's phone before they linked it
+  const isOwn = getMessageSenderId(message) === currentUserId;
   const isFromSms = !isAppOriginMessage(message);
+  const canRetry =
+    isOwn || (currentUserRole !== null && canManageGroup(currentUserRole));
 
   return (
     <div
@@ -63,28 +103,112 @@ export function MessageBubble({
           </div>
         )}
 
-        {/* Bubble */}
-        <div
-          className={cn(
-            "rounded-2xl px-4 py-2 break-words",
-            {
-              "bg-primary text-primary-foreground rounded-tr-sm": isOwn,
-              "bg-secondary text-secondary-foreground rounded-tl-sm": !isOwn,
-            }
-          )}
-        >
-          <p className="whitespace-pre-wrap">{message.content}</p>
-        </div>
+        {/* Attachments */}
+        {message.attachments.length > 0 && (
+          <div className={cn("flex flex-col gap-1 mb-1", { "items-end": isOwn })}>
+            {message.attachments.map((attachment) => (
+              <MessageAttachment key={attachment.id} attachment={attachment} />
+            ))}
+          </div>
+        )}
+
+        {/* Uploads of an optimistic message, before they're attachments */}
+        {send && send.attachments.length > 0 && (
+          <div className="mb-1 rounded-lg border border-dashed border-border px-3 py-2 text-sm text-muted-foreground">
+            {send.attachments.length === 1
+              ? send.attachments[0].fileName || "1 attachment"
+              : `${send.attachments.length} attachments`}
+          </div>
+        )}
+
+        {/* Bubble (media-only messages have no text) */}
+        {message.content && (
+          <div
+            className={cn(
+              "rounded-2xl px-4 py-2 break-words",
+              {
+                "bg-primary text-primary-foreground rounded-tr-sm": isOwn,
+                "bg-secondary text-secondary-foreground rounded-tl-sm": !isOwn,
+                "opacity-70": send?.status === "sending",
+                "opacity-50": send?.status === "failed",
+              }
+            )}
+          >
+            <p className="whitespace-pre-wrap">{message.content}</p>
+          </div>
+        )}
 
         {/* Timestamp and status */}
         <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
           <span>{formatMessageTime(message.createdAt)}</span>
 
-          {/* Delivery status for own messages */}
-          {isOwn && isAppOriginMessage(message) && message.deliveryStatus && (
-            <DeliveryStatusIndicator status={message.deliveryStatus} />
+          {/* Optimistic message waiting for (or refused by) the server */}
+          {send?.status === "sending" && <span>Sending...</span>}
+          {send?.status === "failed" && (
+            <>
+              <span className="text-destructive">Not sent</span>
+              {onResend && (
+                <button
+                  type="button"
+                  onClick={onResend}
+                  className="font-medium text-destructive hover:underline"
+                >
+                  Resend
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  type="button"
+                  onClick={onDiscard}
+                  className="hover:underline"
+                >
+                  Discard
+                </button>
+              )}
+            </>
           )}
+
+          {/* Delivery status for own messages (and failures for admins) */}
+          {isAppOriginMessage(message) &&
+            message.deliveryStatus &&
+            (isOwn || (canRetry && isDeliveryFailed(message.deliveryStatus))) &&
+            (onShowInfo ? (
+              <button
+                type="button"
+                onClick={onShowInfo}
+                className="hover:underline"
+                aria-label="Message info"
+              >
+                <DeliveryStatusIndicator status={message.deliveryStatus} />
+              </button>
+            ) : (
+              <DeliveryStatusIndicator status={message.deliveryStatus} />
+            ))}
+
+          {/* Retry failed recipients */}
+          {canRetry &&
+            isAppOriginMessage(message) &&
+            message.deliveryStatus &&
+            isDeliveryFailed(message.deliveryStatus) &&
+            onRetry && (
+              <button
+                type="button"
+                onClick={onRetry}
+                disabled={isRetrying}
+                className="font-medium text-destructive hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                {isRetrying ? "Retrying..." : "Retry"}
+              </button>
+            )}
         </div>
+
+        {retryError && (
+          <p className="mt-1 text-xs text-destructive">{retryError}</p>
+        )}
+
+        {send?.status === "failed" && send.error && (
+          <p className="mt-1 text-xs text-destructive">{send.error}</p>
+        )}
       </div>
     </div>
   );
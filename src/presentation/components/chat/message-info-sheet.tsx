@@ -0,0 +1,200 @@
+"use client";
+
+/**
+ * Message Info Sheet Component
+ *
+ * Bottom sheet listing every SMS recipient of a message with their
+ * delivery status, Twilio error details, and status history.
+ */
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/cn";
+import { formatMessageTime } from "@/lib/date";
+import { formatPhoneForDisplay } from "@/domain/validators";
+import { Button } from "../ui/button";
+import { Badge, type BadgeProps } from "../ui/badge";
+import { Spinner } from "../ui/spinner";
+import { getMessageDeliveries } from "@/application/actions";
+import type {
+  AppOriginMessage,
+  DeliveryStatus,
+  MessageDeliveryWithEvents,
+  Participant,
+} from "@/domain/types";
+import { isDeliveryFailed, isDeliveryPending } from "@/domain/types";
+
+interface MessageInfoSheetProps {
+  message: AppOriginMessage;
+  participants: Map<string, Participant>;
+  onClose: () => void;
+}
+
+export function MessageInfoSheet({
+  message,
+  participants,
+  onClose,
+}: MessageInfoSheetProps) {
+  const [deliveries, setDeliveries] = useState<MessageDeliveryWithEvents[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load deliveries when opened (and when the aggregate status changes)
+  useEffect(() => {
+    let cancelled = false;
+
+    getMessageDeliveries(message.id).then((result) => {
+      if (cancelled) return;
+      if (result.success && result.deliveries) {
+        setDeliveries(result.deliveries);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to load delivery details");
+      }
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message.id, message.deliveryStatus]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Message info"
+        className="w-full max-w-lg max-h-[80vh] overflow-y-auto rounded-t-2xl bg-background p-4 space-y-4 safe-bottom"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="font-semibold">Message Info</h2>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        {/* Message preview */}
+        <div className="rounded-lg bg-secondary/50 p-3 text-sm">
+          <p className="whitespace-pre-wrap break-words">{message.content}</p>
+          <p className="mt-1 text-xs text-muted-foreground">
+            Sent {formatMessageTime(message.createdAt)}
+          </p>
+        </div>
+
+        {/* Recipients */}
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium">SMS Recipients</h3>
+
+          {isLoading && (
+            <div className="flex justify-center py-4">
+              <Spinner />
+            </div>
+          )}
+
+          {!isLoading && error && (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          {!isLoading && !error && deliveries.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              This message was not sent to any SMS participants.
+            </p>
+          )}
+
+          {!isLoading &&
+            !error &&
+            deliveries.map((delivery) => (
+              <RecipientRow
+                key={delivery.id}
+                delivery={delivery}
+                recipient={participants.get(delivery.smsParticipantId) ?? null}
+              />
+            ))}
+        </section>
+      </div>
+    </div>
+  );
+}
+
+function RecipientRow({
+  delivery,
+  recipient,
+}: {
+  delivery: MessageDeliveryWithEvents;
+  recipient: Participant | null;
+}) {
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate">
+            {recipient?.displayName ?? "Former member"}
+          </p>
+          {recipient?.kind === "sms_participant" && (
+            <p className="text-xs text-muted-foreground">
+              {formatPhoneForDisplay(recipient.phoneNumber)}
+            </p>
+          )}
+        </div>
+        <Badge variant={getStatusBadgeVariant(delivery.status)}>
+          {DELIVERY_STATUS_LABELS[delivery.status]}
+        </Badge>
+      </div>
+
+      {/* Twilio error details */}
+      {delivery.errorCode && (
+        <p className="text-sm text-destructive">
+          Error {delivery.errorCode}
+          {delivery.errorMessage && `: ${delivery.errorMessage}`}
+        </p>
+      )}
+
+      {/* Status history */}
+      {delivery.events.length > 0 && (
+        <ol className="space-y-1 border-l pl-3">
+          {delivery.events.map((event) => (
+            <li
+              key={event.id}
+              className={cn("text-xs text-muted-foreground", {
+                "text-destructive": isDeliveryFailed(event.status),
+              })}
+            >
+              <span className="font-medium">
+                {DELIVERY_STATUS_LABELS[event.status]}
+              </span>{" "}
+              · {formatMessageTime(event.occurredAt)}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
+
+const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  pending: "Pending",
+  queued: "Queued",
+  sent: "Sent",
+  delivered: "Delivered",
+  failed: "Failed",
+  undelivered: "Undelivered",
+};
+
+function getStatusBadgeVariant(status: DeliveryStatus): BadgeProps["variant"] {
+  if (isDeliveryFailed(status)) return "error";
+  if (isDeliveryPending(status)) return "warning";
+  return "success";
+}
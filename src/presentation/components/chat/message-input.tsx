@@ -4,30 +4,60 @@
  * Message Input Component
  *
  * Text input with send button for composing messages.
+ * Files can be attached via the picker, paste, or drag and drop;
+ * they upload immediately and are sent with the message.
  */
 
-import { useState, useRef, useEffect, type FormEvent, type KeyboardEvent } from "react";
+import {
+  useState,
+  useRef,
+  useEffect,
+  type ClipboardEvent,
+  type DragEvent,
+  type FormEvent,
+  type KeyboardEvent,
+} from "react";
 import { cn } from "@/lib/cn";
 import { Button } from "../ui/button";
+import { Spinner } from "../ui/spinner";
 import { MAX_MESSAGE_LENGTH } from "@/lib/constants";
+import { MAX_ATTACHMENTS_PER_MESSAGE } from "@/domain/validators";
+import type { NewMessageAttachment } from "@/domain/types";
 
 interface MessageInputProps {
-  onSend: (content: string) => void;
+  onSend: (content: string, attachments: NewMessageAttachment[]) => void;
+  /** Uploads a file for attaching; attachments are disabled when omitted */
+  onUploadFile?: (file: File) => Promise<NewMessageAttachment>;
   isSending?: boolean;
   disabled?: boolean;
   placeholder?: string;
   className?: string;
 }
 
+/**
+ * A file being uploaded or ready to send
+ */
+interface PendingUpload {
+  key: string;
+  file: File;
+  previewUrl: string | null;
+  attachment: NewMessageAttachment | null;
+  error: string | null;
+}
+
 export function MessageInput({
   onSend,
+  onUploadFile,
   isSending = false,
   disabled = false,
   placeholder = "Type a message...",
   className,
 }: MessageInputProps) {
   const [content, setContent] = useState("");
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -38,14 +68,81 @@ export function MessageInput({
     }
   }, [content]);
 
+  const addFiles = (files: File[]) => {
+    if (!onUploadFile || files.length === 0) return;
+
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - uploads.length;
+    const added: PendingUpload[] = files.slice(0, Math.max(room, 0)).map((file) => ({
+      key: crypto.randomUUID(),
+      file,
+      previewUrl: file.type.startsWith("image/") ? URL.createObjectURL(file) : null,
+      attachment: null,
+      error: null,
+    }));
+
+    setUploads((prev) => [...prev, ...added]);
+
+    for (const upload of added) {
+      onUploadFile(upload.file)
+        .then((attachment) => {
+          setUploads((prev) =>
+            prev.map((u) => (u.key === upload.key ? { ...u, attachment } : u))
+          );
+        })
+        .catch((err) => {
+          const error = err instanceof Error ? err.message : "Upload failed";
+          setUploads((prev) =>
+            prev.map((u) => (u.key === upload.key ? { ...u, error } : u))
+          );
+        });
+    }
+  };
+
+  const removeUpload = (key: string) => {
+    setUploads((prev) => {
+      const upload = prev.find((u) => u.key === key);
+      if (upload?.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      return prev.filter((u) => u.key !== key);
+    });
+  };
+
+  const isUploading = uploads.some((u) => !u.attachment && !u.error);
+  const readyAttachments = uploads
+    .map((u) => u.attachment)
+    .filter((a): a is NewMessageAttachment => a !== null);
+  const hasContent = content.trim().length > 0 || readyAttachments.length > 0;
+
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (content.trim() && !isSending && !disabled) {
-      onSend(content.trim());
+    if (hasContent && !isUploading && !isSending && !disabled) {
+      onSend(content.trim(), readyAttachments);
       setContent("");
+      uploads.forEach((u) => u.previewUrl && URL.revokeObjectURL(u.previewUrl));
+      setUploads([]);
     }
   };
 
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (onUploadFile && files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
+    }
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUploadFile || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLFormElement>) => {
+    if (!onUploadFile) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -59,51 +156,139 @@ export function MessageInput({
   return (
     <form
       onSubmit={handleSubmit}
-      className={cn("flex items-end gap-2 p-4 border-t bg-background", className)}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={cn("p-4 border-t bg-background space-y-2", className, {
+        "ring-2 ring-inset ring-primary": isDragging,
+      })}
     >
-      <div className="flex-1 relative">
-        <textarea
-          ref={textareaRef}
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder={placeholder}
-          disabled={disabled || isSending}
-          rows={1}
-          className={cn(
-            "w-full resize-none rounded-lg border border-input bg-background px-3 py-2 text-sm",
-            "placeholder:text-muted-foreground",
-            "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
-            "disabled:cursor-not-allowed disabled:opacity-50",
-            { "border-destructive": isOverLimit }
-          )}
-        />
+      {/* Pending attachments */}
+      {uploads.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {uploads.map((upload) => (
+            <div
+              key={upload.key}
+              className={cn(
+                "relative flex h-16 w-16 flex-shrink-0 items-center justify-center overflow-hidden rounded-lg border bg-secondary text-xs",
+                { "border-destructive": upload.error }
+              )}
+              title={upload.error ?? upload.file.name}
+            >
+              {upload.previewUrl ? (
+                <img
+                  src={upload.previewUrl}
+                  alt={upload.file.name}
+                  className="h-full w-full object-cover"
+                />
+              ) : (
+                <span className="truncate px-1">{upload.file.name}</span>
+              )}
+
+              {!upload.attachment && !upload.error && (
+                <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                  <Spinner />
+                </div>
+              )}
+
+              {upload.error && (
+                <div className="absolute inset-x-0 bottom-0 bg-destructive px-1 text-[10px] text-destructive-foreground truncate">
+                  {upload.error}
+                </div>
+              )}
 
-        {/* Character count warning */}
-        {content.length > MAX_MESSAGE_LENGTH * 0.9 && (
-          <span
+              <button
+                type="button"
+                onClick={() => removeUpload(upload.key)}
+                className="absolute right-0.5 top-0.5 rounded-full bg-background/80 px-1 leading-none"
+                aria-label={`Remove ${upload.file.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        {onUploadFile && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,audio/*,video/*,application/pdf,text/vcard"
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files ?? []));
+                e.target.value = "";
+              }}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="flex-shrink-0"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={
+                disabled ||
+                isSending ||
+                uploads.length >= MAX_ATTACHMENTS_PER_MESSAGE
+              }
+              aria-label="Attach files"
+            >
+              <PaperclipIcon className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+
+        <div className="flex-1 relative">
+          <textarea
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            placeholder={placeholder}
+            disabled={disabled || isSending}
+            rows={1}
             className={cn(
-              "absolute right-2 bottom-2 text-xs",
-              isOverLimit ? "text-destructive" : "text-muted-foreground"
+              "w-full resize-none rounded-lg border border-input bg-background px-3 py-2 text-sm",
+              "placeholder:text-muted-foreground",
+              "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+              "disabled:cursor-not-allowed disabled:opacity-50",
+              { "border-destructive": isOverLimit }
             )}
-          >
-            {charsRemaining}
-          </span>
-        )}
-      </div>
+          />
 
-      <Button
-        type="submit"
-        disabled={!content.trim() || isSending || disabled || isOverLimit}
-        size="icon"
-        className="flex-shrink-0"
-      >
-        {isSending ? (
-          <span className="animate-pulse">...</span>
-        ) : (
-          <SendIcon className="h-4 w-4" />
-        )}
-      </Button>
+          {/* Character count warning */}
+          {content.length > MAX_MESSAGE_LENGTH * 0.9 && (
+            <span
+              className={cn(
+                "absolute right-2 bottom-2 text-xs",
+                isOverLimit ? "text-destructive" : "text-muted-foreground"
+              )}
+            >
+              {charsRemaining}
+            </span>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          disabled={
+            !hasContent || isUploading || isSending || disabled || isOverLimit
+          }
+          size="icon"
+          className="flex-shrink-0"
+        >
+          {isSending ? (
+            <span className="animate-pulse">...</span>
+          ) : (
+            <SendIcon className="h-4 w-4" />
+          )}
+        </Button>
+      </div>
     </form>
   );
 }
@@ -125,3 +310,20 @@ function SendIcon({ className }: { className?: string }) {
     </svg>
   );
 }
+
+function PaperclipIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+    >
+      <path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48" />
+    </svg>
+  );
+}
@@ -3,35 +3,162 @@
 /**
  * Message List Component
  *
- * Displays a scrollable list of messages with realtime updates.
+ * Displays a scrollable list of the chat's messages from its message
+ * store, including optimistic ones still being sent. Messages waiting in
+ * the outbox follow them. Scrolling near the top loads older history,
+ * keeping the messages in view where they were.
  */
 
-import { useEffect, useRef } from "react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
 import { cn } from "@/lib/cn";
 import { MessageBubble } from "./message-bubble";
-import type { Message, Participant, UserId } from "@/domain/types";
+import { MessageInfoSheet } from "./message-info-sheet";
+import { PendingMessageBubble } from "./pending-message-bubble";
+import { Spinner } from "../ui/spinner";
+import { retryMessageDelivery } from "@/application/actions";
+import { useChatMessages } from "@/application/hooks";
+import type {
+  GroupMemberRole,
+  Message,
+  MessageId,
+  Participant,
+  PendingMessage,
+  UserId,
+} from "@/domain/types";
+import { getMessageSenderId, isAppOriginMessage } from "@/domain/types";
 
 interface MessageListProps {
-  messages: Message[];
+  /** Current user's messages waiting in the outbox */
+  pendingMessages?: PendingMessage[];
+  /** Queues a failed outbox message to be sent again */
+  onResendPending?: (clientId: string) => void;
+  /** Removes a failed message from the outbox */
+  onDiscardPending?: (clientId: string) => void;
+  /** Sends a failed optimistic message again */
+  onResend?: (clientId: string) => void;
+  /** Drops a failed optimistic message */
+  onDiscardFailed?: (clientId: string) => void;
+  /** Whether there's older history to load */
+  hasOlder?: boolean;
+  isLoadingOlder?: boolean;
+  olderError?: string | null;
+  onLoadOlder?: () => void;
   participants: Map<string, Participant>;
   currentUserId: UserId;
+  /** Viewer's role in the group */
+  currentUserRole?: GroupMemberRole | null;
   className?: string;
 }
 
+/** How close to the top (px) scrolling starts loading older messages */
+const LOAD_OLDER_THRESHOLD_PX = 200;
+
 export function MessageList({
-  messages,
+  pendingMessages = [],
+  onResendPending,
+  onDiscardPending,
+  onResend,
+  onDiscardFailed,
+  hasOlder = false,
+  isLoadingOlder = false,
+  olderError,
+  onLoadOlder,
   participants,
   currentUserId,
+  currentUserRole = null,
   className,
 }: MessageListProps) {
+  const { messages, sends } = useChatMessages();
+  const containerRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
+  // First message and scroll height as of the last render, to tell when
+  // older messages were added above
+  const previousFirstIdRef = useRef<MessageId | null>(null);
+  const previousScrollHeightRef = useRef(0);
+  // Set once the chat has opened scrolled to the bottom; scroll events
+  // before that don't load older messages
+  const hasScrolledToBottomRef = useRef(false);
+  const [infoMessageId, setInfoMessageId] = useState<MessageId | null>(null);
+  const [retryingMessageId, setRetryingMessageId] = useState<MessageId | null>(null);
+  const [retryError, setRetryError] = useState<{
+    messageId: MessageId;
+    error: string;
+  } | null>(null);
+
+  // Look up by ID so the sheet sees realtime status updates
+  const infoMessage = infoMessageId
+    ? messages.find((m) => m.id === infoMessageId) ?? null
+    : null;
+
+  // Re-send a failed message; realtime updates bring the new status in
+  const handleRetry = async (messageId: MessageId) => {
+    setRetryingMessageId(messageId);
+    setRetryError(null);
+
+    try {
+      const result = await retryMessageDelivery(messageId);
+      if (!result.success) {
+        setRetryError({
+          messageId,
+          error: result.error || "Failed to retry message",
+        });
+      }
+    } catch {
+      setRetryError({ messageId, error: "Failed to retry message" });
+    } finally {
+      setRetryingMessageId(null);
+    }
+  };
+
+  const firstMessageId = messages[0]?.id ?? null;
+  const lastMessageId = messages[messages.length - 1]?.id ?? null;
 
-  // Scroll to bottom on new messages
+  // Keep the same messages in view when older ones are added above.
+  // Runs before paint, so the list never visibly jumps.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const previousFirstId = previousFirstIdRef.current;
+
+    if (
+      container &&
+      previousFirstId &&
+      previousFirstId !== firstMessageId &&
+      messages.some((m) => m.id === previousFirstId)
+    ) {
+      container.scrollTop += container.scrollHeight - previousScrollHeightRef.current;
+    }
+
+    previousFirstIdRef.current = firstMessageId;
+    previousScrollHeightRef.current = container?.scrollHeight ?? 0;
+  });
+
+  // Scroll to bottom on new messages (not on older ones loaded above).
+  // The first scroll is instant, so it can't race older pages loading.
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages.length]);
+    const bottom = bottomRef.current;
+    if (!bottom) return;
+
+    bottom.scrollIntoView({
+      behavior: hasScrolledToBottomRef.current ? "smooth" : "auto",
+    });
+    hasScrolledToBottomRef.current = true;
+  }, [lastMessageId, pendingMessages.length]);
 
-  if (messages.length === 0) {
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (
+      container &&
+      hasScrolledToBottomRef.current &&
+      hasOlder &&
+      !isLoadingOlder &&
+      onLoadOlder &&
+      container.scrollTop < LOAD_OLDER_THRESHOLD_PX
+    ) {
+      onLoadOlder();
+    }
+  };
+
+  if (messages.length === 0 && pendingMessages.length === 0) {
     return (
       <div
         className={cn(
@@ -49,19 +176,47 @@ export function MessageList({
 
   return (
     <div
+      ref={containerRef}
+      onScroll={handleScroll}
       className={cn(
-        "flex-1 overflow-y-auto p-4 space-y-4 chat-scroll",
+        // Scroll position is kept by hand when older messages load
+        "flex-1 overflow-y-auto p-4 space-y-4 chat-scroll [overflow-anchor:none]",
         className
       )}
     >
+      {/* Older history */}
+      {isLoadingOlder && (
+        <div className="flex justify-center text-muted-foreground">
+          <Spinner size="sm" />
+        </div>
+      )}
+      {olderError && !isLoadingOlder && (
+        <div className="text-center text-sm text-destructive">
+          {olderError}{" "}
+          {onLoadOlder && (
+            <button
+              type="button"
+              onClick={onLoadOlder}
+              className="font-medium hover:underline"
+            >
+              Try again
+            </button>
+          )}
+        </div>
+      )}
+      {!hasOlder && messages.length > 0 && (
+        <p className="text-center text-xs text-muted-foreground">
+          Start of the conversation
+        </p>
+      )}
+
       {groupedMessages.map((group, groupIndex) => (
         <div key={group[0].id} className="space-y-1">
           {group.map((message, messageIndex) => {
-            const senderId =
-              message.origin === "app"
-                ? message.senderUserId
-                : message.senderSmsParticipantId;
+            const senderId = getMessageSenderId(message);
             const sender = participants.get(senderId) || null;
+            const clientId = isAppOriginMessage(message) ? message.clientId : null;
+            const send = clientId ? sends.get(clientId) ?? null : null;
 
             return (
               <MessageBubble
@@ -69,13 +224,60 @@ export function MessageList({
                 message={message}
                 sender={sender}
                 currentUserId={currentUserId}
+                currentUserRole={currentUserRole}
                 showSender={messageIndex === 0}
+                onShowInfo={
+                  send ? undefined : () => setInfoMessageId(message.id)
+                }
+                onRetry={() => handleRetry(message.id)}
+                isRetrying={retryingMessageId === message.id}
+                retryError={
+                  retryError?.messageId === message.id ? retryError.error : null
+                }
+                send={send}
+                onResend={
+                  send && onResend ? () => onResend(clientId!) : undefined
+                }
+                onDiscard={
+                  send && onDiscardFailed
+                    ? () => onDiscardFailed(clientId!)
+                    : undefined
+                }
               />
             );
           })}
         </div>
       ))}
+
+      {pendingMessages.length > 0 && (
+        <div className="space-y-1">
+          {pendingMessages.map((pending) => (
+            <PendingMessageBubble
+              key={pending.clientId}
+              message={pending}
+              onResend={
+                onResendPending
+                  ? () => onResendPending(pending.clientId)
+                  : undefined
+              }
+              onDiscard={
+                onDiscardPending
+                  ? () => onDiscardPending(pending.clientId)
+                  : undefined
+              }
+            />
+          ))}
+        </div>
+      )}
       <div ref={bottomRef} />
+
+      {infoMessage && isAppOriginMessage(infoMessage) && (
+        <MessageInfoSheet
+          message={infoMessage}
+          participants={participants}
+          onClose={() => setInfoMessageId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -83,16 +285,13 @@ export function MessageList({
 /**
  * Groups consecutive messages from the same sender.
  */
-function groupMessagesBySender(messages: Message[]): Message[][] {
+function groupMessagesBySender(messages: readonly Message[]): Message[][] {
   const groups: Message[][] = [];
   let currentGroup: Message[] = [];
   let currentSenderId: string | null = null;
 
   for (const message of messages) {
-    const senderId =
-      message.origin === "app"
-        ? message.senderUserId
-        : message.senderSmsParticipantId;
+    const senderId = getMessageSenderId(message);
 
     if (senderId !== currentSenderId) {
       if (currentGroup.length > 0) {
@@ -0,0 +1,87 @@
+"use client";
+
+/**
+ * Pending Message Bubble Component
+ *
+ * Renders one of the current user's messages still waiting in the outbox.
+ * Failed messages show why and can be sent again or discarded.
+ */
+
+import { cn } from "@/lib/cn";
+import { formatMessageTime } from "@/lib/date";
+import type { PendingMessage } from "@/domain/types";
+
+interface PendingMessageBubbleProps {
+  message: PendingMessage;
+  /** Queues a failed message to be sent again */
+  onResend?: () => void;
+  /** Removes the message from the outbox */
+  onDiscard?: () => void;
+}
+
+export function PendingMessageBubble({
+  message,
+  onResend,
+  onDiscard,
+}: PendingMessageBubbleProps) {
+  const isFailed = message.status === "failed";
+
+  return (
+    <div className="flex gap-2 max-w-[85%] ml-auto flex-row-reverse">
+      <div className="flex flex-col items-end">
+        {/* Attachments are uploaded but not yet part of a message */}
+        {message.attachments.length > 0 && (
+          <div className="mb-1 rounded-lg border border-dashed border-border px-3 py-2 text-sm text-muted-foreground">
+            {message.attachments.length === 1
+              ? message.attachments[0].fileName || "1 attachment"
+              : `${message.attachments.length} attachments`}
+          </div>
+        )}
+
+        {message.content && (
+          <div
+            className={cn(
+              "rounded-2xl rounded-tr-sm px-4 py-2 break-words bg-primary text-primary-foreground",
+              isFailed ? "opacity-50" : "opacity-70"
+            )}
+          >
+            <p className="whitespace-pre-wrap">{message.content}</p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+          <span>{formatMessageTime(message.createdAt)}</span>
+          {isFailed ? (
+            <>
+              <span className="text-destructive">Not sent</span>
+              {onResend && (
+                <button
+                  type="button"
+                  onClick={onResend}
+                  className="font-medium text-destructive hover:underline"
+                >
+                  Resend
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  type="button"
+                  onClick={onDiscard}
+                  className="hover:underline"
+                >
+                  Discard
+                </button>
+              )}
+            </>
+          ) : (
+            <span>Waiting to send...</span>
+          )}
+        </div>
+
+        {isFailed && message.error && (
+          <p className="mt-1 text-xs text-destructive">{message.error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
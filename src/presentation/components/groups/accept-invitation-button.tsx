@@ -0,0 +1,55 @@
+"use client";
+
+/**
+ * Accept Invitation Button
+ *
+ * Joins the group from an invitation link, then opens the chat.
+ * With autoAccept, joins as soon as it's shown (e.g. right after signup);
+ * the button stays for retrying after an error.
+ */
+
+import { useCallback, useEffect, useRef, useState, useTransition } from "react";
+import { Button } from "../ui/button";
+import { acceptInvitation } from "@/application/actions";
+
+interface AcceptInvitationButtonProps {
+  token: string;
+  autoAccept?: boolean;
+}
+
+export function AcceptInvitationButton({
+  token,
+  autoAccept = false,
+}: AcceptInvitationButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const autoAccepted = useRef(false);
+
+  const handleAccept = useCallback(() => {
+    setError(null);
+    startTransition(async () => {
+      const result = await acceptInvitation(token);
+      // On success, acceptInvitation redirects to the chat
+      if (!result.success) {
+        setError(result.error || "Failed to accept invitation");
+      }
+    });
+  }, [token]);
+
+  useEffect(() => {
+    // Once, even when effects run twice in development
+    if (autoAccept && !autoAccepted.current) {
+      autoAccepted.current = true;
+      handleAccept();
+    }
+  }, [autoAccept, handleAccept]);
+
+  return (
+    <div className="space-y-2">
+      <Button className="w-full" onClick={handleAccept} disabled={isPending}>
+        {isPending ? "Joining..." : "Join Group"}
+      </Button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
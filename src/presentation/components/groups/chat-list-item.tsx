@@ -18,6 +18,8 @@ interface ChatListItemProps {
   group: Group;
   lastMessage?: Message | null;
   unreadCount?: number;
+  /** The current user has muted the group's notifications */
+  isMuted?: boolean;
   isActive?: boolean;
   className?: string;
 }
@@ -26,6 +28,7 @@ export function ChatListItem({
   group,
   lastMessage,
   unreadCount = 0,
+  isMuted = false,
   isActive = false,
   className,
 }: ChatListItemProps) {
@@ -45,7 +48,15 @@ export function ChatListItem({
       {/* Group info */}
       <div className="flex-1 min-w-0">
         <div className="flex items-center justify-between gap-2">
-          <h3 className="font-medium truncate">{group.name}</h3>
+          <div className="flex items-center gap-1 min-w-0">
+            <h3 className="font-medium truncate">{group.name}</h3>
+            {isMuted && (
+              <BellOffIcon
+                className="h-4 w-4 flex-shrink-0 text-muted-foreground"
+                aria-label="Muted"
+              />
+            )}
+          </div>
           {lastMessage && (
             <span className="text-xs text-muted-foreground flex-shrink-0">
               {formatChatListTime(lastMessage.createdAt)}
@@ -60,7 +71,9 @@ export function ChatListItem({
                 {lastMessage.origin === "sms" && (
                   <span className="text-primary">SMS: </span>
                 )}
-                {getMessagePreview(lastMessage.content)}
+                {lastMessage.content || lastMessage.attachments.length === 0
+                  ? getMessagePreview(lastMessage.content)
+                  : "📎 Attachment"}
               </>
             ) : (
               <span className="italic">No messages yet</span>
@@ -75,3 +88,29 @@ export function ChatListItem({
     </Link>
   );
 }
+
+function BellOffIcon({
+  className,
+  ...props
+}: { className?: string } & React.AriaAttributes) {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      className={className}
+      role="img"
+      {...props}
+    >
+      <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+      <path d="M18.63 13A17.89 17.89 0 0 1 18 8" />
+      <path d="M6.26 6.26A5.86 5.86 0 0 0 6 8c0 7-3 9-3 9h14" />
+      <path d="M18 8a6 6 0 0 0-9.33-5" />
+      <path d="M1 1l22 22" />
+    </svg>
+  );
+}
@@ -8,11 +8,19 @@
 
 import { cn } from "@/lib/cn";
 import { ChatListItem } from "./chat-list-item";
-import type { Group, Message, GroupId } from "@/domain/types";
+import { isNotificationsMuted } from "@/domain/types";
+import type {
+  Group,
+  Message,
+  GroupId,
+  NotificationPreferences,
+} from "@/domain/types";
 
 interface ChatListProps {
   groups: Group[];
   lastMessages: Map<GroupId, Message>;
+  /** The current user's notification settings per group */
+  notificationPreferences?: Map<GroupId, NotificationPreferences>;
   activeGroupId?: string;
   className?: string;
 }
@@ -20,6 +28,7 @@ interface ChatListProps {
 export function ChatList({
   groups,
   lastMessages,
+  notificationPreferences,
   activeGroupId,
   className,
 }: ChatListProps) {
@@ -51,16 +60,22 @@ export function ChatList({
     return bMessage.createdAt.getTime() - aMessage.createdAt.getTime();
   });
 
+  const now = new Date();
+
   return (
     <div className={cn("space-y-1 p-2", className)}>
-      {sortedGroups.map((group) => (
-        <ChatListItem
-          key={group.id}
-          group={group}
-          lastMessage={lastMessages.get(group.id as GroupId)}
-          isActive={group.id === activeGroupId}
-        />
-      ))}
+      {sortedGroups.map((group) => {
+        const preferences = notificationPreferences?.get(group.id as GroupId);
+        return (
+          <ChatListItem
+            key={group.id}
+            group={group}
+            lastMessage={lastMessages.get(group.id as GroupId)}
+            isMuted={preferences ? isNotificationsMuted(preferences, now) : false}
+            isActive={group.id === activeGroupId}
+          />
+        );
+      })}
     </div>
   );
 }
@@ -19,6 +19,7 @@ export function CreateGroupForm({ onSuccess, onCancel }: CreateGroupFormProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [dedicatedNumber, setDedicatedNumber] = useState(false);
 
   async function handleSubmit(formData: FormData) {
     setIsLoading(true);
@@ -51,24 +52,51 @@ export function CreateGroupForm({ onSuccess, onCancel }: CreateGroupFormProps) {
         />
       </div>
 
-      <div>
-        <label
-          htmlFor="twilioPhoneNumber"
-          className="block text-sm font-medium mb-1"
-        >
-          Twilio Phone Number
+      <div className="space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            name="dedicatedNumber"
+            checked={dedicatedNumber}
+            onChange={(e) => setDedicatedNumber(e.target.checked)}
+            disabled={isLoading}
+          />
+          Get a dedicated phone number
         </label>
-        <Input
-          id="twilioPhoneNumber"
-          name="twilioPhoneNumber"
-          type="tel"
-          placeholder="+14155551234"
-          required
-          disabled={isLoading}
-        />
-        <p className="text-xs text-muted-foreground mt-1">
-          The Twilio number to use for SMS in this group
+        <p className="text-xs text-muted-foreground">
+          Buys a Twilio number for this group. Otherwise SMS participants
+          text the group through shared numbers.
         </p>
+
+        {dedicatedNumber && (
+          <div className="flex gap-2">
+            <div className="w-24">
+              <label htmlFor="country" className="block text-sm font-medium mb-1">
+                Country
+              </label>
+              <Input
+                id="country"
+                name="country"
+                defaultValue="US"
+                maxLength={2}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="flex-1">
+              <label htmlFor="areaCode" className="block text-sm font-medium mb-1">
+                Area Code
+              </label>
+              <Input
+                id="areaCode"
+                name="areaCode"
+                inputMode="numeric"
+                placeholder="415 (optional)"
+                maxLength={3}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {error && (
@@ -8,12 +8,23 @@ import { useState, useTransition } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
+import { formatMessageTime } from "@/lib/date";
+import { formatPhoneForDisplay } from "@/domain/validators";
+import type { GroupMemberRole, PendingSenderRequest } from "@/domain/types";
 import {
   searchUsersToAdd,
   addAppUserToGroup,
   removeMemberFromGroup,
-  updateGroup,
+  changeMemberRole,
+  transferOwnership,
   deleteGroup,
+  approvePendingSender,
+  blockPendingSender,
+  blockNumber,
+  unblockNumber,
+  inviteToGroup,
+  revokeInvitation,
+  sendSmsInvitation,
 } from "@/application/actions";
 
 // Remove Member Button
@@ -79,6 +90,72 @@ export function RemoveMemberButton({
   );
 }
 
+// Member Role Select
+interface MemberRoleSelectProps {
+  groupId: string;
+  memberId: string;
+  memberName: string;
+  role: GroupMemberRole;
+  /** Roles the current user can give this member, including their current one */
+  roles: GroupMemberRole[];
+}
+
+const ROLE_LABELS: Record<GroupMemberRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+export function MemberRoleSelect({
+  groupId,
+  memberId,
+  memberName,
+  role,
+  roles,
+}: MemberRoleSelectProps) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleChange = (newRole: GroupMemberRole) => {
+    if (newRole === role) return;
+
+    // Ownership moves rather than being shared
+    if (
+      newRole === "owner" &&
+      !confirm(
+        `Make ${memberName} the owner? You'll become an admin, and only they can make you owner again.`
+      )
+    ) {
+      return;
+    }
+
+    startTransition(async () => {
+      const result =
+        newRole === "owner"
+          ? await transferOwnership(groupId, memberId)
+          : await changeMemberRole(groupId, memberId, newRole);
+      if (!result.success) {
+        alert(result.error || "Failed to change role");
+      }
+    });
+  };
+
+  return (
+    <select
+      aria-label={`Role for ${memberName}`}
+      value={role}
+      onChange={(e) => handleChange(e.target.value as GroupMemberRole)}
+      disabled={isPending}
+      className="h-8 rounded-md border border-input bg-background px-2 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      {roles.map((option) => (
+        <option key={option} value={option}>
+          {ROLE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 // Add App User Form
 interface AddAppUserFormProps {
   groupId: string;
@@ -87,7 +164,7 @@ interface AddAppUserFormProps {
 export function AddAppUserForm({ groupId }: AddAppUserFormProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [users, setUsers] = useState<
-    Array<{ id: string; email: string; displayName: string }>
+    Array<{ id: string; email: string | null; displayName: string }>
   >([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isPending, startTransition] = useTransition();
@@ -154,7 +231,9 @@ export function AddAppUserForm({ groupId }: AddAppUserFormProps) {
             >
               <div>
                 <p className="font-medium">{user.displayName}</p>
-                <p className="text-sm text-muted-foreground">{user.email}</p>
+                {user.email && (
+                  <p className="text-sm text-muted-foreground">{user.email}</p>
+                )}
               </div>
               <Button
                 size="sm"
@@ -171,78 +250,6 @@ export function AddAppUserForm({ groupId }: AddAppUserFormProps) {
   );
 }
 
-// Edit Twilio Number Form
-interface EditTwilioNumberFormProps {
-  groupId: string;
-  currentNumber: string;
-}
-
-export function EditTwilioNumberForm({
-  groupId,
-  currentNumber,
-}: EditTwilioNumberFormProps) {
-  const [isEditing, setIsEditing] = useState(false);
-  const [phoneNumber, setPhoneNumber] = useState(currentNumber);
-  const [isPending, startTransition] = useTransition();
-  const [error, setError] = useState<string | null>(null);
-
-  const handleSave = () => {
-    startTransition(async () => {
-      const formData = new FormData();
-      formData.set("twilioPhoneNumber", phoneNumber);
-
-      const result = await updateGroup(groupId, formData);
-
-      if (result.success) {
-        setIsEditing(false);
-        setError(null);
-      } else {
-        setError(result.error || "Failed to update");
-      }
-    });
-  };
-
-  if (!isEditing) {
-    return (
-      <Button
-        variant="outline"
-        size="sm"
-        onClick={() => setIsEditing(true)}
-      >
-        Edit
-      </Button>
-    );
-  }
-
-  return (
-    <div className="space-y-2">
-      <div className="flex gap-2">
-        <Input
-          value={phoneNumber}
-          onChange={(e) => setPhoneNumber(e.target.value)}
-          placeholder="+14155551234"
-          disabled={isPending}
-        />
-        <Button onClick={handleSave} disabled={isPending}>
-          {isPending ? "..." : "Save"}
-        </Button>
-        <Button
-          variant="outline"
-          onClick={() => {
-            setIsEditing(false);
-            setPhoneNumber(currentNumber);
-            setError(null);
-          }}
-          disabled={isPending}
-        >
-          Cancel
-        </Button>
-      </div>
-      {error && <p className="text-sm text-destructive">{error}</p>}
-    </div>
-  );
-}
-
 // Delete Group Button
 interface DeleteGroupButtonProps {
   groupId: string;
@@ -323,3 +330,440 @@ export function DeleteGroupButton({ groupId, groupName }: DeleteGroupButtonProps
     </div>
   );
 }
+
+// Pending Sender Request (texts from an unknown number)
+interface PendingRequestCardProps {
+  groupId: string;
+  request: PendingSenderRequest;
+}
+
+export function PendingRequestCard({ groupId, request }: PendingRequestCardProps) {
+  const [displayName, setDisplayName] = useState("");
+  const [showBlockConfirm, setShowBlockConfirm] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApprove = () => {
+    startTransition(async () => {
+      const result = await approvePendingSender(
+        groupId,
+        request.phoneNumber,
+        displayName
+      );
+      if (!result.success) {
+        setError(result.error || "Failed to approve request");
+      }
+    });
+  };
+
+  const handleBlock = () => {
+    startTransition(async () => {
+      const result = await blockPendingSender(groupId, request.phoneNumber);
+      if (!result.success) {
+        setError(result.error || "Failed to block sender");
+      }
+      setShowBlockConfirm(false);
+    });
+  };
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg bg-secondary/50">
+      <p className="font-medium">{formatPhoneForDisplay(request.phoneNumber)}</p>
+
+      {/* Held messages */}
+      <ul className="space-y-1">
+        {request.messages.map((message) => (
+          <li key={message.id} className="text-sm">
+            <span className="text-muted-foreground">
+              {formatMessageTime(message.receivedAt)}:{" "}
+            </span>
+            <span className="whitespace-pre-wrap break-words">{message.body}</span>
+            {message.media.length > 0 && (
+              <span className="text-muted-foreground">
+                {" "}
+                📎 {message.media.length}{" "}
+                {message.media.length === 1 ? "attachment" : "attachments"}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {showBlockConfirm ? (
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Block this number?</span>
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={handleBlock}
+            disabled={isPending}
+          >
+            {isPending ? "..." : "Yes"}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowBlockConfirm(false)}
+            disabled={isPending}
+          >
+            No
+          </Button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <Input
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Name (optional)"
+            disabled={isPending}
+          />
+          <Button size="sm" onClick={handleApprove} disabled={isPending}>
+            {isPending ? "..." : "Approve"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowBlockConfirm(true)}
+            disabled={isPending}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            Block
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Block SMS Member (removes them and keeps them out)
+interface BlockMemberButtonProps {
+  groupId: string;
+  phoneNumber: string;
+  memberName: string;
+}
+
+export function BlockMemberButton({
+  groupId,
+  phoneNumber,
+  memberName,
+}: BlockMemberButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const handleBlock = () => {
+    startTransition(async () => {
+      const result = await blockNumber(groupId, phoneNumber, "group");
+      if (!result.success) {
+        alert(result.error || `Failed to block ${memberName}`);
+      }
+      setShowConfirm(false);
+    });
+  };
+
+  if (showConfirm) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Block?</span>
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={handleBlock}
+          disabled={isPending}
+        >
+          {isPending ? "..." : "Yes"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setShowConfirm(false)}
+          disabled={isPending}
+        >
+          No
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => setShowConfirm(true)}
+      className="text-muted-foreground hover:text-destructive"
+    >
+      Block
+    </Button>
+  );
+}
+
+// Block Number Form
+interface BlockNumberFormProps {
+  groupId: string;
+  /** Owners can also block a number across all groups they own */
+  canBlockForAllGroups: boolean;
+}
+
+export function BlockNumberForm({
+  groupId,
+  canBlockForAllGroups,
+}: BlockNumberFormProps) {
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [allGroups, setAllGroups] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBlock = () => {
+    startTransition(async () => {
+      const result = await blockNumber(
+        groupId,
+        phoneNumber,
+        allGroups ? "user" : "group"
+      );
+
+      if (result.success) {
+        setPhoneNumber("");
+        setAllGroups(false);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to block number");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="tel"
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.target.value)}
+          placeholder="+14155551234"
+          disabled={isPending}
+          onKeyDown={(e) => e.key === "Enter" && phoneNumber.trim() && handleBlock()}
+        />
+        <Button
+          variant="destructive"
+          onClick={handleBlock}
+          disabled={isPending || !phoneNumber.trim()}
+        >
+          {isPending ? "..." : "Block"}
+        </Button>
+      </div>
+      {canBlockForAllGroups && (
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={allGroups}
+            onChange={(e) => setAllGroups(e.target.checked)}
+            disabled={isPending}
+          />
+          Block in all groups I own
+        </label>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+// Unblock Button
+interface UnblockNumberButtonProps {
+  groupId: string;
+  blockedNumberId: string;
+}
+
+export function UnblockNumberButton({
+  groupId,
+  blockedNumberId,
+}: UnblockNumberButtonProps) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleUnblock = () => {
+    startTransition(async () => {
+      const result = await unblockNumber(groupId, blockedNumberId);
+      if (!result.success) {
+        alert(result.error || "Failed to unblock number");
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={handleUnblock}
+      disabled={isPending}
+      className="text-muted-foreground"
+    >
+      {isPending ? "..." : "Unblock"}
+    </Button>
+  );
+}
+
+// Invite by Email Form
+interface InviteFormProps {
+  groupId: string;
+  /** Only owners can invite admins */
+  canInviteAdmins: boolean;
+}
+
+export function InviteForm({ groupId, canInviteAdmins }: InviteFormProps) {
+  const [email, setEmail] = useState("");
+  const [asAdmin, setAsAdmin] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  const handleInvite = () => {
+    startTransition(async () => {
+      const result = await inviteToGroup(
+        groupId,
+        email,
+        asAdmin ? "admin" : "member"
+      );
+
+      if (result.success && result.inviteUrl) {
+        setInviteUrl(result.inviteUrl);
+        setEmail("");
+        setAsAdmin(false);
+        setError(null);
+      } else {
+        setError(result.error || "Failed to create invitation");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="friend@example.com"
+          disabled={isPending}
+          onKeyDown={(e) => e.key === "Enter" && email.trim() && handleInvite()}
+        />
+        <Button onClick={handleInvite} disabled={isPending || !email.trim()}>
+          {isPending ? "..." : "Invite"}
+        </Button>
+      </div>
+      {canInviteAdmins && (
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={asAdmin}
+            onChange={(e) => setAsAdmin(e.target.checked)}
+            disabled={isPending}
+          />
+          Invite as admin
+        </label>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {inviteUrl && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-secondary/50">
+          <p className="flex-1 text-sm truncate">{inviteUrl}</p>
+          <CopyInviteLinkButton inviteUrl={inviteUrl} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Invite SMS Participant to the App Button
+interface InviteToAppButtonProps {
+  groupId: string;
+  smsParticipantId: string;
+}
+
+export function InviteToAppButton({
+  groupId,
+  smsParticipantId,
+}: InviteToAppButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [sent, setSent] = useState(false);
+
+  const handleInvite = () => {
+    startTransition(async () => {
+      const result = await sendSmsInvitation(groupId, smsParticipantId);
+      if (result.success) {
+        setSent(true);
+      } else {
+        alert(result.error || "Failed to send invitation");
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={handleInvite}
+      disabled={isPending || sent}
+      className="text-muted-foreground"
+    >
+      {isPending ? "..." : sent ? "Invited" : "Invite to App"}
+    </Button>
+  );
+}
+
+// Copy Invitation Link Button
+interface CopyInviteLinkButtonProps {
+  inviteUrl: string;
+}
+
+export function CopyInviteLinkButton({ inviteUrl }: CopyInviteLinkButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked (e.g. insecure origin): let the user copy it
+      prompt("Copy this invitation link:", inviteUrl);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="ghost" onClick={handleCopy}>
+      {copied ? "Copied" : "Copy Link"}
+    </Button>
+  );
+}
+
+// Revoke Invitation Button
+interface RevokeInvitationButtonProps {
+  groupId: string;
+  invitationId: string;
+}
+
+export function RevokeInvitationButton({
+  groupId,
+  invitationId,
+}: RevokeInvitationButtonProps) {
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevoke = () => {
+    startTransition(async () => {
+      const result = await revokeInvitation(groupId, invitationId);
+      if (!result.success) {
+        alert(result.error || "Failed to revoke invitation");
+      }
+    });
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={handleRevoke}
+      disabled={isPending}
+      className="text-muted-foreground"
+    >
+      {isPending ? "..." : "Revoke"}
+    </Button>
+  );
+}
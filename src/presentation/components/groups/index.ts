@@ -6,3 +6,5 @@ export { ChatListItem } from "./chat-list-item";
 export { ChatList } from "./chat-list";
 export { CreateGroupForm } from "./create-group-form";
 export { AddParticipantForm } from "./add-participant-form";
+export { AcceptInvitationButton } from "./accept-invitation-button";
+export { NotificationSettingsSelect } from "./notification-settings-select";
@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * Notification Settings Select Component
+ *
+ * Lets the current user choose how a group notifies them: every message,
+ * only @mentions, or muted for a while. Muting keeps the chosen level for
+ * when the mute ends.
+ */
+
+import { useTransition } from "react";
+import { cn } from "@/lib/cn";
+import { formatMessageTime } from "@/lib/date";
+import { updateNotificationPreferences } from "@/application/actions";
+import {
+  isNotificationsMuted,
+  type NotificationLevel,
+  type NotificationPreferences,
+} from "@/domain/types";
+
+const LEVEL_LABELS: Record<NotificationLevel, string> = {
+  all: "All messages",
+  mentions: "Mentions only",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MUTE_OPTIONS = [
+  { value: "mute-1h", label: "Mute for 1 hour", durationMs: HOUR_MS },
+  { value: "mute-8h", label: "Mute for 8 hours", durationMs: 8 * HOUR_MS },
+  { value: "mute-1d", label: "Mute for 1 day", durationMs: 24 * HOUR_MS },
+  { value: "mute-1w", label: "Mute for 1 week", durationMs: 7 * 24 * HOUR_MS },
+] as const;
+
+interface NotificationSettingsSelectProps {
+  groupId: string;
+  preferences: NotificationPreferences;
+  className?: string;
+}
+
+export function NotificationSettingsSelect({
+  groupId,
+  preferences,
+  className,
+}: NotificationSettingsSelectProps) {
+  const [isPending, startTransition] = useTransition();
+  const muted = isNotificationsMuted(preferences);
+
+  const handleChange = (value: string) => {
+    const mute = MUTE_OPTIONS.find((option) => option.value === value);
+    const level = mute ? preferences.level : (value as NotificationLevel);
+    const mutedUntil = mute ? new Date(Date.now() + mute.durationMs) : null;
+
+    startTransition(async () => {
+      const result = await updateNotificationPreferences(groupId, level, mutedUntil);
+      if (!result.success) {
+        alert(result.error || "Failed to update notifications");
+      }
+    });
+  };
+
+  return (
+    <select
+      aria-label="Notifications"
+      value={muted ? "muted" : preferences.level}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={isPending}
+      className={cn(
+        "h-8 rounded-md border border-input bg-background px-2 text-sm disabled:cursor-not-allowed disabled:opacity-50",
+        className
+      )}
+    >
+      {muted && preferences.mutedUntil && (
+        <option value="muted" disabled>
+          Muted until {formatMessageTime(preferences.mutedUntil)}
+        </option>
+      )}
+      {(Object.keys(LEVEL_LABELS) as NotificationLevel[]).map((level) => (
+        <option key={level} value={level}>
+          {muted ? `Unmute · ${LEVEL_LABELS[level]}` : LEVEL_LABELS[level]}
+        </option>
+      ))}
+      {MUTE_OPTIONS.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  );
+}
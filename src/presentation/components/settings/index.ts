@@ -3,3 +3,6 @@
  */
 
 export { ProfileForm } from "./profile-form";
+export { LinkSmsIdentity } from "./link-sms-identity";
+export { PushNotificationToggle } from "./push-notification-toggle";
+export { SignOutButton } from "./sign-out-button";
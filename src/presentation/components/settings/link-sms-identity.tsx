@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * Link SMS Identity Component
+ *
+ * Offers to move the groups the user's verified phone belongs to by text
+ * onto their account: they join those groups in the app, their earlier
+ * texts show as theirs, and they stop receiving the group's texts.
+ */
+
+import { useState, useTransition } from "react";
+import { Button } from "../ui/button";
+import { linkSmsIdentity } from "@/application/actions";
+import type { LinkableSmsGroup } from "@/domain/types";
+
+interface LinkSmsIdentityProps {
+  groups: LinkableSmsGroup[];
+}
+
+export function LinkSmsIdentity({ groups }: LinkSmsIdentityProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLink = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await linkSmsIdentity();
+      if (!result.success) {
+        setError(result.error || "Failed to link phone number");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-secondary/50 p-3">
+      <p className="text-sm">
+        Your phone number is in {groups.length === 1 ? "a group" : "groups"}{" "}
+        by text. Use the app for {groups.length === 1 ? "it" : "them"} instead?
+      </p>
+      <ul className="text-sm text-muted-foreground">
+        {groups.map((group) => (
+          <li key={group.groupId}>
+            {group.groupName}
+            {group.alreadyMember && " (already joined)"}
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-muted-foreground">
+        Texts you sent will show as yours, and you&apos;ll stop getting these
+        groups by SMS.
+      </p>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <Button size="sm" onClick={handleLink} disabled={isPending}>
+        {isPending ? "Linking..." : "Use the App"}
+      </Button>
+    </div>
+  );
+}
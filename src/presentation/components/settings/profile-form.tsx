@@ -3,23 +3,34 @@
 /**
  * Profile Form Component
  *
- * Handles profile updates with proper error/success feedback.
+ * Handles profile updates with proper error/success feedback, and
+ * verifying the phone number with a texted code.
  */
 
-import { useState } from "react";
+import { useState, useTransition } from "react";
+import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
-import { updateProfile } from "@/application/actions";
+import {
+  updateProfile,
+  sendPhoneVerificationCode,
+  verifyPhoneNumber,
+} from "@/application/actions";
+import { VERIFICATION_CODE_LENGTH } from "@/domain/types";
 
 interface ProfileFormProps {
   defaultDisplayName: string;
   defaultPhoneNumber: string | null;
+  /** Whether defaultPhoneNumber has been verified */
+  phoneVerified: boolean;
 }
 
 export function ProfileForm({
   defaultDisplayName,
   defaultPhoneNumber,
+  phoneVerified,
 }: ProfileFormProps) {
+  const [phoneNumber, setPhoneNumber] = useState(defaultPhoneNumber || "");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
@@ -71,12 +82,21 @@ export function ProfileForm({
           name="phoneNumber"
           type="tel"
           placeholder="+14155551234"
-          defaultValue={defaultPhoneNumber || ""}
+          value={phoneNumber}
+          onChange={(e) => setPhoneNumber(e.target.value)}
           disabled={isLoading}
         />
         <p className="text-xs text-muted-foreground mt-1">
           Optional. Used for receiving notifications.
         </p>
+        {phoneNumber.trim() && (
+          <PhoneVerification
+            // Start over when the number changes
+            key={phoneNumber.trim()}
+            phoneNumber={phoneNumber.trim()}
+            verified={phoneVerified && phoneNumber.trim() === defaultPhoneNumber}
+          />
+        )}
       </div>
 
       {error && <p className="text-sm text-destructive">{error}</p>}
@@ -92,3 +112,111 @@ export function ProfileForm({
     </form>
   );
 }
+
+interface PhoneVerificationProps {
+  phoneNumber: string;
+  verified: boolean;
+}
+
+/**
+ * Verified badge, or a texted-code flow to verify the number.
+ * Uses plain buttons so it can sit inside the profile form.
+ */
+function PhoneVerification({ phoneNumber, verified }: PhoneVerificationProps) {
+  const [isPending, startTransition] = useTransition();
+  const [codeSent, setCodeSent] = useState(false);
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  if (verified) {
+    return (
+      <Badge variant="success" className="mt-2">
+        Verified
+      </Badge>
+    );
+  }
+
+  const handleSendCode = () => {
+    setError(null);
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.set("phoneNumber", phoneNumber);
+      const result = await sendPhoneVerificationCode(formData);
+      if (result.success) {
+        setCodeSent(true);
+      } else {
+        setError(result.error || "Failed to send code");
+      }
+    });
+  };
+
+  const handleVerify = () => {
+    setError(null);
+    startTransition(async () => {
+      const formData = new FormData();
+      formData.set("phoneNumber", phoneNumber);
+      formData.set("code", code);
+      const result = await verifyPhoneNumber(formData);
+      if (!result.success) {
+        setError(result.error || "Failed to verify phone number");
+      }
+    });
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {codeSent ? (
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="Verification code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={VERIFICATION_CODE_LENGTH}
+            placeholder="123456"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            disabled={isPending}
+            className="w-32"
+          />
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleVerify}
+            disabled={isPending || !code}
+          >
+            {isPending ? "..." : "Verify"}
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={handleSendCode}
+            disabled={isPending}
+          >
+            Resend
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <Badge variant="warning">Not verified</Badge>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={handleSendCode}
+            disabled={isPending}
+          >
+            {isPending ? "Sending..." : "Text me a code"}
+          </Button>
+        </div>
+      )}
+
+      {codeSent && !error && (
+        <p className="text-xs text-muted-foreground">
+          Enter the {VERIFICATION_CODE_LENGTH}-digit code we texted to {phoneNumber}.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+/**
+ * Push Notification Toggle Component
+ *
+ * Turns new-message notifications on or off for this browser.
+ */
+
+import { useState, useTransition } from "react";
+import { Button } from "../ui/button";
+import { usePushNotifications } from "@/application/hooks";
+
+export function PushNotificationToggle() {
+  const { isSupported, permission, isSubscribed, isLoading, subscribe, unsubscribe } =
+    usePushNotifications();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!isSupported) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This browser can&apos;t show notifications. On iPhone, add the app to
+        your Home Screen first.
+      </p>
+    );
+  }
+
+  const handleToggle = () => {
+    setError(null);
+    startTransition(async () => {
+      try {
+        await (isSubscribed ? unsubscribe() : subscribe());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to update notifications");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm">New messages</p>
+          <p className="text-xs text-muted-foreground">
+            {isSubscribed
+              ? "Notifications are on for this device"
+              : "Get notified on this device when someone messages your groups"}
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant={isSubscribed ? "outline" : "default"}
+          onClick={handleToggle}
+          disabled={isPending || (!isSubscribed && permission === "denied")}
+        >
+          {isPending ? "Saving..." : isSubscribed ? "Turn Off" : "Turn On"}
+        </Button>
+      </div>
+
+      {!isSubscribed && permission === "denied" && (
+        <p className="text-xs text-muted-foreground">
+          Notifications are blocked. Allow them in your browser settings.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
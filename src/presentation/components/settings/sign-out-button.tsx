@@ -0,0 +1,20 @@
+"use client";
+
+/**
+ * Sign Out Button Component
+ *
+ * Signs out of this browser, discarding any messages still queued offline.
+ */
+
+import { Button } from "../ui/button";
+import { useSignOut } from "@/application/hooks";
+
+export function SignOutButton() {
+  const { signOut, isSigningOut } = useSignOut();
+
+  return (
+    <Button variant="outline" onClick={signOut} disabled={isSigningOut}>
+      {isSigningOut ? "Signing out..." : "Sign Out"}
+    </Button>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Shared Blocklist Helpers
+ *
+ * Phone numbers blocked for a group (group blocks plus its owners'
+ * personal blocks) never receive texts from it.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+/**
+ * Gets the phone numbers blocked for a group.
+ */
+export async function getBlockedPhoneNumbers(
+  supabase: SupabaseClient,
+  groupId: string
+): Promise<Set<string>> {
+  const { data, error } = await supabase.rpc("get_blocked_phone_numbers", {
+    p_group_id: groupId,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return new Set(
+    ((data || []) as { phone_number: string }[]).map((b) => b.phone_number)
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Shared SMS Command Helpers
+ *
+ * SMS participants have no app, so they manage their membership by texting
+ * commands to the group's number:
+ *   #mute [duration]  Pause texts from the group (e.g. 30m, 2h, 3d, 1w)
+ *   #unmute           Resume texts
+ *   #who              List the group's members
+ *   #name <name>      Change how they appear in the group
+ *   #leave            Leave the group
+ *   #help             List commands
+ */
+
+export type SmsCommand =
+  | { kind: "mute"; durationMs: number }
+  | { kind: "unmute" }
+  | { kind: "who" }
+  | { kind: "name"; name: string }
+  | { kind: "leave" }
+  | { kind: "help" }
+  | { kind: "invalid"; reply: string };
+
+/** Mute length when no duration is given */
+const DEFAULT_MUTE_MS = 8 * 60 * 60 * 1000;
+
+/** Longest allowed mute */
+const MAX_MUTE_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Longest allowed display name */
+const MAX_NAME_LENGTH = 50;
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** Accepted spellings of each duration unit */
+const DURATION_UNIT_ALIASES: Record<string, string> = {
+  m: "m", min: "m", mins: "m", minute: "m", minutes: "m",
+  h: "h", hr: "h", hrs: "h", hour: "h", hours: "h",
+  d: "d", day: "d", days: "d",
+  w: "w", wk: "w", wks: "w", week: "w", weeks: "w",
+};
+
+export const SMS_COMMANDS_HELP =
+  "Commands: #mute 2h, #unmute, #who, #name Alice, #leave";
+
+/**
+ * Parses a command message. Returns null for ordinary messages, including
+ * ones that merely start with a hashtag ("#1 priority", "#tbt").
+ */
+export function parseSmsCommand(body: string): SmsCommand | null {
+  const match = body.trim().match(/^#(\w+)\s*(.*)$/s);
+  if (!match) return null;
+
+  const command = match[1].toLowerCase();
+  const arg = match[2].trim();
+
+  switch (command) {
+    case "mute": {
+      if (!arg) return { kind: "mute", durationMs: DEFAULT_MUTE_MS };
+
+      const durationMs = parseDuration(arg);
+      if (durationMs === null) {
+        return {
+          kind: "invalid",
+          reply: `Couldn't read "${arg}". Try #mute 30m, #mute 2h or #mute 3d.`,
+        };
+      }
+      return { kind: "mute", durationMs };
+    }
+    case "unmute":
+      return { kind: "unmute" };
+    case "who":
+      return { kind: "who" };
+    case "name": {
+      if (!arg) {
+        return { kind: "invalid", reply: "Add your name, e.g. #name Alice" };
+      }
+      if (arg.length > MAX_NAME_LENGTH) {
+        return {
+          kind: "invalid",
+          reply: `Names can be up to ${MAX_NAME_LENGTH} characters.`,
+        };
+      }
+      return { kind: "name", name: arg };
+    }
+    case "leave":
+      return { kind: "leave" };
+    case "help":
+      return { kind: "help" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses a duration like "30m", "2h", "3 days" or "1w" into milliseconds.
+ * Returns null if unreadable or out of range.
+ */
+function parseDuration(text: string): number | null {
+  const match = text.toLowerCase().match(/^(\d+)\s*([a-z]+)$/);
+  const unit = match && DURATION_UNIT_ALIASES[match[2]];
+  if (!match || !unit) return null;
+
+  const durationMs = parseInt(match[1], 10) * DURATION_UNITS_MS[unit];
+  if (durationMs <= 0 || durationMs > MAX_MUTE_MS) return null;
+
+  return durationMs;
+}
+
+/**
+ * Formats a duration for a confirmation reply (e.g. "2 hours").
+ */
+export function formatDuration(durationMs: number): string {
+  const units: [string, number][] = [
+    ["week", DURATION_UNITS_MS.w],
+    ["day", DURATION_UNITS_MS.d],
+    ["hour", DURATION_UNITS_MS.h],
+    ["minute", DURATION_UNITS_MS.m],
+  ];
+
+  for (const [name, ms] of units) {
+    if (durationMs % ms === 0) {
+      const count = durationMs / ms;
+      return `${count} ${name}${count !== 1 ? "s" : ""}`;
+    }
+  }
+
+  return `${Math.round(durationMs / DURATION_UNITS_MS.m)} minutes`;
+}
@@ -0,0 +1,82 @@
+/**
+ * Shared SMS Compliance Keyword Helpers
+ *
+ * Carriers require that texting STOP opts a recipient out, START opts them
+ * back in, and HELP returns contact information. A keyword must be the
+ * whole message (case, accents, surrounding whitespace and punctuation are
+ * ignored), so "stop by later" is an ordinary message.
+ */
+
+export type ComplianceKeyword = "stop" | "start" | "help";
+
+const KEYWORDS: Record<ComplianceKeyword, readonly string[]> = {
+  stop: [
+    "STOP", "STOPALL", "UNSUBSCRIBE", "CANCEL", "END", "QUIT", "OPTOUT",
+    "REVOKE",
+    // Spanish
+    "PARAR", "PARE", "ALTO", "DETENER", "CANCELAR", "BAJA",
+    // French
+    "ARRET", "ARRETER", "DESABONNER",
+    // German
+    "STOPP", "ABMELDEN",
+    // Portuguese
+    "SAIR",
+  ],
+  start: [
+    // Not YES: in a group chat that's far more often a reply than an opt-in
+    "START", "UNSTOP", "OPTIN", "SUBSCRIBE",
+    // Spanish
+    "INICIAR", "COMENZAR",
+    // French
+    "DEMARRER",
+    // German
+    "ANMELDEN",
+  ],
+  help: [
+    "HELP", "INFO",
+    // Spanish / Portuguese
+    "AYUDA", "AJUDA",
+    // French
+    "AIDE",
+    // German
+    "HILFE",
+  ],
+};
+
+/**
+ * Returns the compliance keyword a message consists of, if any.
+ */
+export function parseComplianceKeyword(body: string): ComplianceKeyword | null {
+  const word = body
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "") // Strip accents (ARRÊT -> ARRET)
+    .replace(/[^a-zA-Z]/g, "")
+    .toUpperCase();
+
+  if (!word) return null;
+
+  for (const [keyword, words] of Object.entries(KEYWORDS)) {
+    if (words.includes(word)) {
+      return keyword as ComplianceKeyword;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Auto-reply text for a compliance keyword.
+ */
+export function complianceReply(
+  keyword: ComplianceKeyword,
+  groupName: string
+): string {
+  switch (keyword) {
+    case "stop":
+      return `You've been unsubscribed from "${groupName}" and won't receive more texts from it. Reply START to resubscribe.`;
+    case "start":
+      return `You've been resubscribed to "${groupName}". Reply STOP to unsubscribe or HELP for help.`;
+    case "help":
+      return `BridgeChat: texts from "${groupName}". Reply to send a message to the group. Reply STOP to unsubscribe. Msg & data rates may apply.`;
+  }
+}
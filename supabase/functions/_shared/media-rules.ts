@@ -0,0 +1,104 @@
+/**
+ * Message Media Rules
+ *
+ * Media types, size limits and MMS formatting shared by the edge functions
+ * and the app (src/domain re-exports them). Keep this file free of imports
+ * so both Deno and Next.js can load it.
+ */
+
+/** Private storage bucket holding attachment files */
+export const MESSAGE_ATTACHMENTS_BUCKET = "message-attachments";
+
+/**
+ * Maximum attachments per message (Twilio MMS limit)
+ */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+/**
+ * Maximum total attachment size per message (Twilio MMS limit)
+ */
+export const MAX_ATTACHMENTS_TOTAL_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Signed MediaUrl lifetime in seconds.
+ * Long enough for queued sends and retries to fetch the file.
+ */
+export const MEDIA_URL_EXPIRY_SECONDS = 24 * 60 * 60;
+
+/**
+ * MIME type prefixes and types accepted as attachments
+ */
+const ALLOWED_TYPE_PREFIXES = ["image/", "audio/", "video/"];
+const ALLOWED_TYPES = ["application/pdf", "text/vcard", "text/x-vcard"];
+
+/**
+ * Whether a MIME type can be sent as an attachment.
+ */
+export function isAllowedMediaType(contentType: string): boolean {
+  const type = contentType.toLowerCase();
+  return (
+    ALLOWED_TYPES.includes(type) ||
+    ALLOWED_TYPE_PREFIXES.some((prefix) => type.startsWith(prefix))
+  );
+}
+
+/**
+ * Common MIME types to file extensions
+ */
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/heic": "heic",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/amr": "amr",
+  "audio/ogg": "ogg",
+  "video/mp4": "mp4",
+  "video/3gpp": "3gp",
+  "text/vcard": "vcf",
+  "text/x-vcard": "vcf",
+  "application/pdf": "pdf",
+};
+
+/**
+ * File extension for a MIME type ("bin" if unknown).
+ */
+export function getMediaExtension(contentType: string): string {
+  return EXTENSIONS[contentType.toLowerCase()] || "bin";
+}
+
+/**
+ * A message's attachments, ready to send
+ */
+export interface OutboundMedia {
+  /** Signed URLs Twilio fetches for MMS */
+  mediaUrls: string[];
+  /** Short links (the app's /m/{attachmentId}) for recipients that can't receive MMS */
+  links: string[];
+}
+
+/**
+ * Twilio only delivers MMS to US and Canadian numbers.
+ */
+export function supportsMms(phoneNumber: string): boolean {
+  return phoneNumber.startsWith("+1");
+}
+
+/**
+ * Builds the SMS body and media for one recipient.
+ */
+export function buildOutboundSms(
+  senderName: string,
+  content: string,
+  phoneNumber: string,
+  media: OutboundMedia
+): { body: string; mediaUrls: string[] } {
+  if (media.mediaUrls.length > 0 && supportsMms(phoneNumber)) {
+    return { body: `${senderName}: ${content}`.trim(), mediaUrls: media.mediaUrls };
+  }
+
+  const text = [content, ...media.links].filter(Boolean).join("\n");
+  return { body: `${senderName}: ${text}`, mediaUrls: [] };
+}
@@ -0,0 +1,206 @@
+/**
+ * Shared Message Media Helpers for Edge Functions
+ *
+ * Inbound: copies MMS media from Twilio into Supabase Storage and records
+ * message_attachments rows. Twilio only keeps media until the message
+ * is deleted, so we store our own copy.
+ *
+ * Outbound: attaches a message's files as MMS media where the recipient
+ * supports it, and as short links in the body everywhere else.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { createTwilioAuthHeader } from "./twilio.ts";
+import {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  MEDIA_URL_EXPIRY_SECONDS,
+  getMediaExtension,
+  type OutboundMedia,
+} from "./media-rules.ts";
+
+export {
+  MESSAGE_ATTACHMENTS_BUCKET,
+  buildOutboundSms,
+  supportsMms,
+  type OutboundMedia,
+} from "./media-rules.ts";
+
+/**
+ * A media item from an inbound Twilio webhook
+ */
+export interface InboundMedia {
+  url: string;
+  contentType: string;
+}
+
+/**
+ * Extracts media from webhook params (NumMedia, MediaUrl{N}, MediaContentType{N}).
+ */
+export function parseInboundMedia(params: Record<string, string>): InboundMedia[] {
+  const count = parseInt(params.NumMedia || "0", 10) || 0;
+  const media: InboundMedia[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const url = params[`MediaUrl${i}`];
+    if (!url) continue;
+
+    media.push({
+      url,
+      contentType: params[`MediaContentType${i}`] || "application/octet-stream",
+    });
+  }
+
+  return media;
+}
+
+/**
+ * A media file copied into storage, shaped like a message_attachments row
+ */
+export interface StoredMedia {
+  storage_path: string;
+  content_type: string;
+  file_name: string;
+  size_bytes: number;
+}
+
+/**
+ * Downloads inbound media from Twilio into {groupId}/{folder}/ in storage.
+ * Each item is stored independently: one failed download doesn't drop the rest.
+ */
+export async function uploadInboundMedia(
+  supabase: SupabaseClient,
+  options: {
+    groupId: string;
+    folder: string;
+    media: InboundMedia[];
+    accountSid?: string;
+    authToken?: string;
+  }
+): Promise<StoredMedia[]> {
+  const stored: StoredMedia[] = [];
+
+  for (const [index, item] of options.media.entries()) {
+    try {
+      // Media URLs require auth when HTTP basic auth is enforced on the account
+      const headers: Record<string, string> = {};
+      if (options.accountSid && options.authToken) {
+        headers.Authorization = createTwilioAuthHeader(
+          options.accountSid,
+          options.authToken
+        );
+      }
+
+      const response = await fetch(item.url, { headers });
+      if (!response.ok) {
+        throw new Error(`Media download failed: ${response.status}`);
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      const fileName = `${index}.${getMediaExtension(item.contentType)}`;
+      const storagePath = `${options.groupId}/${options.folder}/${fileName}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(MESSAGE_ATTACHMENTS_BUCKET)
+        .upload(storagePath, bytes, {
+          contentType: item.contentType,
+          upsert: true,
+        });
+
+      if (uploadError) {
+        throw uploadError;
+      }
+
+      stored.push({
+        storage_path: storagePath,
+        content_type: item.contentType,
+        file_name: fileName,
+        size_bytes: bytes.byteLength,
+      });
+    } catch (error) {
+      console.error(`Failed to store media ${item.url}:`, error);
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Downloads inbound media and stores it against a message.
+ * Returns the number of attachments stored.
+ */
+export async function storeInboundMedia(
+  supabase: SupabaseClient,
+  options: {
+    groupId: string;
+    messageId: string;
+    media: InboundMedia[];
+    accountSid?: string;
+    authToken?: string;
+  }
+): Promise<number> {
+  const stored = await uploadInboundMedia(supabase, {
+    ...options,
+    folder: options.messageId,
+  });
+
+  if (stored.length === 0) return 0;
+
+  const { error } = await supabase.from("message_attachments").upsert(
+    stored.map((item) => ({
+      ...item,
+      message_id: options.messageId,
+      group_id: options.groupId,
+    })),
+    { onConflict: "storage_path", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error("Failed to record attachments:", error);
+    return 0;
+  }
+
+  return stored.length;
+}
+
+/**
+ * Loads a message's attachments and prepares them for sending.
+ * Links point at the app's /m/{attachmentId} route, which redirects to
+ * a fresh signed URL.
+ */
+export async function getOutboundMedia(
+  supabase: SupabaseClient,
+  messageId: string,
+  appUrl: string
+): Promise<OutboundMedia> {
+  const { data: attachments, error } = await supabase
+    .from("message_attachments")
+    .select("id, storage_path")
+    .eq("message_id", messageId)
+    .order("created_at");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!attachments || attachments.length === 0) {
+    return { mediaUrls: [], links: [] };
+  }
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(MESSAGE_ATTACHMENTS_BUCKET)
+    .createSignedUrls(
+      attachments.map((a: { storage_path: string }) => a.storage_path),
+      MEDIA_URL_EXPIRY_SECONDS
+    );
+
+  if (signError) {
+    throw signError;
+  }
+
+  return {
+    mediaUrls: (signed || [])
+      .map((s: { signedUrl: string | null }) => s.signedUrl)
+      .filter((url: string | null): url is string => !!url),
+    links: attachments.map((a: { id: string }) => `${appUrl}/m/${a.id}`),
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Shared Twilio Number Pool Helpers
+ *
+ * Numbers in the pool serve many groups. Each SMS participant texts a
+ * group through their own pool number, so inbound texts are routed by
+ * the (pool number, sender phone) pair. Assignment lives in the
+ * `assign_sms_route` database function.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+/**
+ * Resolves the group an inbound text belongs to. A sender who has never
+ * been assigned this number reaches the group the number belongs to, if
+ * any; null if the number serves several groups.
+ */
+export async function resolveInboundGroup(
+  supabase: SupabaseClient,
+  twilioNumber: string,
+  senderPhone: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("resolve_sms_route", {
+    p_twilio_number: twilioNumber,
+    p_phone_number: senderPhone,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as string | null) ?? null;
+}
+
+/**
+ * Gets the pool number to text a recipient from for a group, assigning
+ * one if they don't have one yet.
+ */
+export async function getSenderNumber(
+  supabase: SupabaseClient,
+  groupId: string,
+  recipientPhone: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("assign_sms_route", {
+    p_group_id: groupId,
+    p_phone_number: recipientPhone,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data as string;
+}
+
+/**
+ * Gets a shared pool number for texts that don't belong to a group
+ * (e.g. verification codes).
+ */
+export async function getSharedSenderNumber(
+  supabase: SupabaseClient
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("twilio_numbers")
+    .select("phone_number")
+    .eq("is_active", true)
+    .is("group_id", null)
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error("No shared Twilio numbers in the pool");
+  }
+
+  return data.phone_number as string;
+}
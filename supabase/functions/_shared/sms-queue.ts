@@ -0,0 +1,136 @@
+/**
+ * Shared Outbound SMS Retry Queue Helpers
+ *
+ * Records failed send attempts against the sms_jobs queue and resets
+ * failed deliveries for manual retries.
+ * The retry/fail decision and backoff schedule live in the
+ * `record_delivery_failure` database function.
+ */
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { TwilioApiError, isRetryableTwilioError } from "./twilio.ts";
+
+/**
+ * Retry settings, configurable per environment.
+ * SMS_MAX_ATTEMPTS counts the first send (default 5).
+ * SMS_RETRY_BASE_DELAY_SECONDS doubles after each attempt (default 30).
+ */
+export function getRetryConfig(): {
+  maxAttempts: number;
+  baseDelaySeconds: number;
+} {
+  const maxAttempts = parseInt(Deno.env.get("SMS_MAX_ATTEMPTS") || "", 10);
+  const baseDelaySeconds = parseInt(
+    Deno.env.get("SMS_RETRY_BASE_DELAY_SECONDS") || "",
+    10
+  );
+
+  return {
+    maxAttempts: maxAttempts > 0 ? maxAttempts : 5,
+    baseDelaySeconds: baseDelaySeconds > 0 ? baseDelaySeconds : 30,
+  };
+}
+
+/**
+ * Describes a failed send attempt.
+ */
+export interface SendFailure {
+  code: string | null;
+  message: string | null;
+  retryable: boolean;
+}
+
+/**
+ * Builds a SendFailure from an error thrown by sendSms.
+ */
+export function describeSendError(error: unknown): SendFailure {
+  if (error instanceof TwilioApiError) {
+    return {
+      code: error.code,
+      message: error.message,
+      retryable: isRetryableTwilioError(error.code, error.httpStatus),
+    };
+  }
+
+  // Network errors, timeouts: the request may never have reached Twilio
+  return {
+    code: null,
+    message: error instanceof Error ? error.message : String(error),
+    retryable: true,
+  };
+}
+
+/**
+ * Records a failed attempt for a delivery.
+ * Returns true if a retry was scheduled, false if the delivery is now failed.
+ */
+export async function recordDeliveryFailure(
+  supabase: SupabaseClient,
+  deliveryId: string,
+  failure: SendFailure
+): Promise<boolean> {
+  const { maxAttempts, baseDelaySeconds } = getRetryConfig();
+
+  const { data, error } = await supabase.rpc("record_delivery_failure", {
+    p_delivery_id: deliveryId,
+    p_error_code: failure.code,
+    p_error_message: failure.message,
+    p_retryable: failure.retryable,
+    p_max_attempts: maxAttempts,
+    p_base_delay_seconds: baseDelaySeconds,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Resets failed deliveries of a message back to pending for a manual retry.
+ * Clears their queue jobs so the retry gets a fresh attempt budget.
+ * Recipients who have since left the group stay failed.
+ */
+export async function resetFailedDeliveries(
+  supabase: SupabaseClient,
+  messageId: string,
+  memberParticipantIds: string[]
+): Promise<void> {
+  const { data: failed, error: failedError } = await supabase
+    .from("message_deliveries")
+    .select("id")
+    .eq("message_id", messageId)
+    .in("status", ["failed", "undelivered"])
+    .in("sms_participant_id", memberParticipantIds);
+
+  if (failedError) {
+    throw failedError;
+  }
+
+  const failedIds = (failed || []).map((d: { id: string }) => d.id);
+  if (failedIds.length === 0) return;
+
+  const { error: jobsError } = await supabase
+    .from("sms_jobs")
+    .delete()
+    .in("delivery_id", failedIds);
+
+  if (jobsError) {
+    throw jobsError;
+  }
+
+  const { error: resetError } = await supabase
+    .from("message_deliveries")
+    .update({
+      status: "pending",
+      twilio_message_sid: null,
+      error_code: null,
+      error_message: null,
+    })
+    .in("id", failedIds);
+
+  if (resetError) {
+    throw resetError;
+  }
+}
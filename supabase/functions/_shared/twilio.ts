@@ -62,6 +62,27 @@ export function emptyTwimlResponse(): Response {
   );
 }
 
+/**
+ * Creates a TwiML response that replies to the sender with a message.
+ */
+export function messageTwimlResponse(message: string): Response {
+  return new Response(
+    `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(message)}</Message></Response>`,
+    {
+      headers: { "Content-Type": "application/xml" },
+    }
+  );
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
 /**
  * Creates basic auth header for Twilio API.
  */
@@ -73,8 +94,25 @@ export function createTwilioAuthHeader(
   return `Basic ${credentials}`;
 }
 
+/**
+ * Error returned by the Twilio REST API.
+ * `code` is Twilio's error code (e.g. 21211), when the response included one.
+ */
+export class TwilioApiError extends Error {
+  constructor(
+    message: string,
+    readonly httpStatus: number,
+    readonly code: string | null
+  ) {
+    super(message);
+    this.name = "TwilioApiError";
+  }
+}
+
 /**
  * Sends an SMS via Twilio API.
+ * Passing mediaUrls sends an MMS (US/Canada numbers only).
+ * Throws TwilioApiError if Twilio rejects the request.
  */
 export async function sendSms(options: {
   accountSid: string;
@@ -82,8 +120,14 @@ export async function sendSms(options: {
   from: string;
   to: string;
   body: string;
+  mediaUrls?: string[];
   statusCallback?: string;
-}): Promise<{ sid: string; status: string }> {
+}): Promise<{
+  sid: string;
+  status: string;
+  errorCode: string | null;
+  errorMessage: string | null;
+}> {
   const url = `https://api.twilio.com/2010-04-01/Accounts/${options.accountSid}/Messages.json`;
 
   const params = new URLSearchParams({
@@ -92,6 +136,10 @@ export async function sendSms(options: {
     Body: options.body,
   });
 
+  for (const mediaUrl of options.mediaUrls ?? []) {
+    params.append("MediaUrl", mediaUrl);
+  }
+
   if (options.statusCallback) {
     params.append("StatusCallback", options.statusCallback);
   }
@@ -107,11 +155,65 @@ export async function sendSms(options: {
 
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Twilio API error: ${response.status} ${error}`);
+    let code: string | null = null;
+    let message = error;
+    try {
+      const parsed = JSON.parse(error);
+      code = parsed.code ? String(parsed.code) : null;
+      message = parsed.message || error;
+    } catch {
+      // Non-JSON error body
+    }
+    throw new TwilioApiError(
+      `Twilio API error: ${response.status} ${message}`,
+      response.status,
+      code
+    );
   }
 
   const data = await response.json();
-  return { sid: data.sid, status: data.status };
+  return {
+    sid: data.sid,
+    status: data.status,
+    errorCode: data.error_code ? String(data.error_code) : null,
+    errorMessage: data.error_message ?? null,
+  };
+}
+
+/**
+ * Twilio error codes that are worth retrying: rate limits, queue overflow,
+ * carrier congestion and transient carrier/handset failures.
+ * https://www.twilio.com/docs/api/errors
+ */
+const RETRYABLE_TWILIO_ERROR_CODES = new Set([
+  "20429", // Too many requests
+  "20500", // Internal server error
+  "20503", // Service unavailable
+  "30001", // Queue overflow
+  "30003", // Unreachable destination handset
+  "30008", // Unknown error
+  "30009", // Missing segment
+  "30017", // Carrier network congestion
+  "30022", // US A2P 10DLC rate limit exceeded
+]);
+
+/**
+ * Classifies a send failure as retryable or permanent.
+ * Failures without a Twilio error code (network errors, timeouts) and
+ * 429/5xx responses are retryable; everything else (invalid number,
+ * unsubscribed recipient, blocked, landline...) is permanent.
+ */
+export function isRetryableTwilioError(
+  code: string | null,
+  httpStatus?: number
+): boolean {
+  if (code) {
+    return RETRYABLE_TWILIO_ERROR_CODES.has(code);
+  }
+  if (httpStatus !== undefined) {
+    return httpStatus === 429 || httpStatus >= 500;
+  }
+  return true;
 }
 
 /**
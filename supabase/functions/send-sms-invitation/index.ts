@@ -0,0 +1,202 @@
+/**
+ * Send SMS Invitation Edge Function
+ *
+ * Texts an SMS member of a group a one-time link to join the group in
+ * the app. The link opens phone signup prefilled with their number;
+ * accepting moves their membership onto the new account
+ * (`accept_sms_invitation`).
+ *
+ * Flow:
+ * 1. Identify the caller from their access token
+ * 2. Check the caller is an owner or admin of the group
+ * 3. Check the participant is an SMS member who hasn't opted out
+ * 4. Refuse if they were invited in the last minute
+ * 5. Replace any pending invitation for them with a new one
+ * 6. Text the signed link from the pool number they text the group through
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createHmac } from "node:crypto";
+import { createSupabaseClient } from "../_shared/supabase.ts";
+import { sendSms } from "../_shared/twilio.ts";
+import { getSenderNumber } from "../_shared/number-pool.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/** How long an invitation link can be used; matches INVITATION_TTL_DAYS */
+const INVITATION_TTL_DAYS = 7;
+
+/** Minimum time between invitations to one participant */
+const RESEND_COOLDOWN_SECONDS = 60;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get Twilio credentials
+    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+
+    if (!twilioAccountSid || !twilioAuthToken) {
+      throw new Error("Twilio credentials not configured");
+    }
+
+    const inviteTokenSecret = Deno.env.get("INVITE_TOKEN_SECRET");
+    if (!inviteTokenSecret) {
+      throw new Error("INVITE_TOKEN_SECRET not configured");
+    }
+
+    const appUrl = Deno.env.get("APP_URL") || "http://localhost:3000";
+
+    const supabase = createSupabaseClient();
+
+    // Identify the caller
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { groupId, smsParticipantId }: {
+      groupId?: string;
+      smsParticipantId?: string;
+    } = await req.json();
+
+    if (!groupId || !smsParticipantId) {
+      return jsonResponse({ error: "groupId and smsParticipantId are required" }, 400);
+    }
+
+    const { data: role, error: roleError } = await supabase.rpc("get_group_role", {
+      p_group_id: groupId,
+      p_user_id: user.id,
+    });
+
+    if (roleError) {
+      throw roleError;
+    }
+
+    if (role !== "owner" && role !== "admin") {
+      return jsonResponse({ error: "Only owners and admins can invite people" }, 403);
+    }
+
+    const { data: membership, error: membershipError } = await supabase
+      .from("group_members")
+      .select("sms_opted_out_at, sms_participants (phone_number), groups (name)")
+      .eq("group_id", groupId)
+      .eq("sms_participant_id", smsParticipantId)
+      .maybeSingle();
+
+    if (membershipError) {
+      throw membershipError;
+    }
+
+    if (!membership) {
+      return jsonResponse({ error: "This person isn't in the group by text" }, 404);
+    }
+
+    // Never text someone who replied STOP
+    if (membership.sms_opted_out_at) {
+      return jsonResponse({ error: "This person has opted out of texts" }, 409);
+    }
+
+    const phoneNumber = (membership.sms_participants as { phone_number: string }).phone_number;
+    const groupName = (membership.groups as { name: string }).name;
+
+    // Limit how often one person can be texted an invitation
+    const { data: previous, error: previousError } = await supabase
+      .from("group_invitations")
+      .select("id, created_at")
+      .eq("group_id", groupId)
+      .eq("sms_participant_id", smsParticipantId)
+      .eq("status", "pending")
+      .maybeSingle();
+
+    if (previousError) {
+      throw previousError;
+    }
+
+    if (previous) {
+      if (
+        Date.now() - new Date(previous.created_at).getTime() <
+        RESEND_COOLDOWN_SECONDS * 1000
+      ) {
+        return jsonResponse(
+          { error: "Please wait a minute before sending another invitation" },
+          429
+        );
+      }
+
+      // Only the newest link works
+      const { error: revokeError } = await supabase
+        .from("group_invitations")
+        .update({ status: "revoked", resolved_at: new Date().toISOString() })
+        .eq("id", previous.id);
+
+      if (revokeError) {
+        throw revokeError;
+      }
+    }
+
+    const { data: invitation, error: insertError } = await supabase
+      .from("group_invitations")
+      .insert({
+        group_id: groupId,
+        sms_participant_id: smsParticipantId,
+        phone_number: phoneNumber,
+        role: "member",
+        invited_by_user_id: user.id,
+        expires_at: new Date(
+          Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString(),
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    const inviteUrl = `${appUrl}/invite/${createInviteToken(invitation.id, inviteTokenSecret)}`;
+    const fromNumber = await getSenderNumber(supabase, groupId, phoneNumber);
+
+    await sendSms({
+      accountSid: twilioAccountSid,
+      authToken: twilioAuthToken,
+      from: fromNumber,
+      to: phoneNumber,
+      body: `You're invited to chat with "${groupName}" in the BridgeChat app instead of by text. Sign up with this number: ${inviteUrl}`,
+    });
+
+    console.log(`Sent SMS invitation ${invitation.id} for group ${groupId}`);
+
+    return jsonResponse({ sent: true }, 200);
+  } catch (error) {
+    console.error("Send SMS invitation error:", error);
+    return jsonResponse({ error: "Failed to send invitation" }, 500);
+  }
+});
+
+/**
+ * Signed invitation token; must match createInviteToken in the app
+ * (src/lib/invite-token.ts).
+ */
+function createInviteToken(invitationId: string, secret: string): string {
+  const signature = createHmac("sha256", secret)
+    .update(invitationId)
+    .digest("base64url");
+  return `${invitationId}.${signature}`;
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -5,16 +5,35 @@
  * Called via pg_net from a database trigger or via HTTP.
  *
  * Flow:
- * 1. Receive message ID and group ID
- * 2. Fetch group's Twilio number
- * 3. Fetch SMS participant members
- * 4. Send SMS to each participant via Twilio
- * 5. Update message with Twilio SID and status
+ * 1. Receive message ID and group ID (and `retry` for a manual re-send)
+ * 2. Check the group exists
+ * 3. Fetch SMS participant members, skipping blocked numbers and
+ *    members who opted out or muted the group
+ * 4. Create a pending delivery row per participant
+ *    (on retry, reset failed deliveries to pending instead)
+ * 5. Send SMS to each participant via Twilio from their pool number for
+ *    the group, with attachments as MMS media (or short links where MMS
+ *    isn't supported)
+ * 6. Record each recipient's Twilio SID and status on its delivery
+ *    (the message's aggregate status is recomputed by a trigger)
+ * 7. Hand failed recipients to the retry queue (see sms-worker)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createSupabaseClient } from "../_shared/supabase.ts";
-import { sendSms, mapTwilioStatus } from "../_shared/twilio.ts";
+import {
+  sendSms,
+  mapTwilioStatus,
+  isRetryableTwilioError,
+} from "../_shared/twilio.ts";
+import {
+  describeSendError,
+  recordDeliveryFailure,
+  resetFailedDeliveries,
+} from "../_shared/sms-queue.ts";
+import { getBlockedPhoneNumbers } from "../_shared/blocklist.ts";
+import { getSenderNumber } from "../_shared/number-pool.ts";
+import { getOutboundMedia, buildOutboundSms } from "../_shared/media.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -24,6 +43,8 @@ const corsHeaders = {
 interface SendSmsRequest {
   messageId: string;
   groupId: string;
+  /** Re-send only to recipients whose delivery failed */
+  retry?: boolean;
 }
 
 serve(async (req) => {
@@ -37,13 +58,14 @@ serve(async (req) => {
     const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
     const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
     const statusCallbackUrl = Deno.env.get("TWILIO_STATUS_CALLBACK_URL");
+    const appUrl = Deno.env.get("APP_URL") || "http://localhost:3000";
 
     if (!twilioAccountSid || !twilioAuthToken) {
       throw new Error("Twilio credentials not configured");
     }
 
     // Parse request
-    const { messageId, groupId }: SendSmsRequest = await req.json();
+    const { messageId, groupId, retry = false }: SendSmsRequest = await req.json();
 
     if (!messageId || !groupId) {
       return new Response("Missing messageId or groupId", {
@@ -79,10 +101,10 @@ serve(async (req) => {
       });
     }
 
-    // Fetch the group's Twilio number
+    // Check the group still exists
     const { data: group, error: groupError } = await supabase
       .from("groups")
-      .select("twilio_phone_number")
+      .select("id")
       .eq("id", groupId)
       .single();
 
@@ -103,7 +125,7 @@ serve(async (req) => {
 
     const senderName = sender?.display_name || "Someone";
 
-    // Fetch SMS participant members
+    // Fetch SMS participant members who haven't opted out or muted the group
     const { data: members, error: membersError } = await supabase
       .from("group_members")
       .select(`
@@ -113,17 +135,23 @@ serve(async (req) => {
         )
       `)
       .eq("group_id", groupId)
-      .not("sms_participant_id", "is", null);
+      .not("sms_participant_id", "is", null)
+      .is("sms_opted_out_at", null) // Texted STOP to this group
+      .or(`sms_muted_until.is.null,sms_muted_until.lt.${new Date().toISOString()}`); // Texted #mute
 
     if (membersError) {
       throw membersError;
     }
 
+    // Never text a blocked number, even if it's still a member
+    const blockedNumbers = await getBlockedPhoneNumbers(supabase, groupId);
+
     const smsParticipants = members
       .map((m) => m.sms_participants)
-      .filter((p): p is { id: string; phone_number: string } => p !== null);
+      .filter((p): p is { id: string; phone_number: string } => p !== null)
+      .filter((p) => !blockedNumbers.has(p.phone_number));
 
-    if (smsParticipants.length === 0) {
+    if (smsParticipants.length === 0 && !retry) {
       console.log("No SMS participants in group");
       // Update status to delivered (nothing to send)
       await supabase
@@ -136,61 +164,144 @@ serve(async (req) => {
       });
     }
 
-    // Format message with sender name
-    const smsBody = `${senderName}: ${message.content}`;
+    // Attachments go out as MMS media or short links, per recipient
+    const media = await getOutboundMedia(supabase, messageId, appUrl);
+
+    if (retry) {
+      await resetFailedDeliveries(
+        supabase,
+        messageId,
+        smsParticipants.map((p) => p.id)
+      );
+    } else {
+      // Create a pending delivery per recipient (no-op for existing ones)
+      const { error: deliveriesInsertError } = await supabase
+        .from("message_deliveries")
+        .upsert(
+          smsParticipants.map((p) => ({
+            message_id: messageId,
+            sms_participant_id: p.id,
+            status: "pending",
+          })),
+          { onConflict: "message_id,sms_participant_id", ignoreDuplicates: true }
+        );
+
+      if (deliveriesInsertError) {
+        throw deliveriesInsertError;
+      }
+    }
+
+    const { data: deliveries, error: deliveriesError } = await supabase
+      .from("message_deliveries")
+      .select("id, sms_participant_id, twilio_message_sid")
+      .eq("message_id", messageId);
+
+    if (deliveriesError) {
+      throw deliveriesError;
+    }
+
+    // Deliveries already in the retry queue are owned by sms-worker
+    const { data: queuedJobs, error: queuedJobsError } = await supabase
+      .from("sms_jobs")
+      .select("delivery_id")
+      .in("delivery_id", deliveries.map((d) => d.id));
+
+    if (queuedJobsError) {
+      throw queuedJobsError;
+    }
+
+    const queuedDeliveryIds = new Set(queuedJobs.map((j) => j.delivery_id));
+
+    const phoneByParticipantId = new Map(
+      smsParticipants.map((p) => [p.id, p.phone_number])
+    );
 
     // Send SMS to each participant
-    let firstSid: string | null = null;
-    let worstStatus = "delivered";
     let sentCount = 0;
 
-    for (const participant of smsParticipants) {
+    for (const delivery of deliveries) {
+      // Already handed to Twilio or queued for retry (e.g. duplicate request)
+      if (delivery.twilio_message_sid || queuedDeliveryIds.has(delivery.id)) {
+        continue;
+      }
+
+      const phoneNumber = phoneByParticipantId.get(delivery.sms_participant_id);
+      if (!phoneNumber) continue;
+
       try {
+        // Each recipient texts the group through their own pool number
+        const fromNumber = await getSenderNumber(supabase, groupId, phoneNumber);
+
+        // Format message with sender name
+        const { body, mediaUrls } = buildOutboundSms(
+          senderName,
+          message.content,
+          phoneNumber,
+          media
+        );
+
         const result = await sendSms({
           accountSid: twilioAccountSid,
           authToken: twilioAuthToken,
-          from: group.twilio_phone_number,
-          to: participant.phone_number,
-          body: smsBody,
+          from: fromNumber,
+          to: phoneNumber,
+          body,
+          mediaUrls,
           statusCallback: statusCallbackUrl,
         });
 
-        console.log(`SMS sent to ${participant.phone_number}: ${result.sid}`);
-
-        // Track first SID for the message record
-        if (!firstSid) {
-          firstSid = result.sid;
-        }
-
-        // Track worst status
         const status = mapTwilioStatus(result.status);
+
+        // Twilio accepted the request but rejected the message outright
         if (status === "failed" || status === "undelivered") {
-          worstStatus = status;
-        } else if (worstStatus === "delivered" && status !== "delivered") {
-          worstStatus = status;
+          const retrying = await recordDeliveryFailure(supabase, delivery.id, {
+            code: result.errorCode,
+            message: result.errorMessage,
+            retryable: isRetryableTwilioError(result.errorCode),
+          });
+          console.error(
+            `SMS to ${phoneNumber} ${status} (${result.errorCode}), retrying: ${retrying}`
+          );
+          continue;
         }
 
+        console.log(`SMS sent to ${phoneNumber}: ${result.sid}`);
+
+        await supabase
+          .from("message_deliveries")
+          .update({
+            twilio_message_sid: result.sid,
+            status,
+            error_code: null,
+            error_message: null,
+          })
+          .eq("id", delivery.id);
+
         sentCount++;
       } catch (error) {
-        console.error(`Failed to send SMS to ${participant.phone_number}:`, error);
-        worstStatus = "failed";
+        console.error(`Failed to send SMS to ${phoneNumber}:`, error);
+
+        const retrying = await recordDeliveryFailure(
+          supabase,
+          delivery.id,
+          describeSendError(error)
+        );
+        console.log(`Delivery ${delivery.id} retry scheduled: ${retrying}`);
       }
     }
 
-    // Update message with Twilio SID and status
-    await supabase
+    // Read back the aggregate recomputed from the delivery rows
+    const { data: updated } = await supabase
       .from("messages")
-      .update({
-        twilio_message_sid: firstSid,
-        delivery_status: worstStatus,
-      })
-      .eq("id", messageId);
+      .select("delivery_status")
+      .eq("id", messageId)
+      .single();
 
     return new Response(
       JSON.stringify({
         sent: sentCount,
         total: smsParticipants.length,
-        status: worstStatus,
+        status: updated?.delivery_status ?? null,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,227 @@
+/**
+ * Send Verification Code Edge Function
+ *
+ * Texts a 6-digit code to a phone number the signed-in user wants to
+ * verify. The code is checked by the `verify_phone_code` database function.
+ *
+ * Flow:
+ * 1. Identify the user from their access token
+ * 2. Validate the phone number (E.164)
+ * 3. Refuse if a code was sent to the user or the phone in the last minute,
+ *    or the user or phone has reached its daily limits
+ * 4. Store a hash of a new code with its expiry (replacing any earlier code)
+ * 5. Text the code from a shared pool number
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createSupabaseClient } from "../_shared/supabase.ts";
+import { sendSms } from "../_shared/twilio.ts";
+import { getSharedSenderNumber } from "../_shared/number-pool.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/** How long a code can be used */
+const CODE_TTL_MINUTES = 10;
+
+/** Minimum time between codes for one user or phone */
+const RESEND_COOLDOWN_SECONDS = 60;
+
+/** Codes a phone can be sent per day, across accounts */
+const MAX_CODES_PER_PHONE_PER_DAY = 5;
+
+/** Codes a user can request per day, across phones */
+const MAX_CODES_PER_USER_PER_DAY = 10;
+
+/** Wrong guesses a phone can take per day; must match `verify_phone_code` */
+const MAX_WRONG_CODES_PER_PHONE_PER_DAY = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get Twilio credentials
+    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+
+    if (!twilioAccountSid || !twilioAuthToken) {
+      throw new Error("Twilio credentials not configured");
+    }
+
+    const supabase = createSupabaseClient();
+
+    // Identify the caller
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "") ?? "";
+    const { data: { user } } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { phoneNumber }: { phoneNumber?: string } = await req.json();
+
+    if (!phoneNumber || !E164_PATTERN.test(phoneNumber)) {
+      return jsonResponse({ error: "Invalid phone number" }, 400);
+    }
+
+    // Limit how often a user can trigger texts
+    const { data: previous, error: previousError } = await supabase
+      .from("phone_verifications")
+      .select("sent_at")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (previousError) {
+      throw previousError;
+    }
+
+    const cooldownStart = new Date(Date.now() - RESEND_COOLDOWN_SECONDS * 1000);
+    const recentPhoneCodes = await countVerificationEvents(supabase, {
+      phoneNumber,
+      kind: "code_sent",
+      since: cooldownStart,
+    });
+
+    if ((previous && new Date(previous.sent_at) > cooldownStart) || recentPhoneCodes > 0) {
+      return jsonResponse(
+        { error: "Please wait a minute before requesting another code" },
+        429
+      );
+    }
+
+    // Limit codes and guesses per day, so new codes or other accounts
+    // can't be used to keep guessing at one phone
+    const dayStart = new Date(Date.now() - DAY_MS);
+    const [phoneCodes, userCodes, wrongCodes] = await Promise.all([
+      countVerificationEvents(supabase, { phoneNumber, kind: "code_sent", since: dayStart }),
+      countVerificationEvents(supabase, { userId: user.id, kind: "code_sent", since: dayStart }),
+      countVerificationEvents(supabase, { phoneNumber, kind: "wrong_code", since: dayStart }),
+    ]);
+
+    if (
+      phoneCodes >= MAX_CODES_PER_PHONE_PER_DAY ||
+      userCodes >= MAX_CODES_PER_USER_PER_DAY ||
+      wrongCodes >= MAX_WRONG_CODES_PER_PHONE_PER_DAY
+    ) {
+      return jsonResponse(
+        { error: "Too many codes requested for this number. Try again tomorrow." },
+        429
+      );
+    }
+
+    const code = generateCode();
+    const now = new Date();
+
+    const { error: upsertError } = await supabase
+      .from("phone_verifications")
+      .upsert({
+        user_id: user.id,
+        phone_number: phoneNumber,
+        code_hash: await hashCode(user.id, code),
+        attempts: 0,
+        sent_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+      });
+
+    if (upsertError) {
+      throw upsertError;
+    }
+
+    const { error: eventError } = await supabase
+      .from("phone_verification_events")
+      .insert({ phone_number: phoneNumber, user_id: user.id, kind: "code_sent" });
+
+    if (eventError) {
+      throw eventError;
+    }
+
+    const fromNumber = await getSharedSenderNumber(supabase);
+
+    await sendSms({
+      accountSid: twilioAccountSid,
+      authToken: twilioAuthToken,
+      from: fromNumber,
+      to: phoneNumber,
+      body: `Your BridgeChat verification code is ${code}. It expires in ${CODE_TTL_MINUTES} minutes.`,
+    });
+
+    console.log(`Sent verification code to user ${user.id}`);
+
+    return jsonResponse({ sent: true }, 200);
+  } catch (error) {
+    console.error("Send verification code error:", error);
+    return jsonResponse({ error: "Failed to send verification code" }, 500);
+  }
+});
+
+/**
+ * Counts a phone's or user's verification events since a time.
+ */
+async function countVerificationEvents(
+  supabase: SupabaseClient,
+  filter: {
+    phoneNumber?: string;
+    userId?: string;
+    kind: "code_sent" | "wrong_code";
+    since: Date;
+  }
+): Promise<number> {
+  let query = supabase
+    .from("phone_verification_events")
+    .select("id", { count: "exact", head: true })
+    .eq("kind", filter.kind)
+    .gt("created_at", filter.since.toISOString());
+
+  if (filter.phoneNumber) {
+    query = query.eq("phone_number", filter.phoneNumber);
+  }
+  if (filter.userId) {
+    query = query.eq("user_id", filter.userId);
+  }
+
+  const { count, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * A random 6-digit code, zero-padded.
+ */
+function generateCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return String(value % 1_000_000).padStart(6, "0");
+}
+
+/**
+ * Hash stored for a code; must match `verify_phone_code`.
+ */
+async function hashCode(userId: string, code: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${userId}:${code}`)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function jsonResponse(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,263 @@
+/**
+ * SMS Worker Edge Function
+ *
+ * Drains the outbound SMS retry queue (sms_jobs).
+ * Runs every minute via pg_cron + pg_net (see migration 004_sms_retry_queue).
+ *
+ * Flow:
+ * 1. Claim due jobs (skipping rows locked by a concurrent run)
+ * 2. Load the delivery, message, recipient phone and their pool number
+ * 3. Re-send the SMS via Twilio
+ * 4. On success, record the new SID on the delivery and close the job
+ * 5. On failure, record the attempt: the database schedules the next
+ *    retry with backoff or marks the delivery failed
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createSupabaseClient } from "../_shared/supabase.ts";
+import {
+  sendSms,
+  mapTwilioStatus,
+  isRetryableTwilioError,
+} from "../_shared/twilio.ts";
+import { describeSendError, recordDeliveryFailure } from "../_shared/sms-queue.ts";
+import { getOutboundMedia, buildOutboundSms } from "../_shared/media.ts";
+import { getSenderNumber } from "../_shared/number-pool.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/** Maximum jobs processed per invocation */
+const BATCH_SIZE = 25;
+
+interface SmsJob {
+  id: string;
+  delivery_id: string;
+  attempts: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get Twilio credentials
+    const twilioAccountSid = Deno.env.get("TWILIO_ACCOUNT_SID");
+    const twilioAuthToken = Deno.env.get("TWILIO_AUTH_TOKEN");
+    const statusCallbackUrl = Deno.env.get("TWILIO_STATUS_CALLBACK_URL");
+    const appUrl = Deno.env.get("APP_URL") || "http://localhost:3000";
+
+    if (!twilioAccountSid || !twilioAuthToken) {
+      throw new Error("Twilio credentials not configured");
+    }
+
+    const supabase = createSupabaseClient();
+
+    // Claim due jobs
+    const { data: jobs, error: claimError } = await supabase.rpc(
+      "claim_sms_jobs",
+      { p_limit: BATCH_SIZE }
+    );
+
+    if (claimError) {
+      throw claimError;
+    }
+
+    const counts = { processed: 0, succeeded: 0, rescheduled: 0, failed: 0 };
+
+    for (const job of (jobs || []) as SmsJob[]) {
+      counts.processed++;
+
+      try {
+        // Fetch the delivery with its recipient and message
+        const { data: delivery, error: deliveryError } = await supabase
+          .from("message_deliveries")
+          .select(`
+            id,
+            status,
+            sms_participant_id,
+            sms_participants ( phone_number ),
+            message_id,
+            messages ( group_id, content, sender_user_id )
+          `)
+          .eq("id", job.delivery_id)
+          .single();
+
+        if (deliveryError || !delivery) {
+          throw deliveryError || new Error(`Delivery ${job.delivery_id} not found`);
+        }
+
+        const message = delivery.messages as {
+          group_id: string;
+          content: string;
+          sender_user_id: string | null;
+        } | null;
+        const recipient = delivery.sms_participants as { phone_number: string } | null;
+
+        if (!message || !recipient) {
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: null,
+            message: "Message or recipient no longer exists",
+            retryable: false,
+          });
+          counts.failed++;
+          continue;
+        }
+
+        // Recipient may have left the group since the first attempt
+        const { data: membership } = await supabase
+          .from("group_members")
+          .select("id, sms_opted_out_at, sms_muted_until")
+          .eq("group_id", message.group_id)
+          .eq("sms_participant_id", delivery.sms_participant_id)
+          .maybeSingle();
+
+        if (!membership) {
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: null,
+            message: "Recipient is no longer a member of the group",
+            retryable: false,
+          });
+          counts.failed++;
+          continue;
+        }
+
+        // Recipient may have texted STOP since the first attempt
+        if (membership.sms_opted_out_at) {
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: null,
+            message: "Recipient has opted out of texts from this group",
+            retryable: false,
+          });
+          counts.failed++;
+          continue;
+        }
+
+        // Recipient may have muted the group since the first attempt
+        if (
+          membership.sms_muted_until &&
+          new Date(membership.sms_muted_until) > new Date()
+        ) {
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: null,
+            message: "Recipient has muted this group",
+            retryable: false,
+          });
+          counts.failed++;
+          continue;
+        }
+
+        // Number may have been blocked since the first attempt
+        const { data: isBlocked, error: blockedError } = await supabase.rpc(
+          "is_number_blocked",
+          { p_group_id: message.group_id, p_phone_number: recipient.phone_number }
+        );
+
+        if (blockedError) {
+          throw blockedError;
+        }
+
+        if (isBlocked) {
+          await recordDeliveryFailure(supabase, delivery.id, {
+            code: null,
+            message: "Recipient number is blocked",
+            retryable: false,
+          });
+          counts.failed++;
+          continue;
+        }
+
+        // The recipient's pool number for this group
+        const fromNumber = await getSenderNumber(
+          supabase,
+          message.group_id,
+          recipient.phone_number
+        );
+
+        // Fetch sender profile for display name
+        const { data: sender } = await supabase
+          .from("profiles")
+          .select("display_name")
+          .eq("id", message.sender_user_id)
+          .single();
+
+        const senderName = sender?.display_name || "Someone";
+
+        console.log(
+          `Retrying delivery ${delivery.id} (attempt ${job.attempts + 1})`
+        );
+
+        const media = await getOutboundMedia(supabase, delivery.message_id, appUrl);
+        const { body, mediaUrls } = buildOutboundSms(
+          senderName,
+          message.content,
+          recipient.phone_number,
+          media
+        );
+
+        const result = await sendSms({
+          accountSid: twilioAccountSid,
+          authToken: twilioAuthToken,
+          from: fromNumber,
+          to: recipient.phone_number,
+          body,
+          mediaUrls,
+          statusCallback: statusCallbackUrl,
+        });
+
+        const status = mapTwilioStatus(result.status);
+
+        if (status === "failed" || status === "undelivered") {
+          const retrying = await recordDeliveryFailure(supabase, delivery.id, {
+            code: result.errorCode,
+            message: result.errorMessage,
+            retryable: isRetryableTwilioError(result.errorCode),
+          });
+          counts[retrying ? "rescheduled" : "failed"]++;
+          continue;
+        }
+
+        await supabase
+          .from("message_deliveries")
+          .update({
+            twilio_message_sid: result.sid,
+            status,
+            error_code: null,
+            error_message: null,
+          })
+          .eq("id", delivery.id);
+
+        await supabase
+          .from("sms_jobs")
+          .update({ status: "succeeded", locked_at: null })
+          .eq("id", job.id);
+
+        console.log(`Retry succeeded for delivery ${delivery.id}: ${result.sid}`);
+        counts.succeeded++;
+      } catch (error) {
+        console.error(`Retry failed for delivery ${job.delivery_id}:`, error);
+
+        const retrying = await recordDeliveryFailure(
+          supabase,
+          job.delivery_id,
+          describeSendError(error)
+        );
+        counts[retrying ? "rescheduled" : "failed"]++;
+      }
+    }
+
+    return new Response(JSON.stringify(counts), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("SMS worker error:", error);
+    return new Response("Internal Server Error", {
+      status: 500,
+      headers: corsHeaders,
+    });
+  }
+});
@@ -6,8 +6,10 @@
  * Flow:
  * 1. Validate Twilio signature
  * 2. Parse status callback payload
- * 3. Find message by Twilio SID
- * 4. Update message delivery status
+ * 3. Find the per-recipient delivery by Twilio SID
+ * 4. Carrier failures with a retryable error code go to the retry queue
+ * 5. Otherwise update the delivery status and error details
+ *    (triggers record the transition and recompute the message aggregate)
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -16,7 +18,9 @@ import {
   validateTwilioSignature,
   parseFormBody,
   mapTwilioStatus,
+  isRetryableTwilioError,
 } from "../_shared/twilio.ts";
+import { recordDeliveryFailure } from "../_shared/sms-queue.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -72,9 +76,57 @@ serve(async (req) => {
     // Map Twilio status to our enum
     const deliveryStatus = mapTwilioStatus(messageStatus);
 
-    // Update message in database
+    // Update the recipient's delivery in database
     const supabase = createSupabaseClient();
 
+    // Transient carrier failure: retry instead of failing the delivery
+    if (
+      (deliveryStatus === "failed" || deliveryStatus === "undelivered") &&
+      errorCode &&
+      isRetryableTwilioError(errorCode)
+    ) {
+      const { data: failedDelivery } = await supabase
+        .from("message_deliveries")
+        .select("id")
+        .eq("twilio_message_sid", messageSid)
+        .maybeSingle();
+
+      if (failedDelivery) {
+        const retrying = await recordDeliveryFailure(supabase, failedDelivery.id, {
+          code: errorCode,
+          message: errorMessage || null,
+          retryable: true,
+        });
+        console.log(`Delivery ${failedDelivery.id} retry scheduled: ${retrying}`);
+        return new Response("OK", { status: 200, headers: corsHeaders });
+      }
+    }
+
+    const { data: delivery, error: updateError } = await supabase
+      .from("message_deliveries")
+      .update({
+        status: deliveryStatus,
+        ...(errorCode
+          ? { error_code: errorCode, error_message: errorMessage || null }
+          : {}),
+      })
+      .eq("twilio_message_sid", messageSid)
+      .select("id, message_id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Failed to update delivery status:", updateError);
+      throw updateError;
+    }
+
+    if (delivery) {
+      console.log(
+        `Updated delivery ${delivery.id} (message ${delivery.message_id}) to status ${deliveryStatus}`
+      );
+      return new Response("OK", { status: 200, headers: corsHeaders });
+    }
+
+    // Messages sent before per-recipient tracking stored their SID on the message
     const { data: message, error: findError } = await supabase
       .from("messages")
       .select("id")
@@ -83,19 +135,18 @@ serve(async (req) => {
 
     if (findError || !message) {
       // Message not found - might be a duplicate or old message
-      console.log(`Message not found for SID ${messageSid}`);
+      console.log(`Delivery not found for SID ${messageSid}`);
       return new Response("OK", { status: 200, headers: corsHeaders });
     }
 
-    // Update the status
-    const { error: updateError } = await supabase
+    const { error: legacyUpdateError } = await supabase
       .from("messages")
       .update({ delivery_status: deliveryStatus })
       .eq("id", message.id);
 
-    if (updateError) {
-      console.error("Failed to update message status:", updateError);
-      throw updateError;
+    if (legacyUpdateError) {
+      console.error("Failed to update message status:", legacyUpdateError);
+      throw legacyUpdateError;
     }
 
     console.log(`Updated message ${message.id} to status ${deliveryStatus}`);
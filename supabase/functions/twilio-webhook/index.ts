@@ -5,11 +5,19 @@
  *
  * Flow:
  * 1. Validate Twilio signature
- * 2. Parse SMS payload (From, To, Body)
- * 3. Find group by Twilio number (To field)
- * 4. Find or create SMS participant by phone (From field)
- * 5. Insert message with origin='sms'
- * 6. Return empty TwiML
+ * 2. Parse SMS payload (From, To, Body, and MMS media)
+ * 3. Resolve the group from the (pool number, sender) pair (To, From)
+ * 4. Drop texts from numbers blocked for the group
+ * 5. Find the sender among the group's SMS members (From field)
+ * 6. Handle STOP/START/HELP keywords: update the sender's opt-out state
+ *    and reply with TwiML instead of posting the message
+ * 7. Hold messages from unknown senders in pending_inbound for approval
+ *    (phones linked to an app account in the group post as that account)
+ * 8. Run #commands (#mute, #unmute, #who, #name, #leave) and reply
+ *    with TwiML instead of posting the message
+ * 9. Insert message with origin='sms'
+ * 10. Copy any media into Storage as message attachments
+ * 11. Return empty TwiML
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
@@ -18,7 +26,23 @@ import {
   validateTwilioSignature,
   parseFormBody,
   emptyTwimlResponse,
+  messageTwimlResponse,
 } from "../_shared/twilio.ts";
+import { resolveInboundGroup } from "../_shared/number-pool.ts";
+import { parseComplianceKeyword, complianceReply } from "../_shared/keywords.ts";
+import {
+  parseSmsCommand,
+  formatDuration,
+  SMS_COMMANDS_HELP,
+  type SmsCommand,
+} from "../_shared/commands.ts";
+import {
+  parseInboundMedia,
+  storeInboundMedia,
+  uploadInboundMedia,
+  type InboundMedia,
+} from "../_shared/media.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -59,78 +83,150 @@ serve(async (req) => {
     const to = params.To; // Our Twilio number (E.164)
     const messageBody = params.Body || "";
     const twilioMessageSid = params.MessageSid;
+    const media = parseInboundMedia(params);
 
     if (!from || !to || !twilioMessageSid) {
       console.error("Missing required SMS fields", { from, to, twilioMessageSid });
       return new Response("Bad Request", { status: 400 });
     }
 
-    console.log(`Incoming SMS: ${from} -> ${to}: ${messageBody.substring(0, 50)}...`);
+    console.log(
+      `Incoming SMS: ${from} -> ${to}: ${messageBody.substring(0, 50)}... (${media.length} media)`
+    );
 
     // Initialize Supabase client with service role
     const supabase = createSupabaseClient();
 
-    // Find group by Twilio number
+    // Route by (pool number, sender): each sender has their own number per group
+    const groupId = await resolveInboundGroup(supabase, to, from);
+
+    if (!groupId) {
+      console.error(`No group routed for ${from} via ${to}`);
+      // Return 200 to acknowledge - Twilio will retry on non-2xx
+      return emptyTwimlResponse();
+    }
+
     const { data: group, error: groupError } = await supabase
       .from("groups")
-      .select("id")
-      .eq("twilio_phone_number", to)
+      .select("id, name")
+      .eq("id", groupId)
       .single();
 
     if (groupError || !group) {
-      console.error("Group not found for Twilio number:", to);
-      // Return 200 to acknowledge - Twilio will retry on non-2xx
+      console.error("Group not found:", groupId);
       return emptyTwimlResponse();
     }
 
-    // Find SMS participant by phone
-    let { data: smsParticipant, error: participantError } = await supabase
-      .from("sms_participants")
-      .select("id")
-      .eq("phone_number", from)
-      .single();
+    // Reject blocked senders before touching anything else
+    const { data: isBlocked, error: blockedError } = await supabase.rpc(
+      "is_number_blocked",
+      { p_group_id: group.id, p_phone_number: from }
+    );
 
-    if (participantError && participantError.code !== "PGRST116") {
-      throw participantError;
+    if (blockedError) {
+      throw blockedError;
     }
 
-    // If participant doesn't exist, we can't process the message
-    // (they need to be added by an app user first)
-    if (!smsParticipant) {
-      console.log(`Unknown sender ${from} - participant not registered`);
-      // Could optionally create a "pending" record or notify group admins
+    if (isBlocked) {
+      console.log(`Dropping message from blocked number ${from} to group ${group.id}`);
       return emptyTwimlResponse();
     }
 
-    // Check if participant is a member of this group
+    // Find the sender among the group's SMS members
     const { data: membership, error: membershipError } = await supabase
       .from("group_members")
-      .select("id")
+      .select("id, sms_participant_id, sms_participants!inner ( phone_number )")
       .eq("group_id", group.id)
-      .eq("sms_participant_id", smsParticipant.id)
-      .single();
+      .eq("sms_participants.phone_number", from)
+      .limit(1)
+      .maybeSingle();
+
+    if (membershipError) {
+      throw membershipError;
+    }
+
+    // Compliance keywords are never posted to the group
+    const keyword = parseComplianceKeyword(messageBody);
+    if (keyword) {
+      if (keyword !== "help") {
+        await setSmsOptOut(supabase, {
+          groupId: group.id,
+          phoneNumber: from,
+          membershipId: membership?.id ?? null,
+          optedOut: keyword === "stop",
+        });
 
-    if (membershipError || !membership) {
-      console.log(`SMS participant ${from} is not a member of group ${group.id}`);
+        console.log(`${from} opted ${keyword === "stop" ? "out of" : "in to"} group ${group.id}`);
+      }
+
+      return messageTwimlResponse(complianceReply(keyword, group.name));
+    }
+
+    // A phone linked to an app account in this group posts as that account
+    const linkedSender = membership
+      ? null
+      : await findLinkedSender(supabase, group.id, from);
+
+    // Unknown sender, or a participant who isn't in this group:
+    // hold the message for an owner/admin to approve or block
+    if (!membership?.sms_participant_id && !linkedSender) {
+      await holdInboundMessage(supabase, {
+        groupId: group.id,
+        from,
+        body: messageBody,
+        twilioMessageSid,
+        media,
+        authToken: twilioAuthToken,
+      });
       return emptyTwimlResponse();
     }
 
+    // Membership commands from SMS participants
+    const command = parseSmsCommand(messageBody);
+    if (command && membership?.sms_participant_id) {
+      const reply = await runSmsCommand(supabase, command, {
+        groupId: group.id,
+        groupName: group.name,
+        membershipId: membership.id,
+        smsParticipantId: membership.sms_participant_id,
+      });
+      return messageTwimlResponse(reply);
+    }
+
     // Insert the message
-    const { error: insertError } = await supabase.from("messages").insert({
-      group_id: group.id,
-      origin: "sms",
-      content: messageBody,
-      sender_sms_participant_id: smsParticipant.id,
-      twilio_message_sid: twilioMessageSid,
-    });
+    const { data: message, error: insertError } = await supabase
+      .from("messages")
+      .insert({
+        group_id: group.id,
+        origin: "sms",
+        content: messageBody,
+        sender_sms_participant_id:
+          membership?.sms_participant_id ?? linkedSender?.smsParticipantId,
+        sender_user_id: linkedSender?.userId ?? null,
+        twilio_message_sid: twilioMessageSid,
+      })
+      .select("id")
+      .single();
 
-    if (insertError) {
+    if (insertError || !message) {
       console.error("Failed to insert message:", insertError);
       throw insertError;
     }
 
     console.log(`Message inserted for group ${group.id}`);
 
+    // Store MMS media (the message is already saved if this fails)
+    if (media.length > 0) {
+      const stored = await storeInboundMedia(supabase, {
+        groupId: group.id,
+        messageId: message.id,
+        media,
+        accountSid: Deno.env.get("TWILIO_ACCOUNT_SID"),
+        authToken: twilioAuthToken,
+      });
+      console.log(`Stored ${stored}/${media.length} attachments for message ${message.id}`);
+    }
+
     // Return empty TwiML (no auto-reply)
     return emptyTwimlResponse();
   } catch (error) {
@@ -141,3 +237,226 @@ serve(async (req) => {
     });
   }
 });
+
+/**
+ * Records a STOP (or START) for a phone number in a group.
+ * The opt-out is kept by number, so a sender who isn't a member yet is
+ * opted out when they're added; a member's membership is updated too.
+ */
+async function setSmsOptOut(
+  supabase: SupabaseClient,
+  options: {
+    groupId: string;
+    phoneNumber: string;
+    membershipId: string | null;
+    optedOut: boolean;
+  }
+): Promise<void> {
+  const { error: optOutError } = options.optedOut
+    ? await supabase.from("sms_opt_outs").upsert(
+        { group_id: options.groupId, phone_number: options.phoneNumber },
+        { onConflict: "group_id,phone_number", ignoreDuplicates: true }
+      )
+    : await supabase
+        .from("sms_opt_outs")
+        .delete()
+        .eq("group_id", options.groupId)
+        .eq("phone_number", options.phoneNumber);
+
+  if (optOutError) {
+    throw optOutError;
+  }
+
+  if (!options.membershipId) {
+    return;
+  }
+
+  const { error: memberError } = await supabase
+    .from("group_members")
+    .update({
+      sms_opted_out_at: options.optedOut ? new Date().toISOString() : null,
+    })
+    .eq("id", options.membershipId);
+
+  if (memberError) {
+    throw memberError;
+  }
+}
+
+/**
+ * Finds the app account a phone was linked to, if that account is a
+ * member of the group.
+ */
+async function findLinkedSender(
+  supabase: SupabaseClient,
+  groupId: string,
+  phoneNumber: string
+): Promise<{ smsParticipantId: string; userId: string } | null> {
+  const { data: participant, error } = await supabase
+    .from("sms_participants")
+    .select("id, linked_user_id")
+    .eq("phone_number", phoneNumber)
+    .not("linked_user_id", "is", null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!participant) {
+    return null;
+  }
+
+  const { data: member, error: memberError } = await supabase
+    .from("group_members")
+    .select("id")
+    .eq("group_id", groupId)
+    .eq("user_id", participant.linked_user_id)
+    .maybeSingle();
+
+  if (memberError) {
+    throw memberError;
+  }
+
+  return member
+    ? { smsParticipantId: participant.id, userId: participant.linked_user_id }
+    : null;
+}
+
+/**
+ * Runs an SMS command for a member and returns the reply text.
+ */
+async function runSmsCommand(
+  supabase: SupabaseClient,
+  command: SmsCommand,
+  sender: {
+    groupId: string;
+    groupName: string;
+    membershipId: string;
+    smsParticipantId: string;
+  }
+): Promise<string> {
+  switch (command.kind) {
+    case "mute": {
+      const mutedUntil = new Date(Date.now() + command.durationMs);
+      const { error } = await supabase
+        .from("group_members")
+        .update({ sms_muted_until: mutedUntil.toISOString() })
+        .eq("id", sender.membershipId);
+
+      if (error) throw error;
+
+      return `Muted "${sender.groupName}" for ${formatDuration(command.durationMs)}. Text #unmute to resume.`;
+    }
+
+    case "unmute": {
+      const { error } = await supabase
+        .from("group_members")
+        .update({ sms_muted_until: null })
+        .eq("id", sender.membershipId);
+
+      if (error) throw error;
+
+      return `Unmuted "${sender.groupName}". You'll get texts from the group again.`;
+    }
+
+    case "who": {
+      const { data: members, error } = await supabase
+        .from("group_members")
+        .select(`
+          sms_participant_id,
+          profiles ( display_name ),
+          sms_participants ( display_name )
+        `)
+        .eq("group_id", sender.groupId)
+        .order("joined_at");
+
+      if (error) throw error;
+
+      const names = (members || []).map((m: {
+        sms_participant_id: string | null;
+        profiles: { display_name: string } | null;
+        sms_participants: { display_name: string } | null;
+      }) => {
+        const name =
+          m.profiles?.display_name || m.sms_participants?.display_name || "Unknown";
+        return m.sms_participant_id === sender.smsParticipantId
+          ? `${name} (you)`
+          : name;
+      });
+
+      return `${sender.groupName} (${names.length}): ${names.join(", ")}`;
+    }
+
+    case "name": {
+      const { error } = await supabase
+        .from("sms_participants")
+        .update({ display_name: command.name })
+        .eq("id", sender.smsParticipantId);
+
+      if (error) throw error;
+
+      return `You'll now appear as ${command.name}.`;
+    }
+
+    case "leave": {
+      const { error } = await supabase
+        .from("group_members")
+        .delete()
+        .eq("id", sender.membershipId);
+
+      if (error) throw error;
+
+      console.log(`SMS participant ${sender.smsParticipantId} left group ${sender.groupId}`);
+      return `You've left "${sender.groupName}" and won't get more texts from it.`;
+    }
+
+    case "help":
+      return SMS_COMMANDS_HELP;
+
+    case "invalid":
+      return command.reply;
+  }
+}
+
+/**
+ * Holds a message from an unknown sender until an owner/admin approves
+ * or blocks them.
+ */
+async function holdInboundMessage(
+  supabase: SupabaseClient,
+  options: {
+    groupId: string;
+    from: string;
+    body: string;
+    twilioMessageSid: string;
+    media: InboundMedia[];
+    authToken: string;
+  }
+): Promise<void> {
+  // Copy media now: Twilio URLs may be gone by the time it's approved
+  const storedMedia = await uploadInboundMedia(supabase, {
+    groupId: options.groupId,
+    folder: `pending/${options.twilioMessageSid}`,
+    media: options.media,
+    accountSid: Deno.env.get("TWILIO_ACCOUNT_SID"),
+    authToken: options.authToken,
+  });
+
+  const { error } = await supabase.from("pending_inbound").upsert(
+    {
+      group_id: options.groupId,
+      phone_number: options.from,
+      body: options.body,
+      media: storedMedia,
+      twilio_message_sid: options.twilioMessageSid,
+    },
+    { onConflict: "twilio_message_sid", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  console.log(`Held message from unknown sender ${options.from} for group ${options.groupId}`);
+}
@@ -0,0 +1,121 @@
+-- BridgeChat Per-Recipient Delivery Tracking
+-- One row per (message, SMS participant) with its own Twilio SID and status.
+-- messages.delivery_status becomes an aggregate recomputed from these rows.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Message Deliveries: Outbound SMS attempt for a single recipient
+create table message_deliveries (
+  id uuid primary key default uuid_generate_v4(),
+  message_id uuid not null references messages(id) on delete cascade,
+  sms_participant_id uuid not null references sms_participants(id) on delete cascade,
+  twilio_message_sid text,
+  status delivery_status not null default 'pending',
+  error_code text, -- Twilio ErrorCode from API response or status callback
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- One delivery per recipient per message
+create unique index idx_message_deliveries_recipient
+  on message_deliveries(message_id, sms_participant_id);
+
+-- Status callbacks are routed by SID (critical for twilio-status)
+create unique index idx_message_deliveries_twilio_sid
+  on message_deliveries(twilio_message_sid) where twilio_message_sid is not null;
+
+create index idx_message_deliveries_message on message_deliveries(message_id);
+create index idx_message_deliveries_participant on message_deliveries(sms_participant_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Severity of a delivery status: higher is worse.
+-- The aggregate for a message is the worst status across its recipients.
+create or replace function delivery_status_severity(p_status delivery_status)
+returns integer as $$
+begin
+  return case p_status
+    when 'delivered' then 0
+    when 'sent' then 1
+    when 'queued' then 2
+    when 'pending' then 3
+    when 'undelivered' then 4
+    when 'failed' then 5
+  end;
+end;
+$$ language plpgsql immutable;
+
+-- Recompute messages.delivery_status from its delivery rows
+create or replace function refresh_message_delivery_status(p_message_id uuid)
+returns delivery_status as $$
+declare
+  v_status delivery_status;
+begin
+  select status into v_status
+  from message_deliveries
+  where message_id = p_message_id
+  order by delivery_status_severity(status) desc
+  limit 1;
+
+  -- No recipients: leave the message status untouched
+  if v_status is null then
+    return null;
+  end if;
+
+  update messages
+  set delivery_status = v_status
+  where id = p_message_id
+    and delivery_status is distinct from v_status;
+
+  return v_status;
+end;
+$$ language plpgsql security definer;
+
+-- Trigger wrapper for refresh_message_delivery_status
+create or replace function handle_message_delivery_change()
+returns trigger as $$
+begin
+  perform refresh_message_delivery_status(new.message_id);
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger set_message_deliveries_updated_at
+  before update on message_deliveries
+  for each row execute function update_updated_at_column();
+
+create trigger on_message_delivery_change
+  after insert or update of status on message_deliveries
+  for each row execute function handle_message_delivery_change();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table message_deliveries enable row level security;
+
+create policy "Users can view deliveries for messages in their groups"
+  on message_deliveries for select
+  using (
+    exists (
+      select 1 from messages m
+      where m.id = message_deliveries.message_id
+        and is_group_member(m.group_id, auth.uid())
+    )
+  );
+
+-- Note: Deliveries are inserted and updated via service role (bypasses RLS)
+
+-- ============================================================================
+-- REALTIME SUBSCRIPTIONS
+-- ============================================================================
+
+alter publication supabase_realtime add table message_deliveries;
@@ -0,0 +1,69 @@
+-- BridgeChat Delivery Details
+-- Keeps Twilio's error message alongside the error code, and records every
+-- status transition of a delivery so the app can show when each happened.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Twilio ErrorMessage from the API response or status callback
+alter table message_deliveries add column error_message text;
+
+-- Message Delivery Events: Append-only history of a delivery's statuses
+create table message_delivery_events (
+  id uuid primary key default uuid_generate_v4(),
+  delivery_id uuid not null references message_deliveries(id) on delete cascade,
+  status delivery_status not null,
+  error_code text,
+  error_message text,
+  created_at timestamptz not null default now()
+);
+
+create index idx_message_delivery_events_delivery
+  on message_delivery_events(delivery_id, created_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Append a history row when a delivery is created or its status/error changes
+create or replace function record_message_delivery_event()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT'
+    or new.status is distinct from old.status
+    or new.error_code is distinct from old.error_code
+  then
+    insert into message_delivery_events (delivery_id, status, error_code, error_message)
+    values (new.id, new.status, new.error_code, new.error_message);
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger on_message_delivery_event
+  after insert or update on message_deliveries
+  for each row execute function record_message_delivery_event();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table message_delivery_events enable row level security;
+
+create policy "Users can view delivery events for messages in their groups"
+  on message_delivery_events for select
+  using (
+    exists (
+      select 1 from message_deliveries d
+      join messages m on m.id = d.message_id
+      where d.id = message_delivery_events.delivery_id
+        and is_group_member(m.group_id, auth.uid())
+    )
+  );
+
+-- Note: Events are written by trigger only
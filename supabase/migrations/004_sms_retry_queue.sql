@@ -0,0 +1,198 @@
+-- BridgeChat Outbound SMS Retry Queue
+-- Failed deliveries with a retryable Twilio error are re-sent by the
+-- sms-worker edge function with exponential backoff. A delivery only
+-- becomes 'failed' once the error is permanent or attempts are exhausted.
+--
+-- pg_cron runs the worker every minute through pg_net. The worker is
+-- configured per database; the job does nothing until both settings are set:
+--   alter database postgres set app.sms_worker_url = 'https://<project>.supabase.co/functions/v1/sms-worker';
+--   alter database postgres set app.service_role_key = '<SUPABASE_SERVICE_ROLE_KEY>';
+
+create extension if not exists pg_net with schema extensions;
+create extension if not exists pg_cron;
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+create type sms_job_status as enum (
+  'scheduled',   -- Waiting for next_attempt_at
+  'processing',  -- Claimed by a worker
+  'succeeded',   -- Twilio accepted a retry
+  'failed'       -- Permanent error or attempts exhausted
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- SMS Jobs: Retry state for a single delivery
+create table sms_jobs (
+  id uuid primary key default uuid_generate_v4(),
+  delivery_id uuid not null references message_deliveries(id) on delete cascade,
+  status sms_job_status not null default 'scheduled',
+  attempts integer not null default 0, -- Send attempts so far, including the first
+  max_attempts integer not null,
+  next_attempt_at timestamptz not null default now(),
+  last_error_code text,
+  last_error_message text,
+  locked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  constraint sms_jobs_max_attempts_positive check (max_attempts > 0)
+);
+
+-- One job per delivery
+create unique index idx_sms_jobs_delivery on sms_jobs(delivery_id);
+
+-- Worker polling
+create index idx_sms_jobs_due on sms_jobs(next_attempt_at) where status = 'scheduled';
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Record a failed send attempt for a delivery.
+-- Schedules a retry with exponential backoff if the error is retryable and
+-- attempts remain; otherwise marks the job and the delivery as failed.
+-- Returns true if a retry was scheduled.
+create or replace function record_delivery_failure(
+  p_delivery_id uuid,
+  p_error_code text,
+  p_error_message text,
+  p_retryable boolean,
+  p_max_attempts integer,
+  p_base_delay_seconds integer
+)
+returns boolean as $$
+declare
+  v_attempts integer;
+  v_max_attempts integer;
+begin
+  insert into sms_jobs (delivery_id, max_attempts)
+  values (p_delivery_id, p_max_attempts)
+  on conflict (delivery_id) do nothing;
+
+  update sms_jobs
+  set attempts = attempts + 1,
+      last_error_code = p_error_code,
+      last_error_message = p_error_message,
+      locked_at = null
+  where delivery_id = p_delivery_id
+  returning attempts, max_attempts into v_attempts, v_max_attempts;
+
+  if p_retryable and v_attempts < v_max_attempts then
+    update sms_jobs
+    set status = 'scheduled',
+        next_attempt_at = now()
+          + make_interval(secs => p_base_delay_seconds * power(2, v_attempts - 1))
+    where delivery_id = p_delivery_id;
+
+    -- Keep the delivery in flight so the message doesn't show as failed yet
+    update message_deliveries
+    set status = 'pending',
+        twilio_message_sid = null,
+        error_code = p_error_code,
+        error_message = p_error_message
+    where id = p_delivery_id;
+
+    return true;
+  end if;
+
+  update sms_jobs
+  set status = 'failed'
+  where delivery_id = p_delivery_id;
+
+  update message_deliveries
+  set status = 'failed',
+      error_code = p_error_code,
+      error_message = p_error_message
+  where id = p_delivery_id;
+
+  return false;
+end;
+$$ language plpgsql security definer;
+
+-- Claim due jobs for a worker run.
+-- Jobs stuck in 'processing' (crashed worker) are reclaimed after 5 minutes.
+create or replace function claim_sms_jobs(p_limit integer)
+returns setof sms_jobs as $$
+begin
+  return query
+  update sms_jobs
+  set status = 'processing',
+      locked_at = now()
+  where id in (
+    select id from sms_jobs
+    where (status = 'scheduled' and next_attempt_at <= now())
+       or (status = 'processing' and locked_at < now() - interval '5 minutes')
+    order by next_attempt_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+end;
+$$ language plpgsql security definer;
+
+-- Invoke the sms-worker edge function if any job is due
+create or replace function run_sms_worker()
+returns void as $$
+declare
+  v_url text := current_setting('app.sms_worker_url', true);
+  v_key text := current_setting('app.service_role_key', true);
+begin
+  if coalesce(v_url, '') = '' or coalesce(v_key, '') = '' then
+    return;
+  end if;
+
+  -- Same condition as claim_sms_jobs; skips the call on idle minutes
+  if not exists (
+    select 1 from sms_jobs
+    where (status = 'scheduled' and next_attempt_at <= now())
+       or (status = 'processing' and locked_at < now() - interval '5 minutes')
+  ) then
+    return;
+  end if;
+
+  perform net.http_post(
+    url := v_url,
+    body := '{}'::jsonb,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_key
+    )
+  );
+end;
+$$ language plpgsql security definer;
+
+-- The queue is driven by the app's server and edge functions only
+revoke execute on function record_delivery_failure(uuid, text, text, boolean, integer, integer)
+  from public, anon, authenticated;
+revoke execute on function claim_sms_jobs(integer) from public, anon, authenticated;
+revoke execute on function run_sms_worker() from public, anon, authenticated;
+grant execute on function record_delivery_failure(uuid, text, text, boolean, integer, integer)
+  to service_role;
+grant execute on function claim_sms_jobs(integer) to service_role;
+grant execute on function run_sms_worker() to service_role;
+
+-- ============================================================================
+-- SCHEDULE
+-- ============================================================================
+
+select cron.schedule('sms-worker', '* * * * *', 'select run_sms_worker()');
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger set_sms_jobs_updated_at
+  before update on sms_jobs
+  for each row execute function update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Service role only: no policies for app users
+alter table sms_jobs enable row level security;
@@ -0,0 +1,56 @@
+-- BridgeChat Message Attachments
+-- Media (MMS) attached to messages. Files live in the private
+-- 'message-attachments' storage bucket under {group_id}/{message_id}/.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Message Attachments: One row per media file on a message
+create table message_attachments (
+  id uuid primary key default uuid_generate_v4(),
+  message_id uuid not null references messages(id) on delete cascade,
+  group_id uuid not null references groups(id) on delete cascade, -- Denormalized for realtime filters and storage paths
+  storage_path text not null unique, -- Object path in the message-attachments bucket
+  content_type text not null,
+  file_name text,
+  size_bytes bigint,
+  created_at timestamptz not null default now()
+);
+
+create index idx_message_attachments_message on message_attachments(message_id);
+create index idx_message_attachments_group on message_attachments(group_id);
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+insert into storage.buckets (id, name, public)
+values ('message-attachments', 'message-attachments', false)
+on conflict (id) do nothing;
+
+-- Paths are {group_id}/{message_id}/{file}; the first folder scopes access
+create policy "Users can view attachments in their groups"
+  on storage.objects for select
+  using (
+    bucket_id = 'message-attachments'
+    and is_group_member(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table message_attachments enable row level security;
+
+create policy "Users can view attachments in their groups"
+  on message_attachments for select
+  using (is_group_member(group_id, auth.uid()));
+
+-- Note: Inbound media is stored by the twilio-webhook function (service role)
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+alter publication supabase_realtime add table message_attachments;
@@ -0,0 +1,34 @@
+-- BridgeChat Outbound Attachments
+-- App users upload files to {group_id}/uploads/{user_id}/ in the
+-- message-attachments bucket, then attach them to messages they send.
+-- SMS participants receive them as MMS, or as short links where MMS
+-- isn't supported (served by the app's /m/{attachment_id} route).
+
+-- ============================================================================
+-- STORAGE
+-- ============================================================================
+
+create policy "Users can upload attachments to their groups"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'message-attachments'
+    and (storage.foldername(name))[2] = 'uploads'
+    and (storage.foldername(name))[3] = auth.uid()::text
+    and is_group_member(((storage.foldername(name))[1])::uuid, auth.uid())
+  );
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+create policy "Users can attach their uploads to their own messages"
+  on message_attachments for insert
+  with check (
+    storage_path like group_id::text || '/uploads/' || auth.uid()::text || '/%'
+    and exists (
+      select 1 from messages m
+      where m.id = message_attachments.message_id
+        and m.group_id = message_attachments.group_id
+        and m.sender_user_id = auth.uid()
+    )
+  );
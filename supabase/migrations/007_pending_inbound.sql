@@ -0,0 +1,167 @@
+-- BridgeChat Pending Inbound Messages
+-- Texts to a group's number from unknown senders (no SMS participant, or
+-- a participant who isn't a member) are held here instead of discarded.
+-- Group owners/admins approve the sender (adding them to the group and
+-- releasing their messages) or block them.
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+create type pending_inbound_status as enum (
+  'pending',   -- Waiting for an owner/admin
+  'approved',  -- Sender added; message released into the group
+  'blocked'    -- Sender blocked; message discarded
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Pending Inbound: One held SMS from an unknown sender
+create table pending_inbound (
+  id uuid primary key default uuid_generate_v4(),
+  group_id uuid not null references groups(id) on delete cascade,
+  phone_number text not null,
+  body text not null,
+  -- Media already copied to storage: [{storage_path, content_type, file_name, size_bytes}]
+  media jsonb not null default '[]'::jsonb,
+  twilio_message_sid text not null unique,
+  status pending_inbound_status not null default 'pending',
+  received_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  resolved_by_user_id uuid references profiles(id) on delete set null,
+  message_id uuid references messages(id) on delete set null, -- Set when released
+
+  constraint pending_inbound_phone_format
+    check (phone_number ~ '^\+[1-9]\d{7,14}$')
+);
+
+create index idx_pending_inbound_group on pending_inbound(group_id, status);
+create index idx_pending_inbound_sender on pending_inbound(group_id, phone_number);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Approve an unknown sender: find or create their SMS participant, add them
+-- to the group, and release all their pending messages into the group.
+-- Only owners/admins of the group may approve. Returns the participant ID.
+create or replace function approve_pending_sender(
+  p_group_id uuid,
+  p_phone_number text,
+  p_display_name text
+)
+returns uuid as $$
+declare
+  v_role group_member_role;
+  v_participant_id uuid;
+  v_pending pending_inbound%rowtype;
+  v_message_id uuid;
+begin
+  v_role := get_group_role(p_group_id, auth.uid());
+  if v_role is null or v_role not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can approve senders';
+  end if;
+
+  -- Reuse an existing participant for this number, if any
+  select id into v_participant_id
+  from sms_participants
+  where phone_number = p_phone_number
+  order by created_at
+  limit 1;
+
+  if v_participant_id is null then
+    insert into sms_participants (phone_number, display_name, created_by_user_id)
+    values (
+      p_phone_number,
+      coalesce(nullif(trim(p_display_name), ''), p_phone_number),
+      auth.uid()
+    )
+    returning id into v_participant_id;
+  end if;
+
+  insert into group_members (group_id, sms_participant_id)
+  values (p_group_id, v_participant_id)
+  on conflict do nothing;
+
+  -- Release held messages in the order they arrived
+  for v_pending in
+    select * from pending_inbound
+    where group_id = p_group_id
+      and phone_number = p_phone_number
+      and status = 'pending'
+    order by received_at
+  loop
+    insert into messages (
+      group_id, origin, content, sender_sms_participant_id,
+      twilio_message_sid, created_at
+    )
+    values (
+      p_group_id, 'sms', v_pending.body, v_participant_id,
+      v_pending.twilio_message_sid, v_pending.received_at
+    )
+    returning id into v_message_id;
+
+    insert into message_attachments (
+      message_id, group_id, storage_path, content_type, file_name, size_bytes
+    )
+    select
+      v_message_id,
+      p_group_id,
+      m->>'storage_path',
+      m->>'content_type',
+      m->>'file_name',
+      (m->>'size_bytes')::bigint
+    from jsonb_array_elements(v_pending.media) as m;
+
+    update pending_inbound
+    set status = 'approved',
+        resolved_at = now(),
+        resolved_by_user_id = auth.uid(),
+        message_id = v_message_id
+    where id = v_pending.id;
+  end loop;
+
+  return v_participant_id;
+end;
+$$ language plpgsql security definer;
+
+-- Block an unknown sender: discard their pending messages to the group.
+-- Only owners/admins of the group may block. Held texts are never edited
+-- directly, so they can't be rewritten before being approved.
+create or replace function block_pending_sender(
+  p_group_id uuid,
+  p_phone_number text
+)
+returns void as $$
+declare
+  v_role group_member_role;
+begin
+  v_role := get_group_role(p_group_id, auth.uid());
+  if v_role is null or v_role not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can block senders';
+  end if;
+
+  update pending_inbound
+  set status = 'blocked',
+      resolved_at = now(),
+      resolved_by_user_id = auth.uid()
+  where group_id = p_group_id
+    and phone_number = p_phone_number
+    and status = 'pending';
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table pending_inbound enable row level security;
+
+create policy "Group owners and admins can view pending inbound"
+  on pending_inbound for select
+  using (get_group_role(group_id, auth.uid()) in ('owner', 'admin'));
+
+-- Note: Rows are inserted by the twilio-webhook function (service role)
+-- and resolved through approve_pending_sender and block_pending_sender
@@ -0,0 +1,155 @@
+-- BridgeChat Blocked Numbers
+-- Phone numbers that may not text into, or be texted from, a group.
+-- A block is scoped either to one group (set by its owners/admins) or to a
+-- user (applies to every group that user owns). Blocked numbers are removed
+-- from affected groups and cannot be re-added while the block stands.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Blocked Numbers: One row per (scope, phone number)
+create table blocked_numbers (
+  id uuid primary key default uuid_generate_v4(),
+  phone_number text not null,
+  group_id uuid references groups(id) on delete cascade,   -- Group scope
+  user_id uuid references profiles(id) on delete cascade,  -- User scope
+  blocked_by_user_id uuid references profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+
+  constraint blocked_numbers_phone_format
+    check (phone_number ~ '^\+[1-9]\d{7,14}$'),
+  -- Exactly one scope
+  constraint blocked_numbers_one_scope
+    check ((group_id is null) <> (user_id is null))
+);
+
+create unique index idx_blocked_numbers_group
+  on blocked_numbers(group_id, phone_number) where group_id is not null;
+create unique index idx_blocked_numbers_user
+  on blocked_numbers(user_id, phone_number) where user_id is not null;
+create index idx_blocked_numbers_phone on blocked_numbers(phone_number);
+
+-- Carry over senders blocked from a group's Requests
+insert into blocked_numbers (phone_number, group_id, blocked_by_user_id, created_at)
+select distinct on (group_id, phone_number)
+  phone_number, group_id, resolved_by_user_id, coalesce(resolved_at, received_at)
+from pending_inbound
+where status = 'blocked'
+order by group_id, phone_number, resolved_at;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Phone numbers blocked for a group: its own blocks plus the personal
+-- blocks of its owners
+create or replace function get_blocked_phone_numbers(p_group_id uuid)
+returns table (phone_number text) as $$
+  select b.phone_number
+  from blocked_numbers b
+  where b.group_id = p_group_id
+  union
+  select b.phone_number
+  from blocked_numbers b
+  join group_members gm on gm.user_id = b.user_id
+  where gm.group_id = p_group_id
+    and gm.role = 'owner';
+$$ language sql security definer stable;
+
+-- Check whether a phone number is blocked for a group
+create or replace function is_number_blocked(p_group_id uuid, p_phone_number text)
+returns boolean as $$
+  select exists (
+    select 1 from get_blocked_phone_numbers(p_group_id) b
+    where b.phone_number = p_phone_number
+  );
+$$ language sql security definer stable;
+
+-- These read across groups and owners' personal blocks, so only the
+-- service role (edge functions, server actions) may call them
+revoke execute on function get_blocked_phone_numbers(uuid) from public, anon, authenticated;
+revoke execute on function is_number_blocked(uuid, text) from public, anon, authenticated;
+grant execute on function get_blocked_phone_numbers(uuid) to service_role;
+grant execute on function is_number_blocked(uuid, text) to service_role;
+
+-- Remove a newly blocked number from the groups the block applies to
+create or replace function remove_blocked_sms_members()
+returns trigger as $$
+begin
+  delete from group_members gm
+  using sms_participants sp
+  where gm.sms_participant_id = sp.id
+    and sp.phone_number = new.phone_number
+    and (
+      gm.group_id = new.group_id
+      or gm.group_id in (
+        select owner.group_id from group_members owner
+        where owner.user_id = new.user_id and owner.role = 'owner'
+      )
+    );
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Reject adding a blocked number to a group
+create or replace function prevent_blocked_sms_member()
+returns trigger as $$
+begin
+  if new.sms_participant_id is not null and exists (
+    select 1 from sms_participants sp
+    where sp.id = new.sms_participant_id
+      and is_number_blocked(new.group_id, sp.phone_number)
+  ) then
+    raise exception 'This phone number is blocked in this group';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger remove_blocked_sms_members_on_block
+  after insert on blocked_numbers
+  for each row execute function remove_blocked_sms_members();
+
+create trigger prevent_blocked_sms_member_on_insert
+  before insert on group_members
+  for each row execute function prevent_blocked_sms_member();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table blocked_numbers enable row level security;
+
+create policy "Users can view their own blocked numbers"
+  on blocked_numbers for select
+  using (user_id = auth.uid());
+
+create policy "Group owners and admins can view group blocked numbers"
+  on blocked_numbers for select
+  using (get_group_role(group_id, auth.uid()) in ('owner', 'admin'));
+
+create policy "Users can block numbers for themselves"
+  on blocked_numbers for insert
+  with check (user_id = auth.uid() and blocked_by_user_id = auth.uid());
+
+create policy "Group owners and admins can block numbers for a group"
+  on blocked_numbers for insert
+  with check (
+    get_group_role(group_id, auth.uid()) in ('owner', 'admin')
+    and blocked_by_user_id = auth.uid()
+  );
+
+create policy "Users can unblock their own blocked numbers"
+  on blocked_numbers for delete
+  using (user_id = auth.uid());
+
+create policy "Group owners and admins can unblock group numbers"
+  on blocked_numbers for delete
+  using (get_group_role(group_id, auth.uid()) in ('owner', 'admin'));
@@ -0,0 +1,63 @@
+-- BridgeChat SMS Opt-Out
+-- Carrier-required keyword handling. An SMS participant who texts STOP (or
+-- an equivalent keyword) to a group's number is opted out of that group:
+-- they stay a member but receive no texts from it until they text START.
+-- A sender who isn't a member yet is opted out by phone number.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table group_members
+  add column sms_opted_out_at timestamptz; -- Set while an SMS member is opted out
+
+-- Only SMS memberships can be opted out
+alter table group_members
+  add constraint group_members_opt_out_sms_only
+  check (sms_opted_out_at is null or sms_participant_id is not null);
+
+-- Opt-outs by phone number, so a sender who texts STOP before they're a
+-- member (e.g. while their message waits in Requests) stays opted out if
+-- they're added later. Written only by the webhook (service role).
+create table sms_opt_outs (
+  group_id uuid not null references groups(id) on delete cascade,
+  phone_number text not null,
+  created_at timestamptz not null default now(),
+
+  primary key (group_id, phone_number)
+);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Carry a number's opt-out over to its new SMS membership
+create or replace function apply_sms_opt_out()
+returns trigger as $$
+begin
+  if new.sms_participant_id is not null and new.sms_opted_out_at is null then
+    select o.created_at into new.sms_opted_out_at
+    from sms_opt_outs o
+    join sms_participants sp on sp.phone_number = o.phone_number
+    where sp.id = new.sms_participant_id
+      and o.group_id = new.group_id;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger apply_sms_opt_out_on_insert
+  before insert on group_members
+  for each row execute function apply_sms_opt_out();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- No policies: only the service role reads or writes opt-outs
+alter table sms_opt_outs enable row level security;
@@ -0,0 +1,15 @@
+-- BridgeChat SMS Commands
+-- SMS participants can manage their membership by text (#mute, #unmute,
+-- #who, #name, #leave). Muting pauses texts from one group for a while.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table group_members
+  add column sms_muted_until timestamptz; -- No texts from the group until then
+
+-- Only SMS memberships can be muted by text
+alter table group_members
+  add constraint group_members_mute_sms_only
+  check (sms_muted_until is null or sms_participant_id is not null);
@@ -0,0 +1,187 @@
+-- BridgeChat Shared Twilio Number Pool
+-- Groups no longer own a Twilio number. Numbers live in a shared pool and
+-- each can serve many groups: an SMS participant is assigned a pool number
+-- per group, distinct across their groups, so inbound texts are routed by
+-- the (pool number, sender phone) pair.
+--
+-- Add numbers to the pool with:
+--   insert into twilio_numbers (phone_number) values ('+14155551234');
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Twilio Numbers: The shared pool
+create table twilio_numbers (
+  id uuid primary key default uuid_generate_v4(),
+  phone_number text not null unique,
+  is_active boolean not null default true, -- Inactive numbers get no new assignments
+  created_at timestamptz not null default now(),
+
+  constraint twilio_numbers_phone_format
+    check (phone_number ~ '^\+[1-9]\d{7,14}$')
+);
+
+-- SMS Routes: The pool number an SMS phone uses for one group.
+-- Kept when the participant leaves, so later texts still reach the group
+-- (and are held for approval).
+create table sms_routes (
+  id uuid primary key default uuid_generate_v4(),
+  twilio_number_id uuid not null references twilio_numbers(id) on delete cascade,
+  group_id uuid not null references groups(id) on delete cascade,
+  phone_number text not null, -- The SMS participant's phone (E.164)
+  created_at timestamptz not null default now(),
+
+  constraint sms_routes_phone_format
+    check (phone_number ~ '^\+[1-9]\d{7,14}$')
+);
+
+-- Inbound routing: a pool number identifies one group per sender
+create unique index idx_sms_routes_inbound on sms_routes(twilio_number_id, phone_number);
+-- Outbound: one number per (group, recipient)
+create unique index idx_sms_routes_outbound on sms_routes(group_id, phone_number);
+
+-- Move each group's dedicated number into the pool, keeping existing
+-- SMS members on the number they already text
+insert into twilio_numbers (phone_number)
+select distinct twilio_phone_number from groups;
+
+insert into sms_routes (twilio_number_id, group_id, phone_number)
+select distinct on (g.id, sp.phone_number) tn.id, g.id, sp.phone_number
+from groups g
+join twilio_numbers tn on tn.phone_number = g.twilio_phone_number
+join group_members gm on gm.group_id = g.id
+join sms_participants sp on sp.id = gm.sms_participant_id;
+
+drop index idx_groups_twilio_phone;
+alter table groups drop constraint groups_twilio_phone_format;
+alter table groups drop column twilio_phone_number;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Number assignment: the pool number to text a phone from for a group.
+-- Returns the existing route, or assigns the least used active number that
+-- the phone doesn't already use for another group.
+create or replace function assign_sms_route(p_group_id uuid, p_phone_number text)
+returns text as $$
+declare
+  v_number text;
+  v_number_id uuid;
+begin
+  -- Existing route (numbers stay assigned even if deactivated)
+  select tn.phone_number into v_number
+  from sms_routes r
+  join twilio_numbers tn on tn.id = r.twilio_number_id
+  where r.group_id = p_group_id and r.phone_number = p_phone_number;
+
+  if v_number is not null then
+    return v_number;
+  end if;
+
+  -- Serialize assignments for this phone so two groups can't race for
+  -- the same number
+  perform pg_advisory_xact_lock(hashtext('sms_route:' || p_phone_number));
+
+  select tn.id, tn.phone_number into v_number_id, v_number
+  from twilio_numbers tn
+  left join sms_routes r on r.twilio_number_id = tn.id
+  where tn.is_active
+    and not exists (
+      select 1 from sms_routes used
+      where used.twilio_number_id = tn.id
+        and used.phone_number = p_phone_number
+    )
+  group by tn.id, tn.phone_number
+  order by count(r.id), tn.created_at
+  limit 1;
+
+  if v_number_id is null then
+    raise exception 'No Twilio numbers available for %: add numbers to the pool', p_phone_number;
+  end if;
+
+  insert into sms_routes (twilio_number_id, group_id, phone_number)
+  values (v_number_id, p_group_id, p_phone_number)
+  on conflict (group_id, phone_number) do nothing;
+
+  -- A concurrent call for the same (group, phone) may have won
+  select tn.phone_number into v_number
+  from sms_routes r
+  join twilio_numbers tn on tn.id = r.twilio_number_id
+  where r.group_id = p_group_id and r.phone_number = p_phone_number;
+
+  return v_number;
+end;
+$$ language plpgsql security definer;
+
+-- Inbound routing: the group a sender reaches by texting a pool number.
+-- A sender without a route (someone new texting in) reaches the number's
+-- group if it only serves one, so their text can be held for review.
+create or replace function resolve_sms_route(p_twilio_number text, p_phone_number text)
+returns uuid as $$
+  select coalesce(
+    (
+      select r.group_id
+      from sms_routes r
+      join twilio_numbers tn on tn.id = r.twilio_number_id
+      where tn.phone_number = p_twilio_number
+        and r.phone_number = p_phone_number
+    ),
+    (
+      select min(r.group_id::text)::uuid
+      from sms_routes r
+      join twilio_numbers tn on tn.id = r.twilio_number_id
+      where tn.phone_number = p_twilio_number
+      having count(distinct r.group_id) = 1
+    )
+  );
+$$ language sql security definer stable;
+
+-- Routing reads and assigns numbers for any group and phone, so only the
+-- service role (edge functions, the send-sms route) and triggers may call it
+revoke execute on function assign_sms_route(uuid, text) from public, anon, authenticated;
+revoke execute on function resolve_sms_route(text, text) from public, anon, authenticated;
+grant execute on function assign_sms_route(uuid, text) to service_role;
+grant execute on function resolve_sms_route(text, text) to service_role;
+
+-- Assign a number when an SMS participant joins a group
+create or replace function assign_sms_route_for_member()
+returns trigger as $$
+begin
+  if new.sms_participant_id is not null then
+    perform assign_sms_route(
+      new.group_id,
+      (select phone_number from sms_participants where id = new.sms_participant_id)
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger assign_sms_route_on_member_insert
+  after insert on group_members
+  for each row execute function assign_sms_route_for_member();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table twilio_numbers enable row level security;
+alter table sms_routes enable row level security;
+
+create policy "Authenticated users can view pool numbers"
+  on twilio_numbers for select
+  using (auth.uid() is not null);
+
+create policy "Users can view SMS routes in their groups"
+  on sms_routes for select
+  using (is_group_member(group_id, auth.uid()));
+
+-- Note: Pool numbers are managed with the service role; routes are only
+-- created by assign_sms_route
@@ -0,0 +1,109 @@
+-- BridgeChat Provisioned Twilio Numbers
+-- A group can get its own Twilio number, bought when the group is created
+-- and released when it's deleted. The number joins the pool reserved for
+-- that group: its SMS participants are assigned it before shared numbers.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table twilio_numbers
+  -- Group the number was bought for. If the group is deleted without
+  -- releasing the number, it becomes a shared pool number.
+  add column group_id uuid references groups(id) on delete set null,
+  add column twilio_sid text unique; -- Incoming phone number SID (PN...), for release
+
+create index idx_twilio_numbers_group on twilio_numbers(group_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Number assignment (replaces 011, keeping its service-role-only grants):
+-- prefer the group's own numbers, never hand out another group's number
+create or replace function assign_sms_route(p_group_id uuid, p_phone_number text)
+returns text as $$
+declare
+  v_number text;
+  v_number_id uuid;
+begin
+  -- Existing route (numbers stay assigned even if deactivated)
+  select tn.phone_number into v_number
+  from sms_routes r
+  join twilio_numbers tn on tn.id = r.twilio_number_id
+  where r.group_id = p_group_id and r.phone_number = p_phone_number;
+
+  if v_number is not null then
+    return v_number;
+  end if;
+
+  -- Serialize assignments for this phone so two groups can't race for
+  -- the same number
+  perform pg_advisory_xact_lock(hashtext('sms_route:' || p_phone_number));
+
+  select tn.id, tn.phone_number into v_number_id, v_number
+  from twilio_numbers tn
+  left join sms_routes r on r.twilio_number_id = tn.id
+  where tn.is_active
+    and (tn.group_id is null or tn.group_id = p_group_id)
+    and not exists (
+      select 1 from sms_routes used
+      where used.twilio_number_id = tn.id
+        and used.phone_number = p_phone_number
+    )
+  group by tn.id, tn.phone_number, tn.group_id
+  order by (tn.group_id is not null) desc, count(r.id), tn.created_at
+  limit 1;
+
+  if v_number_id is null then
+    raise exception 'No Twilio numbers available for %: add numbers to the pool', p_phone_number;
+  end if;
+
+  insert into sms_routes (twilio_number_id, group_id, phone_number)
+  values (v_number_id, p_group_id, p_phone_number)
+  on conflict (group_id, phone_number) do nothing;
+
+  -- A concurrent call for the same (group, phone) may have won
+  select tn.phone_number into v_number
+  from sms_routes r
+  join twilio_numbers tn on tn.id = r.twilio_number_id
+  where r.group_id = p_group_id and r.phone_number = p_phone_number;
+
+  return v_number;
+end;
+$$ language plpgsql security definer;
+
+-- Inbound routing (replaces 011, keeping its service-role-only grants): a
+-- sender without a route reaches the group the number was bought for, or
+-- else the only group the number serves
+create or replace function resolve_sms_route(p_twilio_number text, p_phone_number text)
+returns uuid as $$
+  select coalesce(
+    (
+      select r.group_id
+      from sms_routes r
+      join twilio_numbers tn on tn.id = r.twilio_number_id
+      where tn.phone_number = p_twilio_number
+        and r.phone_number = p_phone_number
+    ),
+    (
+      select tn.group_id
+      from twilio_numbers tn
+      where tn.phone_number = p_twilio_number
+    ),
+    (
+      select min(r.group_id::text)::uuid
+      from sms_routes r
+      join twilio_numbers tn on tn.id = r.twilio_number_id
+      where tn.phone_number = p_twilio_number
+      having count(distinct r.group_id) = 1
+    )
+  );
+$$ language sql security definer stable;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Note: Numbers are bought and released by the app with the service role,
+-- never written by users: a row's twilio_sid is what gets released
@@ -0,0 +1,264 @@
+-- BridgeChat Canonical SMS Participants
+-- A phone number is one SMS participant, shared by every app user who adds
+-- it. Each user's name for that person is kept as a nickname layered on
+-- top. Existing duplicates (the same phone added by different users) are
+-- merged into the oldest row, and group memberships, messages and
+-- deliveries are moved onto it.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- SMS Participant Nicknames: One app user's name for an SMS participant
+create table sms_participant_nicknames (
+  id uuid primary key default uuid_generate_v4(),
+  sms_participant_id uuid not null references sms_participants(id) on delete cascade,
+  user_id uuid not null references profiles(id) on delete cascade,
+  nickname text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index idx_sms_participant_nicknames_user
+  on sms_participant_nicknames(sms_participant_id, user_id);
+create index idx_sms_participant_nicknames_owner
+  on sms_participant_nicknames(user_id);
+
+-- ============================================================================
+-- MERGE DUPLICATES
+-- ============================================================================
+
+-- Every participant maps to the oldest participant with the same phone
+create temporary table sms_participant_merge on commit drop as
+select
+  id as participant_id,
+  first_value(id) over (
+    partition by phone_number order by created_at, id
+  ) as canonical_id
+from sms_participants;
+
+-- Each creator's name becomes their nickname for the canonical participant
+-- (the oldest row wins when a creator added the same phone twice)
+insert into sms_participant_nicknames (sms_participant_id, user_id, nickname, created_at)
+select distinct on (m.canonical_id, sp.created_by_user_id)
+  m.canonical_id, sp.created_by_user_id, sp.display_name, sp.created_at
+from sms_participants sp
+join sms_participant_merge m on m.participant_id = sp.id
+order by m.canonical_id, sp.created_by_user_id, sp.created_at;
+
+-- Group memberships: keep one per (group, canonical participant), preferring
+-- the canonical participant's own membership, then the earliest joined
+delete from group_members gm
+using (
+  select
+    gm.id,
+    row_number() over (
+      partition by gm.group_id, m.canonical_id
+      order by (gm.sms_participant_id = m.canonical_id) desc, gm.joined_at
+    ) as rank
+  from group_members gm
+  join sms_participant_merge m on m.participant_id = gm.sms_participant_id
+) ranked
+where gm.id = ranked.id
+  and ranked.rank > 1;
+
+update group_members gm
+set sms_participant_id = m.canonical_id
+from sms_participant_merge m
+where gm.sms_participant_id = m.participant_id
+  and m.participant_id <> m.canonical_id;
+
+-- Messages sent by a duplicate
+update messages msg
+set sender_sms_participant_id = m.canonical_id
+from sms_participant_merge m
+where msg.sender_sms_participant_id = m.participant_id
+  and m.participant_id <> m.canonical_id;
+
+-- Deliveries: one per (message, canonical recipient), keeping the
+-- canonical participant's own delivery, then the earliest
+delete from message_deliveries d
+using (
+  select
+    d.id,
+    row_number() over (
+      partition by d.message_id, m.canonical_id
+      order by (d.sms_participant_id = m.canonical_id) desc, d.created_at
+    ) as rank
+  from message_deliveries d
+  join sms_participant_merge m on m.participant_id = d.sms_participant_id
+) ranked
+where d.id = ranked.id
+  and ranked.rank > 1;
+
+update message_deliveries d
+set sms_participant_id = m.canonical_id
+from sms_participant_merge m
+where d.sms_participant_id = m.participant_id
+  and m.participant_id <> m.canonical_id;
+
+delete from sms_participants sp
+using sms_participant_merge m
+where sp.id = m.participant_id
+  and m.participant_id <> m.canonical_id;
+
+-- One participant per phone from here on
+drop index idx_sms_participants_phone;
+alter table sms_participants
+  add constraint sms_participants_phone_unique unique (phone_number);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Resolve a phone to its canonical SMS participant, creating it if needed,
+-- and save the caller's name for it as their nickname. Returns only the
+-- participant ID, so callers can't learn who else added the phone.
+create or replace function find_or_create_sms_participant(
+  p_phone_number text,
+  p_display_name text
+)
+returns uuid as $$
+declare
+  v_name text := coalesce(nullif(trim(p_display_name), ''), p_phone_number);
+  v_participant_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into sms_participants (phone_number, display_name, created_by_user_id)
+  values (p_phone_number, v_name, auth.uid())
+  on conflict on constraint sms_participants_phone_unique do nothing
+  returning id into v_participant_id;
+
+  if v_participant_id is null then
+    select sp.id into v_participant_id
+    from sms_participants sp
+    where sp.phone_number = p_phone_number;
+  end if;
+
+  insert into sms_participant_nicknames (sms_participant_id, user_id, nickname)
+  values (v_participant_id, auth.uid(), v_name)
+  on conflict (sms_participant_id, user_id)
+  do update set nickname = excluded.nickname, updated_at = now();
+
+  return v_participant_id;
+end;
+$$ language plpgsql security definer;
+
+-- Approving a sender (replaces 007): the approver's name for them is saved
+-- as a nickname, since the phone may already belong to a participant
+create or replace function approve_pending_sender(
+  p_group_id uuid,
+  p_phone_number text,
+  p_display_name text
+)
+returns uuid as $$
+declare
+  v_role group_member_role;
+  v_participant_id uuid;
+  v_pending pending_inbound%rowtype;
+  v_message_id uuid;
+begin
+  v_role := get_group_role(p_group_id, auth.uid());
+  if v_role is null or v_role not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can approve senders';
+  end if;
+
+  v_participant_id := find_or_create_sms_participant(p_phone_number, p_display_name);
+
+  insert into group_members (group_id, sms_participant_id)
+  values (p_group_id, v_participant_id)
+  on conflict do nothing;
+
+  -- Release held messages in the order they arrived
+  for v_pending in
+    select * from pending_inbound
+    where group_id = p_group_id
+      and phone_number = p_phone_number
+      and status = 'pending'
+    order by received_at
+  loop
+    insert into messages (
+      group_id, origin, content, sender_sms_participant_id,
+      twilio_message_sid, created_at
+    )
+    values (
+      p_group_id, 'sms', v_pending.body, v_participant_id,
+      v_pending.twilio_message_sid, v_pending.received_at
+    )
+    returning id into v_message_id;
+
+    insert into message_attachments (
+      message_id, group_id, storage_path, content_type, file_name, size_bytes
+    )
+    select
+      v_message_id,
+      p_group_id,
+      m->>'storage_path',
+      m->>'content_type',
+      m->>'file_name',
+      (m->>'size_bytes')::bigint
+    from jsonb_array_elements(v_pending.media) as m;
+
+    update pending_inbound
+    set status = 'approved',
+        resolved_at = now(),
+        resolved_by_user_id = auth.uid(),
+        message_id = v_message_id
+    where id = v_pending.id;
+  end loop;
+
+  return v_participant_id;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger set_sms_participant_nicknames_updated_at
+  before update on sms_participant_nicknames
+  for each row execute function update_updated_at_column();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table sms_participant_nicknames enable row level security;
+
+create policy "Users can view their own nicknames"
+  on sms_participant_nicknames for select
+  using (user_id = auth.uid());
+
+create policy "Users can create their own nicknames"
+  on sms_participant_nicknames for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update their own nicknames"
+  on sms_participant_nicknames for update
+  using (user_id = auth.uid());
+
+create policy "Users can delete their own nicknames"
+  on sms_participant_nicknames for delete
+  using (user_id = auth.uid());
+
+-- Participants a user has named are in their contacts, even when another
+-- user created them first
+create policy "Users can view SMS participants they have nicknamed"
+  on sms_participants for select
+  using (
+    exists (
+      select 1 from sms_participant_nicknames n
+      where n.sms_participant_id = sms_participants.id
+        and n.user_id = auth.uid()
+    )
+  );
+
+-- A participant is shared by everyone who added the phone, so no single
+-- user may change or delete it: names are per user nicknames, and
+-- participants are created through find_or_create_sms_participant
+drop policy "Users can create SMS participants" on sms_participants;
+drop policy "Users can update SMS participants they created" on sms_participants;
+drop policy "Users can delete SMS participants they created" on sms_participants;
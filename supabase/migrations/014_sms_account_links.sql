@@ -0,0 +1,193 @@
+-- BridgeChat SMS Account Links
+-- When an app user has verified a phone number that belongs to an SMS
+-- participant, they can take over that participant's memberships: they
+-- join the same groups, the texts they sent are attributed to their
+-- account, and SMS delivery to the number stops in favor of the app.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table profiles
+  -- Set once the user proves they own phone_number; cleared when it changes
+  add column phone_verified_at timestamptz;
+
+alter table sms_participants
+  -- The app account this phone was converted to
+  add column linked_user_id uuid references profiles(id) on delete set null;
+
+create index idx_sms_participants_linked_user
+  on sms_participants(linked_user_id) where linked_user_id is not null;
+
+-- SMS-origin messages keep their SMS sender and may also name the linked
+-- app account
+alter table messages drop constraint chk_sender_type;
+alter table messages add constraint chk_sender_type check (
+  (origin = 'app' and sender_user_id is not null and sender_sms_participant_id is null) or
+  (origin = 'sms' and sender_sms_participant_id is not null)
+);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Users can edit their own profile, but not mark their phone verified;
+-- changing the phone drops its verification
+create or replace function protect_phone_verification()
+returns trigger as $$
+begin
+  if current_user = 'authenticated' then
+    new.phone_verified_at := old.phone_verified_at;
+  end if;
+
+  if new.phone_number is distinct from old.phone_number then
+    new.phone_verified_at := null;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+-- Groups the caller's verified phone is an SMS member of
+create or replace function get_linkable_sms_groups()
+returns table (group_id uuid, group_name text, already_member boolean) as $$
+  select g.id, g.name, is_group_member(g.id, auth.uid())
+  from profiles p
+  join sms_participants sp on sp.phone_number = p.phone_number
+  join group_members gm on gm.sms_participant_id = sp.id
+  join groups g on g.id = gm.group_id
+  where p.id = auth.uid()
+    and p.phone_verified_at is not null
+  order by g.name;
+$$ language sql security definer stable;
+
+-- Convert the SMS participant with the caller's verified phone into the
+-- caller's account. Returns the number of groups joined.
+create or replace function link_sms_participant()
+returns integer as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_participant_id uuid;
+  v_joined integer;
+begin
+  select sp.id into v_participant_id
+  from profiles p
+  join sms_participants sp on sp.phone_number = p.phone_number
+  where p.id = v_user_id
+    and p.phone_verified_at is not null;
+
+  if v_participant_id is null then
+    raise exception 'No SMS participant matches your verified phone number';
+  end if;
+
+  -- Join their groups with the same role and join date
+  insert into group_members (group_id, user_id, role, joined_at)
+  select gm.group_id, v_user_id, gm.role, gm.joined_at
+  from group_members gm
+  where gm.sms_participant_id = v_participant_id
+  on conflict do nothing;
+
+  get diagnostics v_joined = row_count;
+
+  -- Their texts now show as sent by their account
+  update messages
+  set sender_user_id = v_user_id
+  where sender_sms_participant_id = v_participant_id;
+
+  -- The app replaces SMS delivery
+  delete from group_members
+  where sms_participant_id = v_participant_id;
+
+  update sms_participants
+  set linked_user_id = v_user_id
+  where id = v_participant_id;
+
+  return v_joined;
+end;
+$$ language plpgsql security definer;
+
+-- Approving a sender (replaces 013): a phone linked to an app account
+-- joins as that account, and its held texts are attributed to it
+create or replace function approve_pending_sender(
+  p_group_id uuid,
+  p_phone_number text,
+  p_display_name text
+)
+returns uuid as $$
+declare
+  v_role group_member_role;
+  v_participant_id uuid;
+  v_linked_user_id uuid;
+  v_pending pending_inbound%rowtype;
+  v_message_id uuid;
+begin
+  v_role := get_group_role(p_group_id, auth.uid());
+  if v_role is null or v_role not in ('owner', 'admin') then
+    raise exception 'Only group owners and admins can approve senders';
+  end if;
+
+  v_participant_id := find_or_create_sms_participant(p_phone_number, p_display_name);
+
+  select linked_user_id into v_linked_user_id
+  from sms_participants
+  where id = v_participant_id;
+
+  if v_linked_user_id is not null then
+    insert into group_members (group_id, user_id)
+    values (p_group_id, v_linked_user_id)
+    on conflict do nothing;
+  else
+    insert into group_members (group_id, sms_participant_id)
+    values (p_group_id, v_participant_id)
+    on conflict do nothing;
+  end if;
+
+  -- Release held messages in the order they arrived
+  for v_pending in
+    select * from pending_inbound
+    where group_id = p_group_id
+      and phone_number = p_phone_number
+      and status = 'pending'
+    order by received_at
+  loop
+    insert into messages (
+      group_id, origin, content, sender_sms_participant_id, sender_user_id,
+      twilio_message_sid, created_at
+    )
+    values (
+      p_group_id, 'sms', v_pending.body, v_participant_id, v_linked_user_id,
+      v_pending.twilio_message_sid, v_pending.received_at
+    )
+    returning id into v_message_id;
+
+    insert into message_attachments (
+      message_id, group_id, storage_path, content_type, file_name, size_bytes
+    )
+    select
+      v_message_id,
+      p_group_id,
+      m->>'storage_path',
+      m->>'content_type',
+      m->>'file_name',
+      (m->>'size_bytes')::bigint
+    from jsonb_array_elements(v_pending.media) as m;
+
+    update pending_inbound
+    set status = 'approved',
+        resolved_at = now(),
+        resolved_by_user_id = auth.uid(),
+        message_id = v_message_id
+    where id = v_pending.id;
+  end loop;
+
+  return v_participant_id;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger protect_phone_verification_on_update
+  before update on profiles
+  for each row execute function protect_phone_verification();
@@ -0,0 +1,128 @@
+-- BridgeChat Phone Verification
+-- Users prove they own a phone number by entering a 6-digit code texted to
+-- it. The send-verification-code function stores a hash of the code; the
+-- code is checked here, with an expiry and a limit on wrong guesses, and a
+-- correct code sets the profile's phone number and phone_verified_at.
+-- Codes sent and wrong guesses are also limited per phone number per day,
+-- across codes and accounts, so no one can guess their way into a phone.
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Phone Verifications: The latest code sent to each user
+create table phone_verifications (
+  user_id uuid primary key references profiles(id) on delete cascade,
+  phone_number text not null,
+  code_hash text not null, -- sha256 hex of '<user id>:<code>'
+  attempts integer not null default 0,
+  sent_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+
+  constraint phone_verifications_phone_format
+    check (phone_number ~ '^\+[1-9]\d{7,14}$')
+);
+
+-- Phone Verification Events: Codes sent and wrong guesses, kept after a
+-- code is replaced so daily limits can't be reset by asking for a new one
+create table phone_verification_events (
+  id uuid primary key default uuid_generate_v4(),
+  phone_number text not null,
+  user_id uuid references profiles(id) on delete set null,
+  kind text not null check (kind in ('code_sent', 'wrong_code')),
+  created_at timestamptz not null default now()
+);
+
+create index idx_phone_verification_events_phone
+  on phone_verification_events(phone_number, kind, created_at);
+create index idx_phone_verification_events_user
+  on phone_verification_events(user_id, kind, created_at);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Check a code for the caller's pending verification. Returns one of
+-- 'verified', 'incorrect', 'expired', 'too_many_attempts', 'phone_locked'
+-- or 'not_found'. Wrong guesses are counted, so this returns instead of
+-- raising.
+create or replace function verify_phone_code(p_phone_number text, p_code text)
+returns text as $$
+declare
+  v_max_attempts constant integer := 5;
+  -- Wrong guesses per phone per day, across codes and accounts
+  v_max_phone_attempts constant integer := 10;
+  v_verification phone_verifications%rowtype;
+begin
+  select * into v_verification
+  from phone_verifications
+  where user_id = auth.uid()
+    and phone_number = p_phone_number
+  for update;
+
+  if v_verification.user_id is null then
+    return 'not_found';
+  end if;
+
+  if v_verification.expires_at < now() then
+    return 'expired';
+  end if;
+
+  if v_verification.attempts >= v_max_attempts then
+    return 'too_many_attempts';
+  end if;
+
+  -- Serialize guesses for this phone so parallel requests share the limit
+  perform pg_advisory_xact_lock(hashtext('phone_verification:' || p_phone_number));
+
+  if (
+    select count(*) from phone_verification_events
+    where phone_number = p_phone_number
+      and kind = 'wrong_code'
+      and created_at > now() - interval '1 day'
+  ) >= v_max_phone_attempts then
+    return 'phone_locked';
+  end if;
+
+  if v_verification.code_hash <> encode(
+    extensions.digest(auth.uid()::text || ':' || p_code, 'sha256'),
+    'hex'
+  ) then
+    update phone_verifications
+    set attempts = attempts + 1
+    where user_id = auth.uid();
+
+    insert into phone_verification_events (phone_number, user_id, kind)
+    values (p_phone_number, auth.uid(), 'wrong_code');
+
+    return 'incorrect';
+  end if;
+
+  delete from phone_verifications where user_id = auth.uid();
+
+  -- A number is verified on one account at a time
+  update profiles
+  set phone_verified_at = null
+  where phone_number = p_phone_number
+    and id <> auth.uid();
+
+  -- Two steps: changing the number clears any earlier verification
+  update profiles set phone_number = p_phone_number where id = auth.uid();
+  update profiles set phone_verified_at = now() where id = auth.uid();
+
+  return 'verified';
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table phone_verifications enable row level security;
+alter table phone_verification_events enable row level security;
+
+-- Note: No policies. Codes and their events are written by the
+-- send-verification-code function (service role) and only checked
+-- through verify_phone_code.
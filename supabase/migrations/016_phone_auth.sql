@@ -0,0 +1,74 @@
+-- BridgeChat Phone Sign-In
+-- Users can sign up and sign in with a code texted to their phone
+-- (Supabase Auth's phone OTP provider). Such accounts may have no email;
+-- their profile gets the phone number, verified once the code is confirmed.
+-- Local development texts codes through a mock Auth hook (see seed.sql).
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Phone-only accounts have no email
+alter table profiles alter column email drop not null;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Create a profile for a new auth user (replaces 001): phone sign-ups
+-- have a phone and maybe no email. Auth stores phones without the '+'.
+create or replace function handle_new_user()
+returns trigger as $$
+declare
+  v_email text := nullif(new.email, '');
+  v_phone text := '+' || nullif(new.phone, '');
+begin
+  insert into public.profiles (id, email, phone_number, display_name, avatar_url)
+  values (
+    new.id,
+    v_email,
+    v_phone,
+    coalesce(
+      nullif(new.raw_user_meta_data->>'display_name', ''),
+      split_part(v_email, '@', 1),
+      v_phone
+    ),
+    new.raw_user_meta_data->>'avatar_url'
+  );
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Confirming a sign-in code proves the user owns the phone
+create or replace function handle_user_phone_confirmed()
+returns trigger as $$
+declare
+  v_phone text := '+' || nullif(new.phone, '');
+begin
+  if v_phone is null or new.phone_confirmed_at is null then
+    return new;
+  end if;
+
+  -- A number is verified on one account at a time
+  update public.profiles
+  set phone_verified_at = null
+  where phone_number = v_phone
+    and id <> new.id;
+
+  -- Two steps: changing the number clears any earlier verification
+  update public.profiles set phone_number = v_phone where id = new.id;
+  update public.profiles set phone_verified_at = new.phone_confirmed_at where id = new.id;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+create trigger on_auth_user_phone_confirmed
+  after update of phone_confirmed_at on auth.users
+  for each row
+  when (new.phone_confirmed_at is distinct from old.phone_confirmed_at)
+  execute function handle_user_phone_confirmed();
@@ -0,0 +1,136 @@
+-- BridgeChat Group Invitations
+-- Owners and admins invite people who may not have an account yet by
+-- email. The invitation link carries a token signed by the app; opening
+-- it after signing up or in adds the user to the group with the invited
+-- role.
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+create type invitation_status as enum (
+  'pending',   -- Link can be used
+  'accepted',  -- Used; the invitee joined the group
+  'revoked',   -- Withdrawn by an owner/admin
+  'expired'    -- Opened after expires_at (pending rows past expiry are also expired)
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Group Invitations: One invitation to join a group
+create table group_invitations (
+  id uuid primary key default uuid_generate_v4(),
+  group_id uuid not null references groups(id) on delete cascade,
+  email text not null, -- Lowercase
+  role group_member_role not null default 'member',
+  status invitation_status not null default 'pending',
+  invited_by_user_id uuid references profiles(id) on delete set null,
+  accepted_by_user_id uuid references profiles(id) on delete set null,
+  expires_at timestamptz not null default now() + interval '7 days',
+  resolved_at timestamptz, -- When accepted, revoked or found expired
+  created_at timestamptz not null default now(),
+
+  -- Ownership is transferred, never invited
+  constraint group_invitations_not_owner check (role <> 'owner'),
+  constraint group_invitations_email_lowercase check (email = lower(email))
+);
+
+-- One open invitation per email per group
+create unique index idx_group_invitations_pending
+  on group_invitations(group_id, email) where status = 'pending';
+create index idx_group_invitations_group on group_invitations(group_id, created_at desc);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Accept an email invitation as the caller, whose confirmed email must be
+-- the invited one (otherwise anyone could sign up with the invited address).
+-- Joining and using up the invitation happen together, so a failed join
+-- leaves the link usable. Returns the group ID.
+create or replace function accept_email_invitation(p_invitation_id uuid)
+returns uuid as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invitation group_invitations%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_invitation
+  from group_invitations
+  where id = p_invitation_id
+    and email is not null
+  for update;
+
+  if v_invitation.id is null then
+    raise exception 'Invitation not found';
+  end if;
+
+  if v_invitation.status <> 'pending' or v_invitation.expires_at <= now() then
+    raise exception 'This invitation can no longer be used';
+  end if;
+
+  if not exists (
+    select 1 from auth.users
+    where id = v_user_id
+      and lower(email) = v_invitation.email
+      and email_confirmed_at is not null
+  ) then
+    raise exception 'Confirm the email this invitation was sent to before accepting it';
+  end if;
+
+  insert into group_members (group_id, user_id, role)
+  values (v_invitation.group_id, v_user_id, v_invitation.role)
+  on conflict do nothing;
+
+  update group_invitations
+  set status = 'accepted',
+      accepted_by_user_id = v_user_id,
+      resolved_at = now()
+  where id = v_invitation.id;
+
+  return v_invitation.group_id;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table group_invitations enable row level security;
+
+create policy "Group owners and admins can view invitations"
+  on group_invitations for select
+  using (get_group_role(group_id, auth.uid()) in ('owner', 'admin'));
+
+-- Only owners can invite admins
+create policy "Group owners and admins can invite"
+  on group_invitations for insert
+  with check (
+    invited_by_user_id = auth.uid()
+    and (
+      get_group_role(group_id, auth.uid()) = 'owner'
+      or (get_group_role(group_id, auth.uid()) = 'admin' and role = 'member')
+    )
+  );
+
+-- Revoking is the only update: a pending invitation can only become
+-- revoked, and a revoked one can't be changed again
+create policy "Group owners and admins can revoke invitations"
+  on group_invitations for update
+  using (
+    status = 'pending'
+    and get_group_role(group_id, auth.uid()) in ('owner', 'admin')
+  )
+  with check (
+    status = 'revoked'
+    and get_group_role(group_id, auth.uid()) in ('owner', 'admin')
+  );
+
+-- Note: Invitees aren't members yet, so the /invite route reads
+-- invitations with the service role and accepts them through
+-- accept_email_invitation
@@ -0,0 +1,140 @@
+-- BridgeChat SMS Invitations
+-- Owners and admins can text an SMS participant a one-time link to move a
+-- group onto the app. The invitee signs up with the phone the link was
+-- texted to; accepting converts their SMS membership in that group into
+-- an app membership, and their earlier texts show as sent by the account.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- An invitation is for an email (017) or for an SMS participant
+alter table group_invitations alter column email drop not null;
+
+alter table group_invitations
+  add column sms_participant_id uuid references sms_participants(id) on delete cascade,
+  add column phone_number text; -- The participant's number when texted
+
+alter table group_invitations
+  add constraint group_invitations_one_invitee
+    check ((email is null) <> (sms_participant_id is null)),
+  add constraint group_invitations_sms_phone
+    check ((sms_participant_id is null) = (phone_number is null));
+
+-- One open invitation per SMS participant per group
+create unique index idx_group_invitations_pending_sms
+  on group_invitations(group_id, sms_participant_id)
+  where status = 'pending' and sms_participant_id is not null;
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Accept an SMS invitation as the caller. Their verified phone must be the
+-- invited participant's: they join the group with the participant's role
+-- and join date, the participant's texts to the group show as theirs, and
+-- the group stops texting them. Returns the group ID.
+create or replace function accept_sms_invitation(p_invitation_id uuid)
+returns uuid as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_invitation group_invitations%rowtype;
+  v_membership group_members%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_invitation
+  from group_invitations
+  where id = p_invitation_id
+    and sms_participant_id is not null
+  for update;
+
+  if v_invitation.id is null then
+    raise exception 'Invitation not found';
+  end if;
+
+  if v_invitation.status <> 'pending' or v_invitation.expires_at <= now() then
+    raise exception 'This invitation can no longer be used';
+  end if;
+
+  -- The invitation must have been texted to the participant's own phone
+  if not exists (
+    select 1 from sms_participants
+    where id = v_invitation.sms_participant_id
+      and phone_number = v_invitation.phone_number
+  ) then
+    raise exception 'This invitation can no longer be used';
+  end if;
+
+  if not exists (
+    select 1 from profiles
+    where id = v_user_id
+      and phone_number = v_invitation.phone_number
+      and phone_verified_at is not null
+  ) then
+    raise exception 'Sign in with the phone number this invitation was texted to';
+  end if;
+
+  select * into v_membership
+  from group_members
+  where group_id = v_invitation.group_id
+    and sms_participant_id = v_invitation.sms_participant_id;
+
+  insert into group_members (group_id, user_id, role, joined_at)
+  values (
+    v_invitation.group_id,
+    v_user_id,
+    coalesce(v_membership.role, v_invitation.role),
+    coalesce(v_membership.joined_at, now())
+  )
+  on conflict do nothing;
+
+  -- Their texts to this group now show as sent by their account
+  update messages
+  set sender_user_id = v_user_id
+  where group_id = v_invitation.group_id
+    and sender_sms_participant_id = v_invitation.sms_participant_id;
+
+  -- The app replaces SMS delivery in this group
+  delete from group_members
+  where group_id = v_invitation.group_id
+    and sms_participant_id = v_invitation.sms_participant_id;
+
+  -- Texts they still send from the phone post as their account
+  update sms_participants
+  set linked_user_id = v_user_id
+  where id = v_invitation.sms_participant_id;
+
+  update group_invitations
+  set status = 'accepted',
+      accepted_by_user_id = v_user_id,
+      resolved_at = now()
+  where id = v_invitation.id;
+
+  return v_invitation.group_id;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Replaces 017's policy. SMS invitations are only written by the
+-- send-sms-invitation edge function with the service role, so users can't
+-- invite a participant to a phone number of their choosing.
+drop policy "Group owners and admins can invite" on group_invitations;
+
+-- Only owners can invite admins
+create policy "Group owners and admins can invite"
+  on group_invitations for insert
+  with check (
+    invited_by_user_id = auth.uid()
+    and sms_participant_id is null
+    and phone_number is null
+    and (
+      get_group_role(group_id, auth.uid()) = 'owner'
+      or (get_group_role(group_id, auth.uid()) = 'admin' and role = 'member')
+    )
+  );
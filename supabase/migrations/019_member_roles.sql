@@ -0,0 +1,119 @@
+-- BridgeChat Member Roles
+-- Only the owner promotes members to admin and demotes admins, just as
+-- only owners invite admins. Roles change only through
+-- set_group_member_role, and ownership is never set directly: the owner
+-- transfers it with transfer_group_ownership. Every group keeps exactly
+-- one owner, so an owner can't leave (or have their account deleted)
+-- until they transfer ownership or delete the group.
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Make another app member the group's owner. The caller must be the
+-- owner and becomes an admin.
+create or replace function transfer_group_ownership(
+  p_group_id uuid,
+  p_new_owner_id uuid
+)
+returns void as $$
+begin
+  if get_group_role(p_group_id, auth.uid()) is distinct from 'owner' then
+    raise exception 'Only the group owner can transfer ownership';
+  end if;
+
+  if p_new_owner_id = auth.uid() then
+    raise exception 'You already own this group';
+  end if;
+
+  if not is_group_member(p_group_id, p_new_owner_id) then
+    raise exception 'The new owner must be a member of the group';
+  end if;
+
+  -- Checked at commit, so the group briefly having two owners is fine
+  update group_members
+  set role = 'owner'
+  where group_id = p_group_id and user_id = p_new_owner_id;
+
+  update group_members
+  set role = 'admin'
+  where group_id = p_group_id and user_id = auth.uid();
+end;
+$$ language plpgsql security definer;
+
+-- Change an app member's role between admin and member. Only the owner
+-- promotes and demotes. Only the role changes.
+create or replace function set_group_member_role(
+  p_group_id uuid,
+  p_user_id uuid,
+  p_role group_member_role
+)
+returns void as $$
+declare
+  v_caller_role group_member_role := get_group_role(p_group_id, auth.uid());
+  v_member_role group_member_role := get_group_role(p_group_id, p_user_id);
+begin
+  if p_role = 'owner' then
+    raise exception 'Use transfer_group_ownership to change the owner';
+  end if;
+
+  if v_member_role is null then
+    raise exception 'Not a member of this group';
+  end if;
+
+  if v_member_role = 'owner' then
+    raise exception 'The owner''s role changes only by transferring ownership';
+  end if;
+
+  if v_caller_role is distinct from 'owner' then
+    raise exception 'Only the group owner can change roles';
+  end if;
+
+  update group_members
+  set role = p_role
+  where group_id = p_group_id and user_id = p_user_id;
+end;
+$$ language plpgsql security definer;
+
+-- A group with members has exactly one owner (groups being deleted are skipped)
+create or replace function check_single_group_owner()
+returns trigger as $$
+declare
+  v_group_id uuid := coalesce(new.group_id, old.group_id);
+  v_owners integer;
+begin
+  if not exists (select 1 from groups where id = v_group_id) then
+    return null;
+  end if;
+
+  select count(*) into v_owners
+  from group_members
+  where group_id = v_group_id and role = 'owner';
+
+  if v_owners <> 1 then
+    raise exception 'A group must have exactly one owner'
+      using errcode = 'check_violation';
+  end if;
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- Deferred to commit so ownership can move in two statements
+create constraint trigger enforce_single_group_owner
+  after insert or update of role or delete on group_members
+  deferrable initially deferred
+  for each row execute function check_single_group_owner();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Replaces 001's owner-only policy. Members' rows aren't updated directly:
+-- roles change through set_group_member_role and transfer_group_ownership,
+-- so group_id, user_id and SMS opt-outs can't be rewritten.
+drop policy "Group owners can update member roles" on group_members;
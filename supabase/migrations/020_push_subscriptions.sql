@@ -0,0 +1,93 @@
+-- BridgeChat Push Notifications
+-- App users subscribe each browser they use to Web Push. Every new message
+-- notifies the group's app members except its sender: an insert trigger
+-- posts the message ID to the app's /api/push/notify route with pg_net,
+-- which sends the notifications.
+--
+-- The route is configured per database; the trigger does nothing until
+-- both settings are set:
+--   alter database postgres set app.push_notify_url = 'https://your-app/api/push/notify';
+--   alter database postgres set app.push_notify_secret = '<PUSH_NOTIFY_SECRET>';
+
+create extension if not exists pg_net with schema extensions;
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+-- Push Subscriptions: One browser subscribed to a user's notifications
+create table push_subscriptions (
+  id uuid primary key default uuid_generate_v4(),
+  user_id uuid not null references profiles(id) on delete cascade,
+  endpoint text not null unique, -- Push service URL; identifies the browser
+  p256dh text not null,          -- Browser's public key (base64url)
+  auth text not null,            -- Browser's auth secret (base64url)
+  user_agent text,
+  created_at timestamptz not null default now()
+);
+
+create index idx_push_subscriptions_user on push_subscriptions(user_id);
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Ask the app to send push notifications for a new message
+create or replace function notify_new_message_push()
+returns trigger as $$
+declare
+  v_url text := current_setting('app.push_notify_url', true);
+  v_secret text := current_setting('app.push_notify_secret', true);
+begin
+  if coalesce(v_url, '') = '' or coalesce(v_secret, '') = '' then
+    return null;
+  end if;
+
+  perform net.http_post(
+    url := v_url,
+    body := jsonb_build_object('messageId', new.id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_secret
+    )
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- TRIGGERS
+-- ============================================================================
+
+-- pg_net sends after the transaction commits, so the message is readable
+create trigger on_message_created_push
+  after insert on messages
+  for each row execute function notify_new_message_push();
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table push_subscriptions enable row level security;
+
+create policy "Users can view own push subscriptions"
+  on push_subscriptions for select
+  using (user_id = auth.uid());
+
+create policy "Users can add own push subscriptions"
+  on push_subscriptions for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update own push subscriptions"
+  on push_subscriptions for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can remove own push subscriptions"
+  on push_subscriptions for delete
+  using (user_id = auth.uid());
+
+-- Note: A browser that was subscribed under another account is moved to
+-- the new user with the service role, as is the notify route's reading of
+-- other members' subscriptions and removal of expired ones
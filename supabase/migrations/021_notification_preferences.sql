@@ -0,0 +1,46 @@
+-- BridgeChat Notification Preferences
+-- Each app member chooses how a group notifies them: every message, or
+-- only messages that mention them, and can mute the group until a given
+-- time. Members set their own preferences with
+-- set_group_notification_preferences, since group_members rows aren't
+-- updated directly.
+
+-- ============================================================================
+-- ENUMS
+-- ============================================================================
+
+create type notification_level as enum (
+  'all',      -- Every message
+  'mentions'  -- Only messages that @mention them
+);
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table group_members
+  add column notification_level notification_level not null default 'all',
+  add column notifications_muted_until timestamptz; -- No notifications until then
+
+-- ============================================================================
+-- FUNCTIONS
+-- ============================================================================
+
+-- Set the caller's notification preferences for a group
+create or replace function set_group_notification_preferences(
+  p_group_id uuid,
+  p_level notification_level,
+  p_muted_until timestamptz
+)
+returns void as $$
+begin
+  update group_members
+  set notification_level = p_level,
+      notifications_muted_until = p_muted_until
+  where group_id = p_group_id and user_id = auth.uid();
+
+  if not found then
+    raise exception 'You are not a member of this group';
+  end if;
+end;
+$$ language plpgsql security definer;
@@ -0,0 +1,17 @@
+-- BridgeChat Message Client IDs
+-- The app gives each message it sends an ID of its own before the first
+-- attempt. Messages queued offline are retried with the same ID, so a
+-- retry of a send that actually went through never creates a second
+-- message.
+
+-- ============================================================================
+-- TABLES
+-- ============================================================================
+
+alter table messages
+  add column client_id uuid; -- Idempotency key from the sending device (app messages)
+
+-- One message per client ID per sender
+create unique index idx_messages_client_id
+  on messages(sender_user_id, client_id)
+  where client_id is not null;
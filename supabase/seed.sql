@@ -0,0 +1,42 @@
+-- BridgeChat Local Development Seed
+-- Loaded by `supabase start` and `supabase db reset` only; never part of
+-- a hosted project's migrations.
+
+-- ============================================================================
+-- MOCK SMS SIGN-IN CODES
+-- ============================================================================
+
+-- Mock SMS Outbox: Sign-in codes "sent" in local development.
+-- The local Auth config (config.toml) routes its send_sms hook to
+-- mock_send_sms_hook below instead of a real SMS provider; read the codes
+-- here (e.g. in Studio).
+create table mock_sms_outbox (
+  id uuid primary key default uuid_generate_v4(),
+  phone_number text not null,
+  body text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Local development SMS sender for Supabase Auth (send_sms hook)
+create or replace function mock_send_sms_hook(event jsonb)
+returns jsonb as $$
+begin
+  insert into mock_sms_outbox (phone_number, body)
+  values (
+    '+' || (event->'user'->>'phone'),
+    'Your BridgeChat code is ' || (event->'sms'->>'otp')
+  );
+
+  raise log 'Mock SMS to +%: code %',
+    event->'user'->>'phone', event->'sms'->>'otp';
+
+  return '{}'::jsonb;
+end;
+$$ language plpgsql security definer;
+
+grant execute on function mock_send_sms_hook(jsonb) to supabase_auth_admin;
+revoke execute on function mock_send_sms_hook(jsonb) from authenticated, anon, public;
+
+alter table mock_sms_outbox enable row level security;
+
+-- Note: No policies. Only the Auth hook writes to the outbox.
@@ -0,0 +1,211 @@
+/**
+ * GroupPolicy Integration Tests
+ *
+ * Checks each role's allowed and denied group operations against a local
+ * Supabase: the policy's decisions, and that the database (RLS and RPCs)
+ * refuses the same operations when the policy is bypassed.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { GroupRepository } from "@/data/repositories";
+import { GroupPolicy, type PolicyDecision } from "@/application/services";
+import type { GroupId } from "@/domain/types";
+import {
+  createServiceTestClient,
+  createTestUser,
+  deleteTestUser,
+  hasLocalSupabase,
+  type TestUser,
+} from "./supabase";
+
+type Role = "owner" | "admin" | "member" | "outsider";
+
+const ROLES: Role[] = ["owner", "admin", "member", "outsider"];
+
+describe.skipIf(!hasLocalSupabase)("GroupPolicy (integration, needs a local Supabase)", () => {
+  const users = {} as Record<Role, TestUser>;
+  let groupId: GroupId;
+
+  beforeAll(async () => {
+    for (const role of ROLES) {
+      users[role] = await createTestUser(role);
+    }
+
+    const group = await new GroupRepository(users.owner.client).create({
+      name: "Policy test",
+      createdByUserId: users.owner.id,
+    });
+    groupId = group.id;
+
+    const serviceRepo = new GroupRepository(createServiceTestClient());
+    await serviceRepo.addUser(groupId, users.admin.id, "admin");
+    await serviceRepo.addUser(groupId, users.member.id, "member");
+  });
+
+  afterAll(async () => {
+    // The group goes first: an owner's account can't be deleted
+    if (groupId) {
+      await new GroupRepository(createServiceTestClient()).delete(groupId);
+    }
+    for (const user of Object.values(users)) {
+      await deleteTestUser(user);
+    }
+  });
+
+  function policyFor(role: Role): GroupPolicy {
+    return new GroupPolicy(new GroupRepository(users[role].client), users[role].id);
+  }
+
+  function repoFor(role: Role): GroupRepository {
+    return new GroupRepository(users[role].client);
+  }
+
+  async function roleOf(role: Role) {
+    return new GroupRepository(createServiceTestClient()).getUserRole(
+      groupId,
+      users[role].id
+    );
+  }
+
+  describe("decisions by role", () => {
+    // Expected outcome for owner, admin, member and outsider
+    const cases: [string, (policy: GroupPolicy) => Promise<PolicyDecision>, boolean[]][] = [
+      ["send messages", (p) => p.canSendMessages(groupId), [true, true, true, false]],
+      ["change notifications", (p) => p.canChangeNotifications(groupId), [true, true, true, false]],
+      ["update the group", (p) => p.canUpdateGroup(groupId), [true, true, false, false]],
+      ["delete the group", (p) => p.canDeleteGroup(groupId), [true, false, false, false]],
+      ["add members", (p) => p.canAddMembers(groupId), [true, true, false, false]],
+      [
+        "remove an SMS member",
+        (p) => p.canRemoveMember(groupId, { kind: "sms_participant" }),
+        [true, true, false, false],
+      ],
+      ["leave", (p) => p.canLeave(groupId), [false, true, true, false]],
+      ["review requests", (p) => p.canReviewRequests(groupId), [true, true, false, false]],
+      ["block for the group", (p) => p.canBlockNumber(groupId, "group"), [true, true, false, false]],
+      ["block for themselves", (p) => p.canBlockNumber(groupId, "user"), [true, true, true, false]],
+      ["invite members", (p) => p.canInvite(groupId, "member"), [true, true, false, false]],
+      ["invite admins", (p) => p.canInvite(groupId, "admin"), [true, false, false, false]],
+      ["invite owners", (p) => p.canInvite(groupId, "owner"), [false, false, false, false]],
+      ["manage invitations", (p) => p.canManageInvitations(groupId), [true, true, false, false]],
+      [
+        "transfer ownership",
+        (p) => p.canTransferOwnership(groupId, users.member.id),
+        [true, false, false, false],
+      ],
+    ];
+
+    for (const [operation, decide, expected] of cases) {
+      it.each(ROLES.map((role, i) => [role, expected[i]] as const))(
+        `${operation}: %s allowed = %s`,
+        async (role, allowed) => {
+          const decision = await decide(policyFor(role));
+          expect(decision.allowed).toBe(allowed);
+        }
+      );
+    }
+
+    it("gives non-members a not-a-member error", async () => {
+      const decision = await policyFor("outsider").canUpdateGroup(groupId);
+      expect(decision).toEqual({
+        allowed: false,
+        error: "You are not a member of this group",
+      });
+    });
+
+    it("lets owners and admins remove members but not the owner or themselves", async () => {
+      for (const role of ["owner", "admin"] as const) {
+        const policy = policyFor(role);
+        const member = { kind: "app_user", userId: users.member.id } as const;
+        const owner = { kind: "app_user", userId: users.owner.id } as const;
+        const self = { kind: "app_user", userId: users[role].id } as const;
+
+        expect((await policy.canRemoveMember(groupId, member)).allowed).toBe(true);
+        expect((await policy.canRemoveMember(groupId, owner)).allowed).toBe(false);
+        expect((await policy.canRemoveMember(groupId, self)).allowed).toBe(false);
+      }
+
+      const member = { kind: "app_user", userId: users.admin.id } as const;
+      expect((await policyFor("member").canRemoveMember(groupId, member)).allowed).toBe(false);
+    });
+
+    it("only lets the owner promote and demote", async () => {
+      const owner = policyFor("owner");
+      const admin = policyFor("admin");
+
+      expect((await owner.canChangeMemberRole(groupId, users.member.id, "admin")).allowed).toBe(true);
+      expect((await owner.canChangeMemberRole(groupId, users.admin.id, "member")).allowed).toBe(true);
+      expect((await owner.canChangeMemberRole(groupId, users.owner.id, "admin")).allowed).toBe(false);
+      expect((await owner.canChangeMemberRole(groupId, users.member.id, "owner")).allowed).toBe(false);
+
+      expect((await admin.canChangeMemberRole(groupId, users.member.id, "admin")).allowed).toBe(false);
+      expect((await admin.canChangeMemberRole(groupId, users.owner.id, "member")).allowed).toBe(false);
+
+      expect((await policyFor("member").canChangeMemberRole(groupId, users.admin.id, "member")).allowed).toBe(false);
+      expect((await policyFor("outsider").canChangeMemberRole(groupId, users.member.id, "admin")).allowed).toBe(false);
+    });
+
+    it("only allows transferring ownership to a member", async () => {
+      const decision = await policyFor("owner").canTransferOwnership(
+        groupId,
+        users.outsider.id
+      );
+      expect(decision.allowed).toBe(false);
+    });
+  });
+
+  describe("database enforcement", () => {
+    it("keeps members and outsiders from deleting the group", async () => {
+      for (const role of ["admin", "member", "outsider"] as const) {
+        await repoFor(role).delete(groupId);
+      }
+
+      const group = await new GroupRepository(createServiceTestClient()).getById(groupId);
+      expect(group).not.toBeNull();
+    });
+
+    it("keeps members and outsiders from renaming the group", async () => {
+      for (const role of ["member", "outsider"] as const) {
+        await expect(repoFor(role).update(groupId, { name: "Renamed" })).rejects.toThrow();
+      }
+    });
+
+    it("keeps members and outsiders from removing members", async () => {
+      for (const role of ["member", "outsider"] as const) {
+        await repoFor(role).removeUser(groupId, users.admin.id);
+      }
+
+      expect(await roleOf("admin")).toBe("admin");
+    });
+
+    it("only lets roles change the way the policy allows", async () => {
+      // Members can't change roles; no one makes an owner directly
+      await expect(
+        repoFor("member").updateUserRole(groupId, users.admin.id, "member")
+      ).rejects.toThrow();
+      await expect(
+        repoFor("admin").updateUserRole(groupId, users.owner.id, "member")
+      ).rejects.toThrow();
+
+      // Only the owner promotes and demotes, as only they invite admins
+      await expect(
+        repoFor("admin").updateUserRole(groupId, users.member.id, "admin")
+      ).rejects.toThrow();
+      expect(await roleOf("member")).toBe("member");
+
+      await repoFor("owner").updateUserRole(groupId, users.member.id, "admin");
+      expect(await roleOf("member")).toBe("admin");
+
+      await repoFor("owner").updateUserRole(groupId, users.member.id, "member");
+      expect(await roleOf("member")).toBe("member");
+    });
+
+    it("only lets the owner transfer ownership", async () => {
+      await expect(
+        repoFor("admin").transferOwnership(groupId, users.admin.id)
+      ).rejects.toThrow();
+
+      expect(await roleOf("owner")).toBe("owner");
+    });
+  });
+});
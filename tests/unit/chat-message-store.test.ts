@@ -0,0 +1,219 @@
+/**
+ * Chat Message Store Tests
+ */
+
+import { describe, expect, it, vi } from "vitest";
+import {
+  ChatMessageStore,
+  getOptimisticMessageId,
+} from "@/application/stores/chat-message-store";
+import {
+  asGroupId,
+  asMessageAttachmentId,
+  asMessageId,
+  asUserId,
+  type AppOriginMessage,
+  type Message,
+  type MessageAttachment,
+  type MessageCursor,
+} from "@/domain/types";
+
+const groupId = asGroupId("00000000-0000-4000-8000-000000000001");
+const userId = asUserId("00000000-0000-4000-8000-0000000000a1");
+
+function message(
+  id: string,
+  minute: number,
+  clientId: string | null = null
+): AppOriginMessage {
+  const createdAt = new Date(Date.UTC(2024, 4, 1, 12, minute));
+  return {
+    id: asMessageId(id),
+    groupId,
+    origin: "app",
+    senderUserId: userId,
+    content: `Message ${id}`,
+    attachments: [],
+    deliveryStatus: null,
+    twilioMessageSid: null,
+    clientId,
+    createdAt,
+    updatedAt: createdAt,
+  };
+}
+
+/** The optimistic copy of a message the user is sending */
+function optimistic(clientId: string, minute: number): AppOriginMessage {
+  return message(getOptimisticMessageId(clientId), minute, clientId);
+}
+
+function attachment(id: string, messageId: string): MessageAttachment {
+  return {
+    id: asMessageAttachmentId(id),
+    messageId: asMessageId(messageId),
+    groupId,
+    storagePath: `${groupId}/${id}.jpg`,
+    contentType: "image/jpeg",
+    fileName: null,
+    sizeBytes: 1024,
+    createdAt: new Date(),
+  };
+}
+
+function cursor(id: string): MessageCursor {
+  return { createdAt: "2024-05-01T12:00:00+00:00", id: asMessageId(id) };
+}
+
+function ids(store: ChatMessageStore): string[] {
+  return store.getSnapshot().messages.map((m) => m.id);
+}
+
+describe("ChatMessageStore", () => {
+  it("notifies subscribers of changes until they unsubscribe", () => {
+    const store = new ChatMessageStore([]);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.receiveMessage(message("m1", 1));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.receiveMessage(message("m2", 2));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("ignores messages it already has", () => {
+    const store = new ChatMessageStore([message("m1", 1)]);
+    const before = store.getSnapshot();
+
+    store.receiveMessage(message("m1", 1));
+
+    expect(store.getSnapshot()).toBe(before);
+  });
+
+  describe("optimistic messages", () => {
+    it("shows a message as sending until the real one arrives", () => {
+      const store = new ChatMessageStore([message("m1", 1)]);
+
+      store.addOptimistic(optimistic("c1", 2), []);
+      expect(ids(store)).toEqual(["m1", "optimistic:c1"]);
+      expect(store.getSnapshot().sends.get("c1")?.status).toBe("sending");
+
+      store.receiveMessage(message("m2", 2, "c1"));
+      expect(ids(store)).toEqual(["m1", "m2"]);
+      expect(store.getSnapshot().sends.has("c1")).toBe(false);
+    });
+
+    it("tracks failures and resends", () => {
+      const store = new ChatMessageStore([]);
+      store.addOptimistic(optimistic("c1", 1), []);
+
+      store.markFailed("c1", "No connection");
+      expect(store.getSnapshot().sends.get("c1")).toMatchObject({
+        status: "failed",
+        error: "No connection",
+        content: "Message optimistic:c1",
+      });
+
+      store.markSending("c1");
+      expect(store.getSnapshot().sends.get("c1")).toMatchObject({
+        status: "sending",
+        error: null,
+      });
+    });
+
+    it("removes a discarded message", () => {
+      const store = new ChatMessageStore([message("m1", 1)]);
+      store.addOptimistic(optimistic("c1", 2), []);
+
+      store.removeOptimistic("c1");
+
+      expect(ids(store)).toEqual(["m1"]);
+      expect(store.getSnapshot().sends.size).toBe(0);
+    });
+
+    it("ignores messages without a client ID", () => {
+      const store = new ChatMessageStore([]);
+      store.addOptimistic(message("m1", 1), []);
+      expect(ids(store)).toEqual([]);
+    });
+  });
+
+  describe("reset", () => {
+    it("keeps older history and unconfirmed sends around the new page", () => {
+      const store = new ChatMessageStore([message("m2", 2), message("m3", 3)], cursor("m2"));
+      store.prependOlder({ messages: [message("m1", 1)], olderCursor: null });
+      store.addOptimistic(optimistic("c1", 5), []);
+      store.addOptimistic(optimistic("c2", 6), []);
+
+      // The refreshed page includes c1's real message but not yet c2's
+      store.reset([message("m3", 3), message("m4", 4, "c1")], cursor("m3"));
+
+      expect(ids(store)).toEqual(["m1", "m2", "m3", "m4", "optimistic:c2"]);
+      expect([...store.getSnapshot().sends.keys()]).toEqual(["c2"]);
+      // History above the page is already loaded back to the start
+      expect(store.getSnapshot().olderCursor).toBeNull();
+    });
+
+    it("takes the page's cursor when no older history is loaded", () => {
+      const store = new ChatMessageStore([message("m2", 2)], cursor("m2"));
+
+      store.reset([message("m2", 2), message("m3", 3)], cursor("m2b"));
+
+      expect(ids(store)).toEqual(["m2", "m3"]);
+      expect(store.getSnapshot().olderCursor).toEqual(cursor("m2b"));
+    });
+  });
+
+  describe("prependOlder", () => {
+    it("adds older messages above, skipping ones already loaded", () => {
+      const store = new ChatMessageStore([message("m2", 2), message("m3", 3)], cursor("m2"));
+
+      store.prependOlder({
+        messages: [message("m1", 1), message("m2", 2)],
+        olderCursor: cursor("m1"),
+      });
+
+      expect(ids(store)).toEqual(["m1", "m2", "m3"]);
+      expect(store.getSnapshot().olderCursor).toEqual(cursor("m1"));
+    });
+  });
+
+  describe("updates", () => {
+    it("keeps loaded attachments when a message is updated", () => {
+      const store = new ChatMessageStore([
+        { ...message("m1", 1), attachments: [attachment("a1", "m1")] },
+      ]);
+
+      store.updateMessage({ ...message("m1", 1), deliveryStatus: "delivered" });
+
+      const [updated] = store.getSnapshot().messages as AppOriginMessage[];
+      expect(updated.deliveryStatus).toBe("delivered");
+      expect(updated.attachments.map((a) => a.id)).toEqual(["a1"]);
+    });
+
+    it("adds attachments once, holding early ones until their message arrives", () => {
+      const store = new ChatMessageStore([]);
+
+      store.receiveAttachment(attachment("a1", "m1"));
+      store.receiveAttachment(attachment("a1", "m1"));
+      expect(ids(store)).toEqual([]);
+
+      store.receiveMessage(message("m1", 1));
+      store.receiveAttachment(attachment("a2", "m1"));
+      store.receiveAttachment(attachment("a2", "m1"));
+
+      const [received] = store.getSnapshot().messages as Message[];
+      expect(received.attachments.map((a) => a.id)).toEqual(["a1", "a2"]);
+    });
+
+    it("takes attachments from a send result realtime already delivered", () => {
+      const store = new ChatMessageStore([message("m1", 1)]);
+
+      store.receiveMessage({ ...message("m1", 1), attachments: [attachment("a1", "m1")] });
+
+      const [received] = store.getSnapshot().messages;
+      expect(received.attachments.map((a) => a.id)).toEqual(["a1"]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * GroupPolicy Unit Tests
+ *
+ * Each role's decisions, with roles served by an in-memory repository.
+ * The database's enforcement of the same rules is covered by the
+ * integration tests.
+ */
+
+import { describe, expect, it } from "vitest";
+import { GroupPolicy, type PolicyDecision } from "@/application/services/group-policy";
+import type { GroupRepository } from "@/data/repositories";
+import {
+  asBlockedNumberId,
+  asE164PhoneNumber,
+  asGroupId,
+  asUserId,
+  type BlockedNumber,
+  type GroupMemberRole,
+  type UserId,
+} from "@/domain/types";
+
+type Role = "owner" | "admin" | "member" | "outsider";
+
+const ROLES: Role[] = ["owner", "admin", "member", "outsider"];
+
+const groupId = asGroupId("00000000-0000-4000-8000-000000000001");
+const otherGroupId = asGroupId("00000000-0000-4000-8000-000000000002");
+
+const users: Record<Role, UserId> = {
+  owner: asUserId("00000000-0000-4000-8000-0000000000a1"),
+  admin: asUserId("00000000-0000-4000-8000-0000000000a2"),
+  member: asUserId("00000000-0000-4000-8000-0000000000a3"),
+  outsider: asUserId("00000000-0000-4000-8000-0000000000a4"),
+};
+
+const memberRoles = new Map<UserId, GroupMemberRole>([
+  [users.owner, "owner"],
+  [users.admin, "admin"],
+  [users.member, "member"],
+]);
+
+/** Serves the group's roles; the policy only reads memberships */
+const groupRepo = {
+  async getUserRole(id: string, userId: UserId) {
+    return id === groupId ? memberRoles.get(userId) ?? null : null;
+  },
+  async isMember(id: string, userId: UserId) {
+    return id === groupId && memberRoles.has(userId);
+  },
+} as unknown as GroupRepository;
+
+function policyFor(role: Role): GroupPolicy {
+  return new GroupPolicy(groupRepo, users[role]);
+}
+
+describe("GroupPolicy", () => {
+  describe("decisions by role", () => {
+    // Expected outcome for owner, admin, member and outsider
+    const cases: [string, (policy: GroupPolicy) => Promise<PolicyDecision>, boolean[]][] = [
+      ["send messages", (p) => p.canSendMessages(groupId), [true, true, true, false]],
+      ["change notifications", (p) => p.canChangeNotifications(groupId), [true, true, true, false]],
+      ["update the group", (p) => p.canUpdateGroup(groupId), [true, true, false, false]],
+      ["delete the group", (p) => p.canDeleteGroup(groupId), [true, false, false, false]],
+      ["add members", (p) => p.canAddMembers(groupId), [true, true, false, false]],
+      [
+        "remove an SMS member",
+        (p) => p.canRemoveMember(groupId, { kind: "sms_participant" }),
+        [true, true, false, false],
+      ],
+      ["leave", (p) => p.canLeave(groupId), [false, true, true, false]],
+      ["review requests", (p) => p.canReviewRequests(groupId), [true, true, false, false]],
+      ["block for the group", (p) => p.canBlockNumber(groupId, "group"), [true, true, false, false]],
+      ["block for themselves", (p) => p.canBlockNumber(groupId, "user"), [true, true, true, false]],
+      ["invite members", (p) => p.canInvite(groupId, "member"), [true, true, false, false]],
+      ["invite admins", (p) => p.canInvite(groupId, "admin"), [true, false, false, false]],
+      ["invite owners", (p) => p.canInvite(groupId, "owner"), [false, false, false, false]],
+      ["manage invitations", (p) => p.canManageInvitations(groupId), [true, true, false, false]],
+      [
+        "retry someone else's message",
+        (p) => p.canRetryDelivery(groupId, users.outsider),
+        [true, true, false, false],
+      ],
+      [
+        "transfer ownership",
+        (p) => p.canTransferOwnership(groupId, users.member),
+        [true, false, false, false],
+      ],
+    ];
+
+    for (const [operation, decide, expected] of cases) {
+      it.each(ROLES.map((role, i) => [role, expected[i]] as const))(
+        `${operation}: %s allowed = %s`,
+        async (role, allowed) => {
+          const decision = await decide(policyFor(role));
+          expect(decision.allowed).toBe(allowed);
+        }
+      );
+    }
+  });
+
+  it("gives non-members a not-a-member error", async () => {
+    expect(await policyFor("outsider").canUpdateGroup(groupId)).toEqual({
+      allowed: false,
+      error: "You are not a member of this group",
+    });
+  });
+
+  it("carries the caller's role on allowed decisions", async () => {
+    expect(await policyFor("admin").canAddMembers(groupId)).toEqual({
+      allowed: true,
+      role: "admin",
+    });
+  });
+
+  it("treats members of one group as outsiders in another", async () => {
+    const decision = await policyFor("owner").canSendMessages(otherGroupId);
+    expect(decision.allowed).toBe(false);
+  });
+
+  it("only lets members retry messages they sent, unless they manage the group", async () => {
+    const member = policyFor("member");
+    expect((await member.canRetryDelivery(groupId, users.member)).allowed).toBe(true);
+    expect((await member.canRetryDelivery(groupId, users.admin)).allowed).toBe(false);
+  });
+
+  it("lets owners and admins remove members but not the owner or themselves", async () => {
+    for (const role of ["owner", "admin"] as const) {
+      const policy = policyFor(role);
+
+      const member = { kind: "app_user", userId: users.member } as const;
+      const owner = { kind: "app_user", userId: users.owner } as const;
+      const self = { kind: "app_user", userId: users[role] } as const;
+
+      expect((await policy.canRemoveMember(groupId, member)).allowed).toBe(true);
+      expect((await policy.canRemoveMember(groupId, owner)).allowed).toBe(false);
+      expect((await policy.canRemoveMember(groupId, self)).allowed).toBe(false);
+    }
+
+    const admin = { kind: "app_user", userId: users.admin } as const;
+    expect((await policyFor("member").canRemoveMember(groupId, admin)).allowed).toBe(false);
+  });
+
+  it("only lets the owner promote and demote, like inviting admins", async () => {
+    const owner = policyFor("owner");
+    const admin = policyFor("admin");
+
+    expect((await owner.canChangeMemberRole(groupId, users.member, "admin")).allowed).toBe(true);
+    expect((await owner.canChangeMemberRole(groupId, users.admin, "member")).allowed).toBe(true);
+    expect((await owner.canChangeMemberRole(groupId, users.member, "owner")).allowed).toBe(false);
+
+    expect((await admin.canChangeMemberRole(groupId, users.member, "admin")).allowed).toBe(false);
+    expect((await admin.canChangeMemberRole(groupId, users.owner, "member")).allowed).toBe(false);
+    expect((await policyFor("member").canChangeMemberRole(groupId, users.admin, "member")).allowed).toBe(false);
+  });
+
+  it("refuses role changes for yourself and for non-members", async () => {
+    const owner = policyFor("owner");
+
+    expect(await owner.canChangeMemberRole(groupId, users.owner, "admin")).toEqual({
+      allowed: false,
+      error: "You cannot change your own role",
+    });
+    expect(await owner.canChangeMemberRole(groupId, users.outsider, "admin")).toEqual({
+      allowed: false,
+      error: "Not a member of this group",
+    });
+  });
+
+  it("only allows transferring ownership to another member", async () => {
+    const owner = policyFor("owner");
+
+    expect((await owner.canTransferOwnership(groupId, users.outsider)).allowed).toBe(false);
+    expect((await owner.canTransferOwnership(groupId, users.owner)).allowed).toBe(false);
+  });
+
+  it("lets users remove their own blocks, and owners and admins the group's", async () => {
+    const block = (scope: "group" | "user", userId: UserId | null): BlockedNumber => ({
+      id: asBlockedNumberId("00000000-0000-4000-8000-0000000000b1"),
+      phoneNumber: asE164PhoneNumber("+15555550100"),
+      groupId: scope === "group" ? groupId : null,
+      userId,
+      blockedByUserId: userId,
+      createdAt: new Date(),
+    });
+
+    const member = policyFor("member");
+    expect((await member.canUnblockNumber(groupId, block("user", users.member))).allowed).toBe(true);
+    expect((await member.canUnblockNumber(groupId, block("user", users.admin))).allowed).toBe(false);
+    expect((await member.canUnblockNumber(groupId, block("group", null))).allowed).toBe(false);
+    expect((await policyFor("admin").canUnblockNumber(groupId, block("group", null))).allowed).toBe(true);
+  });
+});
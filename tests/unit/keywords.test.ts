@@ -0,0 +1,49 @@
+/**
+ * SMS Compliance Keyword Tests
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  complianceReply,
+  parseComplianceKeyword,
+} from "../../supabase/functions/_shared/keywords";
+
+describe("parseComplianceKeyword", () => {
+  it.each([
+    ["STOP", "stop"],
+    ["stop", "stop"],
+    ["  Stop. ", "stop"],
+    ["UNSUBSCRIBE", "stop"],
+    ["arrêt", "stop"],
+    ["Parar!", "stop"],
+    ["START", "start"],
+    ["unstop", "start"],
+    ["Démarrer", "start"],
+    ["HELP", "help"],
+    ["info?", "help"],
+    ["Ayuda", "help"],
+  ])("reads %j as %s", (body, keyword) => {
+    expect(parseComplianceKeyword(body)).toBe(keyword);
+  });
+
+  it.each([
+    "stop by later",
+    "Can't stop now",
+    "yes",
+    "hello",
+    "",
+    "   ",
+    "!!!",
+  ])("treats %j as an ordinary message", (body) => {
+    expect(parseComplianceKeyword(body)).toBeNull();
+  });
+});
+
+describe("complianceReply", () => {
+  it("names the group and how to opt back in or out", () => {
+    expect(complianceReply("stop", "Book Club")).toContain('"Book Club"');
+    expect(complianceReply("stop", "Book Club")).toContain("START");
+    expect(complianceReply("start", "Book Club")).toContain("STOP");
+    expect(complianceReply("help", "Book Club")).toContain("STOP");
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Message Validator Tests
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  mentionsName,
+  validateClientMessageId,
+  validateMessageCursor,
+} from "@/domain/validators/message";
+
+const MESSAGE_ID = "3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b";
+
+describe("mentionsName", () => {
+  it("matches the full display name or its first word", () => {
+    expect(mentionsName("@Sam Lee are you coming?", "Sam Lee")).toBe(true);
+    expect(mentionsName("thanks @Sam", "Sam Lee")).toBe(true);
+  });
+
+  it("ignores case", () => {
+    expect(mentionsName("hey @sam", "Sam Lee")).toBe(true);
+  });
+
+  it("allows punctuation after the name", () => {
+    expect(mentionsName("@Sam, see you", "Sam")).toBe(true);
+    expect(mentionsName("see you @Sam!", "Sam")).toBe(true);
+  });
+
+  it("doesn't match other names that start the same way", () => {
+    expect(mentionsName("@Samantha hi", "Sam")).toBe(false);
+    expect(mentionsName("@Zoë hi", "Zo")).toBe(false);
+  });
+
+  it("needs the @ at the start of a word", () => {
+    expect(mentionsName("email sam@example.com", "example")).toBe(false);
+    expect(mentionsName("Sam is here", "Sam")).toBe(false);
+  });
+
+  it("treats names as text, not patterns", () => {
+    expect(mentionsName("@J.R. hello", "J.R.")).toBe(true);
+    expect(mentionsName("@JxR hello", "J.R")).toBe(false);
+  });
+
+  it("never matches an empty name", () => {
+    expect(mentionsName("@ hello", "")).toBe(false);
+    expect(mentionsName("@ hello", "   ")).toBe(false);
+  });
+});
+
+describe("validateClientMessageId", () => {
+  it("accepts a UUID and lowercases it", () => {
+    expect(validateClientMessageId(MESSAGE_ID.toUpperCase())).toEqual({
+      success: true,
+      value: MESSAGE_ID,
+    });
+  });
+
+  it.each(["", "not-a-uuid", `${MESSAGE_ID}0`, ` ${MESSAGE_ID}`, "3f2b8c1e9a4d4e6f8b7a1c2d3e4f5a6b"])(
+    "rejects %j",
+    (input) => {
+      expect(validateClientMessageId(input)).toEqual({
+        success: false,
+        error: "Invalid message ID",
+      });
+    }
+  );
+});
+
+describe("validateMessageCursor", () => {
+  it.each([
+    "2024-05-01T12:34:56.123456+00:00",
+    "2024-05-01 12:34:56.123456+00",
+    "2024-05-01T12:34:56Z",
+    "2024-05-01T12:34:56-07:00",
+  ])("accepts the timestamp %s", (createdAt) => {
+    expect(validateMessageCursor({ createdAt, id: MESSAGE_ID })).toEqual({
+      success: true,
+      value: { createdAt, id: MESSAGE_ID },
+    });
+  });
+
+  it.each([
+    { createdAt: "2024-05-01", id: MESSAGE_ID },
+    { createdAt: "2024-05-01T12:34:56", id: MESSAGE_ID },
+    { createdAt: "2024-05-01T12:34:56Z),(id.gt.0", id: MESSAGE_ID },
+    { createdAt: "2024-05-01T12:34:56Z", id: "1" },
+    { createdAt: 1714566896000, id: MESSAGE_ID },
+  ])("rejects %j", (cursor) => {
+    expect(
+      validateMessageCursor(cursor as unknown as { createdAt: string; id: string })
+    ).toEqual({ success: false, error: "Invalid message cursor" });
+  });
+
+  it("rejects a missing cursor", () => {
+    expect(
+      validateMessageCursor(null as unknown as { createdAt: string; id: string }).success
+    ).toBe(false);
+  });
+});
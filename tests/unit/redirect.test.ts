@@ -0,0 +1,34 @@
+/**
+ * Redirect Helper Tests
+ */
+
+import { describe, expect, it } from "vitest";
+import { getSafeRedirectPath } from "@/lib/redirect";
+
+describe("getSafeRedirectPath", () => {
+  it.each([
+    ["/chats", "/chats"],
+    ["/chats/123?tab=settings#members", "/chats/123?tab=settings#members"],
+    ["/invite/abc.def", "/invite/abc.def"],
+    ["/chats/../settings", "/settings"],
+  ])("keeps the app path %j", (next, expected) => {
+    expect(getSafeRedirectPath(next)).toBe(expected);
+  });
+
+  it.each([
+    null,
+    undefined,
+    "",
+    "chats",
+    "https://evil.com",
+    "//evil.com",
+    "/\\evil.com",
+    "/\t/evil.com",
+    "/\n/evil.com",
+    "/\r/evil.com",
+    "/chats\u0000",
+    "javascript:alert(1)",
+  ])("rejects %j", (next) => {
+    expect(getSafeRedirectPath(next)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Twilio Error Classification Tests
+ */
+
+import { describe, expect, it } from "vitest";
+import { isRetryableTwilioError } from "@/lib/twilio-errors";
+
+describe("isRetryableTwilioError", () => {
+  it.each(["20429", "20500", "20503", "30001", "30003", "30008", "30017", "30022"])(
+    "retries error %s",
+    (code) => {
+      expect(isRetryableTwilioError(code)).toBe(true);
+    }
+  );
+
+  it.each(["21211", "21610", "21614", "30004", "30005", "30006", "30007"])(
+    "doesn't retry error %s",
+    (code) => {
+      expect(isRetryableTwilioError(code)).toBe(false);
+    }
+  );
+
+  it("goes by the error code over the HTTP status", () => {
+    expect(isRetryableTwilioError("21211", 500)).toBe(false);
+    expect(isRetryableTwilioError("20429", 400)).toBe(true);
+  });
+
+  it("retries 429 and 5xx responses without a code", () => {
+    expect(isRetryableTwilioError(null, 429)).toBe(true);
+    expect(isRetryableTwilioError(null, 500)).toBe(true);
+    expect(isRetryableTwilioError(null, 503)).toBe(true);
+    expect(isRetryableTwilioError(null, 400)).toBe(false);
+    expect(isRetryableTwilioError(null, 404)).toBe(false);
+  });
+
+  it("retries failures that never got a response", () => {
+    expect(isRetryableTwilioError(null)).toBe(true);
+  });
+});